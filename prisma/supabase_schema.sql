@@ -28,6 +28,8 @@ create table if not exists "Users" (
   name text,
   phone text,
   email_verified boolean not null default false,
+  tier text not null default 'standard',
+  "withdrawWhitelistOnly" boolean not null default false,
   "referralCode" text unique,
   referredById integer,
   constraint users_referredby_fk foreign key (referredById) references "Users"(id)
@@ -48,7 +50,7 @@ create table if not exists "Balances" (
   id uuid primary key default gen_random_uuid(),
   userId integer not null,
   currency text not null,
-  amount numeric(18,4) not null default 0.0000,
+  amount numeric(38,18) not null default 0,
   lock numeric(38,18) not null default 0,
   updatedAt timestamptz not null default now(),
   constraint balances_user_fk foreign key (userId) references "Users"(id)
@@ -79,6 +81,13 @@ create table if not exists "Transactions" (
   txId text not null,
   createdAt timestamptz not null default now(),
   type text not null,
+  rate numeric(38,18),
+  fee numeric(38,18),
+  "originalAmount" numeric(38,18),
+  "originalCurrency" text,
+  "usdRate" numeric(38,18),
+  "usdValue" numeric(38,18),
+  "rateSource" text,
   constraint transactions_user_fk foreign key (userId) references "Users"(id)
 );
 
@@ -87,7 +96,8 @@ create table if not exists "Deposits" (
   id serial primary key,
   "userId" integer not null,
   "orderId" text unique not null,
-  "txHash" text unique not null,
+  "txHash" text not null,
+  "transferIndex" integer not null default 0,
   "fromAddress" text,
   "toAddress" text not null,
   currency text not null,
@@ -102,11 +112,14 @@ create table if not exists "Deposits" (
   "createdAt" timestamptz not null default now(),
   "updatedAt" timestamptz not null default now(),
   "confirmedAt" timestamptz,
+  "sweptAt" timestamptz,
+  "sweepTxHash" text,
   constraint deposits_user_fk foreign key ("userId") references "Users"(id)
 );
 create index if not exists deposits_user_id_idx on "Deposits" ("userId");
 create index if not exists deposits_status_idx on "Deposits" (status);
 create index if not exists deposits_created_at_idx on "Deposits" ("createdAt");
+create unique index if not exists deposits_tx_transfer_idx on "Deposits" ("txHash", "transferIndex");
 
 -- Bets
 create table if not exists "Bets" (
@@ -114,11 +127,11 @@ create table if not exists "Bets" (
   txHash text unique,
   player text,
   token text not null,
-  amount double precision not null,
+  amount numeric(38,18) not null,
   direction text not null,
   result text,
   status text not null,
-  payout double precision,
+  payout numeric(38,18),
   blockNum integer not null,
   createdAt timestamptz not null default now(),
   game integer not null,
@@ -169,7 +182,7 @@ create table if not exists "Payouts" (
   to text,
   status text not null,
   currency text not null,
-  amount integer not null,
+  amount numeric(38,18) not null,
   userId integer
 );
 
@@ -203,7 +216,7 @@ create table if not exists "ReferralBonuses" (
   id serial primary key,
   userId integer not null,
   fromUserId integer not null,
-  amount integer not null,
+  amount numeric(38,18) not null,
   currency text not null,
   status text not null default 'pending',
   triggerType text not null default 'deposit',
@@ -293,8 +306,22 @@ create table if not exists "WithdrawRequests" (
   currency text not null,
   blockchain text not null,
   status text not null,
-  amount integer not null,
-  userId integer
+  amount numeric(38,18) not null,
+  userId integer,
+  "cryptoAmount" numeric(38,18),
+  "networkFee" numeric(38,18),
+  "platformFee" numeric(38,18),
+  "netAmount" numeric(38,18),
+  memo text,
+  "txHash" text,
+  fee numeric(38,18),
+  "feeCurrency" text,
+  confirmations integer not null default 0,
+  "failureReason" text,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now(),
+  "broadcastAt" timestamptz,
+  "confirmedAt" timestamptz
 );
 
 -- Wagers
@@ -320,9 +347,274 @@ create table if not exists "Wagers" (
   payload jsonb
 );
 
+-- LedgerAccounts
+create table if not exists "LedgerAccounts" (
+  id serial primary key,
+  code text not null unique,
+  type text not null,
+  "userId" integer,
+  currency text not null,
+  "createdAt" timestamptz not null default now(),
+  constraint ledger_accounts_user_fk foreign key ("userId") references "Users"(id)
+);
+create index if not exists ledger_accounts_user_idx on "LedgerAccounts" ("userId");
+
+-- LedgerEntries
+create table if not exists "LedgerEntries" (
+  id serial primary key,
+  "journalId" text not null,
+  "accountId" integer not null,
+  "userId" integer,
+  currency text not null,
+  debit numeric(38,18) not null default 0,
+  credit numeric(38,18) not null default 0,
+  "refType" text not null,
+  "refId" text,
+  description text,
+  "createdAt" timestamptz not null default now(),
+  constraint ledger_entries_account_fk foreign key ("accountId") references "LedgerAccounts"(id)
+);
+create index if not exists ledger_entries_journal_idx on "LedgerEntries" ("journalId");
+create index if not exists ledger_entries_account_idx on "LedgerEntries" ("accountId");
+create index if not exists ledger_entries_user_currency_idx on "LedgerEntries" ("userId", currency);
+create index if not exists ledger_entries_ref_idx on "LedgerEntries" ("refType", "refId");
+
+-- FundHolds
+create table if not exists "FundHolds" (
+  id serial primary key,
+  "userId" integer not null,
+  currency text not null,
+  amount numeric(38,18) not null,
+  status text not null default 'held',
+  "refType" text not null,
+  "refId" text,
+  description text,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now(),
+  constraint fund_holds_user_fk foreign key ("userId") references "Users"(id)
+);
+create index if not exists fund_holds_user_status_idx on "FundHolds" ("userId", status);
+create index if not exists fund_holds_ref_idx on "FundHolds" ("refType", "refId");
+
+-- ReconciliationReports
+create table if not exists "ReconciliationReports" (
+  id serial primary key,
+  status text not null,
+  "assetsUsd" numeric(38,18) not null,
+  "liabilitiesUsd" numeric(38,18) not null,
+  "driftUsd" numeric(38,18) not null,
+  "thresholdUsd" numeric(38,18) not null,
+  assets jsonb not null default '[]'::jsonb,
+  liabilities jsonb not null default '[]'::jsonb,
+  errors jsonb not null default '[]'::jsonb,
+  "createdAt" timestamptz not null default now()
+);
+create index if not exists reconciliation_reports_created_idx on "ReconciliationReports" ("createdAt");
+
+-- IdempotencyKeys
+create table if not exists "IdempotencyKeys" (
+  id serial primary key,
+  "userId" integer not null,
+  key text not null,
+  method text not null,
+  path text not null,
+  fingerprint text not null,
+  owner text not null default '',
+  status text not null default 'processing',
+  "leaseExpiresAt" timestamptz not null default now(),
+  "responseCode" integer,
+  "responseBody" jsonb,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+create unique index if not exists idempotency_keys_user_key_uq on "IdempotencyKeys" ("userId", key);
+
+-- ExchangeQuotes
+create table if not exists "ExchangeQuotes" (
+  id uuid primary key default gen_random_uuid(),
+  "userId" integer not null,
+  "fromCurrency" text not null,
+  "toCurrency" text not null,
+  amount numeric(38,18) not null,
+  rate numeric(38,18) not null,
+  "marketRate" numeric(38,18) not null,
+  fee numeric(38,18) not null default 0,
+  "outputAmount" numeric(38,18) not null,
+  status text not null default 'open',
+  "expiresAt" timestamptz not null,
+  "executedAt" timestamptz,
+  "createdAt" timestamptz not null default now(),
+  constraint exchange_quotes_user_fk foreign key ("userId") references "Users"(id)
+);
+create index if not exists exchange_quotes_user_idx on "ExchangeQuotes" ("userId");
+
+-- ExchangePairConfigs
+create table if not exists "ExchangePairConfigs" (
+  id serial primary key,
+  "fromCurrency" text not null,
+  "toCurrency" text not null,
+  "spreadBps" integer not null default 0,
+  "flatFee" numeric(38,18) not null default 0,
+  "minAmount" numeric(38,18),
+  "maxAmount" numeric(38,18),
+  enabled boolean not null default true,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+create unique index if not exists exchange_pair_configs_pair_uq on "ExchangePairConfigs" ("fromCurrency", "toCurrency");
+
+-- PriceSnapshots
+create table if not exists "PriceSnapshots" (
+  id serial primary key,
+  symbol text not null,
+  "priceUsd" numeric(38,18) not null,
+  source text not null,
+  "fetchedAt" timestamptz not null,
+  "createdAt" timestamptz not null default now()
+);
+create index if not exists price_snapshots_symbol_fetched_idx on "PriceSnapshots" (symbol, "fetchedAt");
+
+-- WithdrawLimits
+create table if not exists "WithdrawLimits" (
+  id serial primary key,
+  tier text not null,
+  currency text not null default '*',
+  "perTxUsd" numeric(38,18),
+  "dailyUsd" numeric(38,18),
+  "weeklyUsd" numeric(38,18),
+  "monthlyUsd" numeric(38,18),
+  "dailyCount" integer,
+  "autoApproveUsd" numeric(38,18),
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+create unique index if not exists withdraw_limits_tier_currency_uq on "WithdrawLimits" (tier, currency);
+
+-- WithdrawAddresses
+create table if not exists "WithdrawAddresses" (
+  id serial primary key,
+  "userId" integer not null,
+  blockchain text not null,
+  address text not null,
+  label text,
+  memo text,
+  "codeHash" text,
+  "codeExpiresAt" timestamptz,
+  "codeSentAt" timestamptz,
+  "codeAttempts" integer not null default 0,
+  "confirmedAt" timestamptz,
+  "usableAt" timestamptz,
+  "createdAt" timestamptz not null default now(),
+  constraint withdraw_addresses_user_fk foreign key ("userId") references "Users"(id)
+);
+create unique index if not exists withdraw_addresses_user_address_uq on "WithdrawAddresses" ("userId", blockchain, address);
+
+-- Tokens: registry of the tokens each chain accepts and pays out
+create table if not exists "Tokens" (
+  id serial primary key,
+  blockchain text not null,
+  symbol text not null,
+  contract text not null,
+  decimals integer not null,
+  "minDeposit" numeric(38,18) not null default 0,
+  "withdrawFee" numeric(38,18) not null default 0,
+  enabled boolean not null default true,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+create unique index if not exists tokens_blockchain_symbol_uq on "Tokens" (blockchain, symbol);
+
+-- ChainCursors: last block (slot on Solana) each chain was scanned for deposits up to
+create table if not exists "ChainCursors" (
+  blockchain text primary key,
+  "lastBlock" bigint not null,
+  "updatedAt" timestamptz not null default now()
+);
+
 -- Helpful indexes
 create index if not exists idx_transactions_user on "Transactions" ("userId");
 create index if not exists idx_balances_user on "Balances" ("userId");
 create index if not exists idx_wallets_user on "Wallets" ("userId");
+create index if not exists idx_withdraw_requests_status on "WithdrawRequests" (status);
+create index if not exists idx_withdraw_requests_user_created on "WithdrawRequests" ("userId", "createdAt");
+
+-- ===================== MIGRATIONS =====================
+-- Money columns are numeric(38,18); earlier deployments used integer/float columns
+alter table "Balances" alter column amount type numeric(38,18);
+alter table "Bets" alter column amount type numeric(38,18);
+alter table "Bets" alter column payout type numeric(38,18);
+alter table "Payouts" alter column amount type numeric(38,18);
+alter table "ReferralBonuses" alter column amount type numeric(38,18);
+alter table "WithdrawRequests" alter column amount type numeric(38,18);
+
+-- Swap rate and fee on Transactions
+alter table "Transactions" add column if not exists rate numeric(38,18);
+alter table "Transactions" add column if not exists fee numeric(38,18);
+
+-- Market rate of swap quotes, before the pair spread
+alter table "ExchangeQuotes" add column if not exists "marketRate" numeric(38,18);
+update "ExchangeQuotes" set "marketRate" = rate where "marketRate" is null;
+
+-- Original amount and USD valuation on Transactions; stablecoin history is backfilled at par
+alter table "Transactions" add column if not exists "originalAmount" numeric(38,18);
+alter table "Transactions" add column if not exists "originalCurrency" text;
+alter table "Transactions" add column if not exists "usdRate" numeric(38,18);
+alter table "Transactions" add column if not exists "usdValue" numeric(38,18);
+alter table "Transactions" add column if not exists "rateSource" text;
+update "Transactions" set "originalAmount" = amount, "originalCurrency" = currency where "originalAmount" is null;
+update "Transactions" set "usdRate" = 1, "usdValue" = amount, "rateSource" = 'backfill'
+  where "usdRate" is null and currency in ('USD', 'USDT', 'USDC');
+
+-- Withdrawal lifecycle: on-chain tracking columns and the new status names
+alter table "WithdrawRequests" add column if not exists "cryptoAmount" numeric(38,18);
+alter table "WithdrawRequests" add column if not exists "txHash" text;
+alter table "WithdrawRequests" add column if not exists fee numeric(38,18);
+alter table "WithdrawRequests" add column if not exists "feeCurrency" text;
+alter table "WithdrawRequests" add column if not exists confirmations integer not null default 0;
+alter table "WithdrawRequests" add column if not exists "failureReason" text;
+alter table "WithdrawRequests" add column if not exists "createdAt" timestamptz not null default now();
+alter table "WithdrawRequests" add column if not exists "updatedAt" timestamptz not null default now();
+alter table "WithdrawRequests" add column if not exists "broadcastAt" timestamptz;
+alter table "WithdrawRequests" add column if not exists "confirmedAt" timestamptz;
+update "WithdrawRequests" set status = 'requested' where status = 'pending';
+update "WithdrawRequests" set status = 'confirmed' where status = 'completed';
+
+-- Withdrawal limit tier of users
+alter table "Users" add column if not exists tier text not null default 'standard';
+
+-- Whitelist-only withdrawals to the address book
+alter table "Users" add column if not exists "withdrawWhitelistOnly" boolean not null default false;
+
+-- Withdrawal fees quoted at request time
+alter table "WithdrawRequests" add column if not exists "networkFee" numeric(38,18);
+alter table "WithdrawRequests" add column if not exists "platformFee" numeric(38,18);
+alter table "WithdrawRequests" add column if not exists "netAmount" numeric(38,18);
+
+-- HD deposit addresses store their derivation path instead of a key
+alter table "Wallets" add column if not exists "derivationPath" text;
+alter table "Wallets" alter column "privateKey" drop not null;
+
+-- Deposits found by the chain adapters: one row per transfer, swept after confirmation.
+-- Deposits confirmed before sweeps were tracked were already swept.
+alter table "Deposits" add column if not exists "transferIndex" integer not null default 0;
+alter table "Deposits" drop constraint if exists "Deposits_txHash_key";
+create unique index if not exists deposits_tx_transfer_idx on "Deposits" ("txHash", "transferIndex");
+alter table "Deposits" add column if not exists "sweepTxHash" text;
+do $$
+begin
+  if not exists (select 1 from information_schema.columns where table_name = 'Deposits' and column_name = 'sweptAt') then
+    alter table "Deposits" add column "sweptAt" timestamptz;
+    update "Deposits" set "sweptAt" = coalesce("confirmedAt", "createdAt") where status = 'confirmed';
+  end if;
+end $$;
+
+-- Confirmation code throttling of the withdrawal address book
+alter table "WithdrawAddresses" add column if not exists "codeSentAt" timestamptz;
+alter table "WithdrawAddresses" add column if not exists "codeAttempts" integer not null default 0;
 
+-- Memo sent with a withdrawal, for chains that carry one
+alter table "WithdrawRequests" add column if not exists memo text;
 
+-- Idempotency claims belong to the request holding them and expire only when its lease runs out
+alter table "IdempotencyKeys" add column if not exists owner text not null default '';
+alter table "IdempotencyKeys" add column if not exists "leaseExpiresAt" timestamptz not null default now();
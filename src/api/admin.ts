@@ -26,7 +26,10 @@ import {
   toggleGameEnabled,
   updateGameCategory,
   getWithdrawals,
-  processWithdraw,
+  WITHDRAWAL_ACTIONS,
+  WithdrawalAction,
+  bulkWithdrawalAction,
+  withdrawalAction,
   createCategory,
   updateCategory,
   deleteCategory,
@@ -42,6 +45,21 @@ import {
   getUserReferralBonuses,
   expireOldBonuses
 } from '../db/bonus';
+import { getLedgerEntries, rebuildBalances, seedOpeningBalances } from '../db/ledger';
+import { iterateTransactions, parseTransactionHistoryQuery, TRANSACTION_HISTORY_COLUMNS } from '../db/wallets';
+import { ExportFormat, exportContentType, writeExport } from '../utils/export';
+import {
+  StatementFormat, buildStatement, emailStatement, renderStatement, statementFilename,
+} from '../services/statements';
+import { getReconciliationReport, getReconciliationReports, runReconciliation } from '../services/reconciliation';
+import { getWalletKeyStatus, reencryptWalletKeys } from '../services/keyRotation';
+import {
+  deleteExchangePairConfig, listExchangePairConfigs, upsertExchangePairConfig,
+} from '../db/exchangePairs';
+import {
+  deleteWithdrawLimitConfig, listWithdrawLimitConfigs, upsertWithdrawLimitConfig,
+} from '../db/withdrawLimits';
+import { listTokens, setTokenEnabled, upsertToken } from '../db/tokens';
 import { isAdmin } from '../utils/jwt';
 import fs from "fs"
 import path from "path"
@@ -49,6 +67,13 @@ import prisma from '../db/prisma';
 
 const router = express.Router();
 
+// A boolean body field, also accepted as the strings "true" and "false"; null otherwise
+const parseFlag = (value: any): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return null;
+};
+
 router.post<{}, {}>('/signin', async (req, res) => {
 
   const body = req.body;
@@ -183,6 +208,59 @@ router.get('/users/:id/transactions', isAdmin, async (req, res) => {
   }
 });
 
+// Full wallet history (transactions, bets, bonuses) as CSV or NDJSON, for disputes
+router.get('/users/:id/transactions/export', isAdmin, async (req, res) => {
+  const userId = Number(req.params.id);
+  const format = (req.query.format || 'csv') as ExportFormat;
+  if (format !== 'csv' && format !== 'ndjson') {
+    return res.status(400).json({ code: 400, message: 'format must be csv or ndjson' });
+  }
+
+  try {
+    const params = parseTransactionHistoryQuery(userId, req.query);
+    res.setHeader('Content-Type', exportContentType(format));
+    res.setHeader('Content-Disposition', `attachment; filename="user-${userId}-transactions.${format}"`);
+    await writeExport(res, format, TRANSACTION_HISTORY_COLUMNS, iterateTransactions(params));
+    res.end();
+  } catch (err) {
+    if (res.headersSent) return res.destroy(err);
+    res.removeHeader('Content-Type');
+    res.removeHeader('Content-Disposition');
+    res.status(400).json({ message: err.toString(), code: 400 });
+  }
+});
+
+// Monthly statement for compliance (?month=YYYY-MM&format=json|csv|html)
+router.get('/users/:id/statements', isAdmin, async (req, res) => {
+  const format = (req.query.format || 'json') as StatementFormat;
+  if (!['json', 'csv', 'html'].includes(format)) {
+    return res.status(400).json({ code: 400, message: 'format must be json, csv or html' });
+  }
+
+  try {
+    const statement = await buildStatement(Number(req.params.id), req.query.month as string);
+    if (format === 'json') return res.json({ code: 200, data: statement });
+
+    const { contentType, body } = renderStatement(statement, format);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${statementFilename(statement, format)}"`);
+    res.send(body);
+  } catch (err) {
+    res.status(400).json({ message: err.toString(), code: 400 });
+  }
+});
+
+// Send a monthly statement to the user's email address
+router.post('/users/:id/statements/email', isAdmin, async (req, res) => {
+  try {
+    const statement = await buildStatement(Number(req.params.id), req.body.month);
+    await emailStatement(statement);
+    res.json({ code: 200, message: 'Ok' });
+  } catch (err) {
+    res.status(400).json({ message: err.toString(), code: 400 });
+  }
+});
+
 // Suspend user
 router.post('/users/:id/suspend', isAdmin, async (req, res) => {
   try {
@@ -233,7 +311,7 @@ router.post("/users/:id/topup", isAdmin, async (req, res) => {
       adminId,
       userId,
       currency,
-      parseFloat(amount),
+      amount,
       description
     );
 
@@ -500,34 +578,95 @@ router.post("/provider-games/:id/category", async (req, res) => {
   }
 });
 
-router.get("/withdrawals", async (req, res) => {
+router.get('/withdrawals', isAdmin, async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const pageSize = parseInt(req.query.pageSize as string) || 10;
     const status = req.query.status as string | undefined;
+    const blockchain = req.query.blockchain as string | undefined;
     const currency = req.query.currency as string | undefined;
+    const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+    const minAmount = req.query.minAmount as string | undefined;
+    const maxAmount = req.query.maxAmount as string | undefined;
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
     const search = req.query.search as string | undefined;
+    const sortBy = req.query.sortBy as string | undefined;
+    const sortOrder = req.query.sortOrder === 'asc' ? 'asc' : 'desc';
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date range' });
+    }
 
-    const result = await getWithdrawals({ page, pageSize, status, currency, search });
+    const result = await getWithdrawals({
+      page, pageSize, status, blockchain, currency, userId, minAmount, maxAmount, from, to, search, sortBy, sortOrder,
+    });
 
     res.json(result);
-  } catch (err) {
+  } catch (err: any) {
     console.error(err);
-    res.status(500).json({ error: "Server error" });
+    res.status(400).json({ error: err.message });
   }
 });
 
-router.post("/withdrawals/:id/process", isAdmin, async (req, res) => {
+// Apply one action to several withdrawals; body: { ids, action, reason }. mark_broadcast
+// needs the hash of each request and is only offered one at a time
+router.post('/withdrawals/bulk', isAdmin, async (req, res) => {
   try {
-    const id = parseInt(req.params.id);
-    await processWithdraw(id);
-    res.json({ ok: true });
+    const adminId = req['token'].id;
+    const { action, reason } = req.body;
+    const ids = Array.isArray(req.body.ids) ? req.body.ids.map(Number).filter(Number.isInteger) : [];
+
+    if (!ids.length) {
+      return res.status(400).json({ error: 'ids are required' });
+    }
+    if (!WITHDRAWAL_ACTIONS.includes(action) || action === 'mark_broadcast') {
+      return res.status(400).json({
+        error: `action must be one of ${WITHDRAWAL_ACTIONS.filter((a) => a !== 'mark_broadcast').join(', ')}`,
+      });
+    }
+    if ((action === 'reject' || action === 'mark_failed') && !String(reason || '').trim()) {
+      return res.status(400).json({ error: 'reason is required' });
+    }
+
+    const results = await bulkWithdrawalAction(adminId, ids, action, reason && String(reason).trim());
+    res.json({ ok: true, data: results });
   } catch (err: any) {
     console.error(err);
     res.status(400).json({ error: err.message });
   }
 });
 
+const withdrawalActionRoute = (action: WithdrawalAction) => async (req, res) => {
+  try {
+    const adminId = req['token'].id;
+    const reason = String(req.body?.reason || '').trim() || undefined;
+    const txHash = String(req.body?.txHash || '').trim() || undefined;
+    if ((action === 'reject' || action === 'mark_failed') && !reason) {
+      return res.status(400).json({ error: 'reason is required' });
+    }
+    if (action === 'mark_broadcast' && !txHash) {
+      return res.status(400).json({ error: 'txHash is required' });
+    }
+    const withdrawal = await withdrawalAction(adminId, parseInt(req.params.id), action, reason, txHash);
+    res.json({ ok: true, data: withdrawal });
+  } catch (err: any) {
+    console.error(err);
+    res.status(400).json({ error: err.message });
+  }
+};
+
+router.post('/withdrawals/:id/process', isAdmin, withdrawalActionRoute('approve'));
+router.post('/withdrawals/:id/review', isAdmin, withdrawalActionRoute('review'));
+router.post('/withdrawals/:id/reject', isAdmin, withdrawalActionRoute('reject'));
+// Failed withdrawals are either sent again or refunded to the user
+router.post('/withdrawals/:id/retry', isAdmin, withdrawalActionRoute('retry'));
+router.post('/withdrawals/:id/refund', isAdmin, withdrawalActionRoute('refund'));
+// A request stuck broadcasting is settled by what the admin found on chain:
+// body { txHash } when it was sent, { reason } when it never was
+router.post('/withdrawals/:id/mark-broadcast', isAdmin, withdrawalActionRoute('mark_broadcast'));
+router.post('/withdrawals/:id/mark-failed', isAdmin, withdrawalActionRoute('mark_failed'));
+
 router.get("/game-categories", async (req, res) => {
   try {
     const categories = await getAllCategories();
@@ -787,4 +926,248 @@ router.get("/referral-stats", isAdmin, async (req, res) => {
   }
 });
 
+// Ledger journal entries
+router.get('/ledger/entries', isAdmin, async (req, res) => {
+  try {
+    const result = await getLedgerEntries({
+      userId: req.query.userId ? parseInt(req.query.userId as string) : undefined,
+      currency: req.query.currency as string,
+      refType: req.query.refType as string,
+      refId: req.query.refId as string,
+      page: parseInt(req.query.page as string) || 1,
+      pageSize: parseInt(req.query.pageSize as string) || 50,
+    });
+    res.json({ code: 200, data: result });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+// Post opening balances for amounts that predate the ledger
+router.post('/ledger/seed-opening', isAdmin, async (req, res) => {
+  try {
+    const seeded = await seedOpeningBalances();
+    res.json({ code: 200, message: `Seeded ${seeded} opening balances` });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+// Rebuild balances from the ledger and report the rows that drifted
+router.post('/ledger/rebuild', isAdmin, async (req, res) => {
+  try {
+    const userId = req.body.userId ? parseInt(req.body.userId) : undefined;
+    const drift = await rebuildBalances(userId);
+    res.json({ code: 200, data: drift });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+// Custody reconciliation reports, newest first
+router.get('/reconciliation/reports', isAdmin, async (req, res) => {
+  try {
+    const result = await getReconciliationReports(
+      parseInt(req.query.page as string) || 1,
+      parseInt(req.query.pageSize as string) || 20,
+      req.query.status as string,
+    );
+    res.json({ code: 200, data: result });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+router.get('/reconciliation/reports/:id', isAdmin, async (req, res) => {
+  try {
+    const report = await getReconciliationReport(parseInt(req.params.id));
+    if (!report) return res.status(404).json({ code: 404, error: 'Report not found' });
+    res.json({ code: 200, data: report });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+// Run a reconciliation now instead of waiting for the scheduler
+router.post('/reconciliation/run', isAdmin, async (req, res) => {
+  try {
+    const report = await runReconciliation();
+    res.json({ code: 200, data: report });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+// Stored wallet keys per encryption key id, to follow a key rotation
+router.get('/keys/status', isAdmin, async (req, res) => {
+  try {
+    const status = await getWalletKeyStatus();
+    res.json({ code: 200, data: status });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+// Re-encrypt stored wallet keys with the current key now
+router.post('/keys/reencrypt', isAdmin, async (req, res) => {
+  try {
+    const result = await reencryptWalletKeys();
+    res.json({ code: 200, data: result });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+// Swap pricing per currency pair
+router.get('/exchange-pairs', isAdmin, async (req, res) => {
+  try {
+    const configs = await listExchangePairConfigs();
+    res.json({ code: 200, data: configs });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+// Create or update the config of a pair
+router.post('/exchange-pairs', isAdmin, async (req, res) => {
+  try {
+    const {
+      fromCurrency,
+      toCurrency,
+      spreadBps,
+      flatFee,
+      minAmount,
+      maxAmount,
+      enabled,
+    } = req.body;
+
+    const config = await upsertExchangePairConfig({
+      fromCurrency,
+      toCurrency,
+      spreadBps,
+      flatFee,
+      minAmount,
+      maxAmount,
+      enabled,
+    });
+
+    res.json({ code: 200, data: config });
+  } catch (err: any) {
+    res.status(400).json({ code: 400, error: err.message });
+  }
+});
+
+// Remove a pair config; the pair falls back to market price without fees
+router.delete('/exchange-pairs/:from/:to', isAdmin, async (req, res) => {
+  try {
+    const deleted = await deleteExchangePairConfig(req.params.from, req.params.to);
+    if (!deleted) return res.status(404).json({ code: 404, error: 'Pair config not found' });
+    res.json({ code: 200, message: 'Ok' });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+// Withdrawal limits per user tier; currency "*" covers all currencies
+router.get('/withdraw-limits', isAdmin, async (req, res) => {
+  try {
+    const configs = await listWithdrawLimitConfigs();
+    res.json({ code: 200, data: configs });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+// Create or update the limits of a tier and currency
+router.post('/withdraw-limits', isAdmin, async (req, res) => {
+  try {
+    const {
+      tier,
+      currency,
+      perTxUsd,
+      dailyUsd,
+      weeklyUsd,
+      monthlyUsd,
+      dailyCount,
+      autoApproveUsd,
+    } = req.body;
+
+    const config = await upsertWithdrawLimitConfig({
+      tier,
+      currency,
+      perTxUsd,
+      dailyUsd,
+      weeklyUsd,
+      monthlyUsd,
+      dailyCount,
+      autoApproveUsd,
+    });
+
+    res.json({ code: 200, data: config });
+  } catch (err: any) {
+    res.status(400).json({ code: 400, error: err.message });
+  }
+});
+
+router.delete('/withdraw-limits/:tier/:currency', isAdmin, async (req, res) => {
+  try {
+    const deleted = await deleteWithdrawLimitConfig(req.params.tier, req.params.currency);
+    if (!deleted) return res.status(404).json({ code: 404, error: 'Limit config not found' });
+    res.json({ code: 200, message: 'Ok' });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+router.get('/tokens', isAdmin, async (req, res) => {
+  try {
+    const tokens = await listTokens();
+    res.json({ code: 200, data: tokens });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
+// Add a token to a chain or update its contract, decimals, minimum deposit and fee
+router.post('/tokens', isAdmin, async (req, res) => {
+  try {
+    const { blockchain, symbol, contract, decimals, minDeposit, withdrawFee } = req.body;
+    const enabled = req.body.enabled === undefined ? undefined : parseFlag(req.body.enabled);
+    if (enabled === null) return res.status(400).json({ code: 400, error: 'enabled must be true or false' });
+
+    const token = await upsertToken({ blockchain, symbol, contract, decimals, minDeposit, withdrawFee, enabled });
+
+    res.json({ code: 200, data: token });
+  } catch (err: any) {
+    res.status(400).json({ code: 400, error: err.message });
+  }
+});
+
+router.post('/tokens/:id/enabled', isAdmin, async (req, res) => {
+  const enabled = parseFlag(req.body.enabled);
+  if (enabled === null) return res.status(400).json({ code: 400, error: 'enabled must be true or false' });
+
+  try {
+    const token = await setTokenEnabled(Number(req.params.id), enabled);
+    if (!token) return res.status(404).json({ code: 404, error: 'Token not found' });
+    res.json({ code: 200, data: token });
+  } catch (err: any) {
+    console.error(err);
+    res.status(500).json({ code: 500, error: err.message });
+  }
+});
+
 export default router;
@@ -1,7 +1,10 @@
 import express from 'express';
 import prisma from '../db/prisma';
 import { verifyToken } from '../middleware/auth';
-import { depositMonitoringService } from '../blockchain/depositListeners';
+import {
+  checkDepositAddress, getDepositOrchestratorStats, getDepositOrchestratorStatus, runOnce, startDepositOrchestrator,
+  stopDepositOrchestrator,
+} from '../services/depositOrchestrator';
 
 const router = express.Router();
 
@@ -132,29 +135,12 @@ router.post('/admin/debug/check-tron-deposits', async (req, res) => {
       return res.status(400).json({ code: 400, message: 'Address is required' });
     }
 
-    // Test TronWeb availability
-    let tronWebStatus = 'Not available';
-    try {
-      const TronWebModule = require('tronweb');
-      const TronWeb = TronWebModule.TronWeb;
-      const tronWeb = new TronWeb({
-        fullHost: 'https://api.trongrid.io'
-      });
-      tronWebStatus = 'Available';
-    } catch (error) {
-      tronWebStatus = `Error: ${error.message}`;
-    }
+    const result = await checkDepositAddress('Tron', address);
 
-    // Import the Tron deposit monitoring function
-    const { checkTronDepositsForAddress } = require('../blockchain/depositListeners/tron');
-    
-    const result = await checkTronDepositsForAddress(address);
-    
     res.json({
       code: 200,
       data: {
         address,
-        tronWebStatus,
         result
       }
     });
@@ -343,7 +329,7 @@ router.get('/admin/history', async (req, res) => {
 // Get admin deposit statistics
 router.get('/admin/stats', async (req, res) => {
   try {
-    const stats = await depositMonitoringService.getStats();
+    const stats = await getDepositOrchestratorStats();
 
     res.json({
       code: 200,
@@ -359,7 +345,7 @@ router.get('/admin/stats', async (req, res) => {
 // Get monitoring service status
 router.get('/admin/status', async (req, res) => {
   try {
-    const status = depositMonitoringService.getStatus();
+    const status = getDepositOrchestratorStatus();
 
     res.json({
       code: 200,
@@ -378,13 +364,13 @@ router.post('/admin/monitoring/:action', async (req, res) => {
     const { action } = req.params;
 
     if (action === 'start') {
-      depositMonitoringService.start();
+      startDepositOrchestrator();
       res.json({ code: 200, message: 'Monitoring service started' });
     } else if (action === 'stop') {
-      depositMonitoringService.stop();
+      stopDepositOrchestrator();
       res.json({ code: 200, message: 'Monitoring service stopped' });
     } else if (action === 'run-once') {
-      await depositMonitoringService.runOnce();
+      await runOnce();
       res.json({ code: 200, message: 'One-time monitoring completed' });
     } else {
       res.status(400).json({ code: 400, message: 'Invalid action. Use start, stop, or run-once' });
@@ -1,5 +1,6 @@
 import express from 'express';
 import isAuthenticated from '../utils/jwt';
+import { idempotent } from '../middlewares/idempotency';
 import { BetBigSmall } from '../games/bigSmall';
 import { BetLucky } from '../games/lucky';
 import { BetNuiNui } from '../games/niuniu';
@@ -50,7 +51,7 @@ router.get("/games-categories", async (req, res) => {
 });
 
 
-router.post<{}, {}>('/bet', isAuthenticated, async (req, res) => {
+router.post<{}, {}>('/bet', isAuthenticated, idempotent, async (req, res) => {
 
     const body = req.body;
 
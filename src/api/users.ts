@@ -14,6 +14,13 @@ import {
   getUserTeamByReferralCode,
 } from '../db/users';
 import { getUserReferralBonuses } from '../db/bonus';
+import {
+  StatementFormat,
+  buildStatement,
+  emailStatement,
+  renderStatement,
+  statementFilename,
+} from '../services/statements';
 import isAuthenticated from '../utils/jwt';
 import fs from 'fs';
 import path from 'path';
@@ -125,6 +132,43 @@ router.get<{}, {}>('/referral-bonuses', isAuthenticated, async (req, res) => {
   }
 });
 
+// Monthly statement (?month=YYYY-MM, default last month) as json, csv or html
+router.get<{}, {}>('/statements', isAuthenticated, async (req, res) => {
+  let id = (req as any)['token'].id;
+  const format = ((req.query as any).format || 'json') as StatementFormat;
+
+  if (!['json', 'csv', 'html'].includes(format)) {
+    return res.status(400).json({ code: 400, message: 'format must be json, csv or html' });
+  }
+
+  try {
+    const statement = await buildStatement(id, (req.query as any).month);
+    if (format === 'json') {
+      return res.json({ code: 200, message: 'Ok', data: statement });
+    }
+
+    const { contentType, body } = renderStatement(statement, format);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${statementFilename(statement, format)}"`);
+    res.send(body);
+  } catch (err: any) {
+    res.status(400).json({ code: 400, message: err.toString() });
+  }
+});
+
+// Email the monthly statement to the account email address
+router.post<{}, {}>('/statements/email', isAuthenticated, async (req, res) => {
+  let id = (req as any)['token'].id;
+
+  try {
+    const statement = await buildStatement(id, (req.body as any).month);
+    await emailStatement(statement);
+    res.json({ code: 200, message: 'Ok' });
+  } catch (err: any) {
+    res.status(400).json({ code: 400, message: err.toString() });
+  }
+});
+
 router.post<{}, {}>(
   '/set-telegram',
   isAuthenticated,
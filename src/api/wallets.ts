@@ -2,13 +2,34 @@ import express from 'express';
 import {
     getWalletInfo,
     getTransactions,
+    iterateTransactions,
+    parseTransactionHistoryQuery,
+    TRANSACTION_HISTORY_COLUMNS,
     exchangeBalance,
     getUserBets,
+    transferBalance,
+    setWithdrawalWhitelist,
     withdrawRequest
 } from '../db/wallets';
 import { getWithdrawRates, convert } from '../utils/exchange';
+import { ExchangeQuote, createExchangeQuote } from '../db/exchangeQuotes';
+import { getEffectiveUsdRates } from '../db/exchangePairs';
+import { getWithdrawLimits } from '../db/withdrawLimits';
+import {
+    addWithdrawAddress,
+    confirmWithdrawAddress,
+    deleteWithdrawAddress,
+    isWithdrawWhitelistOnly,
+    listWithdrawAddresses,
+} from '../db/withdrawAddresses';
+import { sendEmail } from '../utils/email';
+import { validateAddress } from '../utils/addressValidation';
+import { estimateNetworkFee, quoteWithdrawFee } from '../services/withdrawFees';
+import { getWithdrawCurrencies } from '../db/tokens';
 import { convertReferralBonusToPayout } from '../db/bonus';
 import isAuthenticated from '../utils/jwt';
+import { idempotent } from '../middlewares/idempotency';
+import { ExportFormat, exportContentType, writeExport } from '../utils/export';
 import { BetBigSmall } from '../games/bigSmall';
 import { BetLucky } from '../games/lucky';
 import { BetNuiNui } from '../games/niuniu';
@@ -34,27 +55,53 @@ router.get<{}, {}>('/info', isAuthenticated, async (req, res) => {
 
 });
 
+// History with filters (type, currency, from, to), sort and cursor pagination:
+// pass data.nextCursor back as cursor to get the next page
 router.get<{}, {}>('/transactions', isAuthenticated, async (req, res) => {
 
     const id = req['token'].id;
-    const currency = req.query.currency;
 
-    if (!currency) {
+    try {
+        const params = parseTransactionHistoryQuery(id, req.query);
+        const transactions = await getTransactions(params);
+        res.json({
+            code: 200,
+            message: 'Ok',
+            data: transactions,
+        });
+    } catch (err) {
+        res.status(400).json({ message: err.toString(), code: 400 });
+    }
+
+});
+
+// Stream the whole filtered history as CSV (default) or NDJSON
+router.get<{}, {}>('/transactions/export', isAuthenticated, async (req, res) => {
+
+    const id = req['token'].id;
+    const format = (req.query['format'] || 'csv') as ExportFormat;
+
+    if (format !== 'csv' && format !== 'ndjson') {
         res.status(400).send({
-            message: 'currency parametr required',
+            message: 'format must be csv or ndjson',
             code: 400
         });
         return;
     }
 
     try {
-        const wallet = await getTransactions(id, currency.toString());
-        res.json({
-            code: 200,
-            message: 'Ok',
-            data: wallet
-        });
+        const params = parseTransactionHistoryQuery(id, req.query);
+        res.setHeader('Content-Type', exportContentType(format));
+        res.setHeader('Content-Disposition', `attachment; filename="transactions-${id}.${format}"`);
+        await writeExport(res, format, TRANSACTION_HISTORY_COLUMNS, iterateTransactions(params));
+        res.end();
     } catch (err) {
+        if (res.headersSent) {
+            res.destroy(err);
+            return;
+        }
+        res.removeHeader('Content-Type');
+        res.removeHeader('Content-Disposition');
         res.status(400).json({ message: err.toString(), code: 400 });
     }
 
@@ -77,7 +124,7 @@ router.get<{}, {}>('/bets', isAuthenticated, async (req, res) => {
 
 });
 
-router.post<{}, {}>('/withdraw', isAuthenticated, async (req, res) => {
+router.post<{}, {}>('/withdraw', isAuthenticated, idempotent, async (req, res) => {
 
     const body = req.body;
 
@@ -113,6 +160,14 @@ router.post<{}, {}>('/withdraw', isAuthenticated, async (req, res) => {
         return;
     }
 
+    if (body.memo != null && typeof body.memo !== 'string') {
+        res.status(400).send({
+            message: 'memo must be a string',
+            code: 400,
+        });
+        return;
+    }
+
     // SECURITY FIX: Require withdrawal password for all withdrawals
     if (!body.withdrawalPassword) {
         res.status(400).send({
@@ -136,10 +191,22 @@ router.post<{}, {}>('/withdraw', isAuthenticated, async (req, res) => {
             console.log(`Conversion result: ${amount} ${body.currency}`);
         }
 
-        await withdrawRequest(id, body.to, body.currency, body.blockchain, amount, body.withdrawalPassword);
+        const request = await withdrawRequest(
+            id, body.to, body.currency, body.blockchain, amount, body.withdrawalPassword, body.memo || undefined,
+        );
         res.json({
             code: 200,
-            message: "Ok"
+            message: 'Ok',
+            data: {
+                id: request.id,
+                status: request.status,
+                amountUsd: request.amount.toFixed(),
+                cryptoAmount: request.cryptoAmount?.toFixed(),
+                networkFee: request.networkFee?.toFixed(),
+                platformFee: request.platformFee?.toFixed(),
+                netAmount: request.netAmount?.toFixed(),
+                memo: request.memo,
+            },
         });
     } catch (err) {
         res.status(400).json({ message: err.toString(), code: 400 });
@@ -150,17 +217,248 @@ router.post<{}, {}>('/withdraw', isAuthenticated, async (req, res) => {
 router.get<{}, {}>('/withdraw-rates', isAuthenticated, async (req, res) => {
     try {
         const rates = await getWithdrawRates();
+        const effective = await getEffectiveUsdRates(rates);
+        res.json({
+            code: 200,
+            message: 'Ok',
+            data: { ...rates, effective },
+        });
+    } catch (err) {
+        res.status(400).json({ message: err.toString(), code: 400 });
+    }
+});
+
+// Withdrawal limits of the user's tier with what is left in each period;
+// ?currency= adds that currency's own limits to the overall ones
+router.get<{}, {}>('/withdraw-limits', isAuthenticated, async (req, res) => {
+    const id = req['token'].id;
+    try {
+        const currency = req.query['currency'] ? String(req.query['currency']).toUpperCase() : undefined;
+        const limits = await getWithdrawLimits(id, currency);
+        res.json({
+            code: 200,
+            message: 'Ok',
+            data: limits,
+        });
+    } catch (err) {
+        res.status(400).json({ message: err.toString(), code: 400 });
+    }
+});
+
+// Estimated fees of a withdrawal and what the recipient would get, all in currency
+router.get<{}, {}>('/withdraw-fee', isAuthenticated, async (req, res) => {
+    const chain = req.query['chain'] as string;
+    const currency = req.query['currency'] ? String(req.query['currency']).toUpperCase() : '';
+    const amount = req.query['amount'] as string;
+
+    if (!chain) {
+        res.status(400).send({
+            message: 'chain parametr required',
+            code: 400,
+        });
+        return;
+    }
+    if (!currency) {
+        res.status(400).send({
+            message: 'currency parametr required',
+            code: 400,
+        });
+        return;
+    }
+    if (!amount) {
+        res.status(400).send({
+            message: 'amount parametr required',
+            code: 400,
+        });
+        return;
+    }
+
+    try {
+        if (!(await getWithdrawCurrencies(chain)).includes(currency)) {
+            throw new Error(`Withdrawing ${currency} on ${chain} is not supported`);
+        }
+        const quote = await quoteWithdrawFee(chain, currency, amount);
+        res.json({
+            code: 200,
+            message: 'Ok',
+            data: {
+                chain,
+                currency,
+                amount: quote.amount.toFixed(),
+                networkFee: quote.networkFee.toFixed(),
+                networkFeeNative: { amount: quote.networkFeeNative.toFixed(), currency: quote.nativeCurrency },
+                platformFee: quote.platformFee.toFixed(),
+                totalFee: quote.totalFee.toFixed(),
+                netAmount: quote.netAmount.toFixed(),
+            },
+        });
+    } catch (err) {
+        res.status(400).json({ message: err.toString(), code: 400 });
+    }
+});
+
+// Check a destination address before withdrawing; returns the normalized address
+router.get<{}, {}>('/validate-address', isAuthenticated, async (req, res) => {
+    const blockchain = req.query['blockchain'] as string;
+    const address = req.query['address'] as string;
+    const memo = req.query['memo'] as string | undefined;
+
+    if (!blockchain) {
+        res.status(400).send({
+            message: 'blockchain parametr required',
+            code: 400,
+        });
+        return;
+    }
+    if (!address) {
+        res.status(400).send({
+            message: 'address parametr required',
+            code: 400,
+        });
+        return;
+    }
+
+    const result = validateAddress(blockchain, address, memo);
+    res.json({
+        code: 200,
+        message: 'Ok',
+        data: result,
+    });
+});
+
+// Withdrawal address book
+router.get<{}, {}>('/addresses', isAuthenticated, async (req, res) => {
+    const id = req['token'].id;
+    try {
+        const addresses = await listWithdrawAddresses(id);
+        const whitelistOnly = await isWithdrawWhitelistOnly(id);
+        res.json({
+            code: 200,
+            message: 'Ok',
+            data: { whitelistOnly, addresses },
+        });
+    } catch (err) {
+        res.status(400).json({ message: err.toString(), code: 400 });
+    }
+});
+
+// Save an address; it is confirmed with a code sent by email and usable after a cooldown
+router.post<{}, {}>('/addresses', isAuthenticated, async (req, res) => {
+    const id = req['token'].id;
+    const body = req.body;
+
+    if (!body.blockchain) {
+        res.status(400).send({
+            message: 'blockchain parametr required',
+            code: 400,
+        });
+        return;
+    }
+    if (!body.address) {
+        res.status(400).send({
+            message: 'address parametr required',
+            code: 400,
+        });
+        return;
+    }
+
+    try {
+        const result = await addWithdrawAddress(id, {
+            blockchain: body.blockchain,
+            address: body.address,
+            label: body.label,
+            memo: body.memo,
+        });
+        await sendEmail(result.email, 'OK777 Withdrawal Address Confirmation', result.code);
+        res.json({
+            code: 200,
+            message: 'Confirmation code sent',
+            data: result.address,
+        });
+    } catch (err) {
+        res.status(400).json({ message: err.toString(), code: 400 });
+    }
+});
+
+router.post<{ addressId: string }, {}>('/addresses/:addressId/confirm', isAuthenticated, async (req, res) => {
+    const id = req['token'].id;
+    const code = req.body.code;
+
+    if (!code || !/^\d{6}$/.test(code)) {
+        res.status(400).send({
+            message: 'Invalid code',
+            code: 400,
+        });
+        return;
+    }
+
+    try {
+        const address = await confirmWithdrawAddress(id, parseInt(req.params.addressId), code);
+        res.json({
+            code: 200,
+            message: 'Ok',
+            data: address,
+        });
+    } catch (err) {
+        res.status(400).json({ message: err.toString(), code: 400 });
+    }
+});
+
+router.delete<{ addressId: string }, {}>('/addresses/:addressId', isAuthenticated, async (req, res) => {
+    const id = req['token'].id;
+    try {
+        const deleted = await deleteWithdrawAddress(id, parseInt(req.params.addressId));
+        if (!deleted) {
+            res.status(404).json({ message: 'Address not found', code: 404 });
+            return;
+        }
+        res.json({
+            code: 200,
+            message: 'Ok',
+        });
+    } catch (err) {
+        res.status(400).json({ message: err.toString(), code: 400 });
+    }
+});
+
+// Turn whitelist-only withdrawals on or off; needs the withdrawal password
+router.post<{}, {}>('/addresses/whitelist', isAuthenticated, async (req, res) => {
+    const id = req['token'].id;
+    const body = req.body;
+
+    if (typeof body.enabled !== 'boolean') {
+        res.status(400).send({
+            message: 'enabled parametr required',
+            code: 400,
+        });
+        return;
+    }
+
+    try {
+        await setWithdrawalWhitelist(id, body.enabled, body.withdrawalPassword);
         res.json({
             code: 200,
             message: 'Ok',
-            data: rates
+            data: { whitelistOnly: body.enabled },
         });
     } catch (err) {
         res.status(400).json({ message: err.toString(), code: 400 });
     }
 });
 
-router.post<{}, {}>('/exchange', isAuthenticated, async (req, res) => {
+const quoteResponse = (quote: ExchangeQuote) => ({
+    quoteId: quote.id,
+    fromCurrency: quote.fromCurrency,
+    toCurrency: quote.toCurrency,
+    amount: quote.amount.toFixed(),
+    rate: quote.rate.toFixed(),
+    fee: quote.fee.toFixed(),
+    outputAmount: quote.outputAmount.toFixed(),
+    expiresAt: quote.expiresAt,
+});
+
+// Lock a rate for a swap; execute it with POST /exchange before it expires
+router.post<{}, {}>('/exchange/quote', isAuthenticated, async (req, res) => {
 
     const body = req.body;
 
@@ -188,21 +486,128 @@ router.post<{}, {}>('/exchange', isAuthenticated, async (req, res) => {
         return;
     }
 
+    try {
+        const quote = await createExchangeQuote(id, body.fromCurrency, body.toCurrency, body.amount);
+        res.json({
+            code: 200,
+            message: 'Ok',
+            data: quoteResponse(quote),
+        });
+    } catch (err) {
+        res.status(400).json({ message: err.toString(), code: 400 });
+    }
+
+});
+
+// Execute a quote. Clients that still send fromCurrency/toCurrency/amount get
+// a fresh quote executed immediately, at the current rate.
+router.post<{}, {}>('/exchange', isAuthenticated, idempotent, async (req, res) => {
+
+    const body = req.body;
+
+    const id = req['token'].id;
+
+    if (!body.quoteId) {
+        if (!body.fromCurrency) {
+            res.status(400).send({
+                message: 'quoteId parametr required',
+                code: 400,
+            });
+            return;
+        }
+        if (!body.toCurrency) {
+            res.status(400).send({
+                message: 'toCurrency parametr required',
+                code: 400,
+            });
+            return;
+        }
+        if (!body.amount) {
+            res.status(400).send({
+                message: 'amount parametr required',
+                code: 400,
+            });
+            return;
+        }
+    }
+
     try {
 
-        await exchangeBalance(id, body.fromCurrency, body.toCurrency, body.amount);
+        let quoteId = body.quoteId ? String(body.quoteId) : null;
+        if (!quoteId) {
+            quoteId = (await createExchangeQuote(id, body.fromCurrency, body.toCurrency, body.amount)).id;
+        }
+
+        const quote = await exchangeBalance(id, quoteId);
 
         res.json({
             code: 200,
-            message: 'Ok'
+            message: 'Ok',
+            data: quoteResponse(quote),
         });
     } catch (err) {
-        res.status(400).json({ message: err, code: 400 });
+        res.status(400).json({ message: err.toString(), code: 400 });
+    }
+
+});
+
+// Send balance to another user by id, email or referral code
+router.post<{}, {}>('/transfer', isAuthenticated, idempotent, async (req, res) => {
+
+    const body = req.body;
+
+    const id = req['token'].id;
+
+    if (!body.to) {
+        res.status(400).send({
+            message: 'to parametr required',
+            code: 400,
+        });
+        return;
+    }
+    if (!body.currency) {
+        res.status(400).send({
+            message: 'currency parametr required',
+            code: 400,
+        });
+        return;
+    }
+    if (!body.amount) {
+        res.status(400).send({
+            message: 'amount parametr required',
+            code: 400,
+        });
+        return;
+    }
+    if (!body.withdrawalPassword) {
+        res.status(400).send({
+            message: 'Withdrawal password is required for security',
+            code: 400,
+        });
+        return;
+    }
+
+    try {
+        const transfer = await transferBalance(
+            id,
+            String(body.to),
+            String(body.currency).toUpperCase(),
+            body.amount,
+            body.withdrawalPassword,
+            body.note ? String(body.note).slice(0, 200) : undefined,
+        );
+        res.json({
+            code: 200,
+            message: 'Ok',
+            data: transfer,
+        });
+    } catch (err) {
+        res.status(400).json({ message: err.toString(), code: 400 });
     }
 
 });
 
-router.post<{}, {}>('/bet', isAuthenticated, async (req, res) => {
+router.post<{}, {}>('/bet', isAuthenticated, idempotent, async (req, res) => {
 
     const body = req.body;
 
@@ -278,25 +683,24 @@ router.post("/claim-reward", async (req, res) => {
 router.get("/solana/status", async (req, res) => {
     try {
         const { 
-            getMainPoolSolBalance, 
-            getMainPoolUsdcBalance, 
-            getWithdrawalFees, 
+            getSolanaMainPoolBalances, 
             getMinimumBalances 
         } = require('../blockchain/solana');
         
-        const [solBalance, usdcBalance] = await Promise.all([
-            getMainPoolSolBalance(),
-            getMainPoolUsdcBalance()
-        ]);
+        const { SOL: solBalance, ...tokenBalances } = await getSolanaMainPoolBalances();
         
-        const fees = getWithdrawalFees();
+        // Network fees in SOL, per currency
+        const fees = { SOL: (await estimateNetworkFee('Solana', 'SOL')).fee.toNumber() };
+        for (const currency of Object.keys(tokenBalances)) {
+            fees[currency] = (await estimateNetworkFee('Solana', currency)).fee.toNumber();
+        }
         const minimums = getMinimumBalances();
         
         res.json({
             code: 200,
             data: {
                 solBalance,
-                usdcBalance,
+                tokenBalances,
                 fees,
                 minimums,
                 timestamp: new Date().toISOString()
@@ -7,8 +7,11 @@ import telegramAuth from './api/telegram';
 import MessageResponse from './interfaces/MessageResponse';
 import path from "path";
 import { Server } from "socket.io";
+import { isolateSignerKeys } from './signer';
 // Defer blockchain/game imports to runtime flags to avoid top-level side effects
 require('dotenv').config();
+// Only the signing process may read the main pool keys
+isolateSignerKeys();
 
 const app = express();
 // Honor reverse proxy headers for correct protocol/host in OAuth flows
@@ -25,7 +28,7 @@ app.use(express.urlencoded({ limit: "10mb", extended: true }))
 app.use((req, res, next) => {
   res.setHeader("Access-Control-Allow-Origin", "*"); // Allow all origins
   res.setHeader("Access-Control-Allow-Methods", "GET,POST,PUT,DELETE,OPTIONS"); // Allowed methods
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization"); // Allowed headers
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Idempotency-Key'); // Allowed headers
   res.setHeader("Cross-Origin-Resource-Policy", "cross-origin"); // CORP
   next();
 });
@@ -68,43 +71,57 @@ app.use('/v1/api/seamless', seamless);
 app.use(middlewares.notFound);
 app.use(middlewares.errorHandler);
 
-if (process.env.ENABLE_TRON_WATCHERS === "true") {
+// Deposits are scanned, credited and swept by one orchestrator. ENABLE_DEPOSIT_MONITORING
+// covers every chain; the per-chain watcher flags enable just their chain.
+const DEPOSIT_CHAIN_FLAGS: Record<string, string> = {
+  Tron: 'ENABLE_TRON_WATCHERS',
+  Ethereum: 'ENABLE_ETH_WATCHERS',
+  BNB: 'ENABLE_BSC_WATCHERS',
+  Solana: 'ENABLE_SOL_WATCHERS',
+};
+const depositChains = Object.keys(DEPOSIT_CHAIN_FLAGS).filter((blockchain) =>
+  process.env.ENABLE_DEPOSIT_MONITORING === 'true' || process.env[DEPOSIT_CHAIN_FLAGS[blockchain]] === 'true');
+if (depositChains.length) {
   // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const { startObserverTron } = require("./blockchain/tron");
-  startObserverTron();
+  const { startDepositOrchestrator } = require('./services/depositOrchestrator');
+  startDepositOrchestrator(depositChains);
 }
 
-// Start deposit monitoring service
-if (process.env.ENABLE_DEPOSIT_MONITORING === "true") {
+if (process.env.ENABLE_GAMES === 'true') {
   // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const { depositMonitoringService } = require("./blockchain/depositListeners");
-  depositMonitoringService.start();
-  console.log("🚀 Deposit monitoring service started");
+  const { startGames } = require('./games/games');
+  startGames();
 }
 
-if (process.env.ENABLE_ETH_WATCHERS === "true") {
+if (process.env.ENABLE_RECONCILIATION === 'true') {
   // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const { watchEth } = require("./blockchain/ether");
-  watchEth();
+  const { startReconciliationScheduler } = require('./utils/reconciliationScheduler');
+  startReconciliationScheduler();
 }
 
-if (process.env.ENABLE_SOL_WATCHERS === "true") {
+if (process.env.ENABLE_WITHDRAWAL_WORKER === 'true') {
   // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const { initializeSolana, startWatchSolana } = require("./blockchain/solana");
-  try {
-    initializeSolana();
-    startWatchSolana();
-  } catch (error) {
-    console.error("Failed to initialize Solana:", error);
-  }
+  const { startWithdrawalWorker } = require('./utils/withdrawalScheduler');
+  startWithdrawalWorker();
 }
 
-if (process.env.ENABLE_GAMES === "true") {
+if (process.env.ENABLE_KEY_REENCRYPTION === 'true') {
   // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const { startGames } = require("./games/games");
-  startGames();
+  const { startKeyReencryptionScheduler } = require('./utils/keyReencryptionScheduler');
+  startKeyReencryptionScheduler();
 }
 
+// Token decimals and the symbols the price oracle fetches come from the token
+// registry; load it before requests need them
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { listTokens } = require('./db/tokens');
+listTokens().catch((err: Error) => console.error('Failed to load the token registry:', err));
+
+// Settle bet stakes left held when settling a bet failed
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { startBetStakeRetry } = require('./games/betStakes');
+startBetStakeRetry();
+
 // Start referral bonus scheduler
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const { startReferralBonusScheduler } = require("./utils/referralScheduler");
@@ -0,0 +1,14 @@
+import { ChainAdapter } from './types';
+
+// Chain adapters by Wallets.blockchain. Chain modules are required on demand:
+// they read their configuration, and Solana connects, when loaded.
+
+export const ADAPTER_CHAINS = ['Tron', 'Ethereum', 'BNB', 'Solana'];
+
+export const getChainAdapter = (blockchain: string): ChainAdapter | null => {
+  if (blockchain === 'Tron') return require('./tron').tronAdapter;
+  if (blockchain === 'Ethereum') return require('./ether').ethereumAdapter;
+  if (blockchain === 'BNB') return require('./ether').bscAdapter;
+  if (blockchain === 'Solana') return require('./solana').solanaAdapter;
+  return null;
+};
@@ -1,21 +1,34 @@
 import { ethers } from "ethers";
-import {
-    getAllWallets,
-    saveTransaction,
-    topBalance,
-    minusBalance,
-    getBalance
-} from '../db/wallets';
-import { decryptPrivateKey } from '../utils/bcrypt';
-import { convert } from '../utils/exchange';
+import { Token, getTokens, requireToken } from '../db/tokens';
+import { getWalletPrivateKey } from '../utils/hdWallet';
+import { validateAddress } from '../utils/addressValidation';
+import { Amount, AmountLike, fromUnits, toAmount, toUnits } from '../utils/money';
+import { ChainAdapter, DepositTransfer, DepositWallet, OnSigned, OnchainTxStatus, ScanContext } from './types';
+import { EvmSignerChain, SigningIntent, getSigner } from '../signer';
 import 'dotenv/config';
 
-const MAIN_POOL_ADDRESS = process.env.ETH_MAIN_POOL_ADDRESS;
-const MAIN_POOL_PK = process.env.ETH_MAIN_POOL_PK;
-const MIN_ETH_BALANCE = 0.0002;
-let wallets = [];
-
-const ERC20_ADDRESS = process.env.ETH_USDT_CONTRACT;
+// Ethereum and BNB Smart Chain share this module: both are EVM chains that
+// differ only in RPC, pool address and token contracts, so each is built from an
+// EvmChainConfig. Deposits are native transfers found in blocks and token
+// Transfer logs; once confirmed they are swept into the chain's main pool, and
+// withdrawals are sent from it; the tokens handled come from the token registry.
+// Main pool transactions are signed by the signer, which holds the pool keys.
+
+export interface EvmChainConfig {
+    // Wallets.blockchain of the deposit addresses
+    blockchain: EvmSignerChain;
+    nativeCurrency: string;
+    rpcUrl?: string;
+    mainPoolAddress?: string;
+    // Smallest native deposit credited and swept
+    minNativeDeposit: number;
+    depositConfirmations: number;
+    // Most blocks read in one scan
+    maxScanRange: number;
+    // Native coin sent to a deposit address that cannot pay for a token sweep
+    gasTopUp: string;
+    tokenTransferGas: bigint;
+}
 
 const ERC20_ABI = [
     "function decimals() view returns (uint8)",
@@ -23,195 +36,379 @@ const ERC20_ABI = [
     "function transfer(address to, uint256 amount) returns (bool)"
 ];
 
-setInterval(async () => {
-    wallets = await getAllWallets("Ethereum");
-}, 10000);
+const NATIVE_TRANSFER_GAS = BigInt(21_000);
 
-const provider = new ethers.JsonRpcProvider(process.env.ETH_RPC);
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+// Blocks with their transactions, and the registry tokens' Transfer logs
+interface EvmScan {
+    blocks: ethers.Block[];
+    logs: ethers.Log[];
+}
 
-const ensureGasFee = async (walletAddr: string) => {
+export const createEvmChain = (config: EvmChainConfig) => {
 
-    const signer = new ethers.Wallet(MAIN_POOL_PK, provider);
+    const { blockchain, nativeCurrency } = config;
+    let provider: ethers.JsonRpcProvider;
 
-    const balance = await provider.getBalance(walletAddr);
-    if (balance >= MIN_ETH_BALANCE) {
-        console.log(`✅ ${walletAddr} has enough ETH for gas`);
-        return;
+    const getProvider = () => {
+        if (!provider) {
+            provider = new ethers.JsonRpcProvider(config.rpcUrl);
+        }
+        return provider;
     }
 
-    console.log(`⚠️ ${walletAddr} has low ETH (${ethers.formatEther(balance)}). Funding...`);
+    // Pool transactions are sent one at a time. Each takes the nonce after the
+    // last one this process sent, unless the node's pending count is ahead, so
+    // concurrent withdrawals and gas top-ups never reuse a nonce.
+    let poolQueue: Promise<unknown> = Promise.resolve();
+    let nextNonce = 0;
+
+    const sendFromPool = (request: ethers.TransactionRequest, intent: SigningIntent, onSigned?: OnSigned) => {
+        const send = poolQueue.then(async () => {
+            const pending = await getProvider().getTransactionCount(config.mainPoolAddress, 'pending');
+            const nonce = Math.max(pending, nextNonce);
+            const populated = await new ethers.VoidSigner(config.mainPoolAddress, getProvider())
+                .populateTransaction({ ...request, nonce });
+            const unsignedTx = ethers.Transaction.from({ ...populated, from: undefined }).unsignedSerialized;
+            const signed = await getSigner().signEvmTransaction(blockchain, unsignedTx, intent);
+            if (onSigned) await onSigned(ethers.Transaction.from(signed).hash);
+            const tx = await getProvider().broadcastTransaction(signed);
+            nextNonce = nonce + 1;
+            return tx;
+        });
+        poolQueue = send.catch(() => undefined);
+        return send;
+    }
 
-    const tx = await signer.sendTransaction({
-        to: walletAddr,
-        value: ethers.parseEther("0.0002"), // top-up a bit more than min
-    });
+    const contractOf = (token: Token) => new ethers.Contract(token.contract, ERC20_ABI, getProvider());
 
-    console.log(`📤 Sent gas fee from main pool: ${tx.hash}`);
-    await tx.wait();
-    console.log(`✅ Gas fee confirmed for ${walletAddr}`);
-}
+    const ensureGasFee = async (walletAddr: string) => {
 
-const checkErc20 = async () => {
+        const balance = await getProvider().getBalance(walletAddr);
+        const topUp = ethers.parseEther(config.gasTopUp);
+        if (balance >= topUp) {
+            console.log(`✅ ${walletAddr} has enough ${nativeCurrency} for gas`);
+            return;
+        }
 
-    const token = new ethers.Contract(ERC20_ADDRESS, ERC20_ABI, provider);
+        console.log(`⚠️ ${walletAddr} has low ${nativeCurrency} (${ethers.formatEther(balance)}). Funding...`);
 
-    for (const w of wallets) {
-        try {
-            const signer = new ethers.Wallet(decryptPrivateKey(w.privateKey), provider);
-            const tokenWithSigner = token.connect(signer);
+        const tx = await sendFromPool({
+            to: walletAddr,
+            value: topUp,
+        }, { purpose: "gas_top_up", currency: nativeCurrency, to: walletAddr, amount: config.gasTopUp });
 
-            // Get token balance
-            const balance = await token.balanceOf(w.publicKey);
+        console.log(`📤 Sent gas fee from main pool: ${tx.hash}`);
+        await tx.wait();
+        console.log(`✅ Gas fee confirmed for ${walletAddr}`);
+    }
 
-            if (balance === BigInt(0)) {
-                continue;
-            }
+    const sweepToken = async (token: Token, w: DepositWallet): Promise<string | null> => {
 
-            const balanceEth = ethers.formatUnits(balance, 6);
+        const contract = contractOf(token);
+        const balance = await contract.balanceOf(w.publicKey);
 
-            if (Number(balanceEth) < 10) {
-                console.log(`Wallet ${w.publicKey} to low balance`);
-                continue;
-            }
+        if (balance === BigInt(0)) {
+            return null;
+        }
+
+        const amount = fromUnits(balance, token.symbol, token.decimals);
 
-            console.log(
-                `Wallet ${w.publicKey} has ${balanceEth} tokens`
-            ); // USDT has 6 decimals
+        if (amount.lt(token.minDeposit)) {
+            console.log(`Wallet ${w.publicKey} has too low ${token.symbol} balance`);
+            return null;
+        }
 
-            await ensureGasFee(w.publicKey);
+        console.log(`Wallet ${w.publicKey} has ${amount} ${token.symbol}`);
 
+        await ensureGasFee(w.publicKey);
 
-            // Send all tokens
-            const tx = await (tokenWithSigner as any).transfer(MAIN_POOL_ADDRESS, balance);
+        const signer = new ethers.Wallet(getWalletPrivateKey(w), getProvider());
+        const tx = await (contract.connect(signer) as any).transfer(config.mainPoolAddress, balance);
 
-            console.log(
-                `📤 Sweeping ${ethers.formatUnits(balance, 6)} tokens from ${w.publicKey}`
-            );
-            console.log("TX Hash:", tx.hash);
+        console.log(`📤 Sweeping ${amount} ${token.symbol} from ${w.publicKey}`);
+        console.log("TX Hash:", tx.hash);
 
-            // Wait for confirmation
-            const receipt = await tx.wait();
-            console.log(`✅ Confirmed in block ${receipt.blockNumber}`);
-            await topBalance(w.userId, Number(balanceEth), "USD");
-            await saveTransaction(w.userId, w.publicKey, Number(balanceEth), "USDT", tx.hash, "deposit");
-        } catch (err) {
-            console.error(`❌ Error sweeping wallet ${w.publicKey}:`, err);
-        }
+        const receipt = await tx.wait();
+        console.log(`✅ Confirmed in block ${receipt.blockNumber}`);
+        return tx.hash;
     }
 
-    setTimeout(checkEth, 10000);
-}
+    const sweepNative = async (w: DepositWallet): Promise<string | null> => {
 
-const checkEth = async () => {
+        const signer = new ethers.Wallet(getWalletPrivateKey(w), getProvider());
 
-    for (const w of wallets) {
-        try {
+        const balanceWei = await getProvider().getBalance(w.publicKey);
+        const balance = fromUnits(balanceWei, nativeCurrency);
 
-            const signer = new ethers.Wallet(decryptPrivateKey(w.privateKey), provider);
+        if (balanceWei === BigInt(0)) {
+            return null;
+        }
 
-            const balanceWei = await provider.getBalance(w.publicKey);
-            const balanceEth = ethers.formatEther(balanceWei);
+        if (balance.lt(config.minNativeDeposit)) {
+            console.log(`Wallet ${w.publicKey} has too low ${nativeCurrency} balance`);
+            return null;
+        }
 
-            if (balanceWei === BigInt(0)) {
-                continue;
-            }
+        const estimatedGas = await getProvider().estimateGas({
+            from: signer.address,
+            to: config.mainPoolAddress,
+            value: balanceWei - NATIVE_TRANSFER_GAS,
+        }).catch(() => NATIVE_TRANSFER_GAS);
 
-            if (Number(balanceEth) < 0.01) {
-                console.log(`Wallet ${w.publicKey} has too low`);
-                continue;
-            }
+        const feeData = await getProvider().getFeeData();
+        const gasPrice = feeData.gasPrice;
+        const fee = estimatedGas * gasPrice;
 
-            const estimatedGas = await provider.estimateGas({
-                from: signer.address,
-                to: MAIN_POOL_ADDRESS,
-                value: balanceWei - BigInt(21_000),
-            }).catch(() => BigInt(21_000));
+        if (balanceWei <= fee) {
+            console.log(`Wallet ${w.publicKey} has not enough for gas`);
+            return null;
+        }
 
-            // Gas price
-            const feeData = await provider.getFeeData();
-            const gasPrice = feeData.gasPrice;
-            const fee = estimatedGas * gasPrice;
+        const amountToSend = balanceWei - fee;
 
-            if (balanceWei <= fee) {
-                console.log(`Wallet ${w.publicKey} has not enough for gas`);
-                continue;
-            }
+        const tx = await signer.sendTransaction({
+            to: config.mainPoolAddress,
+            value: amountToSend,
+            gasLimit: estimatedGas,
+            gasPrice,
+        });
 
-            const amountToSend = balanceWei - fee;
+        await tx.wait();
 
-            const tx = await signer.sendTransaction({
-                to: MAIN_POOL_ADDRESS,
-                value: amountToSend,
-                gasLimit: estimatedGas,
-                gasPrice,
-            });
+        console.log(`Sent ${ethers.formatEther(amountToSend)} ${nativeCurrency} from ${w.publicKey} → ${config.mainPoolAddress}`);
+        console.log(`TX Hash: ${tx.hash}`);
+        return tx.hash;
+    }
 
-            await tx.wait();
+    const getHead = async () => {
+        if (!config.rpcUrl || !config.mainPoolAddress) {
+            throw new Error(`${blockchain} RPC or main pool address missing`);
+        }
+        return getProvider().getBlockNumber();
+    }
 
-            console.log(`Sent ${ethers.formatEther(amountToSend)} ETH from ${w.publicKey} → ${MAIN_POOL_ADDRESS}`);
-            console.log(`TX Hash: ${tx.hash}`);
-            const amountUSD = await convert(balanceEth, "ETH", "USDT");
-            await topBalance(w.userId, amountUSD, "USD");
-            await saveTransaction(w.userId, w.publicKey, Number(balanceEth), "ETH", tx.hash, "deposit");
+    const scanRange = async (from: number, to: number, context: ScanContext): Promise<EvmScan> => {
+        const blocks: ethers.Block[] = [];
+        for (let bn = from; bn <= to; bn++) {
+            blocks.push(await getProvider().getBlock(bn, true));
+        }
+        const logs = context.tokens.length
+            ? await getProvider().getLogs({
+                fromBlock: from,
+                toBlock: to,
+                address: context.tokens.map((token) => token.contract),
+                topics: [TRANSFER_TOPIC],
+            })
+            : [];
+        return { blocks, logs };
+    }
 
-        } catch (err) {
-            console.error(`Error sweeping wallet ${w.publicKey}:`, err);
+    // Native transfers are numbered 0 and token transfers by log index + 1,
+    // so both can come from one transaction
+    const parseTransfers = ({ blocks, logs }: EvmScan, context: ScanContext): DepositTransfer[] => {
+        const pool = context.poolAddress.toLowerCase();
+        const transfers: DepositTransfer[] = [];
+
+        for (const block of blocks) {
+            for (const tx of block?.prefetchedTransactions || []) {
+                const wallet = tx.to && context.wallets.get(tx.to.toLowerCase());
+                if (!wallet || tx.value === BigInt(0) || tx.from.toLowerCase() === pool) continue;
+                transfers.push({
+                    txHash: tx.hash,
+                    index: 0,
+                    blockNumber: block.number,
+                    from: tx.from,
+                    wallet,
+                    currency: nativeCurrency,
+                    amount: fromUnits(tx.value, nativeCurrency),
+                });
+            }
         }
+
+        const tokens = new Map(context.tokens.map((token) => [token.contract.toLowerCase(), token]));
+        for (const log of logs) {
+            const token = tokens.get(log.address.toLowerCase());
+            if (!token || log.removed || log.topics.length !== 3) continue;
+            const from = ethers.getAddress(ethers.dataSlice(log.topics[1], 12));
+            const to = ethers.dataSlice(log.topics[2], 12).toLowerCase();
+            const wallet = context.wallets.get(to);
+            const units = BigInt(log.data);
+            if (!wallet || units === BigInt(0) || from.toLowerCase() === pool) continue;
+            transfers.push({
+                txHash: log.transactionHash,
+                index: log.index + 1,
+                blockNumber: log.blockNumber,
+                from,
+                wallet,
+                currency: token.symbol,
+                amount: fromUnits(units, token.symbol, token.decimals),
+            });
+        }
+
+        return transfers;
     }
 
-    setTimeout(checkErc20, 10000);
-}
+    // Native coin and tokens held by an address, read straight from the chain
+    const getBalances = async (address: string) => {
+        const balances: Record<string, Amount> = {
+            [nativeCurrency]: fromUnits(await getProvider().getBalance(address), nativeCurrency),
+        };
+        for (const token of await getTokens(blockchain)) {
+            const balance = await contractOf(token).balanceOf(address);
+            balances[token.symbol] = fromUnits(balance, token.symbol, token.decimals);
+        }
+        return balances;
+    }
 
-export const watchEth = () => {
-    checkErc20();
-}
+    const getMainPoolBalances = () => getBalances(config.mainPoolAddress);
+
+    // Send the native coin from the main pool; returns once broadcast, without waiting for confirmation
+    const broadcastNative = async (to: string, amountNative: AmountLike, onSigned?: OnSigned): Promise<string> => {
 
-export const withdrawEth = async (userId: number, to: string, amountEth: number) => {
+        const amount = BigInt(toUnits(amountNative, nativeCurrency));
 
+        const mainBalance = await getProvider().getBalance(config.mainPoolAddress);
+        if (mainBalance < amount) {
+            throw new Error(`Main pool has insufficient ${nativeCurrency}`);
+        }
 
-    const signer = new ethers.Wallet(MAIN_POOL_PK, provider);
-    const amount = ethers.parseEther(amountEth.toString());
+        const tx = await sendFromPool({
+            to,
+            value: amount
+        }, { purpose: 'withdrawal', currency: nativeCurrency, to, amount: toAmount(amountNative).toFixed() }, onSigned);
+
+        console.log(`📤 Sent ${amountNative} ${nativeCurrency} to ${to}. TX: ${tx.hash}`);
+        return tx.hash;
 
-    const mainBalance = await provider.getBalance(signer.address);
-    if (mainBalance < amount) {
-        console.log("❌ Main pool has insufficient ETH");
-        return;
     }
 
-    const tx = await signer.sendTransaction({
-        to,
-        value: amount
-    });
+    // Send a token from the main pool; returns once broadcast
+    const broadcastToken = async (symbol: string, to: string, amountTokens: AmountLike, onSigned?: OnSigned): Promise<string> => {
 
-    console.log(`📤 Sent ${amountEth} ETH to ${to}. TX: ${tx.hash}`);
+        const token = await requireToken(blockchain, symbol);
+        const contract = contractOf(token);
+        const amount = BigInt(toUnits(amountTokens, symbol, token.decimals));
 
-    const receipt = await tx.wait();
-    await saveTransaction(userId, to, -amountEth, "ETH", tx.hash, "withdraw")
-    console.log(`✅ Confirmed in block ${receipt.blockNumber}`);
+        const mainBalance = await contract.balanceOf(config.mainPoolAddress);
+        if (mainBalance < amount) {
+            throw new Error(`Main pool has insufficient ${symbol}`);
+        }
 
-}
+        const tx = await sendFromPool({
+            to: token.contract,
+            data: contract.interface.encodeFunctionData("transfer", [to, amount]),
+        }, {
+            purpose: "withdrawal",
+            currency: token.symbol,
+            to,
+            amount: toAmount(amountTokens).toFixed(),
+            contract: token.contract,
+            decimals: token.decimals,
+        }, onSigned);
+        console.log(`📤 Sent ${amountTokens} ${symbol} to ${to}. TX: ${tx.hash}`);
+        return tx.hash;
 
-export const withdrawERC20 = async (userId: number, to: string, amountTokens: number) => {
+    }
+
+    // Network fee in the native coin of a withdrawal from the main pool at the current max fee per gas
+    const estimateWithdrawFee = async (currency: string): Promise<Amount> => {
 
-    const token = new ethers.Contract(ERC20_ADDRESS, ERC20_ABI, provider);
-    const mainPool = new ethers.Wallet(MAIN_POOL_PK, provider);
-    const tokenWithSigner = token.connect(mainPool);
+        const feeData = await getProvider().getFeeData();
+        const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice;
+        if (gasPrice == null) {
+            throw new Error(`Could not estimate ${blockchain} gas price`);
+        }
 
-    const decimals = await token.decimals();
-    const amount = ethers.parseUnits(amountTokens.toString(), decimals);
+        const gas = currency === nativeCurrency ? NATIVE_TRANSFER_GAS : config.tokenTransferGas;
+        return fromUnits(gas * gasPrice, nativeCurrency);
 
-    const mainBalance = await token.balanceOf(mainPool.address);
-    if (mainBalance < amount) {
-        console.log("❌ Main pool has insufficient tokens");
-        return;
     }
 
-    const tx = await (tokenWithSigner as any).transfer(to, amount);
-    console.log(`📤 Sent ${amountTokens} tokens to ${to}. TX: ${tx.hash}`);
+    const getTxStatus = async (hash: string): Promise<OnchainTxStatus> => {
 
-    const receipt = await tx.wait();
-    await saveTransaction(userId, to, -amountTokens, "USDT", tx.hash, "withdraw")
-    console.log(`✅ Confirmed in block ${receipt.blockNumber}`);
+        const receipt = await getProvider().getTransactionReceipt(hash);
+        if (!receipt) {
+            return { state: "pending", confirmations: 0 };
+        }
+
+        const confirmations = await receipt.confirmations();
+        const fee = fromUnits(receipt.fee, nativeCurrency);
+        if (receipt.status !== 1) {
+            return { state: "failed", confirmations, fee, feeCurrency: nativeCurrency, error: "Transaction reverted" };
+        }
+
+        return { state: "success", confirmations, fee, feeCurrency: nativeCurrency };
+
+    }
 
+    const adapter: ChainAdapter<EvmScan> = {
+        blockchain,
+        nativeCurrency,
+        depositConfirmations: config.depositConfirmations,
+        minNativeDeposit: toAmount(config.minNativeDeposit),
+        maxScanRange: config.maxScanRange,
+        getPoolAddress: async () => config.mainPoolAddress,
+        getHead,
+        scanRange,
+        parseTransfers,
+        getConfirmations: getTxStatus,
+        sweep: async (wallet, currency) =>
+            (currency === nativeCurrency ? sweepNative(wallet) : sweepToken(await requireToken(blockchain, currency), wallet)),
+        send: (currency, to, amount, options) => (currency === nativeCurrency
+            ? broadcastNative(to, amount, options?.onSigned)
+            : broadcastToken(currency, to, amount, options?.onSigned)),
+        validateAddress: (address) => validateAddress(blockchain, address),
+    };
+
+    return {
+        adapter,
+        getBalances,
+        getMainPoolBalances,
+        broadcastNative,
+        broadcastToken,
+        estimateWithdrawFee,
+        getTxStatus,
+    };
 }
 
+export const ethereum = createEvmChain({
+    blockchain: "Ethereum",
+    nativeCurrency: "ETH",
+    rpcUrl: process.env.ETH_RPC,
+    mainPoolAddress: process.env.ETH_MAIN_POOL_ADDRESS,
+    minNativeDeposit: 0.01,
+    depositConfirmations: Number(process.env.DEPOSIT_CONFIRMATIONS_ETHEREUM) || 12,
+    maxScanRange: 20,
+    gasTopUp: "0.0002",
+    tokenTransferGas: BigInt(process.env.ETH_ERC20_TRANSFER_GAS || 65_000),
+});
+
+export const bsc = createEvmChain({
+    blockchain: "BNB",
+    nativeCurrency: "BNB",
+    rpcUrl: process.env.BSC_RPC,
+    mainPoolAddress: process.env.BSC_MAIN_POOL_ADDRESS,
+    minNativeDeposit: 0.01,
+    depositConfirmations: Number(process.env.DEPOSIT_CONFIRMATIONS_BSC) || 15,
+    maxScanRange: 50,
+    gasTopUp: process.env.BSC_GAS_TOP_UP || "0.0005",
+    tokenTransferGas: BigInt(process.env.BSC_BEP20_TRANSFER_GAS || 65_000),
+});
+
+export const ethereumAdapter = ethereum.adapter;
+export const getEthBalances = (address: string) => ethereum.getBalances(address);
+export const getEthMainPoolBalances = () => ethereum.getMainPoolBalances();
+export const broadcastEth = (to: string, amount: AmountLike) => ethereum.broadcastNative(to, amount);
+export const broadcastERC20 = (currency: string, to: string, amount: AmountLike) => ethereum.broadcastToken(currency, to, amount);
+export const estimateEthWithdrawFee = (currency: string) => ethereum.estimateWithdrawFee(currency);
+export const getEthTxStatus = (hash: string) => ethereum.getTxStatus(hash);
+
+export const bscAdapter = bsc.adapter;
+export const getBscBalances = (address: string) => bsc.getBalances(address);
+export const getBscMainPoolBalances = () => bsc.getMainPoolBalances();
+export const broadcastBnb = (to: string, amount: AmountLike) => bsc.broadcastNative(to, amount);
+export const broadcastBep20 = (currency: string, to: string, amount: AmountLike) => bsc.broadcastToken(currency, to, amount);
+export const estimateBscWithdrawFee = (currency: string) => bsc.estimateWithdrawFee(currency);
+export const getBscTxStatus = (hash: string) => bsc.getTxStatus(hash);
@@ -1,63 +1,57 @@
 import {
   Connection,
   Keypair,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
   PublicKey,
   Transaction,
   SystemProgram,
   LAMPORTS_PER_SOL,
-  sendAndConfirmTransaction,
   clusterApiUrl,
 } from '@solana/web3.js';
 import {
   createTransferInstruction,
   getAssociatedTokenAddress,
+  getAssociatedTokenAddressSync,
   getAccount,
   createAssociatedTokenAccountInstruction,
   TOKEN_PROGRAM_ID,
   ASSOCIATED_TOKEN_PROGRAM_ID,
 } from '@solana/spl-token';
 import BigNumber from 'bignumber.js';
-import { saveTransaction, minusBalance, getBalance } from '../db/wallets';
+import bs58 from 'bs58';
+import { Token, getTokens, requireToken } from '../db/tokens';
+import { getWalletPrivateKey } from '../utils/hdWallet';
+import { validateAddress } from '../utils/addressValidation';
+import { Amount, AmountLike, fromUnits, toAmount, toNumber, toUnits } from '../utils/money';
+import { ChainAdapter, DepositTransfer, DepositWallet, OnSigned, OnchainTxStatus, ScanContext } from './types';
+import { SigningIntent, getPoolAddress, getSigner } from '../signer';
 
 // Solana configuration
 const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || clusterApiUrl('devnet');
-const MAIN_POOL_PRIVATE_KEY = process.env.SOLANA_MAIN_POOL_PRIVATE_KEY;
 
-// USDC mint address on Solana (mainnet: EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v)
-// Using devnet for testing
-const USDC_MINT_ADDRESS = process.env.SOLANA_USDC_MINT || '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU'; // USDC devnet
+// SPL tokens (mints, decimals, minimum deposits) come from the token registry
 
-// Fee configuration (similar to Tron)
-const SOL_WITHDRAWAL_FEE = 0.005; // 0.005 SOL fee
-const USDC_WITHDRAWAL_FEE = 1; // 1 USDC fee
 const MIN_SOL_BALANCE = 0.01; // Minimum SOL balance to maintain
-const MIN_USDC_BALANCE = 1; // Minimum USDC balance to maintain
+const MIN_TOKEN_BALANCE = 1; // Minimum balance of each token to maintain
+const MIN_SOL_DEPOSIT = 0.01; // Smallest SOL deposit credited
+// Recent signatures read per deposit address and token account in a scan
+const SIGNATURES_PER_ADDRESS = 50;
 
-let connection: Connection;
-let mainPoolKeypair: Keypair;
+// Solana reports no confirmation count once a block is rooted (finalized)
+const FINALIZED_CONFIRMATIONS = 32;
 
-// Initialize Solana connection and main pool keypair
+let sharedConnection: Connection;
+
+// Initialize Solana connection. The main pool key stays with the signer,
+// which signs every transaction the pool pays for.
 export const initializeSolana = () => {
   try {
-    connection = new Connection(SOLANA_RPC_URL, 'confirmed');
-    
-    if (!MAIN_POOL_PRIVATE_KEY) {
-      throw new Error('SOLANA_MAIN_POOL_PRIVATE_KEY environment variable is required');
-    }
-    
-    // Convert private key from base64 string to Keypair
-    const privateKeyBytes = Buffer.from(MAIN_POOL_PRIVATE_KEY, 'base64');
-    
-    // Validate private key size
-    if (privateKeyBytes.length !== 64) {
-      throw new Error(`Invalid private key size: ${privateKeyBytes.length} bytes. Expected 64 bytes (512 bits). Please check your SOLANA_MAIN_POOL_PRIVATE_KEY.`);
-    }
-    
-    mainPoolKeypair = Keypair.fromSecretKey(privateKeyBytes);
+    sharedConnection = new Connection(SOLANA_RPC_URL, 'confirmed');
     
     console.log('✅ Solana initialized successfully');
     console.log('🔗 RPC URL:', SOLANA_RPC_URL);
-    console.log('💰 Main Pool Address:', mainPoolKeypair.publicKey.toString());
   } catch (error) {
     console.error('❌ Failed to initialize Solana:', error);
     throw error;
@@ -66,18 +60,47 @@ export const initializeSolana = () => {
 
 // Get Solana connection
 export const getSolanaConnection = (): Connection => {
-  if (!connection) {
+  if (!sharedConnection) {
     initializeSolana();
   }
-  return connection;
+  return sharedConnection;
 };
 
-// Get main pool keypair
-export const getMainPoolKeypair = (): Keypair => {
-  if (!mainPoolKeypair) {
-    initializeSolana();
+// Get main pool address
+export const getMainPoolPublicKey = async (): Promise<PublicKey> => new PublicKey(await getPoolAddress('Solana'));
+
+// Have the signer sign a transaction paid by the main pool, add the other
+// signers' signatures and broadcast it
+const sendFromPool = async (
+  transaction: Transaction,
+  intent: SigningIntent,
+  { signers = [], confirm = false, onSigned }: { signers?: Keypair[]; confirm?: boolean; onSigned?: OnSigned } = {},
+): Promise<string> => {
+  const connection = getSolanaConnection();
+  const mainPool = await getMainPoolPublicKey();
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+  transaction.feePayer = mainPool;
+  transaction.recentBlockhash = blockhash;
+  if (signers.length) {
+    transaction.partialSign(...signers);
+  }
+
+  const poolSignature = await getSigner().signSolanaMessage(transaction.serializeMessage().toString('base64'), intent);
+  transaction.addSignature(mainPool, Buffer.from(poolSignature, 'base64'));
+  // The fee payer's signature is the transaction's id
+  if (onSigned) await onSigned(bs58.encode(Buffer.from(poolSignature, 'base64')));
+
+  const signature = await connection.sendRawTransaction(transaction.serialize(), {
+    maxRetries: 3,
+    skipPreflight: false,
+  });
+  if (confirm) {
+    const { value } = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    if (value.err) {
+      throw new Error(`Transaction ${signature} failed: ${JSON.stringify(value.err)}`);
+    }
   }
-  return mainPoolKeypair;
+  return signature;
 };
 
 // Check if a Solana address is valid
@@ -94,19 +117,20 @@ export const isValidSolanaAddress = (address: string): boolean => {
 export const getSolBalance = async (address: string): Promise<number> => {
   try {
     const publicKey = new PublicKey(address);
-    const balance = await connection.getBalance(publicKey);
-    return balance / LAMPORTS_PER_SOL;
+    const balance = await getSolanaConnection().getBalance(publicKey);
+    return toNumber(fromUnits(balance, 'SOL'));
   } catch (error) {
     console.error('Error getting SOL balance:', error);
     throw new Error('Failed to get SOL balance');
   }
 };
 
-// Get USDC token balance
-export const getUsdcBalance = async (address: string): Promise<number> => {
+// Get SPL token balance
+export const getTokenBalance = async (address: string, currency: string): Promise<number> => {
+  const token = await requireToken('Solana', currency);
   try {
     const publicKey = new PublicKey(address);
-    const mintPublicKey = new PublicKey(USDC_MINT_ADDRESS);
+    const mintPublicKey = new PublicKey(token.contract);
     
     const associatedTokenAddress = await getAssociatedTokenAddress(
       mintPublicKey,
@@ -114,25 +138,25 @@ export const getUsdcBalance = async (address: string): Promise<number> => {
     );
     
     try {
-      const accountInfo = await getAccount(connection, associatedTokenAddress);
-      return Number(accountInfo.amount) / 1e6; // USDC has 6 decimals
+      const accountInfo = await getAccount(getSolanaConnection(), associatedTokenAddress);
+      return toNumber(fromUnits(accountInfo.amount, token.symbol, token.decimals));
     } catch {
       // Account doesn't exist, balance is 0
       return 0;
     }
   } catch (error) {
-    console.error('Error getting USDC balance:', error);
-    throw new Error('Failed to get USDC balance');
+    console.error(`Error getting ${token.symbol} balance:`, error);
+    throw new Error(`Failed to get ${token.symbol} balance`);
   }
 };
 
-// Withdraw SOL (matching Tron pattern)
-export const withdrawSol = async (userId: number, to: string, amount: number): Promise<string> => {
+// Send SOL from the main pool; returns once broadcast, without waiting for confirmation
+export const broadcastSol = async (to: string, amount: AmountLike, onSigned?: OnSigned): Promise<string> => {
   try {
     console.log(`🚀 Withdrawing ${amount} SOL to ${to}`);
     
     const connection = getSolanaConnection();
-    const mainPool = getMainPoolKeypair();
+    const mainPool = await getMainPoolPublicKey();
     
     // Validate recipient address
     if (!isValidSolanaAddress(to)) {
@@ -141,19 +165,18 @@ export const withdrawSol = async (userId: number, to: string, amount: number): P
     
     const recipientPublicKey = new PublicKey(to);
     
-    // Use BigNumber for precise calculations (like Tron)
-    const amountBN = new BigNumber(amount);
-    const feeBN = new BigNumber(SOL_WITHDRAWAL_FEE);
-    const totalAmountBN = amountBN.plus(feeBN);
+    // Use BigNumber for precise calculations (like Tron). Withdrawal fees were
+    // deducted when the request was made; amount is what the recipient gets
+    const totalAmountBN = new BigNumber(amount);
     
     // Convert to lamports with precise calculation
-    const lamports = totalAmountBN.times(LAMPORTS_PER_SOL).integerValue(BigNumber.ROUND_DOWN);
+    const lamports = new BigNumber(toUnits(totalAmountBN, 'SOL'));
     
-    console.log(`💰 Amount: ${amount} SOL, Fee: ${SOL_WITHDRAWAL_FEE} SOL, Total: ${totalAmountBN.toString()} SOL`);
+    console.log(`💰 Amount: ${amount} SOL`);
     
     // Check main pool balance
-    const mainPoolBalance = await connection.getBalance(mainPool.publicKey);
-    const mainPoolBalanceSOL = new BigNumber(mainPoolBalance).dividedBy(LAMPORTS_PER_SOL);
+    const mainPoolBalance = await connection.getBalance(mainPool);
+    const mainPoolBalanceSOL = fromUnits(mainPoolBalance, 'SOL');
     
     console.log(`🏦 Main pool balance: ${mainPoolBalanceSOL.toString()} SOL`);
     
@@ -170,37 +193,25 @@ export const withdrawSol = async (userId: number, to: string, amount: number): P
     // Create transfer transaction
     const transaction = new Transaction().add(
                 SystemProgram.transfer({
-        fromPubkey: mainPool.publicKey,
+        fromPubkey: mainPool,
         toPubkey: recipientPublicKey,
         lamports: lamports.toNumber(),
       })
     );
     
-    // Send and confirm transaction
-    const signature = await sendAndConfirmTransaction(
-      connection,
-      transaction,
-      [mainPool],
-      { 
-        commitment: 'confirmed',
-        maxRetries: 3,
-        skipPreflight: false
-      }
-    );
+    // Sign with the signer and send
+    const signature = await sendFromPool(transaction, {
+      purpose: 'withdrawal',
+      currency: 'SOL',
+      to,
+      amount: totalAmountBN.toFixed(),
+    }, { onSigned });
     
     if (!signature) {
       throw new Error('Transaction failed or not broadcasted');
     }
     
-    console.log(`✅ SOL withdrawal successful | Signature: ${signature}`);
-    
-    // Save transaction to database (like Tron)
-    await saveTransaction(userId, to, -amount, 'SOL', signature, 'withdraw');
-    
-    // Update user balance (like Tron)
-    await minusBalance(userId, amount, 'SOL');
-    
-    console.log(`📉 User ${userId} SOL balance reduced by ${amount}`);
+    console.log(`✅ SOL withdrawal broadcast | Signature: ${signature}`);
     
     return signature;
     
@@ -210,13 +221,14 @@ export const withdrawSol = async (userId: number, to: string, amount: number): P
   }
 };
 
-// Withdraw USDC (matching Tron pattern)
-export const withdrawUsdc = async (userId: number, to: string, amount: number): Promise<string> => {
+// Send an SPL token from the main pool; returns once broadcast, without waiting for confirmation
+export const broadcastSplToken = async (currency: string, to: string, amount: AmountLike, onSigned?: OnSigned): Promise<string> => {
+  const token = await requireToken('Solana', currency);
   try {
-    console.log(`🚀 Withdrawing ${amount} USDC to ${to}`);
+    console.log(`🚀 Withdrawing ${amount} ${token.symbol} to ${to}`);
     
     const connection = getSolanaConnection();
-    const mainPool = getMainPoolKeypair();
+    const mainPool = await getMainPoolPublicKey();
     
     // Validate recipient address
     if (!isValidSolanaAddress(to)) {
@@ -224,14 +236,13 @@ export const withdrawUsdc = async (userId: number, to: string, amount: number):
     }
     
     const recipientPublicKey = new PublicKey(to);
-    const mintPublicKey = new PublicKey(USDC_MINT_ADDRESS);
+    const mintPublicKey = new PublicKey(token.contract);
     
-    // Use BigNumber for precise calculations (like Tron)
-    const amountBN = new BigNumber(amount);
-    const feeBN = new BigNumber(USDC_WITHDRAWAL_FEE);
-    const totalAmountBN = amountBN.plus(feeBN);
+    // Use BigNumber for precise calculations (like Tron). Withdrawal fees were
+    // deducted when the request was made; amount is what the recipient gets
+    const totalAmountBN = new BigNumber(amount);
     
-    console.log(`💰 Amount: ${amount} USDC, Fee: ${USDC_WITHDRAWAL_FEE} USDC, Total: ${totalAmountBN.toString()} USDC`);
+    console.log(`💰 Amount: ${amount} ${token.symbol}`);
     
     // Get or create associated token account for recipient
     const recipientTokenAccount = await getAssociatedTokenAddress(
@@ -239,91 +250,76 @@ export const withdrawUsdc = async (userId: number, to: string, amount: number):
       recipientPublicKey
     );
     
-    // Get main pool's USDC token account
+    // Get main pool's token account
     const mainPoolTokenAccount = await getAssociatedTokenAddress(
       mintPublicKey,
-      mainPool.publicKey
+      mainPool,
     );
     
-    // Check main pool USDC balance first
-    const mainPoolUsdcBalance = await getUsdcBalance(mainPool.publicKey.toString());
-    const mainPoolUsdcBalanceBN = new BigNumber(mainPoolUsdcBalance);
+    // Check main pool token balance first
+    const mainPoolTokenBalance = await getTokenBalance(mainPool.toString(), token.symbol);
+    const mainPoolTokenBalanceBN = new BigNumber(mainPoolTokenBalance);
     
-    console.log(`🏦 Main pool USDC balance: ${mainPoolUsdcBalanceBN.toString()} USDC`);
+    console.log(`🏦 Main pool ${token.symbol} balance: ${mainPoolTokenBalanceBN.toString()} ${token.symbol}`);
     
-    if (mainPoolUsdcBalanceBN.isLessThan(totalAmountBN)) {
-      throw new Error(`Insufficient USDC balance in main pool. Required: ${totalAmountBN.toString()} USDC, Available: ${mainPoolUsdcBalanceBN.toString()} USDC`);
+    if (mainPoolTokenBalanceBN.isLessThan(totalAmountBN)) {
+      throw new Error(`Insufficient ${token.symbol} balance in main pool. Required: ${totalAmountBN.toString()} ${token.symbol}, Available: ${mainPoolTokenBalanceBN.toString()} ${token.symbol}`);
     }
     
     // Check minimum balance requirement
-    const remainingBalance = mainPoolUsdcBalanceBN.minus(totalAmountBN);
-    if (remainingBalance.isLessThan(MIN_USDC_BALANCE)) {
-      throw new Error(`Insufficient balance after withdrawal. Must maintain at least ${MIN_USDC_BALANCE} USDC`);
+    const remainingBalance = mainPoolTokenBalanceBN.minus(totalAmountBN);
+    if (remainingBalance.isLessThan(MIN_TOKEN_BALANCE)) {
+      throw new Error(`Insufficient balance after withdrawal. Must maintain at least ${MIN_TOKEN_BALANCE} ${token.symbol}`);
     }
     
-    // Check if recipient has a token account, create if not
+    const transaction = new Transaction();
+    
+    // Check if recipient has a token account, create it in the same transaction if not
     try {
       await getAccount(connection, recipientTokenAccount);
       console.log(`✅ Recipient token account exists: ${recipientTokenAccount.toString()}`);
     } catch {
       console.log(`📝 Creating recipient token account: ${recipientTokenAccount.toString()}`);
       // Create associated token account for recipient
-      const createAccountInstruction = createAssociatedTokenAccountInstruction(
-        mainPool.publicKey, // payer
+      transaction.add(createAssociatedTokenAccountInstruction(
+        mainPool, // payer
         recipientTokenAccount, // associated token account
         recipientPublicKey, // owner
         mintPublicKey // mint
-      );
-      
-      const createTransaction = new Transaction().add(createAccountInstruction);
-      await sendAndConfirmTransaction(connection, createTransaction, [mainPool], {
-        commitment: 'confirmed',
-        maxRetries: 3
-      });
+      ));
     }
     
     // Create transfer instruction with precise amount calculation
-    const transferAmount = totalAmountBN.times(1e6).integerValue(BigNumber.ROUND_DOWN); // USDC has 6 decimals
-    const transferInstruction = createTransferInstruction(
+    const transferAmount = new BigNumber(toUnits(totalAmountBN, token.symbol, token.decimals));
+    transaction.add(createTransferInstruction(
       mainPoolTokenAccount, // source
       recipientTokenAccount, // destination
-      mainPool.publicKey, // owner
+      mainPool, // owner
       transferAmount.toNumber(),
       [],
       TOKEN_PROGRAM_ID
-    );
-    
-    // Create and send transaction
-    const transaction = new Transaction().add(transferInstruction);
-    const signature = await sendAndConfirmTransaction(
-      connection,
-      transaction,
-      [mainPool],
-      { 
-        commitment: 'confirmed',
-        maxRetries: 3,
-        skipPreflight: false
-      }
-    );
+    ));
+    
+    // Sign with the signer and send
+    const signature = await sendFromPool(transaction, {
+      purpose: 'withdrawal',
+      currency: token.symbol,
+      to,
+      amount: totalAmountBN.toFixed(),
+      contract: token.contract,
+      decimals: token.decimals,
+    }, { onSigned });
     
     if (!signature) {
       throw new Error('Transaction failed or not broadcasted');
     }
     
-    console.log(`✅ USDC withdrawal successful | Signature: ${signature}`);
-    
-    // Save transaction to database (like Tron)
-    await saveTransaction(userId, to, -amount, 'USDC', signature, 'withdraw');
-    
-    // Update user balance (like Tron)
-    await minusBalance(userId, amount, 'USDC');
-    
-    console.log(`📉 User ${userId} USDC balance reduced by ${amount}`);
+    console.log(`✅ ${token.symbol} withdrawal broadcast | Signature: ${signature}`);
     
     return signature;
     
   } catch (error) {
-    console.error('❌ USDC withdrawal failed:', error);
+    console.error(`❌ ${token.symbol} withdrawal failed:`, error);
     throw error;
   }
 };
@@ -360,14 +356,37 @@ export const getTransactionStatus = async (signature: string): Promise<{
   }
 };
 
+// Outcome of a broadcast withdrawal; finalized transactions count as confirmed
+export const getSolanaTxStatus = async (signature: string): Promise<OnchainTxStatus> => {
+  const connection = getSolanaConnection();
+  const { value } = await connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+  if (!value) {
+    return { state: 'pending', confirmations: 0 };
+  }
+
+  const finalized = value.confirmationStatus === 'finalized';
+  const confirmations = finalized ? FINALIZED_CONFIRMATIONS : value.confirmations || 0;
+
+  let fee;
+  if (finalized || value.err) {
+    const tx = await connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 });
+    if (tx?.meta) fee = fromUnits(tx.meta.fee, 'SOL');
+  }
+
+  if (value.err) {
+    return { state: 'failed', confirmations, fee, feeCurrency: 'SOL', error: JSON.stringify(value.err) };
+  }
+  return { state: finalized ? 'success' : 'pending', confirmations, fee, feeCurrency: 'SOL' };
+};
+
 // Get main pool SOL balance (like Tron)
 export const getMainPoolSolBalance = async (): Promise<number> => {
   try {
     const connection = getSolanaConnection();
-    const mainPool = getMainPoolKeypair();
+    const mainPool = await getMainPoolPublicKey();
     
-    const balance = await connection.getBalance(mainPool.publicKey);
-    const solBalance = new BigNumber(balance).dividedBy(LAMPORTS_PER_SOL);
+    const balance = await connection.getBalance(mainPool);
+    const solBalance = fromUnits(balance, 'SOL');
     
     console.log(`🏦 Main pool SOL balance: ${solBalance.toString()} SOL`);
     return solBalance.toNumber();
@@ -377,22 +396,33 @@ export const getMainPoolSolBalance = async (): Promise<number> => {
   }
 };
 
-// Get main pool USDC balance (like Tron)
-export const getMainPoolUsdcBalance = async (): Promise<number> => {
+// Get main pool token balance (like Tron)
+export const getMainPoolTokenBalance = async (currency: string): Promise<number> => {
   try {
-    const mainPool = getMainPoolKeypair();
-    return await getUsdcBalance(mainPool.publicKey.toString());
+    const mainPool = await getMainPoolPublicKey();
+    return await getTokenBalance(mainPool.toString(), currency);
   } catch (error) {
-    console.error('Error getting main pool USDC balance:', error);
-    throw new Error('Failed to get main pool USDC balance');
+    console.error(`Error getting main pool ${currency} balance:`, error);
+    throw new Error(`Failed to get main pool ${currency} balance`);
+  }
+};
+
+// SOL and tokens held by an address
+export const getSolanaBalances = async (address: string) => {
+  const balances: Record<string, number> = { SOL: await getSolBalance(address) };
+  for (const token of await getTokens('Solana')) {
+    balances[token.symbol] = await getTokenBalance(address, token.symbol);
   }
+  return balances;
 };
 
+export const getSolanaMainPoolBalances = async () => getSolanaBalances((await getMainPoolPublicKey()).toString());
+
 // Check if withdrawal is possible (like Tron)
-export const canWithdrawSol = async (amount: number): Promise<{ canWithdraw: boolean; reason?: string }> => {
+export const canWithdrawSol = async (amount: AmountLike): Promise<{ canWithdraw: boolean; reason?: string }> => {
   try {
     const mainPoolBalance = await getMainPoolSolBalance();
-    const totalRequired = new BigNumber(amount).plus(SOL_WITHDRAWAL_FEE);
+    const totalRequired = new BigNumber(amount);
     const remainingBalance = new BigNumber(mainPoolBalance).minus(totalRequired);
     
     if (remainingBalance.isLessThan(MIN_SOL_BALANCE)) {
@@ -411,17 +441,17 @@ export const canWithdrawSol = async (amount: number): Promise<{ canWithdraw: boo
   }
 };
 
-// Check if USDC withdrawal is possible (like Tron)
-export const canWithdrawUsdc = async (amount: number): Promise<{ canWithdraw: boolean; reason?: string }> => {
+// Check if token withdrawal is possible (like Tron)
+export const canWithdrawToken = async (currency: string, amount: AmountLike): Promise<{ canWithdraw: boolean; reason?: string }> => {
   try {
-    const mainPoolBalance = await getMainPoolUsdcBalance();
-    const totalRequired = new BigNumber(amount).plus(USDC_WITHDRAWAL_FEE);
+    const mainPoolBalance = await getMainPoolTokenBalance(currency);
+    const totalRequired = new BigNumber(amount);
     const remainingBalance = new BigNumber(mainPoolBalance).minus(totalRequired);
     
-    if (remainingBalance.isLessThan(MIN_USDC_BALANCE)) {
+    if (remainingBalance.isLessThan(MIN_TOKEN_BALANCE)) {
       return {
         canWithdraw: false,
-        reason: `Insufficient balance. Required: ${totalRequired.toString()} USDC, Available: ${mainPoolBalance} USDC, Must maintain: ${MIN_USDC_BALANCE} USDC`
+        reason: `Insufficient balance. Required: ${totalRequired.toString()} ${currency}, Available: ${mainPoolBalance} ${currency}, Must maintain: ${MIN_TOKEN_BALANCE} ${currency}`,
       };
     }
     
@@ -434,21 +464,229 @@ export const canWithdrawUsdc = async (amount: number): Promise<{ canWithdraw: bo
   }
 };
 
-// Get withdrawal fees (like Tron)
-export const getWithdrawalFees = () => {
-  return {
-    SOL: SOL_WITHDRAWAL_FEE,
-    USDC: USDC_WITHDRAWAL_FEE
-  };
+// Network fee in SOL of a withdrawal from the main pool, priced by the cluster
+// for a transfer of the same shape. Creating the recipient's token account, when
+// it has none, costs rent on top.
+export const estimateSolanaWithdrawFee = async (currency: string): Promise<Amount> => {
+  const connection = getSolanaConnection();
+  const mainPool = await getMainPoolPublicKey();
+
+  let instruction;
+  if (currency === 'SOL') {
+    instruction = SystemProgram.transfer({
+      fromPubkey: mainPool,
+      toPubkey: mainPool,
+      lamports: 1,
+    });
+  } else {
+    const token = await requireToken('Solana', currency);
+    const poolTokenAccount = await getAssociatedTokenAddress(new PublicKey(token.contract), mainPool);
+    instruction = createTransferInstruction(poolTokenAccount, poolTokenAccount, mainPool, 1, [], TOKEN_PROGRAM_ID);
+  }
+
+  const { blockhash } = await connection.getLatestBlockhash();
+  const transaction = new Transaction({ feePayer: mainPool, recentBlockhash: blockhash }).add(instruction);
+  const { value } = await connection.getFeeForMessage(transaction.compileMessage());
+  if (value == null) {
+    throw new Error('Could not estimate Solana network fee');
+  }
+  return fromUnits(value, 'SOL');
 };
 
 // Get minimum balances (like Tron)
 export const getMinimumBalances = () => {
   return {
     SOL: MIN_SOL_BALANCE,
-    USDC: MIN_USDC_BALANCE
+    token: MIN_TOKEN_BALANCE,
   };
 };
 
+// Move a deposit address's token balance to the main pool. The pool pays the
+// transaction fee, so deposit addresses need no SOL.
+const sweepTokenDeposit = async (wallet: DepositWallet, token: Token): Promise<string | null> => {
+  const connection = getSolanaConnection();
+  const mainPool = await getMainPoolPublicKey();
+  const mint = new PublicKey(token.contract);
+  const owner = new PublicKey(wallet.publicKey);
+
+  const source = await getAssociatedTokenAddress(mint, owner);
+  let account;
+  try {
+    account = await getAccount(connection, source);
+  } catch {
+    // No token account, nothing deposited
+    return null;
+  }
+
+  const amount = fromUnits(account.amount, token.symbol, token.decimals);
+  if (amount.isZero() || amount.lt(token.minDeposit)) {
+    return null;
+  }
+
+  const depositKeypair = Keypair.fromSecretKey(bs58.decode(getWalletPrivateKey(wallet)));
+  const destination = await getAssociatedTokenAddress(mint, mainPool);
+  const transaction = new Transaction();
+  try {
+    await getAccount(connection, destination);
+  } catch {
+    transaction.add(createAssociatedTokenAccountInstruction(mainPool, destination, mainPool, mint));
+  }
+  transaction.add(createTransferInstruction(source, destination, owner, account.amount, [], TOKEN_PROGRAM_ID));
+
+  // The pool only pays the fee; the signer refuses anything moving pool funds
+  const signature = await sendFromPool(
+    transaction,
+    { purpose: 'fee_payer', currency: 'SOL', to: mainPool.toBase58(), amount: '0' },
+    { signers: [depositKeypair], confirm: true },
+  );
+
+  console.log(`💰 ${token.symbol} deposit: ${amount.toString()} ${token.symbol} swept to main pool | User ${wallet.userId} | TX: ${signature}`);
+  return signature;
+};
+
+// Move all of a deposit address's SOL to the main pool, which pays the fee
+const sweepSolDeposit = async (wallet: DepositWallet): Promise<string | null> => {
+  const connection = getSolanaConnection();
+  const mainPool = await getMainPoolPublicKey();
+  const owner = new PublicKey(wallet.publicKey);
+
+  const lamports = await connection.getBalance(owner);
+  if (!lamports) {
+    return null;
+  }
+
+  const depositKeypair = Keypair.fromSecretKey(bs58.decode(getWalletPrivateKey(wallet)));
+  const transaction = new Transaction().add(SystemProgram.transfer({
+    fromPubkey: owner,
+    toPubkey: mainPool,
+    lamports,
+  }));
+  const signature = await sendFromPool(
+    transaction,
+    { purpose: 'fee_payer', currency: 'SOL', to: mainPool.toBase58(), amount: '0' },
+    { signers: [depositKeypair], confirm: true },
+  );
+
+  console.log(`💰 SOL deposit: ${fromUnits(lamports, 'SOL').toString()} SOL swept to main pool | User ${wallet.userId} | TX: ${signature}`);
+  return signature;
+};
+
+// Deposit addresses and their token accounts, by address
+type WatchedAccounts = Map<string, { wallet: DepositWallet; token?: Token }>;
+
+interface SolanaScan {
+  accounts: WatchedAccounts;
+  transactions: { signature: string; slot: number; transaction: ParsedTransactionWithMeta | null }[];
+}
+
+// Solana blocks are too large to read whole, so a scan lists the recent
+// signatures of every deposit address and token account and keeps those in
+// the slot range
+const scanSolanaRange = async (from: number, to: number, context: ScanContext): Promise<SolanaScan> => {
+  const connection = getSolanaConnection();
+  const accounts: WatchedAccounts = new Map();
+  for (const wallet of context.wallets.values()) {
+    const owner = new PublicKey(wallet.publicKey);
+    accounts.set(wallet.publicKey, { wallet });
+    for (const token of context.tokens) {
+      accounts.set(getAssociatedTokenAddressSync(new PublicKey(token.contract), owner).toBase58(), { wallet, token });
+    }
+  }
+
+  const slots = new Map<string, number>();
+  for (const address of accounts.keys()) {
+    const signatures = await connection.getSignaturesForAddress(new PublicKey(address), { limit: SIGNATURES_PER_ADDRESS });
+    for (const { signature, slot, err } of signatures) {
+      if (!err && slot >= from && slot <= to) slots.set(signature, slot);
+    }
+  }
+
+  const signatures = [...slots.keys()];
+  const parsed = signatures.length
+    ? await connection.getParsedTransactions(signatures, { maxSupportedTransactionVersion: 0 })
+    : [];
+  return {
+    accounts,
+    transactions: signatures.map((signature, i) => ({ signature, slot: slots.get(signature), transaction: parsed[i] })),
+  };
+};
+
+// System and SPL token transfers into watched accounts, inner instructions
+// included. index is the instruction's position with each instruction's inner
+// instructions following it.
+const parseSolanaTransfers = ({ accounts, transactions }: SolanaScan, context: ScanContext): DepositTransfer[] => {
+  const transfers: DepositTransfer[] = [];
+
+  for (const { signature, slot, transaction } of transactions) {
+    if (!transaction?.meta || transaction.meta.err) continue;
+
+    const instructions: (ParsedInstruction | PartiallyDecodedInstruction)[] = [];
+    transaction.transaction.message.instructions.forEach((instruction, i) => {
+      instructions.push(instruction);
+      const inner = transaction.meta.innerInstructions?.find((set) => set.index === i);
+      if (inner) instructions.push(...inner.instructions);
+    });
+
+    instructions.forEach((instruction, index) => {
+      if (!('parsed' in instruction)) return;
+      const { type, info } = instruction.parsed || {};
+      const entry = info && accounts.get(info.destination);
+      if (!entry) return;
+
+      if (instruction.program === 'system' && type === 'transfer' && !entry.token) {
+        if (info.source === context.poolAddress || !info.lamports) return;
+        transfers.push({
+          txHash: signature,
+          index,
+          blockNumber: slot,
+          from: info.source,
+          wallet: entry.wallet,
+          currency: 'SOL',
+          amount: fromUnits(info.lamports, 'SOL'),
+        });
+      } else if (instruction.program === 'spl-token' && (type === 'transfer' || type === 'transferChecked') && entry.token) {
+        const units = info.amount ?? info.tokenAmount?.amount;
+        if (info.authority === context.poolAddress || !units || units === '0') return;
+        transfers.push({
+          txHash: signature,
+          index,
+          blockNumber: slot,
+          from: info.authority,
+          wallet: entry.wallet,
+          currency: entry.token.symbol,
+          amount: fromUnits(units, entry.token.symbol, entry.token.decimals),
+        });
+      }
+    });
+  }
+
+  return transfers;
+};
+
+export const solanaAdapter: ChainAdapter<SolanaScan> = {
+  blockchain: 'Solana',
+  nativeCurrency: 'SOL',
+  // Only finalized transactions report success
+  depositConfirmations: 1,
+  minNativeDeposit: toAmount(MIN_SOL_DEPOSIT),
+  // Slots; a scan costs the same however many it covers
+  maxScanRange: 1000,
+  getPoolAddress: () => getPoolAddress('Solana'),
+  getHead: () => getSolanaConnection().getSlot('confirmed'),
+  scanRange: scanSolanaRange,
+  parseTransfers: parseSolanaTransfers,
+  getConfirmations: getSolanaTxStatus,
+  sweep: async (wallet, currency) =>
+    (currency === 'SOL' ? sweepSolDeposit(wallet) : sweepTokenDeposit(wallet, await requireToken('Solana', currency))),
+  send: (currency, to, amount, options) => (currency === 'SOL'
+    ? broadcastSol(to, amount, options?.onSigned)
+    : broadcastSplToken(currency, to, amount, options?.onSigned)),
+  validateAddress: (address) => validateAddress('Solana', address),
+  precheckSend: async (currency, amount) => {
+    const check = currency === 'SOL' ? await canWithdrawSol(amount) : await canWithdrawToken(currency, amount);
+    return check.canWithdraw ? null : check.reason || `Cannot withdraw ${currency} at this time`;
+  },
+};
+
 // Initialize Solana on module load
 initializeSolana();
\ No newline at end of file
@@ -1,14 +1,10 @@
 import * as tr from 'tronweb';
-import BigNumber from 'bignumber.js';
-import {
-    getAllWallets,
-    saveTransaction,
-    topBalance,
-    minusBalance,
-    getBalance
-} from '../db/wallets';
-import { decryptPrivateKey } from '../utils/bcrypt';
-import { convert } from '../utils/exchange';
+import { Token, getTokens, requireToken } from '../db/tokens';
+import { getWalletPrivateKey } from '../utils/hdWallet';
+import { validateAddress } from '../utils/addressValidation';
+import { Amount, AmountLike, fromUnits, toAmount, toUnits } from '../utils/money';
+import { ChainAdapter, DepositTransfer, DepositWallet, OnSigned, OnchainTxStatus, ScanContext } from './types';
+import { SigningIntent, getSigner } from '../signer';
 import 'dotenv/config';
 
 
@@ -24,281 +20,313 @@ function getTronWeb() {
     return tronWebInstance;
 }
 const MAIN_POOL_ADDRESS = process.env.TRON_MAIN_POOL_ADDRESS;
-const MAIN_POOL_PK = process.env.TRON_MAIN_POOL_PK;
-const USDT_CONTRACT = process.env.TRON_USDT_CONTRACT;
-const MIN_SWEEP_USDT = 10;
 const GAS_AMOUNT = 2_000_000;
 
-let lastBlockNumber = 0;
-let wallets = [];
+const TRC20_TRANSFER_SELECTOR = 'a9059cbb';
+// Smallest TRX deposit credited; a TRX sweep leaves a little behind for bandwidth
+const MIN_TRX_DEPOSIT = toAmount(5);
+const TRX_SWEEP_FEE_BUFFER = toAmount(0.1);
 
-setInterval(async () => {
-    wallets = await getAllWallets("Tron");
-}, 10000);
-
-
-const pollBlocks = async () => {
+// TronWeb signing with a deposit address's own key
+const walletTronWeb = (wallet: DepositWallet) =>
+    new tr.TronWeb({ fullHost: process.env.TRON_FULLNODE, privateKey: getWalletPrivateKey(wallet) });
 
+const waitForConfirmation = async (txId: string, timeout = 60000) => {
     const tronWeb = getTronWeb();
-    const currentBlock = await tronWeb.trx.getCurrentBlock();
-    const currentBlockNumber = currentBlock.block_header.raw_data.number;
-
-    if (!lastBlockNumber) lastBlockNumber = currentBlockNumber - 1;
-
-    for (let bn = lastBlockNumber + 1; bn <= currentBlockNumber; bn++) {
-        const block = await tronWeb.trx.getBlock(bn);
-        if (!block.transactions) continue;
-
-        for (const tx of block.transactions) {
-            for (const c of tx.raw_data.contract) {
-                if (c.type === 'TransferContract') {
-                    const data = c.parameter.value;
-                    const to = tronWeb.address.fromHex(data['to_address']);
-                    const amount = new BigNumber(data['amount']).div(1e6); // TRX has 6 decimals
-
-                    const addr = wallets.find(a => a.publicKey === to);
-                    if (addr && amount.gt(0)) {
-                        const incomingTxId = tx.txID;
-                        console.log(`💰 TRX deposit: ${amount.toString()} TRX to user ${addr.userId}`);
-                        if (amount.toNumber() > 5) {
-                            transferToMain(addr, amount, incomingTxId);
-                        }
-                    }
-                }
-            }
-        }
+    const start = Date.now();
+    while (Date.now() - start < timeout) {
+        const receipt = await tronWeb.trx.getTransactionInfo(txId);
+        if (receipt && receipt.receipt) return receipt;
+        await new Promise(r => setTimeout(r, 3000));
     }
+    throw new Error(`Tx ${txId} not confirmed within timeout`);
+};
 
-    lastBlockNumber = currentBlockNumber;
-
-}
-
-const transferToMain = async (wallet: any, amount: BigNumber, txId: string) => {
-
-    try {
-
-        const pkFrom = await decryptPrivateKey(wallet.privateKey);
-        const tronWebIns = new tr.TronWeb({ fullHost: process.env.TRON_FULLNODE });
-        tronWebIns.setPrivateKey(pkFrom);
+// Main pool transactions are built here and signed by the signer, which holds the pool key
+const sendFromPool = async (transaction: any, intent: SigningIntent, onSigned?: OnSigned): Promise<string> => {
+    const signed = await getSigner().signTronTransaction(transaction, intent);
+    if (onSigned) await onSigned(signed.txID);
+    const result = await getTronWeb().trx.sendRawTransaction(signed);
+    if (!result?.result) throw new Error(`Tx failed or not broadcasted: ${result?.code || 'no result'}`);
+    return signed.txID;
+};
 
-        const feeBuffer = new BigNumber(0.1);
+const sendTrxFromPool = async (to: string, amount: AmountLike, purpose: SigningIntent['purpose'], onSigned?: OnSigned) => {
+    const transaction = await getTronWeb().transactionBuilder.sendTrx(to, Number(toUnits(amount, 'TRX')), MAIN_POOL_ADDRESS);
+    return sendFromPool(transaction, { purpose, currency: 'TRX', to, amount: toAmount(amount).toFixed() }, onSigned);
+};
 
-        const amountToSend = amount.minus(feeBuffer);
+const sendTokenFromPool = async (
+    token: Token, to: string, amount: AmountLike, purpose: SigningIntent['purpose'], onSigned?: OnSigned,
+) => {
+    const { transaction } = await getTronWeb().transactionBuilder.triggerSmartContract(
+        token.contract,
+        'transfer(address,uint256)',
+        { feeLimit: 100_000_000, callValue: 0 },
+        [{ type: 'address', value: to }, { type: 'uint256', value: toUnits(amount, token.symbol, token.decimals) }],
+        MAIN_POOL_ADDRESS
+    );
+    return sendFromPool(transaction, {
+        purpose,
+        currency: token.symbol,
+        to,
+        amount: toAmount(amount).toFixed(),
+        contract: token.contract,
+        decimals: token.decimals,
+    }, onSigned);
+};
 
-        const amountSun = new BigNumber(amountToSend).multipliedBy(1e6).toNumber();
-        const tx = await tronWebIns.trx.sendTransaction(MAIN_POOL_ADDRESS, amountSun);
-        const amountUSD = await convert(amount, "TRX", "USDT");
-        await saveTransaction(wallet.userId, wallet.publicKey, amountToSend.toNumber(), "TRX", txId, "deposit");
-        await topBalance(wallet.userId, amountUSD, "USD");
+// Token balance of an address in the token's smallest units
+const getTokenUnits = async (token: Token, address: string): Promise<bigint> => {
+    const { constant_result } = await getTronWeb().transactionBuilder.triggerSmartContract(
+        token.contract,
+        'balanceOf(address)',
+        {},
+        [{ type: 'address', value: address }]
+    );
+    return constant_result?.[0] ? BigInt(`0x${constant_result[0]}`) : BigInt(0);
+};
 
-        console.log(`✅ TRX swept: ${amountToSend} TRX to main pool | User ${wallet.userId} | TX: ${tx.txid}`);
+// Move a deposit address's TRX to the main pool
+const sweepTrx = async (wallet: DepositWallet): Promise<string | null> => {
 
-    } catch (err) {
-        console.log(err);
+    const tronWebIns = walletTronWeb(wallet);
+    const balance = fromUnits(await tronWebIns.trx.getBalance(wallet.publicKey), 'TRX');
+    const amountToSend = balance.minus(TRX_SWEEP_FEE_BUFFER);
+    if (!amountToSend.gt(0)) {
+        return null;
     }
 
-}
+    const tx = await tronWebIns.trx.sendTransaction(MAIN_POOL_ADDRESS, Number(toUnits(amountToSend, 'TRX')));
+    if (!tx?.result) throw new Error(`TRX sweep not broadcasted: ${tx?.code || 'no result'}`);
 
+    console.log(`✅ TRX swept: ${amountToSend} TRX to main pool | User ${wallet.userId} | TX: ${tx.txid}`);
+    return tx.txid;
 
-const waitForConfirmation = async (txId: string, timeout = 60000) => {
-    const tronWeb = getTronWeb();
-    const start = Date.now();
-    while (Date.now() - start < timeout) {
-        const receipt = await tronWeb.trx.getTransactionInfo(txId);
-        if (receipt && receipt.receipt) return receipt;
-        await new Promise(r => setTimeout(r, 3000));
-    }
-    throw new Error(`Tx ${txId} not confirmed within timeout`);
 };
 
-export const maybeSweepUserDeposit = async (
-    depositAddr: string,
-    depositPk: string,
-    incomingTxId: string,
-    userId: number,
-    balanceRaw: any,
-	) => {
+// Move a deposit address's token balance to the main pool, topping up its TRX
+// from the pool first when it cannot pay for the energy
+const sweepTronToken = async (wallet: DepositWallet, token: Token): Promise<string | null> => {
 
-	const tw = getTronWeb();
-	const balance = parseFloat(tw.toBigNumber(balanceRaw).div(1e6).toString());
+    const { publicKey: depositAddr, userId } = wallet;
 
-    if (balance < MIN_SWEEP_USDT) {
-        return;
+    const units = await getTokenUnits(token, depositAddr);
+    const balance = fromUnits(units, token.symbol, token.decimals);
+    if (balance.isZero() || balance.lt(token.minDeposit)) {
+        return null;
     }
 
-	// check TRX balance for fees
-	const trxBalance = await tw.trx.getBalance(depositAddr);
+    // check TRX balance for fees
+    const trxBalance = await getTronWeb().trx.getBalance(depositAddr);
     if (trxBalance < GAS_AMOUNT) {
-	const tronWebIns = getTronWeb();
-        tronWebIns.setPrivateKey(MAIN_POOL_PK);
-        const { txid } = await tronWebIns.trx.sendTransaction(depositAddr, GAS_AMOUNT,);
+        const txid = await sendTrxFromPool(depositAddr, fromUnits(GAS_AMOUNT, 'TRX'), 'gas_top_up');
         await waitForConfirmation(txid);
     }
 
-    const tronWebIns = getTronWeb();
-    tronWebIns.setPrivateKey(decryptPrivateKey(depositPk));
-    const contract2 = await tronWebIns.contract().at(USDT_CONTRACT);
-    const txId = await contract2.transfer(MAIN_POOL_ADDRESS, balanceRaw).send({
+    const contract = await walletTronWeb(wallet).contract().at(token.contract);
+    const txId = await contract.transfer(MAIN_POOL_ADDRESS, units.toString()).send({
         feeLimit: 100_000_000,  // energy limit
         callValue: 0,           // TRX amount to send (0 for tokens)
-        shouldPollResponse: true
     });
 
-	const amountToSend = tw.toBigNumber(balanceRaw).div(1e6);
-
-    await saveTransaction(userId, depositAddr, amountToSend.toNumber(), "USDT", incomingTxId, "deposit");
-    await topBalance(userId, amountToSend.toNumber(), "USD");
+    const info = await waitForConfirmation(txId);
+    if (info.receipt.result && info.receipt.result !== 'SUCCESS') {
+        throw new Error(`${token.symbol} sweep ${txId} failed: ${info.receipt.result}`);
+    }
 
-    console.log(`💰 USDT deposit: ${balance} USDT swept to main pool | User ${userId} | TX: ${txId}`)
+    console.log(`💰 ${token.symbol} deposit: ${balance} ${token.symbol} swept to main pool | User ${userId} | TX: ${txId}`)
 
     return txId;
 };
 
-
-const checkBalances = async () => {
-    try {
-        if (!USDT_CONTRACT) {
-            console.error('❌ TRON_USDT_CONTRACT not configured in .env file');
-            return;
-        }
-
-        if (wallets.length === 0) {
-            // No wallets to check yet
-            setTimeout(checkBalances, 60 * 1000);
-            return;
-        }
-
-        const tronWebIns = getTronWeb();
-
-        // Method 1: Using TronWeb contract (try-catch for each wallet)
-        for (const wallet of wallets) {
-            const addr = wallet.publicKey;
-
-            try {
-                // Call contract using triggerSmartContract for more reliable results
-                const parameter = [{ type: 'address', value: addr }];
-                const options = {};
-                
-                const transaction = await tronWebIns.transactionBuilder.triggerSmartContract(
-                    USDT_CONTRACT,
-                    'balanceOf(address)',
-                    options,
-                    parameter
-                );
-
-                if (!transaction || !transaction.constant_result || !transaction.constant_result[0]) {
-                    continue;
-                }
-
-                // Decode the result (it's a hex string)
-                const balanceHex = transaction.constant_result[0];
-                const balanceRaw = tronWebIns.toBigNumber(balanceHex);
-                const balance = new BigNumber(balanceRaw.toString()).div(1e6);
-
-                if (balance.gte(MIN_SWEEP_USDT)) {
-                    console.log(`💰 Found ${balance.toString()} USDT for user ${wallet.userId}`);
-                    try {
-                        await maybeSweepUserDeposit(wallet.publicKey, wallet.privateKey, '-', wallet.userId, balanceRaw.toString());
-                    } catch (err) {
-                        console.error(`❌ USDT sweep failed for user ${wallet.userId}:`, err.message);
-                    }
-                }
-            } catch (err) {
-                // Skip this wallet and continue with others
-                console.error(`Error checking balance for ${addr}:`, err.message);
+// TRX transfers and direct TRC-20 transfer() calls into deposit addresses.
+// Token transfers made from inside other contracts are not seen.
+const parseTronTransfers = (blocks: any[], context: ScanContext): DepositTransfer[] => {
+
+    const { fromHex } = tr.TronWeb.address;
+    const tokens = new Map(context.tokens.map((token) => [token.contract, token]));
+    const transfers: DepositTransfer[] = [];
+
+    for (const block of blocks) {
+        const blockNumber = block.block_header.raw_data.number;
+        for (const tx of block.transactions || []) {
+            const result = tx.ret?.[0]?.contractRet;
+            if (result && result !== 'SUCCESS') continue;
+
+            const contract = tx.raw_data.contract[0];
+            const value = contract?.parameter?.value;
+            if (!value) continue;
+            const from = fromHex(value.owner_address);
+            if (from === context.poolAddress) continue;
+
+            let to: string;
+            let currency: string;
+            let amount: Amount;
+            if (contract.type === 'TransferContract') {
+                to = fromHex(value.to_address);
+                currency = 'TRX';
+                amount = fromUnits(value.amount, 'TRX');
+            } else if (contract.type === 'TriggerSmartContract') {
+                // transfer(address,uint256): selector, then the address and amount as 32 byte words
+                const token = tokens.get(fromHex(value.contract_address));
+                const data = String(value.data || '');
+                if (!token || data.length !== 136 || !data.startsWith(TRC20_TRANSFER_SELECTOR)) continue;
+                to = fromHex(`41${data.slice(32, 72)}`);
+                currency = token.symbol;
+                amount = fromUnits(BigInt(`0x${data.slice(72)}`), token.symbol, token.decimals);
+            } else {
                 continue;
             }
+
+            const wallet = context.wallets.get(to);
+            if (wallet && amount.gt(0)) {
+                transfers.push({ txHash: tx.txID, index: 0, blockNumber, from, wallet, currency, amount });
+            }
         }
-    } catch (err) {
-        console.error('Error in checkBalances:', err);
     }
 
-    setTimeout(checkBalances, 60 * 1000);
+    return transfers;
 };
 
 
-export const startObserverTron = () => {
-    checkBalances();
-    setInterval(pollBlocks, 3000);
-}
+// TRX and tokens held by an address, read straight from the chain
+export const getTronBalances = async (address: string) => {
+    const tronWebIns = getTronWeb();
+    const balances: Record<string, Amount> = {
+        TRX: fromUnits(await tronWebIns.trx.getBalance(address), 'TRX'),
+    };
 
-export const withdrawTokenTron = async (userId: number, to: string, amount: number) => {
+    for (const token of await getTokens('Tron')) {
+        balances[token.symbol] = fromUnits(await getTokenUnits(token, address), token.symbol, token.decimals);
+    }
 
-    const tronWebIns = getTronWeb();
-    tronWebIns.setPrivateKey(MAIN_POOL_PK);
+    return balances;
+};
 
-    const contract = await tronWebIns.contract().at(USDT_CONTRACT);
+export const getTronMainPoolBalances = () => getTronBalances(MAIN_POOL_ADDRESS);
 
-    const rawAmount = new BigNumber(amount).times(1e6).toFixed(0);
+// Send a TRC-20 token from the main pool; returns once broadcast, without waiting for confirmation
+export const broadcastTronToken = async (currency: string, to: string, amount: AmountLike, onSigned?: OnSigned): Promise<string> => {
 
-    const txId = await contract.transfer(to, rawAmount).send({
-        feeLimit: 100_000_000,
-        callValue: 0,
-        shouldPollResponse: true
-    });
+    const token = await requireToken('Tron', currency);
 
-    await saveTransaction(userId, to, -amount, "USDT", '-', "withdraw")
+    const txId = await sendTokenFromPool(token, to, amount, 'withdrawal', onSigned);
 
-    console.log(`💸 USDT withdrawal: ${amount} USDT to ${to} | User ${userId} | TX: ${txId}`);
+    console.log(`💸 ${token.symbol} withdrawal broadcast: ${amount} ${token.symbol} to ${to} | TX: ${txId}`);
     return txId;
 
 };
 
-export const withdrawTrx = async (userId: number, to: string, amount: number) => {
+// Send TRX from the main pool; returns once broadcast, without waiting for confirmation
+export const broadcastTrx = async (to: string, amount: AmountLike, onSigned?: OnSigned): Promise<string> => {
 
+    const txId = await sendTrxFromPool(to, amount, 'withdrawal', onSigned);
 
-    const tronWebIns = getTronWeb();
-    tronWebIns.setPrivateKey(MAIN_POOL_PK);
-
-    const rawAmount = new BigNumber(parseInt(amount.toString())).times(1e6);
+    console.log(`💸 TRX withdrawal broadcast: ${amount} TRX to ${to} | TX: ${txId}`);
+    return txId;
 
-    const tx = await tronWebIns.trx.sendTransaction(to, rawAmount.toNumber());
+};
 
-    if (!tx?.txid) throw new Error('Tx failed or not broadcasted');
+const TRX_TRANSFER_BANDWIDTH = 270;
+const TRC20_TRANSFER_BANDWIDTH = 345;
+// Energy of a TRC-20 (USDT) transfer to an address that already holds the token;
+// the first transfer to an address costs about twice as much
+const TRC20_TRANSFER_ENERGY = Number(process.env.TRON_USDT_TRANSFER_ENERGY) || 65_000;
 
-    await saveTransaction(userId, to, -amount, "TRX", tx.txid, "withdraw")
+// Network fee in TRX of a withdrawal from the main pool: energy and bandwidth
+// the pool does not have staked are burned at the chain's current prices
+export const estimateTronWithdrawFee = async (currency: string): Promise<Amount> => {
 
-    console.log(`💸 TRX withdrawal: ${amount} TRX to ${to} | User ${userId} | TX: ${tx.txid}`);
+    const tronWeb = getTronWeb();
+    const [params, resources] = await Promise.all([
+        tronWeb.trx.getChainParameters(),
+        tronWeb.trx.getAccountResources(MAIN_POOL_ADDRESS),
+    ]);
+    const param = (key: string, fallback: number) =>
+        Number(params.find((p: any) => p.key === key)?.value ?? fallback);
+    const energyPrice = param('getEnergyFee', 420);
+    const bandwidthPrice = param('getTransactionFee', 1000);
+
+    const freeBandwidth = (resources.freeNetLimit || 0) - (resources.freeNetUsed || 0)
+        + (resources.NetLimit || 0) - (resources.NetUsed || 0);
+    const freeEnergy = (resources.EnergyLimit || 0) - (resources.EnergyUsed || 0);
+
+    const bandwidth = currency === 'TRX' ? TRX_TRANSFER_BANDWIDTH : TRC20_TRANSFER_BANDWIDTH;
+    const energy = currency === 'TRX' ? 0 : TRC20_TRANSFER_ENERGY;
+
+    // Bandwidth is paid for the whole transaction once the pool cannot cover it
+    const sun = (bandwidth > freeBandwidth ? bandwidth * bandwidthPrice : 0)
+        + Math.max(energy - freeEnergy, 0) * energyPrice;
+    return fromUnits(sun, 'TRX');
 
 };
 
+export const getTronTxStatus = async (txId: string): Promise<OnchainTxStatus> => {
 
-export const withdrawTrxOnchain = async (to: string, amount: number) => {
+    const tronWeb = getTronWeb();
+    const info = await tronWeb.trx.getTransactionInfo(txId);
+    if (!info || !info.blockNumber) {
+        return { state: 'pending', confirmations: 0 };
+    }
 
-    const tronWebIns = new tr.TronWeb({ fullHost: process.env.TRON_FULLNODE });
-    tronWebIns.setPrivateKey(MAIN_POOL_PK);
+    const currentBlock = await tronWeb.trx.getCurrentBlock();
+    const confirmations = currentBlock.block_header.raw_data.number - info.blockNumber + 1;
+    const fee = fromUnits(info.fee || 0, 'TRX');
+
+    // Contract calls report their outcome in receipt.result, plain transfers only on failure
+    const result = info.receipt?.result;
+    if (info.result === 'FAILED' || (result && result !== 'SUCCESS')) {
+        const error = info.resMessage ? Buffer.from(info.resMessage, 'hex').toString() : result || 'FAILED';
+        return { state: 'failed', confirmations, fee, feeCurrency: 'TRX', error };
+    }
 
-    const rawAmount = new BigNumber(amount).times(1e6);
+    return { state: 'success', confirmations, fee, feeCurrency: 'TRX' };
 
-    console.log(`🚀 Withdrawing ${amount} TRX to ${to}`);
+};
 
-    const tx = await tronWebIns.trx.sendTransaction(to, rawAmount.toNumber());
 
-    if (!tx?.txid) throw new Error('Tx failed or not broadcasted');
+export const withdrawTrxOnchain = async (to: string, amount: AmountLike) => {
 
-    console.log(`✅ Tx confirmed: ${tx.txid}`);
+    console.log(`🚀 Withdrawing ${amount} TRX to ${to}`);
 
-};
+    const txId = await sendTrxFromPool(to, amount, 'payout');
 
-export const withdrawTokenTronOnchain = async (to: string, amount: number) => {
+    console.log(`✅ Tx confirmed: ${txId}`);
 
-    const tronWebIns = new tr.TronWeb({ fullHost: process.env.TRON_FULLNODE });
-    tronWebIns.setPrivateKey(MAIN_POOL_PK);
+};
 
-    const contract = await tronWebIns.contract().at(USDT_CONTRACT);
+export const withdrawTokenTronOnchain = async (to: string, amount: AmountLike, currency = 'USDT') => {
 
-    const rawAmount = new BigNumber(amount).times(1e6).toFixed(0);
+    const token = await requireToken('Tron', currency);
 
-    console.log(`🚀 Withdrawing ${amount} USDT from main pool -> ${to}`);
+    console.log(`🚀 Withdrawing ${amount} ${token.symbol} from main pool -> ${to}`);
 
-    const txId = await contract.transfer(to, rawAmount).send({
-        feeLimit: 100_000_000,
-        callValue: 0,
-        shouldPollResponse: true
-    });
+    const txId = await sendTokenFromPool(token, to, amount, 'payout');
+    await waitForConfirmation(txId);
 
     console.log(`✅ Withdrawal successful | TxID: ${txId}`);
     
     return txId;
 
-};
\ No newline at end of file
+};
+
+export const tronAdapter: ChainAdapter<any[]> = {
+    blockchain: 'Tron',
+    nativeCurrency: 'TRX',
+    depositConfirmations: Number(process.env.DEPOSIT_CONFIRMATIONS_TRON) || 19,
+    minNativeDeposit: MIN_TRX_DEPOSIT,
+    // getblockbylimitnext serves at most 100 blocks
+    maxScanRange: 20,
+    getPoolAddress: async () => MAIN_POOL_ADDRESS,
+    getHead: async () => (await getTronWeb().trx.getCurrentBlock()).block_header.raw_data.number,
+    scanRange: (from, to) => getTronWeb().trx.getBlockRange(from, to),
+    parseTransfers: parseTronTransfers,
+    getConfirmations: getTronTxStatus,
+    sweep: async (wallet, currency) =>
+        (currency === 'TRX' ? sweepTrx(wallet) : sweepTronToken(wallet, await requireToken('Tron', currency))),
+    send: (currency, to, amount, options) => (currency === 'TRX'
+        ? broadcastTrx(to, amount, options?.onSigned)
+        : broadcastTronToken(currency, to, amount, options?.onSigned)),
+    validateAddress: (address) => validateAddress('Tron', address),
+};
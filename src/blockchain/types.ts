@@ -0,0 +1,82 @@
+import { Token } from '../db/tokens';
+import { AddressValidationResult } from '../utils/addressValidation';
+import { WalletKeySource } from '../utils/hdWallet';
+import { Amount, AmountLike } from '../utils/money';
+
+// State of a transaction we broadcast, as seen on chain. success means it is
+// in a block and did not revert; callers decide how many confirmations suffice.
+export interface OnchainTxStatus {
+  state: 'pending' | 'success' | 'failed';
+  confirmations: number;
+  // Network fee paid, in the chain's native currency
+  fee?: Amount;
+  feeCurrency?: string;
+  error?: string;
+}
+
+// A deposit address as stored in Wallets
+export interface DepositWallet extends WalletKeySource {
+  id: number;
+  userId: number;
+  publicKey: string;
+}
+
+// What an adapter needs to pick deposits out of a range of blocks
+export interface ScanContext {
+  // Deposit addresses of the chain by address, lowercased on EVM chains
+  wallets: Map<string, DepositWallet>;
+  tokens: Token[];
+  // Transfers from the main pool (gas top-ups) are not deposits
+  poolAddress: string;
+}
+
+// One transfer into a deposit address. index tells transfers of the same
+// transaction apart (log or instruction position) and is 0 for the first.
+export interface DepositTransfer {
+  txHash: string;
+  index: number;
+  blockNumber: number;
+  from?: string;
+  wallet: DepositWallet;
+  currency: string;
+  amount: Amount;
+}
+
+// Called with the hash of a signed pool transaction before it is broadcast. The
+// transaction is only sent once it resolves, so a hash that was never stored
+// was never sent.
+export type OnSigned = (txHash: string) => Promise<void>;
+
+export interface SendOptions {
+  // Only given on chains whose addresses validate with one
+  memo?: string;
+  onSigned?: OnSigned;
+}
+
+// Everything the deposit orchestrator and the withdrawal worker do on a
+// chain, implemented once in each chain module. Blocks are numbered by
+// height, or by slot on Solana.
+export interface ChainAdapter<Raw = unknown> {
+  blockchain: string;
+  nativeCurrency: string;
+  // Confirmations a deposit needs before it is credited
+  depositConfirmations: number;
+  // Smallest native deposit credited; token minimums come from the registry
+  minNativeDeposit: Amount;
+  // Most blocks read in one scan
+  maxScanRange: number;
+  getPoolAddress: () => Promise<string>;
+  getHead: () => Promise<number>;
+  // Reads blocks from..to inclusive; parseTransfers picks the deposits out
+  scanRange: (from: number, to: number, context: ScanContext) => Promise<Raw>;
+  parseTransfers: (raw: Raw, context: ScanContext) => DepositTransfer[];
+  getConfirmations: (txHash: string) => Promise<OnchainTxStatus>;
+  // Moves the address's balance of currency into the main pool; resolves to
+  // the sweep transaction, or null when the balance is not worth sweeping
+  sweep: (wallet: DepositWallet, currency: string) => Promise<string | null>;
+  // Sends from the main pool; resolves once broadcast
+  send: (currency: string, to: string, amount: AmountLike, options?: SendOptions) => Promise<string>;
+  validateAddress: (address: string) => AddressValidationResult;
+  // Resolves to a reason when the pool cannot pay right now
+  precheckSend?: (currency: string, amount: AmountLike) => Promise<string | null>;
+}
@@ -2,8 +2,16 @@ import 'dotenv/config';
 import { hashPassword } from '../utils/bcrypt';
 import prisma from "./prisma";
 import { topBalance } from './wallets';
+import { creditUser } from './ledger';
+import { withTransaction } from './pool';
+import {
+    WITHDRAW_STATUSES, WithdrawRequestRecord, WithdrawStatus, approveWithdrawal, markWithdrawalBroadcast,
+    markWithdrawalFailed, refundWithdrawal, rejectWithdrawal, retryWithdrawal, reviewWithdrawal,
+} from './withdrawals';
+import { sendNotificationEmail } from '../utils/email';
+import { assertValidAddress } from '../utils/addressValidation';
 // Defer blockchain operations to runtime to avoid importing modules at startup
-import { convert } from '../utils/exchange';
+import { AmountLike, parseAmount, toDbAmount } from '../utils/money';
 const bcrypt = require('bcrypt');
 const jwt = require('jsonwebtoken');
 
@@ -80,13 +88,14 @@ export async function getPlatformStats(range = 30) {
     // 1. Aggregates
     const [userCount, depositsAgg, withdrawalsAgg, betsAgg] = await Promise.all([
         prisma.user.count(),
+        // Valued in USD at the rate used when each transaction happened
         prisma.transaction.aggregate({
             where: { type: "deposit", createdAt: { gte: dateFrom } },
-            _sum: { amount: true },
+            _sum: { usdValue: true },
         }),
         prisma.transaction.aggregate({
-            where: { type: "withdrawal", createdAt: { gte: dateFrom } },
-            _sum: { amount: true },
+            where: { type: 'withdraw', createdAt: { gte: dateFrom } },
+            _sum: { usdValue: true },
         }),
         prisma.bet.aggregate({
             where: { createdAt: { gte: dateFrom } },
@@ -95,8 +104,8 @@ export async function getPlatformStats(range = 30) {
         }),
     ]);
 
-    const totalDeposits = toNum(depositsAgg._sum.amount);
-    const totalWithdrawals = toNum(withdrawalsAgg._sum.amount);
+    const totalDeposits = toNum(depositsAgg._sum.usdValue);
+    const totalWithdrawals = Math.abs(toNum(withdrawalsAgg._sum.usdValue)); // withdrawals are stored negative
     const totalBetAmount = toNum(betsAgg._sum.amount);
     const totalPayouts = toNum(betsAgg._sum.payout);
     const betPnL = totalBetAmount - totalPayouts; // platform P/L
@@ -110,8 +119,8 @@ export async function getPlatformStats(range = 30) {
         (prisma as any).$queryRawUnsafe(
             `SELECT
               to_char(date_trunc('day', "createdAt"), 'YYYY-MM-DD') AS day,
-              SUM(CASE WHEN type = 'deposit' THEN amount ELSE 0 END)::text AS deposits,
-              SUM(CASE WHEN type = 'withdrawal' THEN amount ELSE 0 END)::text AS withdrawals
+              SUM(CASE WHEN type = 'deposit' THEN "usdValue" ELSE 0 END)::text AS deposits,
+              SUM(CASE WHEN type = 'withdraw' THEN -"usdValue" ELSE 0 END)::text AS withdrawals
             FROM "Transactions"
             WHERE "createdAt" >= $1
             GROUP BY 1
@@ -154,18 +163,19 @@ export async function getPlatformStats(range = 30) {
     });
 
     // 3. Distribution by currency
-    type CurRow = { currency: string; volume: string };
+    type CurRow = { currency: string; volume: string; volumeusd: string };
     const byCurrencyRows = await prisma.$queryRaw<CurRow[]>`
-    SELECT currency, SUM(amount)::text AS volume
+    SELECT currency, SUM(amount)::text AS volume, SUM("usdValue")::text AS volumeUsd
     FROM "Transactions"
     WHERE "createdAt" >= ${dateFrom} AND type = 'deposit'
     GROUP BY currency
-    ORDER BY SUM(amount) DESC
+    ORDER BY SUM("usdValue") DESC NULLS LAST
     LIMIT 12;
   `;
     const byCurrency = byCurrencyRows.map(r => ({
         currency: r.currency || "UNKNOWN",
         volume: toNum(r.volume),
+        volumeUsd: toNum(r.volumeusd),
     }));
 
     // 4. Distribution by game
@@ -348,7 +358,7 @@ export async function suspendUser(userId: number) {
 }
 
 // Edit user info
-export async function updateUserInfo(userId: number, data: Partial<{ name: string; email: string; status: string, role: string, phone: string }>) {
+export async function updateUserInfo(userId: number, data: Partial<{ name: string; email: string; status: string, role: string, phone: string, tier: string }>) {
     return prisma.user.update({
         where: { id: userId },
         data: {
@@ -356,7 +366,8 @@ export async function updateUserInfo(userId: number, data: Partial<{ name: strin
             email: data.email,
             status: data.status,
             role: data.role,
-            phone: data.phone
+            phone: data.phone,
+            tier: data.tier ? String(data.tier).trim().toLowerCase() : undefined,
         },
     });
 }
@@ -402,28 +413,24 @@ export async function topUpUserBalance(
     adminId: number,
     userId: number,
     currency: string,
-    amount: number,
+    amount: AmountLike,
     description: string
 ) {
-    if (amount <= 0) throw new Error("Amount must be greater than zero");
-
-    return await prisma.$transaction(async (tx) => {
-        // 1. Update or create balance
-        const balance = await tx.balance.upsert({
-            where: { userId_currency: { userId, currency } },
-            update: { amount: { increment: amount } },
-            create: { userId, currency, amount: amount },
-        });
-
-        // 2. Log the top-up
-        await tx.log.create({
-            data: {
-                adminId,
-                userId,
-                type: "TOPUP",
-                description,
-            },
-        });
+    const parsed = parseAmount(amount);
+    if (!parsed || !parsed.gt(0)) throw new Error('Amount must be greater than zero');
+
+    // The credit and its log entry commit together
+    return withTransaction(async (client) => {
+        const balance = await creditUser(userId, parsed, currency, {
+            type: 'admin_topup',
+            id: adminId,
+            description,
+        }, client);
+
+        await client.query(
+            'INSERT INTO "Logs" ("adminId", "userId", type, description) VALUES ($1, $2, $3, $4)',
+            [adminId, userId, 'TOPUP', description],
+        );
 
         return balance;
     });
@@ -631,14 +638,17 @@ export async function processPayout(payoutId: number) {
     if (payout.status !== "pending") throw new Error("Payout already processed");
 
     if (payout.userId) {
-        await topBalance(payout.userId, payout.amount, payout.currency);
+        await topBalance(payout.userId, payout.amount, payout.currency, { type: 'payout', id: payout.id });
     } else {
+        // On-chain payouts are sent from the Tron pool
+        assertValidAddress('Tron', payout.to);
         if (payout.currency == "TRX") {
             const { withdrawTrxOnchain } = require('../blockchain/tron');
             await withdrawTrxOnchain(payout.to, payout.amount);
-        } else if (payout.currency == "USDT") {
+        } else {
+            // Any token in the registry for Tron
             const { withdrawTokenTronOnchain } = require('../blockchain/tron');
-            await withdrawTokenTronOnchain(payout.to, payout.amount);
+            await withdrawTokenTronOnchain(payout.to, payout.amount, payout.currency);
         }
     }
 
@@ -801,69 +811,157 @@ export const updateGame = async (id: number, data: any)=> {
   });
 }
 
+// Approving hands the request to the withdrawal worker, which broadcasts it
+// and captures the held balance once it confirms on chain
 export const processWithdraw = async (id: number) => {
     const withdraw = await prisma.withdrawRequest.findUnique({ where: { id: id } });
-    if (!withdraw) throw new Error("Payout not found");
+    if (!withdraw) throw new Error('Withdrawal not found');
     if (!withdraw.to) throw new Error("No recipient address");
-    if (withdraw.status !== "pending") throw new Error("Payout already processed");
-
-        if (withdraw.blockchain == "Tron") {
-            if (withdraw.currency == "TRX") {
-                const { withdrawTrx } = require('../blockchain/tron');
-                let amount = await convert(withdraw.amount, "USDT", "TRX");
-                await withdrawTrx(withdraw.userId, withdraw.to, amount);
-            } else if (withdraw.currency == "USDT") {
-                const { withdrawTokenTron } = require('../blockchain/tron');
-                await withdrawTokenTron(withdraw.userId, withdraw.to, withdraw.amount);
-            }
-        } else if (withdraw.blockchain == "Ethereum") {
-            if (withdraw.currency == "ETH") {
-                const { withdrawEth } = require('../blockchain/ether');
-                let amount = await convert(withdraw.amount, "USDT", "ETH");
-                await withdrawEth(withdraw.userId, withdraw.to, amount);
-            } else if (withdraw.currency == "USDT") {
-                const { withdrawERC20 } = require('../blockchain/ether');
-                await withdrawERC20(withdraw.userId, withdraw.to, withdraw.amount);
-            }
-                } else if (withdraw.blockchain == "Solana") {
-                    if (withdraw.currency == "SOL") {
-                        const { withdrawSol, canWithdrawSol } = require('../blockchain/solana');
-                        let amount = await convert(withdraw.amount, "USD", "SOL");
-                        
-                        // Check if withdrawal is possible
-                        const canWithdraw = await canWithdrawSol(amount);
-                        if (!canWithdraw.canWithdraw) {
-                            throw new Error(canWithdraw.reason || 'Cannot withdraw SOL at this time');
-                        }
-                        
-                        await withdrawSol(withdraw.userId, withdraw.to, amount);
-                    } else if (withdraw.currency == "USDC") {
-                        const { withdrawUsdc, canWithdrawUsdc } = require('../blockchain/solana');
-                        let amount = await convert(withdraw.amount, "USD", "USDC");
-                        
-                        // Check if withdrawal is possible
-                        const canWithdraw = await canWithdrawUsdc(amount);
-                        if (!canWithdraw.canWithdraw) {
-                            throw new Error(canWithdraw.reason || 'Cannot withdraw USDC at this time');
-                        }
-                        
-                        await withdrawUsdc(withdraw.userId, withdraw.to, amount);
-                    }
-        }
+    assertValidAddress(withdraw.blockchain, withdraw.to);
 
-    const updated = await prisma.withdrawRequest.update({
-        where: { id: id },
-        data: { status: "completed" },
+    return approveWithdrawal(id);
+};
+
+export type WithdrawalAction = 'approve' | 'review' | 'reject' | 'retry' | 'refund' | 'mark_broadcast' | 'mark_failed';
+
+export const WITHDRAWAL_ACTIONS: WithdrawalAction[] = [
+    'approve', 'review', 'reject', 'retry', 'refund', 'mark_broadcast', 'mark_failed',
+];
+
+const notifyWithdrawalUser = async (withdrawal: WithdrawRequestRecord, subject: string, text: string) => {
+    try {
+        const user = await prisma.user.findUnique({ where: { id: withdrawal.userId } });
+        if (user?.email) await sendNotificationEmail(user.email, subject, text);
+    } catch (err) {
+        console.error(`Failed to notify user about withdrawal #${withdrawal.id}:`, err);
+    }
+};
+
+// Run an admin action on a withdrawal and record it in the admin Logs.
+// Rejected and refunded requests return the held USD to the user, who is emailed.
+// mark_broadcast and mark_failed settle a request stuck broadcasting once the
+// admin checked the chain: mark_broadcast takes the hash found there.
+export const withdrawalAction = async (
+    adminId: number, id: number, action: WithdrawalAction, reason?: string, txHash?: string,
+) => {
+    let withdrawal: WithdrawRequestRecord;
+    switch (action) {
+        case 'approve':
+            withdrawal = await processWithdraw(id);
+            break;
+        case 'review':
+            withdrawal = await reviewWithdrawal(id);
+            break;
+        case 'reject':
+            if (!reason) throw new Error('A reason is required to reject a withdrawal');
+            withdrawal = await rejectWithdrawal(id, reason);
+            break;
+        case 'retry':
+            withdrawal = await retryWithdrawal(id);
+            break;
+        case 'refund':
+            withdrawal = await refundWithdrawal(id);
+            break;
+        case 'mark_broadcast':
+            if (!txHash) throw new Error('A transaction hash is required to mark a withdrawal broadcast');
+            withdrawal = await markWithdrawalBroadcast(id, txHash);
+            break;
+        case 'mark_failed':
+            if (!reason) throw new Error('A reason is required to mark a withdrawal failed');
+            withdrawal = await markWithdrawalFailed(id, reason);
+            break;
+        default:
+            throw new Error(`Unknown withdrawal action ${action}`);
+    }
+
+    const amount = `${withdrawal.cryptoAmount ? withdrawal.cryptoAmount.toFixed() : withdrawal.amount.toFixed()} ${withdrawal.cryptoAmount ? withdrawal.currency : 'USD'}`;
+    await prisma.log.create({
+        data: {
+            adminId,
+            userId: withdrawal.userId,
+            type: `WITHDRAW_${action.toUpperCase()}`,
+            description: `Withdrawal #${id} of ${amount} to ${withdrawal.to}`
+                + (txHash ? ` as ${txHash}` : '') + (reason ? `: ${reason}` : ''),
+        },
     });
+
+    if (action === 'reject') {
+        await notifyWithdrawalUser(withdrawal, 'OK777 withdrawal rejected',
+            `Your withdrawal #${id} of ${amount} was rejected: ${reason}\n` +
+            `${withdrawal.amount.toFixed()} USD has been returned to your balance.`);
+    } else if (action === 'refund') {
+        await notifyWithdrawalUser(withdrawal, 'OK777 withdrawal refunded',
+            `Your withdrawal #${id} of ${amount} could not be sent.\n` +
+            `${withdrawal.amount.toFixed()} USD has been returned to your balance.`);
+    }
+
+    return withdrawal;
+};
+
+// Apply one action to many withdrawals; each succeeds or fails on its own
+export const bulkWithdrawalAction = async (adminId: number, ids: number[], action: WithdrawalAction, reason?: string) => {
+    const results: { id: number; ok: boolean; status?: string; error?: string }[] = [];
+    for (const id of ids) {
+        try {
+            const withdrawal = await withdrawalAction(adminId, id, action, reason);
+            results.push({ id, ok: true, status: withdrawal.status });
+        } catch (err) {
+            results.push({ id, ok: false, error: err.message });
+        }
+    }
+    return results;
+};
+
+export interface GetWithdrawalsParams {
+    page?: number;
+    pageSize?: number;
+    status?: string;
+    blockchain?: string;
+    currency?: string;
+    userId?: number;
+    minAmount?: string;
+    maxAmount?: string;
+    from?: Date;
+    to?: Date;
+    search?: string;
+    sortBy?: string;
+    sortOrder?: 'asc' | 'desc';
 }
 
-export async function getWithdrawals(params: GetPayoutsParams) {
+const WITHDRAWAL_SORT_COLUMNS = ['id', 'createdAt', 'updatedAt', 'amount', 'status', 'userId'];
 
-    const { page = 1, pageSize = 10, status, currency, search } = params;
+// Admin withdrawal queue. status takes a comma separated list; amounts are USD
+export async function getWithdrawals(params: GetWithdrawalsParams) {
+
+    const {
+        page = 1, pageSize = 10, status, blockchain, currency, userId,
+        minAmount, maxAmount, from, to, search, sortBy = 'id', sortOrder = 'desc',
+    } = params;
 
     const where: any = {};
-    if (status) where.status = status;
+    if (status && status !== 'all') {
+        const statuses = status.split(',').map((s) => s.trim()).filter(Boolean);
+        const unknown = statuses.find((s) => !WITHDRAW_STATUSES.includes(s as WithdrawStatus));
+        if (unknown) throw new Error(`Unknown status ${unknown}`);
+        where.status = statuses.length === 1 ? statuses[0] : { in: statuses };
+    }
+    if (blockchain && blockchain !== 'all') where.blockchain = blockchain;
     if (currency && currency !== "all") where.currency = currency;
+    if (userId) where.userId = userId;
+
+    if (minAmount || maxAmount) {
+        const min = minAmount ? parseAmount(minAmount) : null;
+        const max = maxAmount ? parseAmount(maxAmount) : null;
+        if ((minAmount && !min) || (maxAmount && !max)) throw new Error('Invalid amount range');
+        where.amount = {};
+        if (min) where.amount.gte = toDbAmount(min);
+        if (max) where.amount.lte = toDbAmount(max);
+    }
+    if (from || to) {
+        where.createdAt = {};
+        if (from) where.createdAt.gte = from;
+        if (to) where.createdAt.lte = to;
+    }
 
     if (search) {
         where.OR = [
@@ -878,16 +976,22 @@ export async function getWithdrawals(params: GetPayoutsParams) {
                     mode: "insensitive",
                 },
             },
+            {
+                txHash: {
+                    contains: search,
+                    mode: 'insensitive',
+                },
+            },
         ];
     }
 
-    console.log("WHERE:", where);
+    if (!WITHDRAWAL_SORT_COLUMNS.includes(sortBy)) throw new Error(`Cannot sort by ${sortBy}`);
 
     const withdrawals = await prisma.withdrawRequest.findMany({
         where,
         skip: (page - 1) * pageSize,
         take: pageSize,
-        orderBy: { id: "desc" },
+        orderBy: { [sortBy]: sortOrder === 'asc' ? 'asc' : 'desc' },
     });
 
     const total = await prisma.withdrawRequest.count({ where });
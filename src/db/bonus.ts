@@ -1,4 +1,5 @@
 import prisma from "./prisma";
+import { AmountLike, percentOf, toAmount, toDbAmount } from '../utils/money';
 
 // Get referral configuration
 export const getReferralConfig = async () => {
@@ -63,7 +64,7 @@ export const updateReferralConfig = async (configData: {
 };
 
 // Check if user has reached max bonus limit
-const checkMaxBonusLimit = async (userId: number, currency: string, additionalAmount: number) => {
+const checkMaxBonusLimit = async (userId: number, currency: string, additionalAmount: AmountLike) => {
   try {
     const config = await getReferralConfig();
     if (!config) return true;
@@ -73,8 +74,8 @@ const checkMaxBonusLimit = async (userId: number, currency: string, additionalAm
       _sum: { amount: true },
     });
 
-    const currentTotal = totalBonuses._sum.amount || 0;
-    return (currentTotal + additionalAmount) <= config.maxBonusPerUser;
+    const currentTotal = toAmount(totalBonuses._sum.amount);
+    return currentTotal.plus(additionalAmount).lte(config.maxBonusPerUser);
   } catch (error) {
     console.error("Error checking max bonus limit:", error);
     return false;
@@ -84,7 +85,7 @@ const checkMaxBonusLimit = async (userId: number, currency: string, additionalAm
 // Add or update referral bonus with enhanced logic
 export const addOrUpdateReferralBonus = async (
   referredUserId: number,
-  bonusAmount: number,
+  bonusAmount: AmountLike,
   currency: string = "USD",
   triggerType: string = "deposit"
 ) => {
@@ -132,7 +133,7 @@ export const addOrUpdateReferralBonus = async (
       const updatedBonus = await prisma.referralBonus.update({
         where: { id: existingBonus.id },
         data: { 
-          amount: { increment: bonusAmount },
+          amount: toDbAmount(toAmount(existingBonus.amount).plus(bonusAmount)),
           expiresAt,
         },
       });
@@ -144,7 +145,7 @@ export const addOrUpdateReferralBonus = async (
         data: {
           userId: inviterId,
           fromUserId: referredUserId,
-          amount: bonusAmount,
+          amount: toDbAmount(bonusAmount),
           currency,
           status: "pending",
           triggerType,
@@ -164,15 +165,15 @@ export const addOrUpdateReferralBonus = async (
 // Trigger referral bonus for user deposit
 export const triggerDepositReferralBonus = async (
   userId: number,
-  depositAmount: number,
+  depositAmount: AmountLike,
   currency: string = "USD"
 ) => {
   try {
     const config = await getReferralConfig();
     if (!config || !config.enabled) return null;
 
-    const bonusAmount = Math.floor((depositAmount * config.depositBonusPercent) / 100);
-    if (bonusAmount <= 0) return null;
+    const bonusAmount = percentOf(depositAmount, config.depositBonusPercent, currency);
+    if (!bonusAmount.gt(0)) return null;
 
     return await addOrUpdateReferralBonus(userId, bonusAmount, currency, "deposit");
   } catch (error) {
@@ -184,15 +185,15 @@ export const triggerDepositReferralBonus = async (
 // Trigger referral bonus for user bet
 export const triggerBetReferralBonus = async (
   userId: number,
-  betAmount: number,
+  betAmount: AmountLike,
   currency: string = "USD"
 ) => {
   try {
     const config = await getReferralConfig();
     if (!config || !config.enabled) return null;
 
-    const bonusAmount = Math.floor((betAmount * config.betBonusPercent) / 100);
-    if (bonusAmount <= 0) return null;
+    const bonusAmount = percentOf(betAmount, config.betBonusPercent, currency);
+    if (!bonusAmount.gt(0)) return null;
 
     return await addOrUpdateReferralBonus(userId, bonusAmount, currency, "bet");
   } catch (error) {
@@ -284,7 +285,7 @@ export const getUserReferralBonuses = async (userId: number) => {
 
     return {
       bonuses,
-      totalAmount: summary._sum.amount || 0,
+      totalAmount: toAmount(summary._sum.amount).toNumber(),
       totalCount: summary._count.id || 0,
     };
   } catch (error) {
@@ -321,7 +322,7 @@ export const expireOldBonuses = async () => {
 
 export const convertReferralBonusToPayout = async (
   userId: number,
-  amount: number,
+  amount: AmountLike,
   currency: string = "USD"
 ) => {
   try {
@@ -337,13 +338,14 @@ export const convertReferralBonusToPayout = async (
 
     if (pendingBonuses.length === 0) return null;
 
-    let remainingAmount = amount;
+    let remainingAmount = toAmount(amount);
 
     for (const bonus of pendingBonuses) {
-      if (remainingAmount <= 0) break;
+      if (!remainingAmount.gt(0)) break;
 
-      if (bonus.amount <= remainingAmount) {
-        remainingAmount -= bonus.amount;
+      const bonusAmount = toAmount(bonus.amount);
+      if (bonusAmount.lte(remainingAmount)) {
+        remainingAmount = remainingAmount.minus(bonusAmount);
         await prisma.referralBonus.update({
           where: { id: bonus.id },
           data: { status: "paid" },
@@ -351,19 +353,19 @@ export const convertReferralBonusToPayout = async (
       } else {
         await prisma.referralBonus.update({
           where: { id: bonus.id },
-          data: { amount: bonus.amount - remainingAmount },
+          data: { amount: toDbAmount(bonusAmount.minus(remainingAmount)) },
         });
-        remainingAmount = 0;
+        remainingAmount = toAmount(0);
       }
     }
 
-    if (remainingAmount > 0) return null;
+    if (remainingAmount.gt(0)) return null;
 
     const payout = await prisma.payout.create({
       data: {
         userId,
         to: String(userId),
-        amount,
+        amount: toDbAmount(amount),
         currency,
         status: "pending",
       },
@@ -1,17 +1,37 @@
 import prisma from './prisma';
-import { convert } from '../utils/exchange';
+import { query, withTransaction } from './pool';
+import { creditUser } from './ledger';
+import { UsdValuation } from '../utils/exchange';
+import { Amount, AmountLike, toAmount, toDbAmount } from '../utils/money';
 import { v4 as uuidv4 } from 'uuid';
 
+// Deposits are recorded pending when the chain adapters find them, confirmed
+// (and credited in USD) once deep enough, then swept into the main pool.
+// A transaction can carry several transfers; transferIndex tells them apart.
+
 export interface CreateDepositData {
   userId: number;
   txHash: string;
+  transferIndex: number;
   fromAddress?: string;
   toAddress: string;
   currency: string;
   network: string;
-  amount: number;
-  blockNumber?: bigint;
-  confirmations?: number;
+  amount: AmountLike;
+  blockNumber?: number;
+}
+
+export interface DepositRecord {
+  id: number;
+  userId: number;
+  txHash: string;
+  transferIndex: number;
+  toAddress: string;
+  currency: string;
+  network: string;
+  amount: Amount;
+  status: string;
+  confirmations: number;
 }
 
 export interface DepositFilters {
@@ -36,105 +56,131 @@ export interface DepositListResponse {
   totalPages: number;
 }
 
-// Create a new deposit record
-export async function createDeposit(data: CreateDepositData) {
+const DEPOSIT_COLUMNS = `id, "userId" AS "userId", "txHash" AS "txHash", "transferIndex" AS "transferIndex",
+  "toAddress" AS "toAddress", currency, network, amount::text AS amount, status, confirmations`;
+
+const toDepositRecord = (row: any): DepositRecord => ({
+  ...row,
+  amount: toAmount(row.amount),
+});
+
+// Ledger reference of a deposit; the first transfer of a transaction keeps the bare hash
+const depositRef = (deposit: DepositRecord) =>
+  (deposit.transferIndex ? `${deposit.txHash}:${deposit.transferIndex}` : deposit.txHash);
+
+// Record a pending deposit; resolves to null when the transfer was already recorded
+export async function recordDeposit(data: CreateDepositData): Promise<DepositRecord | null> {
   try {
-    // Generate unique order ID
     const orderId = `DEP_${Date.now()}_${uuidv4().substring(0, 8).toUpperCase()}`;
-    
-    // Convert amount to USD for rate calculation
-    let rate: number | null = null;
-    let realArrival: number | null = null;
-    
-    try {
-      if (data.currency !== 'USD') {
-        rate = await convert(1, data.currency, 'USD');
-        realArrival = data.amount * rate;
-      } else {
-        rate = 1;
-        realArrival = data.amount;
-      }
-    } catch (error) {
-      console.warn(`Failed to convert ${data.currency} to USD:`, error);
-      // Continue without conversion
-    }
 
-    const deposit = await prisma.deposit.create({
-      data: {
-        orderId,
-        txHash: data.txHash,
-        fromAddress: data.fromAddress,
-        toAddress: data.toAddress,
-        currency: data.currency,
-        network: data.network,
-        amount: data.amount,
-        rate: rate,
-        realArrival: realArrival,
-        status: 'pending',
-        type: 'crypto',
-        blockNumber: data.blockNumber,
-        confirmations: data.confirmations || 0,
-        userId: data.userId,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            email: true,
-            name: true,
-          }
-        }
-      }
-    });
+    const { rows } = await query(
+      `INSERT INTO "Deposits" ("userId", "orderId", "txHash", "transferIndex", "fromAddress", "toAddress",
+         currency, network, amount, status, type, "blockNumber", confirmations)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'pending', 'crypto', $10, 0)
+       ON CONFLICT ("txHash", "transferIndex") DO NOTHING
+       RETURNING ${DEPOSIT_COLUMNS}`,
+      [data.userId, orderId, data.txHash, data.transferIndex, data.fromAddress || null, data.toAddress,
+        data.currency, data.network, toDbAmount(data.amount), data.blockNumber ?? null],
+    );
+    if (!rows.length) return null;
 
     console.log(`✅ Deposit created: ${orderId} - ${data.amount} ${data.currency} from ${data.network}`);
-    return deposit;
+    return toDepositRecord(rows[0]);
   } catch (error) {
     console.error('Error creating deposit:', error);
     throw error;
   }
 }
 
-// Update deposit status
-export async function updateDepositStatus(
-  txHash: string, 
-  status: 'pending' | 'confirmed' | 'failed',
-  confirmations?: number
-) {
-  try {
-    const updateData: any = {
-      status,
-      updatedAt: new Date(),
-    };
+export async function getPendingDeposits(network: string): Promise<DepositRecord[]> {
+  const { rows } = await query(
+    `SELECT ${DEPOSIT_COLUMNS} FROM "Deposits" WHERE network = $1 AND status = 'pending' ORDER BY id`,
+    [network],
+  );
+  return rows.map(toDepositRecord);
+}
 
-    if (status === 'confirmed') {
-      updateData.confirmedAt = new Date();
-    }
+export async function updateDepositConfirmations(id: number, confirmations: number) {
+  await query(
+    'UPDATE "Deposits" SET confirmations = $2, "updatedAt" = now() WHERE id = $1 AND status = $3',
+    [id, confirmations, 'pending'],
+  );
+}
 
-    if (confirmations !== undefined) {
-      updateData.confirmations = confirmations;
-    }
+export async function failDeposit(id: number, confirmations: number) {
+  await query(
+    'UPDATE "Deposits" SET status = $3, confirmations = $2, "updatedAt" = now() WHERE id = $1 AND status = $4',
+    [id, confirmations, 'failed', 'pending'],
+  );
+}
 
-    const deposit = await prisma.deposit.update({
-      where: { txHash },
-      data: updateData,
-      include: {
-        user: {
-          select: {
-            id: true,
-            email: true,
-            name: true,
-          }
-        }
-      }
-    });
+// Confirm a pending deposit and credit its USD value in one transaction.
+// Resolves to false when the deposit was no longer pending, so it is credited once.
+export async function confirmDeposit(deposit: DepositRecord, valuation: UsdValuation, confirmations: number) {
+  return withTransaction(async (client) => {
+    const { rowCount } = await client.query(
+      `UPDATE "Deposits" SET status = 'confirmed', confirmations = $2, rate = $3, "realArrival" = $4,
+         "confirmedAt" = now(), "updatedAt" = now()
+       WHERE id = $1 AND status = 'pending'`,
+      [deposit.id, confirmations, toDbAmount(valuation.usdRate), toDbAmount(valuation.usdValue)],
+    );
+    if (!rowCount) return false;
 
-    console.log(`✅ Deposit status updated: ${txHash} -> ${status}`);
-    return deposit;
-  } catch (error) {
-    console.error('Error updating deposit status:', error);
-    throw error;
-  }
+    await creditUser(deposit.userId, valuation.usdValue, 'USD', {
+      type: 'deposit', id: depositRef(deposit), description: `${deposit.currency} deposit`,
+    }, client);
+    return true;
+  });
+}
+
+// Confirmed deposits whose funds are still on the deposit address
+export async function getUnsweptDeposits(network: string): Promise<DepositRecord[]> {
+  const { rows } = await query(
+    `SELECT ${DEPOSIT_COLUMNS} FROM "Deposits"
+     WHERE network = $1 AND status = 'confirmed' AND "sweptAt" IS NULL ORDER BY id`,
+    [network],
+  );
+  return rows.map(toDepositRecord);
+}
+
+// Record the sweep that moved the deposits into the main pool. Deposits whose
+// balance was not worth sweeping are not marked, so later passes retry them.
+export async function markDepositsSwept(ids: number[], sweepTxHash: string) {
+  await query(
+    'UPDATE "Deposits" SET "sweptAt" = now(), "sweepTxHash" = $2, "updatedAt" = now() WHERE id = ANY($1::int[])',
+    [ids, sweepTxHash],
+  );
+}
+
+// Last block of a chain scanned for deposits; null before the first scan
+export async function getChainCursor(blockchain: string): Promise<number | null> {
+  const { rows } = await query('SELECT "lastBlock"::text AS "lastBlock" FROM "ChainCursors" WHERE blockchain = $1', [blockchain]);
+  return rows.length ? Number(rows[0].lastBlock) : null;
+}
+
+export async function setChainCursor(blockchain: string, lastBlock: number) {
+  await query(
+    `INSERT INTO "ChainCursors" (blockchain, "lastBlock", "updatedAt") VALUES ($1, $2, now())
+     ON CONFLICT (blockchain) DO UPDATE SET "lastBlock" = excluded."lastBlock", "updatedAt" = now()`,
+    [blockchain, lastBlock],
+  );
+}
+
+// Deposit counts per network, with their total USD value
+export async function getDepositStats() {
+  const { rows } = await query(
+    `SELECT network, count(*)::int AS total, coalesce(sum("realArrival"), 0)::text AS "usdValue",
+       count(*) FILTER (WHERE status = 'pending')::int AS pending,
+       count(*) FILTER (WHERE status = 'confirmed')::int AS confirmed
+     FROM "Deposits" GROUP BY network`,
+  );
+  return rows.map((row) => ({
+    network: row.network as string,
+    total: row.total as number,
+    usdValue: toAmount(row.usdValue),
+    pending: row.pending as number,
+    confirmed: row.confirmed as number,
+  }));
 }
 
 // Get deposits with filtering and pagination
@@ -207,7 +253,7 @@ export async function getDeposits(filters: DepositFilters = {}): Promise<Deposit
 // Get deposit by transaction hash
 export async function getDepositByTxHash(txHash: string) {
   try {
-    return await prisma.deposit.findUnique({
+    return await prisma.deposit.findFirst({
       where: { txHash },
       include: {
         user: {
@@ -225,19 +271,6 @@ export async function getDepositByTxHash(txHash: string) {
   }
 }
 
-// Check if deposit already exists
-export async function depositExists(txHash: string): Promise<boolean> {
-  try {
-    const count = await prisma.deposit.count({
-      where: { txHash }
-    });
-    return count > 0;
-  } catch (error) {
-    console.error('Error checking if deposit exists:', error);
-    return false;
-  }
-}
-
 // Get user's deposit addresses
 export async function getUserDepositAddresses(userId: number) {
   try {
@@ -245,7 +278,7 @@ export async function getUserDepositAddresses(userId: number) {
       where: { 
         userId,
         blockchain: {
-          in: ['Solana', 'Ethereum', 'Tron']
+          in: ['Solana', 'Ethereum', 'Tron', 'BNB']
         }
       },
       select: {
@@ -265,88 +298,3 @@ export async function getUserDepositAddresses(userId: number) {
     throw error;
   }
 }
-
-// Get all users with their deposit addresses
-export async function getAllUsersWithDepositAddresses() {
-  try {
-    const users = await prisma.user.findMany({
-      where: {
-        wallets: {
-          some: {
-            blockchain: {
-              in: ['Solana', 'Ethereum', 'Tron']
-            }
-          }
-        }
-      },
-      include: {
-        wallets: {
-          where: {
-            blockchain: {
-              in: ['Solana', 'Ethereum', 'Tron']
-            }
-          },
-          select: {
-            blockchain: true,
-            publicKey: true,
-            network: true
-          }
-        }
-      }
-    });
-
-    return users.map(user => ({
-      userId: user.id,
-      email: user.email,
-      addresses: user.wallets.map(wallet => ({
-        blockchain: wallet.blockchain,
-        address: wallet.publicKey,
-        network: wallet.network
-      }))
-    }));
-  } catch (error) {
-    console.error('Error getting all users with deposit addresses:', error);
-    throw error;
-  }
-}
-
-// Update user balance after confirmed deposit
-export async function updateUserBalanceAfterDeposit(
-  userId: number, 
-  currency: string, 
-  amount: number
-) {
-  try {
-    // Get or create balance record
-    let balance = await prisma.balance.findFirst({
-      where: { userId, currency }
-    });
-
-    if (balance) {
-      // Update existing balance
-      balance = await prisma.balance.update({
-        where: { id: balance.id },
-        data: {
-          amount: {
-            increment: amount
-          }
-        }
-      });
-    } else {
-      // Create new balance
-      balance = await prisma.balance.create({
-        data: {
-          userId,
-          currency,
-          amount
-        }
-      });
-    }
-
-    console.log(`✅ User ${userId} balance updated: +${amount} ${currency}`);
-    return balance;
-  } catch (error) {
-    console.error('Error updating user balance after deposit:', error);
-    throw error;
-  }
-}
@@ -0,0 +1,150 @@
+// Admin-managed pricing of swaps per from/to currency pair.
+//
+// The spread (basis points) lowers the rate the user gets against the market
+// price and the flat fee (in toCurrency) is deducted from the output; both are
+// house revenue. Amount limits are in fromCurrency. Pairs without a row trade
+// at the market price with no fee or limits.
+import { PoolClient } from 'pg';
+import { query } from './pool';
+import { getExchangeRate } from '../utils/exchange';
+import { Amount, parseAmount, toAmount, toDbAmount } from '../utils/money';
+
+export interface ExchangePairConfig {
+  fromCurrency: string;
+  toCurrency: string;
+  spreadBps: number;
+  flatFee: Amount;
+  minAmount: Amount | null;
+  maxAmount: Amount | null;
+  enabled: boolean;
+}
+
+export type ExchangePairConfigInput = {
+  fromCurrency: string;
+  toCurrency: string;
+  spreadBps?: number;
+  flatFee?: string | number;
+  minAmount?: string | number | null;
+  maxAmount?: string | number | null;
+  enabled?: boolean;
+};
+
+const COLUMNS = `"fromCurrency" AS "fromCurrency", "toCurrency" AS "toCurrency", "spreadBps" AS "spreadBps",
+  "flatFee"::text AS "flatFee", "minAmount"::text AS "minAmount", "maxAmount"::text AS "maxAmount", enabled`;
+
+const toConfig = (row: any): ExchangePairConfig => ({
+  fromCurrency: row.fromCurrency,
+  toCurrency: row.toCurrency,
+  spreadBps: Number(row.spreadBps),
+  flatFee: toAmount(row.flatFee),
+  minAmount: row.minAmount != null ? toAmount(row.minAmount) : null,
+  maxAmount: row.maxAmount != null ? toAmount(row.maxAmount) : null,
+  enabled: Boolean(row.enabled),
+});
+
+const defaultConfig = (fromCurrency: string, toCurrency: string): ExchangePairConfig => ({
+  fromCurrency,
+  toCurrency,
+  spreadBps: 0,
+  flatFee: toAmount(0),
+  minAmount: null,
+  maxAmount: null,
+  enabled: true,
+});
+
+export const getExchangePairConfig = async (fromCurrency: string, toCurrency: string, client?: PoolClient) => {
+  const from = fromCurrency.toUpperCase();
+  const to = toCurrency.toUpperCase();
+  const sql = `SELECT ${COLUMNS} FROM "ExchangePairConfigs" WHERE "fromCurrency" = $1 AND "toCurrency" = $2`;
+  const { rows } = client ? await client.query(sql, [from, to]) : await query(sql, [from, to]);
+  return rows[0] ? toConfig(rows[0]) : defaultConfig(from, to);
+};
+
+export const listExchangePairConfigs = async () => {
+  const { rows } = await query(
+    `SELECT ${COLUMNS} FROM "ExchangePairConfigs" ORDER BY "fromCurrency", "toCurrency"`,
+  );
+  return rows.map(toConfig);
+};
+
+const optionalAmount = (value: any, field: string) => {
+  if (value == null || value === '') return null;
+  const amount = parseAmount(value);
+  if (!amount || amount.isNegative()) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return amount;
+};
+
+export const upsertExchangePairConfig = async (input: ExchangePairConfigInput) => {
+  const from = String(input.fromCurrency || '').toUpperCase();
+  const to = String(input.toCurrency || '').toUpperCase();
+  if (!from || !to || from === to) {
+    throw new Error('fromCurrency and toCurrency must be two different currencies');
+  }
+  // Rejects currencies the price feed does not know
+  await getExchangeRate(from, to);
+
+  const spreadBps = input.spreadBps != null ? Number(input.spreadBps) : 0;
+  if (!Number.isInteger(spreadBps) || spreadBps < 0 || spreadBps >= 10000) {
+    throw new Error('spreadBps must be an integer between 0 and 9999');
+  }
+  const flatFee = optionalAmount(input.flatFee, 'flatFee') || toAmount(0);
+  const minAmount = optionalAmount(input.minAmount, 'minAmount');
+  const maxAmount = optionalAmount(input.maxAmount, 'maxAmount');
+  if (minAmount && maxAmount && minAmount.gt(maxAmount)) {
+    throw new Error('minAmount cannot be greater than maxAmount');
+  }
+
+  const { rows } = await query(
+    `INSERT INTO "ExchangePairConfigs"
+     ("fromCurrency", "toCurrency", "spreadBps", "flatFee", "minAmount", "maxAmount", enabled)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT ("fromCurrency", "toCurrency") DO UPDATE SET
+       "spreadBps" = EXCLUDED."spreadBps",
+       "flatFee" = EXCLUDED."flatFee",
+       "minAmount" = EXCLUDED."minAmount",
+       "maxAmount" = EXCLUDED."maxAmount",
+       enabled = EXCLUDED.enabled,
+       "updatedAt" = now()
+     RETURNING ${COLUMNS}`,
+    [
+      from, to, spreadBps, toDbAmount(flatFee),
+      minAmount ? toDbAmount(minAmount) : null,
+      maxAmount ? toDbAmount(maxAmount) : null,
+      input.enabled !== false,
+    ],
+  );
+  return toConfig(rows[0]);
+};
+
+export const deleteExchangePairConfig = async (fromCurrency: string, toCurrency: string) => {
+  const { rows } = await query(
+    'DELETE FROM "ExchangePairConfigs" WHERE "fromCurrency" = $1 AND "toCurrency" = $2 RETURNING id',
+    [fromCurrency.toUpperCase(), toCurrency.toUpperCase()],
+  );
+  return rows.length > 0;
+};
+
+// Market rate less the pair's spread: toCurrency the user gets per fromCurrency
+export const applySpread = (marketRate: Amount, config: ExchangePairConfig) =>
+  marketRate.times(10000 - config.spreadBps).div(10000);
+
+// USD buy/sell rates after spreads for a map of USD market prices: buy is what
+// one unit costs in USD, sell is what one unit fetches in USD
+export const getEffectiveUsdRates = async (prices: Record<string, number>) => {
+  const configs = await listExchangePairConfigs();
+  const configFor = (from: string, to: string) =>
+    configs.find((c) => c.fromCurrency === from && c.toCurrency === to) || defaultConfig(from, to);
+
+  const rates: Record<string, { buy: string; sell: string }> = {};
+  for (const [currency, price] of Object.entries(prices)) {
+    const market = toAmount(price);
+    const buySpread = configFor('USD', currency).spreadBps;
+    rates[currency] = {
+      buy: market.times(10000).div(10000 - buySpread).decimalPlaces(8).toFixed(),
+      sell: applySpread(market, configFor(currency, 'USD')).decimalPlaces(8).toFixed(),
+    };
+  }
+  return rates;
+};
@@ -0,0 +1,152 @@
+// Swap quotes: the rate and fee a user is shown before confirming an exchange.
+//
+// A quote is valid for EXCHANGE_QUOTE_TTL_SECONDS and can be executed once.
+// Amounts are fixed when the quote is created, so the swap settles at exactly
+// the quoted rate no matter how the price moves before execution. rate already
+// includes the pair's spread; marketRate is kept to book the spread as revenue.
+import { PoolClient } from 'pg';
+import { query } from './pool';
+import { Posting, systemAccountCode, userAccountCode } from './ledger';
+import { applySpread, getExchangePairConfig } from './exchangePairs';
+import { getExchangeRate } from '../utils/exchange';
+import {
+  Amount, AmountLike, parseAmount, roundAmount, toAmount, toDbAmount,
+} from '../utils/money';
+
+export type ExchangeQuoteStatus = 'open' | 'executed';
+
+export interface ExchangeQuote {
+  id: string;
+  userId: number;
+  fromCurrency: string;
+  toCurrency: string;
+  amount: Amount;
+  rate: Amount;
+  marketRate: Amount;
+  fee: Amount;
+  outputAmount: Amount;
+  status: ExchangeQuoteStatus;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const QUOTE_TTL_SECONDS = Number(process.env.EXCHANGE_QUOTE_TTL_SECONDS) || 30;
+
+const COLUMNS = `id, "userId" AS "userId", "fromCurrency" AS "fromCurrency", "toCurrency" AS "toCurrency",
+  amount::text AS amount, rate::text AS rate, "marketRate"::text AS "marketRate", fee::text AS fee,
+  "outputAmount"::text AS "outputAmount", status, "expiresAt" AS "expiresAt", "createdAt" AS "createdAt"`;
+
+const toQuote = (row: any): ExchangeQuote => ({
+  ...row,
+  amount: toAmount(row.amount),
+  rate: toAmount(row.rate),
+  marketRate: toAmount(row.marketRate),
+  fee: toAmount(row.fee),
+  outputAmount: toAmount(row.outputAmount),
+});
+
+// Price a swap of amount fromCurrency with the pair's config and store it as an
+// open quote. The flat fee is charged in toCurrency and already deducted from
+// outputAmount.
+export const createExchangeQuote = async (
+  userId: number,
+  fromCurrency: string,
+  toCurrency: string,
+  amount: AmountLike,
+) => {
+  const from = String(fromCurrency || '').toUpperCase();
+  const to = String(toCurrency || '').toUpperCase();
+  if (from === to) {
+    throw new Error('Cannot exchange same currency');
+  }
+
+  const parsed = parseAmount(amount);
+  const amountNum = parsed ? roundAmount(parsed, from) : null;
+  if (!amountNum || !amountNum.gt(0)) {
+    throw new Error('Invalid amount for exchange');
+  }
+
+  const config = await getExchangePairConfig(from, to);
+  if (!config.enabled) {
+    throw new Error(`Exchange from ${from} to ${to} is not available`);
+  }
+  if (config.minAmount && amountNum.lt(config.minAmount)) {
+    throw new Error(`Minimum exchange amount is ${config.minAmount.toFixed()} ${from}`);
+  }
+  if (config.maxAmount && amountNum.gt(config.maxAmount)) {
+    throw new Error(`Maximum exchange amount is ${config.maxAmount.toFixed()} ${from}`);
+  }
+
+  // Rates are cut to the stored precision first, so the swap books the market
+  // output from the same marketRate the output was priced against
+  const marketRate = toAmount(toDbAmount(await getExchangeRate(from, to)));
+  const rate = toAmount(toDbAmount(applySpread(marketRate, config)));
+  const fee = roundAmount(config.flatFee, to);
+  const outputAmount = roundAmount(amountNum.times(rate), to).minus(fee);
+  if (!outputAmount.gt(0)) {
+    throw new Error('Amount is too small to exchange');
+  }
+
+  const { rows } = await query(
+    `INSERT INTO "ExchangeQuotes"
+     ("userId", "fromCurrency", "toCurrency", amount, rate, "marketRate", fee, "outputAmount", status, "expiresAt")
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'open', now() + make_interval(secs => $9))
+     RETURNING ${COLUMNS}`,
+    [
+      userId, from, to, toDbAmount(amountNum), toDbAmount(rate), toDbAmount(marketRate),
+      toDbAmount(fee), toDbAmount(outputAmount), QUOTE_TTL_SECONDS,
+    ],
+  );
+  return toQuote(rows[0]);
+};
+
+// The journal of an executed quote. Both legs go through the swap house account:
+// it takes in amount fromCurrency and pays out outputAmount plus the revenue, the
+// market output less what the user gets. Revenue is never negative; a quote
+// priced above the market is booked at its own output.
+export const swapPostings = (userId: number, quote: ExchangeQuote): Posting[] => {
+  const { fromCurrency, toCurrency, amount, marketRate, outputAmount } = quote;
+  const marketOutput = roundAmount(amount.times(marketRate), toCurrency);
+  const revenue = marketOutput.gt(outputAmount) ? marketOutput.minus(outputAmount) : toAmount(0);
+
+  return [
+    { account: userAccountCode(userId, fromCurrency), currency: fromCurrency, debit: amount },
+    { account: systemAccountCode('house:swap', fromCurrency), currency: fromCurrency, credit: amount },
+    { account: systemAccountCode('house:swap', toCurrency), currency: toCurrency, debit: outputAmount.plus(revenue) },
+    { account: userAccountCode(userId, toCurrency), currency: toCurrency, credit: outputAmount },
+    ...(revenue.gt(0)
+      ? [{ account: systemAccountCode('house:revenue', toCurrency), currency: toCurrency, credit: revenue }]
+      : []),
+  ];
+};
+
+// A quote of the user as stored, whatever its status; null when there is none
+export const findExchangeQuote = async (userId: number, quoteId: string) => {
+  const { rows } = await query(
+    `SELECT ${COLUMNS} FROM "ExchangeQuotes" WHERE id::text = $1 AND "userId" = $2`,
+    [quoteId, userId],
+  );
+  return rows[0] ? toQuote(rows[0]) : null;
+};
+
+// Mark an open, unexpired quote of the user as executed inside the caller's
+// transaction; throws with the reason when it cannot be used
+export const claimExchangeQuote = async (client: PoolClient, userId: number, quoteId: string) => {
+  const { rows } = await client.query(
+    `UPDATE "ExchangeQuotes"
+     SET status = 'executed', "executedAt" = now()
+     WHERE id::text = $1 AND "userId" = $2 AND status = 'open' AND "expiresAt" > now()
+     RETURNING ${COLUMNS}`,
+    [quoteId, userId],
+  );
+  if (rows[0]) return toQuote(rows[0]);
+
+  const existing = await client.query(
+    'SELECT status, "expiresAt" AS "expiresAt" FROM "ExchangeQuotes" WHERE id::text = $1 AND "userId" = $2',
+    [quoteId, userId],
+  );
+  const quote = existing.rows[0];
+  if (!quote) throw new Error('Quote not found');
+  if (quote.status === 'executed') throw new Error('Quote has already been used');
+  throw new Error('Quote has expired, please request a new one');
+};
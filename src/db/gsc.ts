@@ -1,5 +1,9 @@
+import { PoolClient } from 'pg';
 import prisma from "./prisma";
 import { supabase } from "./supabase";
+import { creditUser, debitUser, lockBalance } from './ledger';
+import { withTransaction } from './pool';
+import { Amount, AmountLike, toAmount, toNumber } from '../utils/money';
 
 function isNumeric(num: any): boolean {
   return !isNaN(num)
@@ -47,16 +51,15 @@ export const getUserBalancesBulk = async (batchRequests: any[], currency: string
       }));
     }
 
-    const balanceMap = new Map<number, number>();
+    const balanceMap = new Map<number, Amount>();
     (data || []).forEach((row: any) => {
       // Supabase returns decimals as strings
-      const amountNum = typeof row.amount === 'string' ? parseFloat(row.amount) : Number(row.amount || 0);
-      balanceMap.set(row.userId, amountNum);
+      balanceMap.set(row.userId, toAmount(row.amount));
     });
 
     return batchRequests.map(reqItem => {
       const key = isNumeric(reqItem.member_account) ? parseInt(reqItem.member_account) : null;
-      const raw = key != null && balanceMap.has(key) ? balanceMap.get(key)! : 0;
+      const raw = key != null && balanceMap.has(key) ? balanceMap.get(key)! : toAmount(0);
       const exists = key != null && balanceMap.has(key);
 
       if (!exists) {
@@ -72,7 +75,7 @@ export const getUserBalancesBulk = async (batchRequests: any[], currency: string
       return {
         member_account: reqItem.member_account,
         product_code: reqItem.product_code,
-        balance: ratio ? raw / 1000 : raw,
+        balance: toNumber(ratio ? raw.div(1000) : raw),
         code: 0,
         message: "",
       };
@@ -162,11 +165,8 @@ export const getBalance = async (userId: number, currency: string) => {
   return balance;
 };
 
-export const decrementBalance = async (tx: any, userId: number, currency: string, amount: number) => {
-  return tx.balance.update({
-    where: { userId_currency: { userId, currency } },
-    data: { amount: { decrement: amount } },
-  });
+export const decrementBalance = async (tx: PoolClient, userId: number, currency: string, amount: AmountLike, wagerCode?: string) => {
+  return debitUser(userId, amount, currency, { type: 'wager', id: wagerCode }, tx);
 };
 
 export const findUserByAccount = async (memberAccount: number) => {
@@ -181,15 +181,17 @@ export const processWithdraw = async (memberAccount: string, currency: string, w
 
   if (isNaN(userId)) throw new Error("Invalid userId");
 
-  return prisma.$transaction(async (tx: any) => {
-    const balance = await getBalance(userId, currency);
+  // The balance row stays locked until the wager is saved, so concurrent
+  // callbacks for the same member are applied one after another
+  return withTransaction(async (tx) => {
+    const balance = await lockBalance(tx, userId, currency);
     if (!balance) throw new Error("Balance not found");
 
-    if (wagerData.bet_amount > balance.amount) {
+    if (toAmount(wagerData.bet_amount).gt(balance.amount)) {
       return {
         memberAccount,
-        beforeBalance: balance.amount.toNumber(),
-        balance: balance.amount.toNumber(),
+        beforeBalance: toNumber(balance.amount),
+        balance: toNumber(balance.amount),
         code: 1001,
         message: "Insufficient Balance"
       }
@@ -200,32 +202,29 @@ export const processWithdraw = async (memberAccount: string, currency: string, w
     if (exists) {
       return {
         memberAccount,
-        beforeBalance: balance.amount.toNumber(),
-        balance: balance.amount.toNumber(),
+        beforeBalance: toNumber(balance.amount),
+        balance: toNumber(balance.amount),
         code: 1003,
         message: "Duplicate Transaction"
       };
     }
 
-    const updatedBalance = await decrementBalance(tx, userId, currency, wagerData.bet_amount);
+    const updatedBalance = await decrementBalance(tx, userId, currency, wagerData.bet_amount, wagerData.wager_code);
 
-    const wager = await saveWager(tx, userId, wagerData, currency);
+    const wager = await saveWager(prisma, userId, wagerData, currency);
 
     return {
       memberAccount,
-      beforeBalance: balance.amount.toNumber(),
-      balance: updatedBalance.amount.toNumber(),
+      beforeBalance: toNumber(balance.amount),
+      balance: toNumber(updatedBalance.amount),
       wager,
       code: 0
     };
   });
 };
 
-export const incrementBalance = async (tx: any, userId: number, currency: string, amount: number) => {
-  return tx.balance.update({
-    where: { userId_currency: { userId, currency } },
-    data: { amount: { increment: amount } },
-  });
+export const incrementBalance = async (tx: PoolClient, userId: number, currency: string, amount: AmountLike, wagerCode?: string) => {
+  return creditUser(userId, amount, currency, { type: 'wager', id: wagerCode }, tx);
 };
 
 export const processDeposit = async (memberAccount: string, currency: string, wagerData: any) => {
@@ -234,8 +233,8 @@ export const processDeposit = async (memberAccount: string, currency: string, wa
   const userId = parseInt(memberAccount);
   if (isNaN(userId)) throw new Error("Invalid userId");
 
-  return prisma.$transaction(async (tx: any) => {
-    const balance = await getBalance(userId, currency);
+  return withTransaction(async (tx) => {
+    const balance = await lockBalance(tx, userId, currency);
     if (!balance) throw new Error("Balance not found");
 
     const currentWager = await prisma.wager.findFirst({ where: { wagerCode: wagerData.wager_code, } });
@@ -243,30 +242,30 @@ export const processDeposit = async (memberAccount: string, currency: string, wa
     if (wagerData.action == "CANCEL" && !currentWager) {
       return {
         memberAccount,
-        beforeBalance: balance.amount.toNumber(),
-        balance: balance.amount.toNumber(),
+        beforeBalance: toNumber(balance.amount),
+        balance: toNumber(balance.amount),
         code: 1006,
         message: "Bet Not Exists"
       };
     } else if (currentWager && currentWager.action == wagerData.action) {
       return {
         memberAccount,
-        beforeBalance: balance.amount.toNumber(),
-        balance: balance.amount.toNumber(),
+        beforeBalance: toNumber(balance.amount),
+        balance: toNumber(balance.amount),
         code: 1003,
         message: "Duplicate Transaction"
       };
     }
 
 
-    const beforeBalance = balance.amount;
-    const updatedBalance = await incrementBalance(tx, userId, currency, wagerData.amount);
-    const wager = await saveWager(tx, userId, wagerData, currency);
+    const beforeBalance = toNumber(balance.amount);
+    const updatedBalance = await incrementBalance(tx, userId, currency, wagerData.amount, wagerData.wager_code);
+    const wager = await saveWager(prisma, userId, wagerData, currency);
 
     return {
       memberAccount,
-      beforeBalance: beforeBalance.toNumber(),
-      balance: updatedBalance.amount.toNumber(),
+      beforeBalance,
+      balance: toNumber(updatedBalance.amount),
       wager,
       code: 0,
       message: ""
@@ -309,8 +308,8 @@ export const processPushBet = async (wager: any) => {
 
   const userId = parseInt(wager.member_account);
 
-  return prisma.$transaction(async (tx: any) => {
-    const balance = await getBalance(userId, wager.currency);
+  return withTransaction(async (tx) => {
+    const balance = await lockBalance(tx, userId, wager.currency);
     if (!balance) throw new Error("Balance not found");
 
     let updatedBalance = balance;
@@ -320,24 +319,26 @@ export const processPushBet = async (wager: any) => {
         tx,
         userId,
         wager.currency,
-        Number(wager.bet_amount)
+        wager.bet_amount,
+        wager.wager_code,
       );
     }
 
-    if (wager.wager_status === "SETTLED" && Number(wager.prize_amount) > 0) {
+    if (wager.wager_status === 'SETTLED' && toAmount(wager.prize_amount).gt(0)) {
       updatedBalance = await incrementBalance(
         tx,
         userId,
         wager.currency,
-        Number(wager.prize_amount)
+        wager.prize_amount,
+        wager.wager_code,
       );
     }
-    await saveWager(tx, userId, wager);
+    await saveWager(prisma, userId, wager);
 
     return {
       member_account: wager.member_account,
       product_code: wager.product_code,
-      balance: updatedBalance.amount.toNumber(),
+      balance: toNumber(updatedBalance.amount),
       code: 0,
       message: "",
     }
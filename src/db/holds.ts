@@ -0,0 +1,147 @@
+// Fund holds reserve part of a user's balance without spending it.
+//
+// Placing a hold moves funds from the user account to the user's hold account
+// (Balance.amount -> Balance.lock). Capturing spends the held funds against the
+// counter account of the hold's reference; releasing returns them to the
+// available balance. Each step is one ledger journal.
+import { PoolClient } from 'pg';
+import prisma from './prisma';
+import { query, withTransaction } from './pool';
+import {
+  LedgerRef, LedgerRefType, counterAccountCode, holdAccountCode, postJournal, userAccountCode,
+} from './ledger';
+import { AmountLike, toAmount, toDbAmount } from '../utils/money';
+
+export type HoldStatus = 'held' | 'captured' | 'released';
+
+const HOLD_COLUMNS = `id, "userId" AS "userId", currency, amount::text AS amount, status,
+  "refType" AS "refType", "refId" AS "refId", description,
+  "createdAt" AS "createdAt", "updatedAt" AS "updatedAt"`;
+
+const toHold = (row: any) => ({ ...row, amount: toAmount(row.amount) });
+
+const inTransaction = <T>(client: PoolClient | undefined, fn: (tx: PoolClient) => Promise<T>) =>
+  (client ? fn(client) : withTransaction(fn));
+
+// Lock a hold row for the rest of the transaction; it must still be held
+const lockHeldHold = async (tx: PoolClient, holdId: number) => {
+  const { rows } = await tx.query(
+    `SELECT ${HOLD_COLUMNS} FROM "FundHolds" WHERE id = $1 FOR UPDATE`,
+    [holdId],
+  );
+  if (!rows[0]) throw new Error('Hold not found');
+  const hold = toHold(rows[0]);
+  if (hold.status !== 'held') throw new Error(`Hold already ${hold.status}`);
+  return hold;
+};
+
+const setHoldStatus = async (tx: PoolClient, holdId: number, status: HoldStatus) => {
+  const { rows } = await tx.query(
+    `UPDATE "FundHolds" SET status = $2, "updatedAt" = now() WHERE id = $1 RETURNING ${HOLD_COLUMNS}`,
+    [holdId, status],
+  );
+  return toHold(rows[0]);
+};
+
+// Reserve amount of the user's available balance; throws when it cannot cover it
+export const placeHold = async (
+  userId: number,
+  amount: AmountLike,
+  currency: string,
+  ref: LedgerRef,
+  client?: PoolClient,
+) => {
+  const held = toAmount(amount);
+  if (!held.gt(0)) {
+    throw new Error('Invalid amount for hold');
+  }
+
+  return inTransaction(client, async (tx) => {
+    const { rows } = await tx.query(
+      `INSERT INTO "FundHolds" ("userId", currency, amount, status, "refType", "refId", description)
+       VALUES ($1, $2, $3, 'held', $4, $5, $6)
+       RETURNING ${HOLD_COLUMNS}`,
+      [userId, currency, toDbAmount(held), ref.type, ref.id != null ? String(ref.id) : null, ref.description || null],
+    );
+    const hold = toHold(rows[0]);
+
+    await postJournal({ ...ref, description: ref.description || `Hold #${hold.id}` }, [
+      { account: userAccountCode(userId, currency), currency, debit: held },
+      { account: holdAccountCode(userId, currency), currency, credit: held },
+    ], tx);
+
+    return hold;
+  });
+};
+
+// Spend a held amount. A partial capture releases the remainder.
+export const captureHold = async (holdId: number, amount?: AmountLike, client?: PoolClient) =>
+  inTransaction(client, async (tx) => {
+    const hold = await lockHeldHold(tx, holdId);
+    const captured = amount != null ? toAmount(amount) : hold.amount;
+    if (!captured.gt(0) || captured.gt(hold.amount)) {
+      throw new Error('Invalid amount for capture');
+    }
+
+    const { userId, currency } = hold;
+    const ref: LedgerRef = { type: hold.refType as LedgerRefType, id: hold.refId, description: `Capture hold #${hold.id}` };
+    const postings = [
+      { account: holdAccountCode(userId, currency), currency, debit: captured },
+      { account: counterAccountCode(ref.type, currency), currency, credit: captured },
+    ];
+
+    const remainder = hold.amount.minus(captured);
+    if (remainder.gt(0)) {
+      postings.push(
+        { account: holdAccountCode(userId, currency), currency, debit: remainder },
+        { account: userAccountCode(userId, currency), currency, credit: remainder },
+      );
+    }
+
+    await postJournal(ref, postings, tx);
+    return setHoldStatus(tx, holdId, 'captured');
+  });
+
+// Return the held amount to the user's available balance
+export const releaseHold = async (holdId: number, client?: PoolClient) =>
+  inTransaction(client, async (tx) => {
+    const hold = await lockHeldHold(tx, holdId);
+    const { userId, currency } = hold;
+
+    await postJournal({ type: hold.refType as LedgerRefType, id: hold.refId, description: `Release hold #${hold.id}` }, [
+      { account: holdAccountCode(userId, currency), currency, debit: hold.amount },
+      { account: userAccountCode(userId, currency), currency, credit: hold.amount },
+    ], tx);
+
+    return setHoldStatus(tx, holdId, 'released');
+  });
+
+// The open hold placed for a source record, if any
+export const getActiveHold = async (refType: LedgerRefType, refId: string | number) => {
+  const hold = await prisma.fundHold.findFirst({
+    where: { refType, refId: String(refId), status: 'held' },
+  });
+  return hold ? toHold(hold) : null;
+};
+
+// Holds of a reference type still open after olderThanSeconds, oldest first
+export const getStaleHolds = async (refType: LedgerRefType, olderThanSeconds: number, limit = 50) => {
+  const { rows } = await query(
+    `SELECT ${HOLD_COLUMNS} FROM "FundHolds"
+     WHERE "refType" = $1 AND status = 'held' AND "createdAt" < now() - make_interval(secs => $2)
+     ORDER BY id LIMIT $3`,
+    [refType, olderThanSeconds, limit],
+  );
+  return rows.map(toHold);
+};
+
+export const getUserHolds = async (userId: number, status?: HoldStatus) => {
+  const where: any = { userId };
+  if (status) where.status = status;
+
+  const holds = await prisma.fundHold.findMany({
+    where,
+    orderBy: { id: 'desc' },
+  });
+  return holds.map(toHold);
+};
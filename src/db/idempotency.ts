@@ -0,0 +1,114 @@
+// Stored results of requests sent with an Idempotency-Key header.
+//
+// A key is claimed before the handler runs (status 'processing') and completed
+// with the response it produced. Keys are scoped per user and expire after
+// IDEMPOTENCY_KEY_TTL_HOURS, after which the same key may be used again.
+//
+// A claim belongs to an owner token and holds a lease of
+// IDEMPOTENCY_PROCESSING_LEASE_SECONDS that the running request keeps renewing.
+// A live claim is never taken over; only one whose lease ran out, because its
+// process died, may be claimed again. Completing or releasing a key needs the
+// owner token, so a request that lost its claim cannot settle someone else's.
+import crypto from 'crypto';
+import { query } from './pool';
+
+export type IdempotencyStatus = 'processing' | 'completed';
+
+export interface IdempotencyRecord {
+  id: number;
+  userId: number;
+  key: string;
+  method: string;
+  path: string;
+  fingerprint: string;
+  owner: string;
+  status: IdempotencyStatus;
+  responseCode: number | null;
+  responseBody: any;
+}
+
+const TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24;
+export const PROCESSING_LEASE_SECONDS = Number(process.env.IDEMPOTENCY_PROCESSING_LEASE_SECONDS) || 60;
+const CLAIM_ATTEMPTS = 2;
+
+const COLUMNS = `id, "userId" AS "userId", key, method, path, fingerprint, owner, status,
+  "responseCode" AS "responseCode", "responseBody" AS "responseBody"`;
+
+// Claim key for a request. Returns { claimed: true } when this request owns the
+// key, otherwise the record left by the earlier request with the same key. The
+// record is null when the key kept being released and claimed by others between
+// the insert and the read.
+export const claimIdempotencyKey = async (
+  userId: number,
+  key: string,
+  method: string,
+  path: string,
+  fingerprint: string,
+): Promise<{ claimed: boolean; record: IdempotencyRecord | null }> => {
+  await query(
+    `DELETE FROM "IdempotencyKeys"
+     WHERE "userId" = $1 AND key = $2
+       AND ("createdAt" < now() - make_interval(hours => $3)
+         OR (status = $4 AND "leaseExpiresAt" < now()))`,
+    [userId, key, TTL_HOURS, 'processing'],
+  );
+
+  const owner = crypto.randomUUID();
+
+  for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt++) {
+    const inserted = await query<IdempotencyRecord>(
+      `INSERT INTO "IdempotencyKeys" ("userId", key, method, path, fingerprint, owner, status, "leaseExpiresAt")
+       VALUES ($1, $2, $3, $4, $5, $6, 'processing', now() + make_interval(secs => $7))
+       ON CONFLICT ("userId", key) DO NOTHING
+       RETURNING ${COLUMNS}`,
+      [userId, key, method, path, fingerprint, owner, PROCESSING_LEASE_SECONDS],
+    );
+    if (inserted.rows[0]) {
+      return { claimed: true, record: inserted.rows[0] };
+    }
+
+    // The conflicting claim may have been released since the insert; try again
+    const existing = await query<IdempotencyRecord>(
+      `SELECT ${COLUMNS} FROM "IdempotencyKeys" WHERE "userId" = $1 AND key = $2`,
+      [userId, key],
+    );
+    if (existing.rows[0]) {
+      return { claimed: false, record: existing.rows[0] };
+    }
+  }
+  return { claimed: false, record: null };
+};
+
+// Extend the lease of a claim this owner still holds. Returns false when the
+// claim was lost.
+export const renewIdempotencyLease = async (id: number, owner: string) => {
+  const renewed = await query(
+    `UPDATE "IdempotencyKeys"
+     SET "leaseExpiresAt" = now() + make_interval(secs => $3), "updatedAt" = now()
+     WHERE id = $1 AND owner = $2 AND status = 'processing'
+     RETURNING id`,
+    [id, owner, PROCESSING_LEASE_SECONDS],
+  );
+  return renewed.rows.length > 0;
+};
+
+// Store the response so retries with the same key replay it. Returns false
+// when the claim was lost and nothing was stored.
+export const completeIdempotencyKey = async (id: number, owner: string, responseCode: number, responseBody: any) => {
+  const completed = await query(
+    `UPDATE "IdempotencyKeys"
+     SET status = 'completed', "responseCode" = $3, "responseBody" = $4, "updatedAt" = now()
+     WHERE id = $1 AND owner = $2 AND status = 'processing'
+     RETURNING id`,
+    [id, owner, responseCode, JSON.stringify(responseBody ?? null)],
+  );
+  return completed.rows.length > 0;
+};
+
+// Forget a claimed key so the request can be retried with it
+export const releaseIdempotencyKey = async (id: number, owner: string) => {
+  await query(
+    'DELETE FROM "IdempotencyKeys" WHERE id = $1 AND owner = $2 AND status = \'processing\'',
+    [id, owner],
+  );
+};
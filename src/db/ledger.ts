@@ -0,0 +1,381 @@
+// Double-entry journal behind every balance mutation.
+//
+// Each movement of money is posted as one journal: a group of LedgerEntry rows
+// sharing a journalId whose debits and credits balance per currency. User
+// accounts are credit-normal (balance = credits - debits), so crediting a user
+// account increases what the platform owes that user. The Balance table is a
+// projection of the user accounts and can be rebuilt from the journal: the
+// user account maps to Balance.amount (available funds) and the user's hold
+// account maps to Balance.lock (funds reserved by pending holds).
+import { randomUUID } from 'crypto';
+import { PoolClient } from 'pg';
+import prisma from './prisma';
+import { withTransaction } from './pool';
+import { Amount, AmountLike, toAmount, toDbAmount } from '../utils/money';
+
+export type LedgerRefType =
+  | 'deposit'
+  | 'withdrawal'
+  | 'bet'
+  | 'wager'
+  | 'payout'
+  | 'swap'
+  | 'transfer'
+  | 'admin_topup'
+  | 'adjustment'
+  | 'opening_balance';
+
+export interface LedgerRef {
+  type: LedgerRefType;
+  id?: string | number | null;
+  description?: string;
+}
+
+export interface Posting {
+  account: string;
+  currency: string;
+  debit?: AmountLike;
+  credit?: AmountLike;
+}
+
+// The house/external account that takes the other side of a user posting
+const COUNTER_ACCOUNTS: Record<LedgerRefType, string> = {
+  deposit: 'external:deposits',
+  withdrawal: 'external:withdrawals',
+  bet: 'house:games',
+  wager: 'house:gsc',
+  payout: 'house:games',
+  swap: 'house:swap',
+  transfer: 'house:transfers',
+  admin_topup: 'house:adjustments',
+  adjustment: 'house:adjustments',
+  opening_balance: 'house:opening',
+};
+
+export const userAccountCode = (userId: number, currency: string) => `user:${userId}:${currency}`;
+
+export const holdAccountCode = (userId: number, currency: string) => `hold:${userId}:${currency}`;
+
+export const systemAccountCode = (name: string, currency: string) => `${name}:${currency}`;
+
+export const counterAccountCode = (refType: LedgerRefType, currency: string) =>
+  systemAccountCode(COUNTER_ACCOUNTS[refType], currency);
+
+const parseAccountCode = (code: string) => {
+  const parts = code.split(':');
+  if (parts[0] === 'user' || parts[0] === 'hold') {
+    return { type: parts[0], userId: parseInt(parts[1]), currency: parts[2] };
+  }
+  return { type: parts[0], userId: null, currency: parts[parts.length - 1] };
+};
+
+export const getOrCreateAccount = async (client: PoolClient, code: string) => {
+  const { type, userId, currency } = parseAccountCode(code);
+  await client.query(
+    `INSERT INTO "LedgerAccounts" (code, type, "userId", currency)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (code) DO NOTHING`,
+    [code, type, userId, currency],
+  );
+  const { rows } = await client.query(
+    'SELECT id, code, type, "userId" AS "userId", currency FROM "LedgerAccounts" WHERE code = $1',
+    [code],
+  );
+  return rows[0];
+};
+
+const postingAmount = (value: AmountLike | undefined) => {
+  const amount = toAmount(value);
+  if (amount.isNegative()) {
+    throw new Error('Invalid ledger amount');
+  }
+  return amount;
+};
+
+const assertBalanced = (postings: Posting[]) => {
+  if (postings.length < 2) {
+    throw new Error('A journal needs at least two postings');
+  }
+
+  const totals = new Map<string, Amount>();
+  for (const p of postings) {
+    const debit = postingAmount(p.debit);
+    const credit = postingAmount(p.credit);
+    if (debit.gt(0) === credit.gt(0)) {
+      throw new Error(`Posting to ${p.account} must have exactly one of debit or credit`);
+    }
+    totals.set(p.currency, (totals.get(p.currency) || toAmount(0)).plus(debit).minus(credit));
+  }
+
+  for (const [currency, diff] of totals) {
+    if (!diff.isZero()) {
+      throw new Error(`Unbalanced journal for ${currency}: ${diff.toFixed()}`);
+    }
+  }
+};
+
+const toBalanceRow = (row: any) => ({ ...row, amount: toAmount(row.amount), lock: toAmount(row.lock) });
+
+// Lock a user's Balance row until the surrounding transaction ends; null if missing
+export const lockBalance = async (client: PoolClient, userId: number, currency: string) => {
+  const { rows } = await client.query(
+    `SELECT id, "userId" AS "userId", currency, amount::text AS amount, lock::text AS lock
+     FROM "Balances"
+     WHERE "userId" = $1 AND currency = $2
+     FOR UPDATE`,
+    [userId, currency],
+  );
+  return rows[0] ? toBalanceRow(rows[0]) : null;
+};
+
+// Insert the entries of a balanced journal without touching Balance
+const writeEntries = async (client: PoolClient, ref: LedgerRef, postings: Posting[]) => {
+  assertBalanced(postings);
+
+  const journalId = randomUUID();
+  const values: any[] = [];
+  const rows: string[] = [];
+  for (const p of postings) {
+    const account = await getOrCreateAccount(client, p.account);
+    const base = values.length;
+    values.push(
+      journalId,
+      account.id,
+      account.userId,
+      p.currency,
+      toDbAmount(postingAmount(p.debit)),
+      toDbAmount(postingAmount(p.credit)),
+      ref.type,
+      ref.id != null ? String(ref.id) : null,
+      ref.description || null,
+    );
+    rows.push(`(${Array.from({ length: 9 }, (_, i) => `$${base + i + 1}`).join(', ')})`);
+  }
+
+  await client.query(
+    `INSERT INTO "LedgerEntries"
+     ("journalId", "accountId", "userId", currency, debit, credit, "refType", "refId", description)
+     VALUES ${rows.join(', ')}`,
+    values,
+  );
+  return journalId;
+};
+
+// Post a balanced journal and update the Balance projection of touched user
+// and hold accounts. Every touched Balance row is locked first, so concurrent
+// postings against the same user serialize and a debit can never overdraw.
+// Pass a client to join a transaction that is already open.
+export const postJournal = async (ref: LedgerRef, postings: Posting[], client?: PoolClient) => {
+  const userDeltas = new Map<string, { userId: number; currency: string; delta: Amount; lockDelta: Amount }>();
+  for (const p of postings) {
+    const parsed = parseAccountCode(p.account);
+    if (parsed.type !== 'user' && parsed.type !== 'hold') continue;
+    const key = `${parsed.userId}:${p.currency}`;
+    const current = userDeltas.get(key)
+      || { userId: parsed.userId, currency: p.currency, delta: toAmount(0), lockDelta: toAmount(0) };
+    const change = postingAmount(p.credit).minus(postingAmount(p.debit));
+    if (parsed.type === 'hold') current.lockDelta = current.lockDelta.plus(change);
+    else current.delta = current.delta.plus(change);
+    userDeltas.set(key, current);
+  }
+  // Lock in a stable order so two journals touching the same rows cannot deadlock
+  const deltas = [...userDeltas.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, d]) => d);
+
+  const run = async (tx: PoolClient) => {
+    const locked = [];
+    for (const { userId, currency, delta, lockDelta } of deltas) {
+      let balance = await lockBalance(tx, userId, currency);
+      if (!balance) {
+        if (delta.isNegative() || lockDelta.isNegative()) throw new Error('Balance record not found');
+        await tx.query(
+          `INSERT INTO "Balances" ("userId", currency, amount)
+           VALUES ($1, $2, 0)
+           ON CONFLICT ("userId", currency) DO NOTHING`,
+          [userId, currency],
+        );
+        balance = await lockBalance(tx, userId, currency);
+      }
+      if (balance.amount.plus(delta).isNegative()) {
+        throw new Error('Insufficient balance for deduction');
+      }
+      if (balance.lock.plus(lockDelta).isNegative()) {
+        throw new Error('Insufficient locked balance');
+      }
+      locked.push({ balance, delta, lockDelta });
+    }
+
+    const journalId = await writeEntries(tx, ref, postings);
+
+    const balances = [];
+    for (const { balance, delta, lockDelta } of locked) {
+      const { rows } = await tx.query(
+        `UPDATE "Balances" SET amount = amount + $2, lock = lock + $3, "updatedAt" = now()
+         WHERE id = $1
+         RETURNING id, "userId" AS "userId", currency, amount::text AS amount, lock::text AS lock`,
+        [balance.id, toDbAmount(delta), toDbAmount(lockDelta)],
+      );
+      balances.push(toBalanceRow(rows[0]));
+    }
+
+    return { journalId, balances };
+  };
+
+  return client ? run(client) : withTransaction(run);
+};
+
+// Credit a user account against the counter account of the reference type
+export const creditUser = async (
+  userId: number,
+  amount: AmountLike,
+  currency: string,
+  ref: LedgerRef,
+  client?: PoolClient,
+) => {
+  const { balances } = await postJournal(ref, [
+    { account: counterAccountCode(ref.type, currency), currency, debit: amount },
+    { account: userAccountCode(userId, currency), currency, credit: amount },
+  ], client);
+  return balances[0];
+};
+
+// Debit a user account against the counter account of the reference type
+export const debitUser = async (
+  userId: number,
+  amount: AmountLike,
+  currency: string,
+  ref: LedgerRef,
+  client?: PoolClient,
+) => {
+  const { balances } = await postJournal(ref, [
+    { account: userAccountCode(userId, currency), currency, debit: amount },
+    { account: counterAccountCode(ref.type, currency), currency, credit: amount },
+  ], client);
+  return balances[0];
+};
+
+export const getLedgerEntries = async (params: {
+  userId?: number;
+  currency?: string;
+  refType?: string;
+  refId?: string;
+  page?: number;
+  pageSize?: number;
+}) => {
+  const { userId, currency, refType, refId, page = 1, pageSize = 50 } = params;
+
+  const where: any = {};
+  if (userId) where.userId = userId;
+  if (currency) where.currency = currency;
+  if (refType) where.refType = refType;
+  if (refId) where.refId = refId;
+
+  const [data, total] = await Promise.all([
+    prisma.ledgerEntry.findMany({
+      where,
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      orderBy: { id: 'desc' },
+    }),
+    prisma.ledgerEntry.count({ where }),
+  ]);
+
+  return {
+    data,
+    meta: {
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    },
+  };
+};
+
+const JOURNAL_SUMS = `
+  COALESCE(SUM(e.credit - e.debit) FILTER (WHERE a.type = 'user'), 0)::text AS amount,
+  COALESCE(SUM(e.credit - e.debit) FILTER (WHERE a.type = 'hold'), 0)::text AS lock`;
+
+// Available and held sums per user and currency, straight from the journal
+export const getJournalBalances = async (userId?: number) => {
+  const rows = await prisma.$queryRawUnsafe(
+    `SELECT a."userId" AS "userId", a.currency AS currency, ${JOURNAL_SUMS}
+     FROM "LedgerEntries" e
+     JOIN "LedgerAccounts" a ON a.id = e."accountId"
+     WHERE a.type IN ('user', 'hold') ${userId ? 'AND a."userId" = $1' : ''}
+     GROUP BY 1, 2`,
+    ...(userId ? [userId] : []),
+  );
+
+  return (rows as any[]).map(r => ({
+    userId: Number(r.userId),
+    currency: r.currency as string,
+    amount: toAmount(r.amount),
+    lock: toAmount(r.lock),
+  }));
+};
+
+// Post opening balances for the part of each Balance row that predates the journal.
+// Postings made since go through the projection as deltas, so whatever the
+// journal does not explain is the pre-ledger amount.
+export const seedOpeningBalances = async () => {
+  const balances = await prisma.balance.findMany({});
+  const journal = new Map(
+    (await getJournalBalances()).map(r => [`${r.userId}:${r.currency}`, r.amount]),
+  );
+  let seeded = 0;
+
+  for (const balance of balances) {
+    const opening = toAmount(balance.amount).minus(journal.get(`${balance.userId}:${balance.currency}`) || 0);
+    if (!opening.gt(0)) continue;
+
+    const alreadySeeded = await prisma.ledgerEntry.count({
+      where: { userId: balance.userId, currency: balance.currency, refType: 'opening_balance' },
+    });
+    if (alreadySeeded > 0) continue;
+
+    const ref: LedgerRef = { type: 'opening_balance', id: balance.id, description: 'Opening balance' };
+    await withTransaction(client => writeEntries(client, ref, [
+      { account: counterAccountCode('opening_balance', balance.currency), currency: balance.currency, debit: opening },
+      { account: userAccountCode(balance.userId, balance.currency), currency: balance.currency, credit: opening },
+    ]));
+    seeded++;
+  }
+
+  return seeded;
+};
+
+// Rebuild the Balance projection from the journal; returns the rows that drifted
+export const rebuildBalances = async (userId?: number) => {
+  const journal = await getJournalBalances(userId);
+  const drift = [];
+
+  for (const row of journal) {
+    const changed = await withTransaction(async (client) => {
+      // Re-read the journal under the row lock so concurrent postings are not lost
+      const balance = await lockBalance(client, row.userId, row.currency);
+      const { rows } = await client.query(
+        `SELECT ${JOURNAL_SUMS}
+         FROM "LedgerEntries" e
+         JOIN "LedgerAccounts" a ON a.id = e."accountId"
+         WHERE a.code IN ($1, $2)`,
+        [userAccountCode(row.userId, row.currency), holdAccountCode(row.userId, row.currency)],
+      );
+      const expected = { amount: toAmount(rows[0].amount), lock: toAmount(rows[0].lock) };
+      const projected = { amount: balance ? balance.amount : toAmount(0), lock: balance ? balance.lock : toAmount(0) };
+
+      if (projected.amount.eq(expected.amount) && projected.lock.eq(expected.lock)) return null;
+
+      await client.query(
+        `INSERT INTO "Balances" ("userId", currency, amount, lock)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT ("userId", currency)
+         DO UPDATE SET amount = EXCLUDED.amount, lock = EXCLUDED.lock, "updatedAt" = now()`,
+        [row.userId, row.currency, toDbAmount(expected.amount), toDbAmount(expected.lock)],
+      );
+      return { userId: row.userId, currency: row.currency, projected, journal: expected };
+    });
+
+    if (changed) drift.push(changed);
+  }
+
+  return drift;
+};
@@ -1,5 +1,5 @@
 import 'dotenv/config';
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 
 const connectionString = process.env.DATABASE_URL;
 
@@ -23,4 +23,18 @@ export async function query<T = any>(text: string, params?: any[]): Promise<{ ro
   }
 }
 
-
+// Run fn inside BEGIN/COMMIT on a dedicated client; rolls back if fn throws
+export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
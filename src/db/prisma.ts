@@ -23,6 +23,11 @@ const modelToTable: Record<string, string> = {
   emailVerificationCode: 'EmailVerificationCodes',
   referralBonus: 'ReferralBonuses',
   referralConfig: 'ReferralConfigs',
+  wager: 'Wagers',
+  ledgerAccount: 'LedgerAccounts',
+  ledgerEntry: 'LedgerEntries',
+  fundHold: 'FundHolds',
+  reconciliationReport: 'ReconciliationReports',
 };
 
 function applyWhere(q: any, where?: Where) {
@@ -0,0 +1,203 @@
+// Registry of the tokens each chain accepts and pays out, besides its native
+// coin. Deposit sweepers and withdrawals read it instead of fixed contract
+// addresses, so a token is added by inserting a row. decimals are the
+// on-chain decimals of the contract or mint; minDeposit is the smallest
+// balance worth sweeping and withdrawFee the flat platform fee charged on
+// withdrawals, both in token units. Disabled tokens are neither swept nor
+// withdrawable.
+//
+// Tokens configured through the old TRON_USDT_CONTRACT, ETH_USDT_CONTRACT,
+// SOLANA_USDC_MINT and BSC_*_CONTRACT variables are inserted on first use
+// unless the chain already has a row for that symbol, with the flat fee from
+// WITHDRAW_PLATFORM_FLAT_FEES as their withdrawFee.
+//
+// The registry also gives the precision balances of a token are kept at, the
+// smallest decimals among the chains carrying it so every chain can pay it
+// out, and the symbols the price oracle fetches.
+import { query } from './pool';
+import { Amount, parseAmount, setTokenDecimals, toAmount, toDbAmount } from '../utils/money';
+
+export interface Token {
+  id: number;
+  blockchain: string;
+  symbol: string;
+  contract: string;
+  decimals: number;
+  minDeposit: Amount;
+  withdrawFee: Amount;
+  enabled: boolean;
+}
+
+export type TokenInput = {
+  blockchain: string;
+  symbol: string;
+  contract: string;
+  decimals: number | string;
+  minDeposit?: string | number;
+  withdrawFee?: string | number;
+  enabled?: boolean;
+};
+
+// Native coin of each supported chain; every chain also pays out its tokens
+export const NATIVE_CURRENCIES: Record<string, string> = {
+  Tron: 'TRX',
+  Ethereum: 'ETH',
+  Solana: 'SOL',
+  BNB: 'BNB',
+};
+
+const CACHE_TTL_MS = (Number(process.env.TOKEN_CACHE_SECONDS) || 60) * 1000;
+
+const COLUMNS = `id, blockchain, symbol, contract, decimals, "minDeposit"::text AS "minDeposit",
+  "withdrawFee"::text AS "withdrawFee", enabled`;
+
+const toToken = (row: any): Token => ({
+  id: row.id,
+  blockchain: row.blockchain,
+  symbol: row.symbol,
+  contract: row.contract,
+  decimals: Number(row.decimals),
+  minDeposit: toAmount(row.minDeposit),
+  withdrawFee: toAmount(row.withdrawFee),
+  enabled: Boolean(row.enabled),
+});
+
+const LEGACY_TOKENS = [
+  { blockchain: 'Tron', symbol: 'USDT', contract: process.env.TRON_USDT_CONTRACT, decimals: 6, minDeposit: 10 },
+  { blockchain: 'Ethereum', symbol: 'USDT', contract: process.env.ETH_USDT_CONTRACT, decimals: 6, minDeposit: 10 },
+  {
+    blockchain: 'Solana',
+    symbol: 'USDC',
+    contract: process.env.SOLANA_USDC_MINT || '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU', // USDC devnet
+    decimals: 6,
+    minDeposit: 1,
+  },
+  { blockchain: 'BNB', symbol: 'USDT', contract: process.env.BSC_USDT_CONTRACT, decimals: 18, minDeposit: 10 },
+  { blockchain: 'BNB', symbol: 'USDC', contract: process.env.BSC_USDC_CONTRACT, decimals: 18, minDeposit: 10 },
+];
+
+const LEGACY_FLAT_FEES: Record<string, number> = process.env.WITHDRAW_PLATFORM_FLAT_FEES
+  ? JSON.parse(process.env.WITHDRAW_PLATFORM_FLAT_FEES)
+  : {};
+
+let seeded = false;
+let cache: { tokens: Token[]; at: number } | null = null;
+
+const seedLegacyTokens = async () => {
+  for (const token of LEGACY_TOKENS.filter((t) => t.contract)) {
+    await query(
+      `INSERT INTO "Tokens" (blockchain, symbol, contract, decimals, "minDeposit", "withdrawFee")
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (blockchain, symbol) DO NOTHING`,
+      [token.blockchain, token.symbol, token.contract, token.decimals, token.minDeposit, LEGACY_FLAT_FEES[token.symbol] || 0],
+    );
+  }
+  seeded = true;
+};
+
+// Disabled tokens count too: balances may still be held in them
+const registerDecimals = (tokens: Token[]) => {
+  const decimals = new Map<string, number>();
+  for (const token of tokens) {
+    decimals.set(token.symbol, Math.min(token.decimals, decimals.get(token.symbol) ?? token.decimals));
+  }
+  for (const [symbol, places] of decimals) {
+    setTokenDecimals(symbol, places);
+  }
+};
+
+export const listTokens = async () => {
+  if (!seeded) await seedLegacyTokens();
+  const { rows } = await query(`SELECT ${COLUMNS} FROM "Tokens" ORDER BY blockchain, symbol`);
+  const tokens = rows.map(toToken);
+  registerDecimals(tokens);
+  return tokens;
+};
+
+const loadTokens = async () => {
+  if (!cache || Date.now() - cache.at >= CACHE_TTL_MS) {
+    cache = { tokens: await listTokens(), at: Date.now() };
+  }
+  return cache.tokens;
+};
+
+// Native coins and every registered token, enabled or not
+export const getPricedSymbols = async () =>
+  [...new Set([...Object.values(NATIVE_CURRENCIES), ...(await loadTokens()).map((t) => t.symbol)])];
+
+// Enabled tokens of a chain
+export const getTokens = async (blockchain: string) =>
+  (await loadTokens()).filter((t) => t.enabled && t.blockchain === blockchain);
+
+export const getToken = async (blockchain: string, symbol: string) =>
+  (await getTokens(blockchain)).find((t) => t.symbol === symbol.toUpperCase()) || null;
+
+export const requireToken = async (blockchain: string, symbol: string) => {
+  const token = await getToken(blockchain, symbol);
+  if (!token) {
+    throw new Error(`${symbol} is not supported on ${blockchain}`);
+  }
+  return token;
+};
+
+// Native coin first, then the chain's enabled tokens
+export const getWithdrawCurrencies = async (blockchain: string) => {
+  const native = NATIVE_CURRENCIES[blockchain];
+  if (!native) return [];
+  return [native, ...(await getTokens(blockchain)).map((t) => t.symbol)];
+};
+
+const nonNegative = (value: any, field: string) => {
+  if (value == null || value === '') return toAmount(0);
+  const amount = parseAmount(value);
+  if (!amount || amount.isNegative()) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return amount;
+};
+
+export const upsertToken = async (input: TokenInput) => {
+  const blockchain = String(input.blockchain || '');
+  const symbol = String(input.symbol || '').trim().toUpperCase();
+  const contract = String(input.contract || '').trim();
+  const decimals = Number(input.decimals);
+  if (!NATIVE_CURRENCIES[blockchain]) {
+    throw new Error(`Unsupported blockchain ${blockchain}`);
+  }
+  if (!symbol || symbol === NATIVE_CURRENCIES[blockchain]) {
+    throw new Error('Invalid symbol');
+  }
+  if (!contract) {
+    throw new Error('contract is required');
+  }
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+    throw new Error('decimals must be an integer between 0 and 36');
+  }
+  const minDeposit = nonNegative(input.minDeposit, 'minDeposit');
+  const withdrawFee = nonNegative(input.withdrawFee, 'withdrawFee');
+
+  const { rows } = await query(
+    `INSERT INTO "Tokens" (blockchain, symbol, contract, decimals, "minDeposit", "withdrawFee", enabled)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (blockchain, symbol) DO UPDATE SET
+       contract = EXCLUDED.contract,
+       decimals = EXCLUDED.decimals,
+       "minDeposit" = EXCLUDED."minDeposit",
+       "withdrawFee" = EXCLUDED."withdrawFee",
+       enabled = EXCLUDED.enabled,
+       "updatedAt" = now()
+     RETURNING ${COLUMNS}`,
+    [blockchain, symbol, contract, decimals, toDbAmount(minDeposit), toDbAmount(withdrawFee), input.enabled !== false],
+  );
+  cache = null;
+  return toToken(rows[0]);
+};
+
+export const setTokenEnabled = async (id: number, enabled: boolean) => {
+  const { rows } = await query(
+    `UPDATE "Tokens" SET enabled = $2, "updatedAt" = now() WHERE id = $1 RETURNING ${COLUMNS}`,
+    [id, enabled],
+  );
+  cache = null;
+  return rows[0] ? toToken(rows[0]) : null;
+};
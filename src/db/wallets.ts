@@ -1,16 +1,50 @@
 import { Wallet as EthWallet } from 'ethers';
-import { encryptPrivateKey, decryptPrivateKey } from "../utils/bcrypt";
+import { encryptPrivateKey } from "../utils/bcrypt";
 import axios from 'axios';
 import 'dotenv/config';
 import prisma from "./prisma";
 import { Keypair } from "@solana/web3.js";
 import bs58 from "bs58";
 // Avoid importing blockchain modules at startup; require when needed
-import { convert } from '../utils/exchange';
+import { convertAmount, valueInUsd } from '../utils/exchange';
+import {
+  Amount, AmountLike, parseAmount, roundAmount, toAmount, toDbAmount,
+} from '../utils/money';
+import {
+  LedgerRef, creditUser, debitUser, lockBalance, postJournal, userAccountCode,
+} from './ledger';
+import { PoolClient } from 'pg';
+import { query, withTransaction } from './pool';
+import { placeHold } from './holds';
+import { WITHDRAW_COLUMNS, toWithdrawRequest } from './withdrawals';
+import { getWithdrawCurrencies } from './tokens';
+import { checkWithdrawLimits } from './withdrawLimits';
+import { checkWithdrawAddress, findWithdrawAddress, setWithdrawWhitelistOnly } from './withdrawAddresses';
+import { claimExchangeQuote, findExchangeQuote, swapPostings } from './exchangeQuotes';
+import { getExchangePairConfig } from './exchangePairs';
+import { randomUUID } from 'crypto';
+import { assertValidAddress } from '../utils/addressValidation';
+import { HD_BLOCKCHAINS, deriveDepositAddress, getWalletPrivateKey, isHdWalletEnabled } from '../utils/hdWallet';
+import { quoteWithdrawFee } from '../services/withdrawFees';
 
 
 export const createWallet = async (userId: number) => {
 
+  // Derived addresses store only their path; the user id is the address index
+  if (isHdWalletEnabled()) {
+    await prisma.wallet.createMany({
+      data: HD_BLOCKCHAINS.map((blockchain) => ({
+        userId: userId,
+        blockchain,
+        network: 'mainnet',
+        ...deriveDepositAddress(blockchain, userId),
+        privateKey: null,
+      })),
+    });
+    await createBalances(userId);
+    return;
+  }
+
   let tronAddress: string | null = null;
   let tronEncryptedPK: string | null = null;
   if (process.env.TRON_FULLNODE && /^https?:\/\//.test(process.env.TRON_FULLNODE)) {
@@ -59,6 +93,12 @@ export const createWallet = async (userId: number) => {
     ]
   });
 
+  await createBalances(userId);
+
+}
+
+const createBalances = async (userId: number) => {
+
   const supportedAssets = [
     { asset: "USD" },
     { asset: "USDT" },
@@ -80,10 +120,19 @@ export const createWallet = async (userId: number) => {
 
 export const getWalletInfo = async (userId: number) => {
 
-  const balances = await prisma.balance.findMany({
+  const rows = await prisma.balance.findMany({
     where: { userId: userId }
   });
 
+  // amount is what the user can spend; lock is reserved by pending holds
+  const balances = rows.map((b: any) => {
+    const available = toAmount(b.amount);
+    const locked = toAmount(b.lock);
+    return {
+      ...b, available: available.toFixed(), locked: locked.toFixed(), total: available.plus(locked).toFixed(),
+    };
+  });
+
   const addresses = await prisma.wallet.findMany({
     where: { userId: userId },
     select: {
@@ -118,193 +167,342 @@ export const getPkTron = async (address: string) => {
     where: { publicKey: address, blockchain: "Tron" }
   });
 
-  return decryptPrivateKey(wallet.privateKey);
+  return getWalletPrivateKey(wallet);
+
+}
 
+// Rate details stored with a Transaction; the USD rate is looked up when the
+// caller did not already use one to credit or debit the balance
+export interface TransactionValuation {
+  originalAmount?: AmountLike;
+  originalCurrency?: string;
+  usdRate?: AmountLike;
+  rateSource?: string;
 }
 
-export const saveTransaction = async (userId: number, address: string, amount: number, currency: string, txId: string, type: string) => {
+// USD rate of a currency for Transaction rows. A missing price is logged
+// rather than thrown: the money has already moved, or is about to, when a
+// transaction is recorded.
+const transactionUsdRate = async (currency: string): Promise<TransactionValuation> => {
+
+  try {
+    const { usdRate, rateSource } = await valueInUsd(1, currency);
+    return { usdRate, rateSource };
+  } catch (err) {
+    console.error(`No USD rate for ${currency} transaction:`, err.message || err);
+    return {};
+  }
+
+};
+
+// Valuation columns of a Transaction row, from the rate in details
+const valuationColumns = (amount: AmountLike, currency: string, details: TransactionValuation = {}) => {
+
+  const usdRate = details.usdRate != null ? toAmount(details.usdRate) : null;
+
+  // usdValue is what the original amount was worth, i.e. what the balance moved by
+  const originalAmount = toAmount(details.originalAmount ?? amount);
+  return {
+    originalAmount: toDbAmount(originalAmount),
+    originalCurrency: details.originalCurrency || currency,
+    usdRate: usdRate ? toDbAmount(usdRate) : null,
+    usdValue: usdRate ? toDbAmount(roundAmount(originalAmount.times(usdRate), "USD")) : null,
+    rateSource: details.rateSource || null,
+  };
+
+}
+
+// Valuation columns, looking the USD rate up when the caller did not give one
+const transactionValuation = async (amount: AmountLike, currency: string, details: TransactionValuation = {}) => {
+
+  const rate = details.usdRate != null ? {} : await transactionUsdRate(details.originalCurrency || currency);
+  return valuationColumns(amount, currency, { ...details, ...rate });
+
+};
+
+export const saveTransaction = async (
+  userId: number,
+  address: string,
+  amount: AmountLike,
+  currency: string,
+  txId: string,
+  type: string,
+  valuation?: TransactionValuation,
+) => {
 
   await prisma.transaction.create({
     data: {
       userId: userId,
       address: address,
       currency: currency,
-      amount: amount,
+      amount: toDbAmount(amount),
       txId,
-      type
+      type,
+      ...await transactionValuation(amount, currency, valuation),
     },
   });
 
 }
 
-export const getTransactions = async (userId: null, currency: string) => {
+interface TransactionRow {
+  userId: number;
+  address: string;
+  currency: string;
+  amount: Amount;
+  txId: string;
+  type: string;
+  rate?: Amount;
+  fee?: Amount;
+  valuation?: TransactionValuation;
+}
 
-  const transactions = await prisma.transaction.findMany({
-    where: { userId: userId, currency: currency }
-  });
+// Insert Transaction rows inside an open database transaction. Rows carry their
+// USD rate, looked up with transactionUsdRate before the transaction opened, so
+// no price is fetched while balance rows are locked.
+const insertTransactions = async (client: PoolClient, rows: TransactionRow[]) => {
+
+  const values: any[] = [];
+  const tuples: string[] = [];
+  for (const row of rows) {
+    const valuation = valuationColumns(row.amount, row.currency, row.valuation);
+    const base = values.length;
+    values.push(
+      row.userId, row.address, row.currency, toDbAmount(row.amount), row.txId, row.type,
+      row.rate ? toDbAmount(row.rate) : null, row.fee ? toDbAmount(row.fee) : null,
+      valuation.originalAmount, valuation.originalCurrency, valuation.usdRate, valuation.usdValue, valuation.rateSource,
+    );
+    tuples.push(`(${Array.from({ length: 13 }, (_, i) => `$${base + i + 1}`).join(', ')})`);
+  }
+
+  await client.query(
+    `INSERT INTO "Transactions"
+     ("userId", address, currency, amount, "txId", type, rate, fee,
+      "originalAmount", "originalCurrency", "usdRate", "usdValue", "rateSource")
+     VALUES ${tuples.join(', ')}`,
+    values,
+  );
 
-  return transactions;
+}
 
+export type TransactionHistoryType =
+  'deposit' | 'withdraw' | 'swap' | 'transfer_out' | 'transfer_in' | 'bet' | 'bonus';
+
+export const TRANSACTION_HISTORY_TYPES: TransactionHistoryType[] = [
+  'deposit', 'withdraw', 'swap', 'transfer_out', 'transfer_in', 'bet', 'bonus',
+];
+
+export interface TransactionHistoryParams {
+  userId: number;
+  type?: TransactionHistoryType;
+  currency?: string;
+  from?: Date;
+  to?: Date;
+  sort?: 'asc' | 'desc';
+  cursor?: string;
+  limit?: number;
 }
 
-export const topBalance = async (userId: number, amount: number, currency: string) => {
+// Build history params from query string values (from the user or admin API)
+export const parseTransactionHistoryQuery = (userId: number, q: Record<string, any>): TransactionHistoryParams => {
 
-  const amountNum = Number(amount);
-  if (!isFinite(amountNum) || amountNum < 0) {
-    throw new Error('Invalid amount for top up');
+  const params: TransactionHistoryParams = { userId };
+
+  if (q.type) {
+    if (!TRANSACTION_HISTORY_TYPES.includes(q.type)) {
+      throw new Error(`type must be one of ${TRANSACTION_HISTORY_TYPES.join(', ')}`);
+    }
+    params.type = q.type;
   }
+  if (q.currency) params.currency = String(q.currency).toUpperCase();
 
-  const existingBalance = await prisma.balance.findFirst({
-    where: { userId, currency },
-  });
+  for (const field of ['from', 'to'] as const) {
+    if (!q[field]) continue;
+    const date = new Date(String(q[field]));
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid ${field} date`);
+    }
+    params[field] = date;
+  }
 
-  if (existingBalance) {
-    const currentAmount = Number((existingBalance as any).amount);
-    if (!isFinite(currentAmount)) {
-      throw new Error('Invalid current balance');
+  if (q.sort) {
+    if (q.sort !== 'asc' && q.sort !== 'desc') {
+      throw new Error('sort must be asc or desc');
     }
-    const newAmount = currentAmount + amountNum;
-    await prisma.balance.updateMany({
-      where: { userId, currency },
-      data: { amount: newAmount },
-    });
-  } else {
-    await prisma.balance.create({
-      data: { userId, currency, amount: amountNum },
-    });
+    params.sort = q.sort;
   }
+  if (q.cursor) params.cursor = String(q.cursor);
+  if (q.limit) params.limit = Number(q.limit) || undefined;
 
-}
+  return params;
 
-export const minusBalance = async (userId: number, amount: number, currency: string) => {
+}
 
-  const amountNum = Number(amount);
-  if (!isFinite(amountNum) || amountNum < 0) {
-    throw new Error('Invalid amount for deduction');
+export const TRANSACTION_HISTORY_COLUMNS = [
+  'id', 'type', 'currency', 'amount', 'payout', 'status', 'reference', 'address',
+  'originalAmount', 'originalCurrency', 'usdRate', 'usdValue', 'rateSource', 'createdAt',
+];
+
+// Wallet transactions, bets and referral bonuses as one history. Bet stakes are
+// negative like withdrawals; the bet payout is reported separately. Only wallet
+// transactions carry the USD rate used at the time.
+const HISTORY_SQL = `
+  SELECT 'tx:' || id AS key, id::text AS id, type, currency, amount::text AS amount,
+         NULL::text AS payout, NULL::text AS status, "txId" AS reference, address,
+         "originalAmount"::text AS "originalAmount", "originalCurrency", "usdRate"::text AS "usdRate",
+         "usdValue"::text AS "usdValue", "rateSource", "createdAt"
+  FROM "Transactions" WHERE "userId" = $1
+  UNION ALL
+  SELECT 'bet:' || id, id::text, 'bet', token, (-amount)::text,
+         payout::text, status, COALESCE("txHash", id::text), NULL,
+         NULL, NULL, NULL, NULL, NULL, "createdAt"
+  FROM "Bets" WHERE "userId" = $1
+  UNION ALL
+  SELECT 'bonus:' || id, id::text, 'bonus', currency, amount::text,
+         NULL, status, "triggerType", NULL,
+         NULL, NULL, NULL, NULL, NULL, "createdAt"
+  FROM "ReferralBonuses" WHERE "userId" = $1`;
+
+const MAX_HISTORY_LIMIT = 500;
+
+// Cursors are opaque to clients: the sort position of the last row returned
+const encodeCursor = (row: any) =>
+  Buffer.from(JSON.stringify([row.cursorAt, row.key])).toString('base64url');
+
+const decodeCursor = (cursor: string): [string, string] => {
+  try {
+    const [at, key] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof at === 'string' && typeof key === 'string') return [at, key];
+  } catch {
+    // fall through
+  }
+  throw new Error('Invalid cursor');
+};
+
+export const getTransactions = async (params: TransactionHistoryParams) => {
+
+  const { userId, type, currency, from, to, cursor } = params;
+  const sort = params.sort === 'asc' ? 'ASC' : 'DESC';
+  const limit = Math.min(Math.max(params.limit || 50, 1), MAX_HISTORY_LIMIT);
+
+  const values: any[] = [userId];
+  const conditions: string[] = [];
+  const param = (value: any) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  if (type) conditions.push(`type = ${param(type)}`);
+  if (currency) conditions.push(`currency = ${param(currency)}`);
+  if (from) conditions.push(`"createdAt" >= ${param(from)}`);
+  if (to) conditions.push(`"createdAt" <= ${param(to)}`);
+  if (cursor) {
+    const [at, key] = decodeCursor(cursor);
+    conditions.push(`("createdAt", key) ${sort === 'DESC' ? '<' : '>'} (${param(at)}::timestamptz, ${param(key)})`);
   }
 
-  const existingBalance = await prisma.balance.findFirst({
-    where: { userId, currency },
-  });
+  const { rows } = await query(
+    `SELECT *, "createdAt"::text AS "cursorAt" FROM (${HISTORY_SQL}) h
+     ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY "createdAt" ${sort}, key ${sort}
+     LIMIT ${limit + 1}`,
+    values,
+  );
 
-  if (existingBalance) {
-    const currentAmount = Number((existingBalance as any).amount);
-    if (!isFinite(currentAmount)) {
-      throw new Error('Invalid current balance');
-    }
-    const newAmount = currentAmount - amountNum;
-    if (newAmount < 0) {
-      throw new Error('Insufficient balance for deduction');
-    }
-    await prisma.balance.updateMany({
-      where: { userId, currency },
-      data: { amount: newAmount },
-    });
-  } else {
-    throw new Error('Balance record not found');
-  }
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    items: page.map(({ key, cursorAt, ...row }) => row),
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+  };
 
 }
 
-export const getWallet = async (userId: number, blockchain: string) => {
+// Every matching history row, page by page, for exports
+export async function* iterateTransactions(params: Omit<TransactionHistoryParams, 'cursor' | 'limit'>) {
 
-  const wallet = await prisma.wallet.findFirst({
-    where: { userId, blockchain }
-  });
+  let cursor: string | undefined;
+  do {
+    const page = await getTransactions({ ...params, cursor, limit: MAX_HISTORY_LIMIT });
+    for (const row of page.items) yield row;
+    cursor = page.nextCursor || undefined;
+  } while (cursor);
 
-  return wallet;
 }
 
-export const exchangeBalance = async (userId: number, fromCurrency: string, toCurrency: string, amount: number) => {
+// Credit a user balance through the ledger; ref ties the journal to its source record
+export const topBalance = async (userId: number, amount: AmountLike, currency: string, ref: LedgerRef = { type: 'adjustment' }) => {
 
-  if (fromCurrency === toCurrency) {
-    throw new Error("Cannot exchange same currency");
+  const value = parseAmount(amount);
+  if (!value || value.isNegative()) {
+    throw new Error('Invalid amount for top up');
   }
 
-  const convertedAmount = await convert(amount, fromCurrency, toCurrency);
+  return creditUser(userId, value, currency, ref);
 
-  const fromBalance = await prisma.balance.findFirst({
-    where: { userId, currency: fromCurrency },
-  });
-
-  const currentAmount = fromBalance ? Number((fromBalance as any).amount) : NaN;
-  if (!fromBalance || !isFinite(currentAmount) || currentAmount < amount) {
-    throw new Error('Insufficient balance');
-  }
+}
 
-  // Validate amounts
-  const amountNum = Number(amount);
-  const convertedAmountNum = Number(convertedAmount);
+// Debit a user balance through the ledger; throws when the balance cannot cover it
+export const minusBalance = async (userId: number, amount: AmountLike, currency: string, ref: LedgerRef = { type: 'adjustment' }) => {
 
-  if (!isFinite(amountNum) || amountNum < 0) {
-    throw new Error('Invalid amount for exchange');
+  const value = parseAmount(amount);
+  if (!value || value.isNegative()) {
+    throw new Error('Invalid amount for deduction');
   }
 
-  console.log("convertedAmountNum==>", convertedAmountNum, "amountNum==>", amountNum, fromBalance);
+  return debitUser(userId, value, currency, ref);
 
-  if (!isFinite(convertedAmountNum) || convertedAmountNum < 0) {
-    throw new Error('Invalid converted amount');
-  }
+}
 
-  // Get current balance and subtract
-  const fromBalanceRecord = await prisma.balance.findFirst({
-    where: { userId, currency: fromCurrency },
-  });
-  if (fromBalanceRecord) {
-    const currentAmount = Number((fromBalanceRecord as any).amount);
-    if (!isFinite(currentAmount)) {
-      throw new Error('Invalid current balance');
-    }
-    const newFromAmount = currentAmount - amountNum;
-    if (newFromAmount < 0) {
-      throw new Error('Insufficient balance for exchange');
-    }
-    await prisma.balance.updateMany({
-      where: { userId, currency: fromCurrency },
-      data: { amount: newFromAmount },
-    });
-  }
+export const getWallet = async (userId: number, blockchain: string) => {
 
-  // Get current balance and add
-  const toBalanceRecord = await prisma.balance.findFirst({
-    where: { userId, currency: toCurrency },
+  const wallet = await prisma.wallet.findFirst({
+    where: { userId, blockchain }
   });
-  if (toBalanceRecord) {
-    const currentAmount = Number((toBalanceRecord as any).amount);
-    if (!isFinite(currentAmount)) {
-      throw new Error('Invalid current balance');
+
+  return wallet;
+}
+
+// Execute a swap at the rate and fee of a quote from createExchangeQuote
+export const exchangeBalance = async (userId: number, quoteId: string) => {
+
+  // Price both currencies before any row is locked; the quote is claimed below
+  const pending = await findExchangeQuote(userId, quoteId);
+  const [fromRate, toRate] = pending
+    ? await Promise.all([transactionUsdRate(pending.fromCurrency), transactionUsdRate(pending.toCurrency)])
+    : [{}, {}];
+
+  return withTransaction(async (client) => {
+    const quote = await claimExchangeQuote(client, userId, quoteId);
+    const { fromCurrency, toCurrency, amount, rate, fee, outputAmount } = quote;
+
+    // The pair may have been disabled since the quote was issued
+    const config = await getExchangePairConfig(fromCurrency, toCurrency, client);
+    if (!config.enabled) {
+      throw new Error(`Exchange from ${fromCurrency} to ${toCurrency} is not available`);
     }
-    const newToAmount = currentAmount + convertedAmountNum;
-    await prisma.balance.updateMany({
-      where: { userId, currency: toCurrency },
-      data: { amount: newToAmount },
-    });
-  } else {
-    // Create new balance record if it doesn't exist
-    await prisma.balance.create({
-      data: { userId, currency: toCurrency, amount: convertedAmountNum },
-    });
-  }
 
-  await prisma.transaction.createMany({
-    data: [
+    // Both legs post as one journal through the swap house account at the market
+    // price; the spread and flat fee go to the house revenue account
+    await postJournal(
+      { type: 'swap', id: quote.id, description: `${fromCurrency} -> ${toCurrency}` },
+      swapPostings(userId, quote),
+      client,
+    );
+
+    // Both rows carry the executed rate (toCurrency per fromCurrency) and the fee in toCurrency
+    await insertTransactions(client, [
       {
-        userId: userId,
-        address: '-',
-        currency: fromCurrency,
-        amount: -amount,
-        txId: "",
-        type: "swap"
+        userId, address: '-', currency: fromCurrency, amount: amount.negated(), txId: quote.id, type: 'swap', rate, fee,
+        valuation: fromRate,
       },
       {
-        userId: userId,
-        address: '-',
-        currency: toCurrency,
-        amount: convertedAmount,
-        txId: "",
-        type: "swap"
-      }
-    ]
+        userId, address: '-', currency: toCurrency, amount: outputAmount, txId: quote.id, type: 'swap', rate, fee,
+        valuation: toRate,
+      },
+    ]);
+
+    return quote;
   });
 
 }
@@ -318,9 +516,9 @@ export async function getUserBets(userId: number, limit = 10, offset = 0) {
   });
 }
 
-export async function withdrawRequest(userId: number, to: string, currency: string, blockchain: string, amount: number, withdrawalPassword?: string) {
+// Throws unless the user has a withdrawal password set and it matches
+const verifyWithdrawalPassword = async (userId: number, withdrawalPassword?: string) => {
 
-  // SECURITY FIX: Validate withdrawal password
   if (!withdrawalPassword) {
     throw new Error('Withdrawal password is required for security');
   }
@@ -335,99 +533,218 @@ export async function withdrawRequest(userId: number, to: string, currency: stri
     throw new Error('Withdrawal password not set. Please set a withdrawal password first.');
   }
 
-  // Verify withdrawal password
   const bcrypt = require('bcrypt');
   const isWithdrawalPasswordValid = await bcrypt.compare(withdrawalPassword, user.withdrawal_password);
   if (!isWithdrawalPasswordValid) {
     throw new Error('Incorrect withdrawal password');
   }
 
-  // Validate amount
-  const amountNum = Number(amount);
-  console.log(`Amount validation: amount=${amount}, amountNum=${amountNum}, isFinite=${isFinite(amountNum)}, >0=${amountNum > 0}`);
-  if (!isFinite(amountNum) || amountNum <= 0) {
-    console.error(`Amount validation failed: amount=${amount}, amountNum=${amountNum}`);
+  return user;
+
+}
+
+export async function withdrawRequest(userId: number, to: string, currency: string, blockchain: string, amount: AmountLike, withdrawalPassword?: string, memo?: string) {
+
+  // SECURITY FIX: Validate withdrawal password
+  await verifyWithdrawalPassword(userId, withdrawalPassword);
+
+  if (!(await getWithdrawCurrencies(blockchain)).includes(currency)) {
+    throw new Error(`Withdrawing ${currency} on ${blockchain} is not supported`);
+  }
+  // A saved address brings its memo along unless the request carries its own
+  if (!memo) {
+    const saved = await findWithdrawAddress(userId, blockchain, to);
+    memo = saved && saved.status !== 'pending_confirmation' && saved.memo ? saved.memo : undefined;
+  }
+
+  // Refuse malformed destinations before anything is held
+  to = assertValidAddress(blockchain, to, memo);
+
+  // Validate amount, rounded down to what the chain can represent
+  const parsed = parseAmount(amount);
+  const amountNum = parsed ? roundAmount(parsed, currency) : null;
+  if (!amountNum || !amountNum.gt(0)) {
+    console.error(`Amount validation failed: amount=${amount}`);
     throw new Error('Invalid withdraw amount');
   }
 
   // Convert crypto amount to USD equivalent for balance check
-  const { convert } = require('../utils/exchange');
-  let amountUsd;
+  let amountUsd: Amount;
 
   try {
-    amountUsd = await convert(amountNum, currency, "USD");
-    console.log(`Currency conversion: ${amountNum} ${currency} = ${amountUsd} USD`);
+    amountUsd = await convertAmount(amountNum, currency, "USD");
+    console.log(`Currency conversion: ${amountNum.toFixed()} ${currency} = ${amountUsd.toFixed()} USD`);
   } catch (error) {
     console.error('Currency conversion error:', error);
     throw new Error('Invalid currency conversion');
   }
 
-  if (!isFinite(amountUsd) || amountUsd <= 0) {
-    console.error(`Invalid conversion result: amountNum=${amountNum}, currency=${currency}, amountUsd=${amountUsd}`);
+  if (!amountUsd.gt(0)) {
+    console.error(`Invalid conversion result: amountNum=${amountNum.toFixed()}, currency=${currency}, amountUsd=${amountUsd.toFixed()}`);
     throw new Error('Invalid currency conversion');
   }
 
-  const fromBalance = await prisma.balance.findFirst({
-    where: { userId, currency: "USD" },
+  // Network and platform fees come out of the amount withdrawn
+  const fees = await quoteWithdrawFee(blockchain, currency, amountNum);
+  if (!fees.netAmount.gt(0)) {
+    throw new Error(`Amount does not cover the withdrawal fee of ${fees.totalFee.toFixed()} ${currency}`);
+  }
+
+  // Create the request and hold the USD in one transaction holding the balance lock;
+  // the hold is captured once the withdrawal is confirmed on chain
+  return withTransaction(async (client) => {
+    const balance = await lockBalance(client, userId, "USD");
+    if (!balance || balance.amount.lt(amountUsd)) {
+      throw new Error('Insufficient balance');
+    }
+
+    await checkWithdrawAddress(client, userId, blockchain, to);
+
+    // Amounts within the tier's auto-approve threshold are sent by the
+    // withdrawal worker straight away; the rest wait for an admin
+    const { autoApprove } = await checkWithdrawLimits(client, userId, currency, amountUsd);
+    const status = autoApprove ? 'approved' : 'requested';
+
+    const { rows } = await client.query(
+      `INSERT INTO "WithdrawRequests"
+       ("userId", currency, blockchain, "to", amount, "cryptoAmount", "networkFee", "platformFee", "netAmount", memo, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING ${WITHDRAW_COLUMNS}`,
+      [
+        userId, currency, blockchain, to, toDbAmount(amountUsd), toDbAmount(amountNum),
+        toDbAmount(fees.networkFee), toDbAmount(fees.platformFee), toDbAmount(fees.netAmount), memo || null, status,
+      ],
+    );
+    const request = toWithdrawRequest(rows[0]);
+
+    await placeHold(userId, amountUsd, "USD", {
+      type: 'withdrawal', id: request.id, description: `Withdraw request ${amountNum} ${currency} to ${to}`,
+    }, client);
+
+    return request;
   });
+}
+
+// Switching whitelist-only mode either way needs the withdrawal password
+export const setWithdrawalWhitelist = async (userId: number, enabled: boolean, withdrawalPassword?: string) => {
+
+  await verifyWithdrawalPassword(userId, withdrawalPassword);
+  await setWithdrawWhitelistOnly(userId, enabled);
+
+}
 
-  const currentAmount = fromBalance ? Number((fromBalance as any).amount) : NaN;
-  if (!fromBalance || !isFinite(currentAmount) || currentAmount < amountUsd) {
-    throw new Error('Insufficient balance');
+const TRANSFER_DAILY_LIMIT_USD = Number(process.env.TRANSFER_DAILY_LIMIT_USD) || 1000;
+const TRANSFER_DAILY_MAX_COUNT = Number(process.env.TRANSFER_DAILY_MAX_COUNT) || 20;
+
+// Recipients are addressed by user id, email or referral code
+const findTransferRecipient = async (recipient: string) => {
+
+  const value = String(recipient || '').trim();
+  if (!value) return null;
+
+  if (/^\d+$/.test(value)) {
+    return prisma.user.findUnique({ where: { id: parseInt(value) } });
+  }
+  if (value.includes('@')) {
+    return prisma.user.findFirst({ where: { email: value } });
   }
+  return prisma.user.findFirst({ where: { referralCode: value } });
 
-  // For large amounts (>$200 USD), create pending request
-  if (amountUsd > 200) {
+}
 
-    await prisma.withdrawRequest.create({
-      data: {
-        userId,
-        currency,
-        blockchain,
-        to,
-        amount: amountUsd,
-        status: "pending"
-      }
-    });
+// Move balance from one user to another without going on-chain. Both legs post
+// as one journal and are recorded as a transfer_out / transfer_in pair.
+export const transferBalance = async (
+  fromUserId: number,
+  recipient: string,
+  currency: string,
+  amount: AmountLike,
+  withdrawalPassword?: string,
+  note?: string,
+) => {
+
+  const sender = await verifyWithdrawalPassword(fromUserId, withdrawalPassword);
+  if (sender.status !== 'active') {
+    throw new Error('Your account is not allowed to send transfers');
+  }
 
-    await minusBalance(userId, amountUsd, "USD");
+  const receiver = await findTransferRecipient(recipient);
+  if (!receiver) {
+    throw new Error('Recipient not found');
+  }
+  if (receiver.id === sender.id) {
+    throw new Error('Cannot transfer to yourself');
+  }
+  if (receiver.status !== 'active') {
+    throw new Error('Recipient account is not active');
+  }
 
-  } else {
-    // For small amounts, process immediately
-    if (blockchain == "Tron") {
-      const { withdrawTrx, withdrawTokenTron } = require("../blockchain/tron");
-      if (currency == "TRX") {
-        await withdrawTrx(userId, to, amountNum);
-      } else if (currency == "USDT") {
-        await withdrawTokenTron(userId, to, amountNum);
-      }
-    } else if (blockchain == "Ethereum") {
-      const { withdrawERC20, withdrawEth } = require("../blockchain/ether");
-      if (currency == "ETH") {
-        await withdrawEth(userId, to, amountNum);
-      } else if (currency == "USDT") {
-        await withdrawERC20(userId, to, amountNum);
-      }
-    } else if (blockchain == "Solana") {
-      const { withdrawSol, withdrawUsdc, canWithdrawSol, canWithdrawUsdc } = require("../blockchain/solana");
-
-      // Check if withdrawal is possible before processing
-      if (currency == "SOL") {
-        const canWithdraw = await canWithdrawSol(amountNum);
-        if (!canWithdraw.canWithdraw) {
-          throw new Error(canWithdraw.reason || 'Cannot withdraw SOL at this time');
-        }
-        await withdrawSol(userId, to, amountNum);
-      } else if (currency == "USDC") {
-        const canWithdraw = await canWithdrawUsdc(amountNum);
-        if (!canWithdraw.canWithdraw) {
-          throw new Error(canWithdraw.reason || 'Cannot withdraw USDC at this time');
-        }
-        await withdrawUsdc(userId, to, amountNum);
-      }
+  const parsed = parseAmount(amount);
+  const amountNum = parsed ? roundAmount(parsed, currency) : null;
+  if (!amountNum || !amountNum.gt(0)) {
+    throw new Error('Invalid transfer amount');
+  }
+
+  const { usdValue: amountUsd, usdRate, rateSource } = await valueInUsd(amountNum, currency);
+  const transferId = randomUUID();
+  const description = note ? `Transfer ${transferId}: ${note}` : `Transfer ${transferId}`;
+
+  await withTransaction(async (client) => {
+    // The daily limits span every currency, so concurrent transfers from the
+    // sender are serialized on the user row before today's transfers are summed
+    await client.query('SELECT id FROM "Users" WHERE id = $1 FOR UPDATE', [sender.id]);
+
+    // Lock both balances in the journal's order
+    const lockOrder = [sender.id, receiver.id]
+      .sort((a, b) => `${a}:${currency}`.localeCompare(`${b}:${currency}`));
+    for (const userId of lockOrder) {
+      await lockBalance(client, userId, currency);
     }
 
-    await minusBalance(userId, amountUsd, "USD");
-  }
+    const since = new Date();
+    since.setUTCHours(0, 0, 0, 0);
+    // Earlier transfers count at the USD value stored when they were sent, which
+    // every transfer has since it is priced before it moves; no price is fetched
+    // here while the rows are locked
+    const { rows: [sent] } = await client.query(
+      `SELECT COALESCE(SUM(-"usdValue"), 0)::text AS "usdValue", COUNT(*)::int AS count
+       FROM "Transactions"
+       WHERE "userId" = $1 AND type = 'transfer_out' AND "createdAt" >= $2`,
+      [sender.id, since],
+    );
+
+    const sentUsd = amountUsd.plus(sent.usdValue);
+    const sentCount = sent.count + 1;
+    if (sentCount > TRANSFER_DAILY_MAX_COUNT) {
+      throw new Error(`Daily transfer limit of ${TRANSFER_DAILY_MAX_COUNT} transfers reached`);
+    }
+    if (sentUsd.gt(TRANSFER_DAILY_LIMIT_USD)) {
+      throw new Error(`Daily transfer limit of ${TRANSFER_DAILY_LIMIT_USD} USD exceeded`);
+    }
+
+    await postJournal({ type: 'transfer', id: transferId, description }, [
+      { account: userAccountCode(sender.id, currency), currency, debit: amountNum },
+      { account: userAccountCode(receiver.id, currency), currency, credit: amountNum },
+    ], client);
+
+    const valuation = { usdRate, rateSource };
+    await insertTransactions(client, [
+      {
+        userId: sender.id, address: `user:${receiver.id}`, currency, amount: amountNum.negated(),
+        txId: transferId, type: 'transfer_out', valuation,
+      },
+      {
+        userId: receiver.id, address: `user:${sender.id}`, currency, amount: amountNum,
+        txId: transferId, type: 'transfer_in', valuation,
+      },
+    ]);
+  });
+
+  return {
+    transferId,
+    recipient: { id: receiver.id, name: receiver.name || null },
+    currency,
+    amount: amountNum.toFixed(),
+  };
 
 }
@@ -0,0 +1,207 @@
+// Per-user book of saved withdrawal addresses.
+//
+// A new entry is confirmed with a code emailed to the account owner, then
+// becomes usable WITHDRAW_ADDRESS_COOLDOWN_HOURS after confirmation, so
+// someone who takes over a session cannot add an address and withdraw to it
+// straight away. Users in whitelist-only mode can withdraw only to usable
+// entries of the book.
+//
+// A code is void after MAX_CODE_ATTEMPTS wrong guesses, and a new one is issued
+// at most every CODE_RESEND_SECONDS.
+import { createHash, randomInt } from 'crypto';
+import { PoolClient } from 'pg';
+import { query, withTransaction } from './pool';
+import { NATIVE_CURRENCIES } from './tokens';
+import { assertValidAddress, isEvmChain } from '../utils/addressValidation';
+
+export type WithdrawAddressStatus = 'pending_confirmation' | 'cooling_down' | 'active';
+
+export interface WithdrawAddress {
+  id: number;
+  userId: number;
+  blockchain: string;
+  address: string;
+  label: string | null;
+  memo: string | null;
+  status: WithdrawAddressStatus;
+  confirmedAt: Date | null;
+  usableAt: Date | null;
+  createdAt: Date;
+}
+
+export type WithdrawAddressInput = {
+  blockchain: string;
+  address: string;
+  label?: string;
+  memo?: string;
+};
+
+const COOLDOWN_HOURS = Number(process.env.WITHDRAW_ADDRESS_COOLDOWN_HOURS) || 24;
+const CODE_TTL_MINUTES = 15;
+const MAX_CODE_ATTEMPTS = 5;
+const CODE_RESEND_SECONDS = 60;
+
+const COLUMNS = `id, "userId" AS "userId", blockchain, address, label, memo, "confirmedAt" AS "confirmedAt",
+  "usableAt" AS "usableAt", "createdAt" AS "createdAt"`;
+
+const statusOf = (row: any): WithdrawAddressStatus => {
+  if (!row.confirmedAt) return 'pending_confirmation';
+  return new Date(row.usableAt) > new Date() ? 'cooling_down' : 'active';
+};
+
+const toWithdrawAddress = (row: any): WithdrawAddress => ({ ...row, status: statusOf(row) });
+
+const hashCode = (code: string) => createHash('sha256').update(code).digest('hex');
+
+// EVM addresses are case-insensitive, Tron and Solana ones are not
+const sameAddress = (blockchain: string) =>
+  (isEvmChain(blockchain) ? 'lower(address) = lower($3)' : 'address = $3');
+
+export const listWithdrawAddresses = async (userId: number) => {
+  const { rows } = await query(
+    `SELECT ${COLUMNS} FROM "WithdrawAddresses" WHERE "userId" = $1 ORDER BY id`,
+    [userId],
+  );
+  return rows.map(toWithdrawAddress);
+};
+
+// Save an address and issue its confirmation code. Adding an address that is
+// still unconfirmed issues a new code, once the last one is CODE_RESEND_SECONDS
+// old; a confirmed one cannot be added twice.
+export const addWithdrawAddress = async (userId: number, input: WithdrawAddressInput) => {
+  const blockchain = String(input.blockchain || '');
+  if (!NATIVE_CURRENCIES[blockchain]) {
+    throw new Error(`Unsupported blockchain ${blockchain}`);
+  }
+  const label = input.label ? String(input.label).slice(0, 100) : null;
+  const memo = input.memo ? String(input.memo) : null;
+  const address = assertValidAddress(blockchain, input.address, memo || undefined);
+
+  const { rows: existing } = await query(
+    `SELECT ${COLUMNS}, "codeSentAt" > now() - make_interval(secs => $4) AS "recentlySent"
+     FROM "WithdrawAddresses" WHERE "userId" = $1 AND blockchain = $2 AND ${sameAddress(blockchain)}`,
+    [userId, blockchain, address, CODE_RESEND_SECONDS],
+  );
+  if (existing[0] && existing[0].confirmedAt) {
+    throw new Error('Address is already in your address book');
+  }
+  if (existing[0] && existing[0].recentlySent) {
+    throw new Error(`A code was sent less than ${CODE_RESEND_SECONDS} seconds ago; wait before requesting another`);
+  }
+
+  const code = randomInt(100000, 999999).toString();
+  const values = [userId, blockchain, address, label, memo, hashCode(code), CODE_TTL_MINUTES];
+  const { rows } = existing[0]
+    ? await query(
+      `UPDATE "WithdrawAddresses"
+       SET label = $4, memo = $5, "codeHash" = $6, "codeExpiresAt" = now() + make_interval(mins => $7),
+         "codeSentAt" = now(), "codeAttempts" = 0
+       WHERE id = $8
+       RETURNING ${COLUMNS}`,
+      [...values, existing[0].id],
+    )
+    : await query(
+      `INSERT INTO "WithdrawAddresses"
+       ("userId", blockchain, address, label, memo, "codeHash", "codeExpiresAt", "codeSentAt")
+       VALUES ($1, $2, $3, $4, $5, $6, now() + make_interval(mins => $7), now())
+       RETURNING ${COLUMNS}`,
+      values,
+    );
+
+  const { rows: users } = await query('SELECT email FROM "Users" WHERE id = $1', [userId]);
+  return { address: toWithdrawAddress(rows[0]), email: users[0]?.email as string, code };
+};
+
+// Confirm an entry with its emailed code; it becomes usable after the cooldown.
+// The row is locked so parallel guesses are counted one at a time; the code is
+// cleared on the last allowed miss.
+export const confirmWithdrawAddress = async (userId: number, id: number, code: string) => {
+  const rows = await withTransaction(async (client) => {
+    const { rows: entries } = await client.query(
+      `SELECT "codeHash" AS "codeHash", "codeAttempts" AS "codeAttempts", "codeExpiresAt" > now() AS live
+       FROM "WithdrawAddresses"
+       WHERE id = $1 AND "userId" = $2 AND "confirmedAt" IS NULL
+       FOR UPDATE`,
+      [id, userId],
+    );
+    const entry = entries[0];
+    if (!entry || !entry.codeHash || !entry.live) return [];
+
+    if (entry.codeHash !== hashCode(String(code || ''))) {
+      await client.query(
+        `UPDATE "WithdrawAddresses"
+         SET "codeAttempts" = "codeAttempts" + 1,
+           "codeHash" = CASE WHEN "codeAttempts" + 1 >= $2 THEN NULL ELSE "codeHash" END
+         WHERE id = $1`,
+        [id, MAX_CODE_ATTEMPTS],
+      );
+      return [];
+    }
+
+    const { rows: confirmed } = await client.query(
+      `UPDATE "WithdrawAddresses"
+       SET "confirmedAt" = now(), "usableAt" = now() + make_interval(hours => $2),
+         "codeHash" = NULL, "codeExpiresAt" = NULL, "codeAttempts" = 0
+       WHERE id = $1
+       RETURNING ${COLUMNS}`,
+      [id, COOLDOWN_HOURS],
+    );
+    return confirmed;
+  });
+  if (!rows[0]) throw new Error('Invalid or expired code');
+  return toWithdrawAddress(rows[0]);
+};
+
+// The user's book entry for an address, if any
+export const findWithdrawAddress = async (userId: number, blockchain: string, address: string) => {
+  const { rows } = await query(
+    `SELECT ${COLUMNS} FROM "WithdrawAddresses" WHERE "userId" = $1 AND blockchain = $2 AND ${sameAddress(blockchain)}`,
+    [userId, blockchain, String(address || '').trim()],
+  );
+  return rows[0] ? toWithdrawAddress(rows[0]) : null;
+};
+
+export const deleteWithdrawAddress = async (userId: number, id: number) => {
+  const { rows } = await query(
+    'DELETE FROM "WithdrawAddresses" WHERE id = $1 AND "userId" = $2 RETURNING id',
+    [id, userId],
+  );
+  return rows.length > 0;
+};
+
+export const isWithdrawWhitelistOnly = async (userId: number) => {
+  const { rows } = await query(
+    'SELECT "withdrawWhitelistOnly" AS "withdrawWhitelistOnly" FROM "Users" WHERE id = $1',
+    [userId],
+  );
+  return Boolean(rows[0] && rows[0].withdrawWhitelistOnly);
+};
+
+export const setWithdrawWhitelistOnly = async (userId: number, enabled: boolean) => {
+  await query('UPDATE "Users" SET "withdrawWhitelistOnly" = $2 WHERE id = $1', [userId, enabled]);
+};
+
+// Refuse a withdrawal to an address outside the book when the user is in
+// whitelist-only mode
+export const checkWithdrawAddress = async (client: PoolClient, userId: number, blockchain: string, to: string) => {
+  const { rows: users } = await client.query(
+    'SELECT "withdrawWhitelistOnly" AS "withdrawWhitelistOnly" FROM "Users" WHERE id = $1',
+    [userId],
+  );
+  if (!users[0] || !users[0].withdrawWhitelistOnly) return;
+
+  const { rows } = await client.query(
+    `SELECT ${COLUMNS} FROM "WithdrawAddresses" WHERE "userId" = $1 AND blockchain = $2 AND ${sameAddress(blockchain)}`,
+    [userId, blockchain, to],
+  );
+  const entry = rows[0] ? toWithdrawAddress(rows[0]) : null;
+  if (!entry) {
+    throw new Error('Withdrawals are limited to your address book; add and confirm this address first');
+  }
+  if (entry.status === 'pending_confirmation') {
+    throw new Error('This address has not been confirmed yet');
+  }
+  if (entry.status === 'cooling_down') {
+    throw new Error(`This address can be used from ${new Date(entry.usableAt).toISOString()}`);
+  }
+};
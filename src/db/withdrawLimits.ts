@@ -0,0 +1,265 @@
+// Withdrawal limits per user tier, set by admins.
+//
+// A tier has an overall row (currency '*') covering all its withdrawals and
+// optional per-currency rows covering only that currency; a withdrawal must
+// fit every row that applies. All amounts are in USD. Periods are calendar
+// day, week (from Monday) and month in UTC. Usage counts withdraw requests
+// that were not rejected or refunded, plus withdraw Transactions made before
+// requests existed. Withdrawals up to the auto-approve threshold skip manual
+// review; without one the request always waits for an admin.
+import { PoolClient } from 'pg';
+import { query } from './pool';
+import { Amount, parseAmount, toAmount, toDbAmount } from '../utils/money';
+
+export const DEFAULT_TIER = 'standard';
+export const ALL_CURRENCIES = '*';
+
+export interface WithdrawLimitConfig {
+  tier: string;
+  currency: string;
+  perTxUsd: Amount | null;
+  dailyUsd: Amount | null;
+  weeklyUsd: Amount | null;
+  monthlyUsd: Amount | null;
+  dailyCount: number | null;
+  autoApproveUsd: Amount | null;
+}
+
+export type WithdrawLimitConfigInput = {
+  tier: string;
+  currency?: string;
+  perTxUsd?: string | number | null;
+  dailyUsd?: string | number | null;
+  weeklyUsd?: string | number | null;
+  monthlyUsd?: string | number | null;
+  dailyCount?: number | null;
+  autoApproveUsd?: string | number | null;
+};
+
+export interface WithdrawUsage {
+  dailyUsd: Amount;
+  weeklyUsd: Amount;
+  monthlyUsd: Amount;
+  dailyCount: number;
+}
+
+const AUTO_APPROVE_USD = Number(process.env.WITHDRAW_AUTO_APPROVE_USD) || 200;
+
+const COLUMNS = `tier, currency, "perTxUsd"::text AS "perTxUsd", "dailyUsd"::text AS "dailyUsd",
+  "weeklyUsd"::text AS "weeklyUsd", "monthlyUsd"::text AS "monthlyUsd", "dailyCount" AS "dailyCount",
+  "autoApproveUsd"::text AS "autoApproveUsd"`;
+
+const optional = (value: any) => (value != null ? toAmount(value) : null);
+
+const toConfig = (row: any): WithdrawLimitConfig => ({
+  tier: row.tier,
+  currency: row.currency,
+  perTxUsd: optional(row.perTxUsd),
+  dailyUsd: optional(row.dailyUsd),
+  weeklyUsd: optional(row.weeklyUsd),
+  monthlyUsd: optional(row.monthlyUsd),
+  dailyCount: row.dailyCount != null ? Number(row.dailyCount) : null,
+  autoApproveUsd: optional(row.autoApproveUsd),
+});
+
+// Tiers without an overall row: no caps, auto-approve up to WITHDRAW_AUTO_APPROVE_USD
+const defaultConfig = (tier: string): WithdrawLimitConfig => ({
+  tier,
+  currency: ALL_CURRENCIES,
+  perTxUsd: null,
+  dailyUsd: null,
+  weeklyUsd: null,
+  monthlyUsd: null,
+  dailyCount: null,
+  autoApproveUsd: toAmount(AUTO_APPROVE_USD),
+});
+
+const run = (client: PoolClient | undefined, sql: string, params: any[]) =>
+  (client ? client.query(sql, params) : query(sql, params));
+
+export const getUserTier = async (userId: number, client?: PoolClient) => {
+  const { rows } = await run(client, 'SELECT tier FROM "Users" WHERE id = $1', [userId]);
+  return (rows[0] && rows[0].tier) || DEFAULT_TIER;
+};
+
+// The rows that apply to a withdrawal in currency, overall first
+export const getWithdrawLimitConfigs = async (tier: string, currency: string, client?: PoolClient) => {
+  const { rows } = await run(
+    client,
+    `SELECT ${COLUMNS} FROM "WithdrawLimits" WHERE tier = $1 AND currency IN ($2, $3)`,
+    [tier, ALL_CURRENCIES, currency.toUpperCase()],
+  );
+  const configs = rows.map(toConfig);
+  const overall = configs.find((c) => c.currency === ALL_CURRENCIES) || defaultConfig(tier);
+  const specific = configs.find((c) => c.currency !== ALL_CURRENCIES);
+  return specific ? [overall, specific] : [overall];
+};
+
+export const listWithdrawLimitConfigs = async () => {
+  const { rows } = await query(`SELECT ${COLUMNS} FROM "WithdrawLimits" ORDER BY tier, currency`);
+  return rows.map(toConfig);
+};
+
+const optionalAmount = (value: any, field: string) => {
+  if (value == null || value === '') return null;
+  const amount = parseAmount(value);
+  if (!amount || amount.isNegative()) {
+    throw new Error(`Invalid ${field}`);
+  }
+  return amount;
+};
+
+export const upsertWithdrawLimitConfig = async (input: WithdrawLimitConfigInput) => {
+  const tier = String(input.tier || '').trim().toLowerCase();
+  const currency = String(input.currency || ALL_CURRENCIES).toUpperCase();
+  if (!tier) {
+    throw new Error('tier is required');
+  }
+
+  const amounts = ['perTxUsd', 'dailyUsd', 'weeklyUsd', 'monthlyUsd', 'autoApproveUsd']
+    .map((field) => optionalAmount(input[field], field));
+  const dailyCount = input.dailyCount == null || String(input.dailyCount) === '' ? null : Number(input.dailyCount);
+  if (dailyCount !== null && (!Number.isInteger(dailyCount) || dailyCount < 0)) {
+    throw new Error('dailyCount must be a non-negative integer');
+  }
+
+  const { rows } = await query(
+    `INSERT INTO "WithdrawLimits"
+     (tier, currency, "perTxUsd", "dailyUsd", "weeklyUsd", "monthlyUsd", "autoApproveUsd", "dailyCount")
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (tier, currency) DO UPDATE SET
+       "perTxUsd" = EXCLUDED."perTxUsd",
+       "dailyUsd" = EXCLUDED."dailyUsd",
+       "weeklyUsd" = EXCLUDED."weeklyUsd",
+       "monthlyUsd" = EXCLUDED."monthlyUsd",
+       "autoApproveUsd" = EXCLUDED."autoApproveUsd",
+       "dailyCount" = EXCLUDED."dailyCount",
+       "updatedAt" = now()
+     RETURNING ${COLUMNS}`,
+    [tier, currency, ...amounts.map((a) => (a ? toDbAmount(a) : null)), dailyCount],
+  );
+  return toConfig(rows[0]);
+};
+
+export const deleteWithdrawLimitConfig = async (tier: string, currency: string) => {
+  const { rows } = await query(
+    'DELETE FROM "WithdrawLimits" WHERE tier = $1 AND currency = $2 RETURNING id',
+    [tier.toLowerCase(), currency.toUpperCase()],
+  );
+  return rows.length > 0;
+};
+
+const periodStarts = (now = new Date()) => {
+  const day = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const week = new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * 24 * 60 * 60 * 1000);
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return { day, week, month, since: week < month ? week : month };
+};
+
+// USD withdrawn by the user in the current periods, in currency or overall when
+// currency is '*'
+export const getWithdrawUsage = async (userId: number, currency: string, client?: PoolClient): Promise<WithdrawUsage> => {
+  const { day, week, month, since } = periodStarts();
+  const { rows } = await run(
+    client,
+    `SELECT
+       COALESCE(SUM(amount) FILTER (WHERE "createdAt" >= $3), 0)::text AS "dailyUsd",
+       COALESCE(SUM(amount) FILTER (WHERE "createdAt" >= $4), 0)::text AS "weeklyUsd",
+       COALESCE(SUM(amount) FILTER (WHERE "createdAt" >= $5), 0)::text AS "monthlyUsd",
+       COUNT(*) FILTER (WHERE "createdAt" >= $3)::int AS "dailyCount"
+     FROM (
+       SELECT amount, "createdAt" FROM "WithdrawRequests"
+       WHERE "userId" = $1 AND status NOT IN ('rejected', 'refunded') AND "createdAt" >= $6
+         AND ($2 = '*' OR currency = $2)
+       UNION ALL
+       SELECT ABS(COALESCE(t."usdValue", 0)), t."createdAt" FROM "Transactions" t
+       WHERE t."userId" = $1 AND t.type = 'withdraw' AND t."createdAt" >= $6
+         AND ($2 = '*' OR t.currency = $2)
+         AND NOT EXISTS (SELECT 1 FROM "WithdrawRequests" w WHERE w."txHash" = t."txId")
+     ) withdrawals`,
+    [userId, currency.toUpperCase(), day, week, month, since],
+  );
+  return {
+    dailyUsd: toAmount(rows[0].dailyUsd),
+    weeklyUsd: toAmount(rows[0].weeklyUsd),
+    monthlyUsd: toAmount(rows[0].monthlyUsd),
+    dailyCount: Number(rows[0].dailyCount) || 0,
+  };
+};
+
+const remaining = (limit: Amount | null, used: Amount) =>
+  (limit ? (limit.gt(used) ? limit.minus(used) : toAmount(0)) : null);
+
+// Check a withdrawal of amountUsd in currency against the user's limits and
+// decide whether it can skip review. Run inside the transaction that creates
+// the request, holding the user's USD balance lock so concurrent requests see
+// each other.
+export const checkWithdrawLimits = async (client: PoolClient, userId: number, currency: string, amountUsd: Amount) => {
+  const tier = await getUserTier(userId, client);
+  const configs = await getWithdrawLimitConfigs(tier, currency, client);
+
+  for (const config of configs) {
+    const scope = config.currency === ALL_CURRENCIES ? '' : ` for ${config.currency}`;
+    if (config.perTxUsd && amountUsd.gt(config.perTxUsd)) {
+      throw new Error(`Maximum withdrawal${scope} is ${config.perTxUsd.toFixed()} USD`);
+    }
+
+    const usage = await getWithdrawUsage(userId, config.currency, client);
+    if (config.dailyCount != null && usage.dailyCount + 1 > config.dailyCount) {
+      throw new Error(`Daily limit of ${config.dailyCount} withdrawals${scope} reached`);
+    }
+    const periods: [string, Amount | null, Amount][] = [
+      ['Daily', config.dailyUsd, usage.dailyUsd],
+      ['Weekly', config.weeklyUsd, usage.weeklyUsd],
+      ['Monthly', config.monthlyUsd, usage.monthlyUsd],
+    ];
+    for (const [label, limit, used] of periods) {
+      if (limit && used.plus(amountUsd).gt(limit)) {
+        throw new Error(`${label} withdrawal limit${scope} of ${limit.toFixed()} USD exceeded, ${remaining(limit, used).toFixed()} USD left`);
+      }
+    }
+  }
+
+  // The most specific threshold wins
+  const threshold = configs[configs.length - 1].autoApproveUsd ?? configs[0].autoApproveUsd;
+  return { tier, autoApprove: !!threshold && amountUsd.lte(threshold) };
+};
+
+// Limits, usage and what is left for each row that applies to the user
+export const getWithdrawLimits = async (userId: number, currency = ALL_CURRENCIES) => {
+  const tier = await getUserTier(userId);
+  const configs = currency === ALL_CURRENCIES
+    ? [(await getWithdrawLimitConfigs(tier, ALL_CURRENCIES))[0]]
+    : await getWithdrawLimitConfigs(tier, currency);
+
+  const limits = [];
+  for (const config of configs) {
+    const usage = await getWithdrawUsage(userId, config.currency);
+    limits.push({
+      currency: config.currency,
+      perTxUsd: config.perTxUsd?.toFixed() ?? null,
+      autoApproveUsd: config.autoApproveUsd?.toFixed() ?? null,
+      daily: {
+        limitUsd: config.dailyUsd?.toFixed() ?? null,
+        usedUsd: usage.dailyUsd.toFixed(),
+        remainingUsd: remaining(config.dailyUsd, usage.dailyUsd)?.toFixed() ?? null,
+      },
+      weekly: {
+        limitUsd: config.weeklyUsd?.toFixed() ?? null,
+        usedUsd: usage.weeklyUsd.toFixed(),
+        remainingUsd: remaining(config.weeklyUsd, usage.weeklyUsd)?.toFixed() ?? null,
+      },
+      monthly: {
+        limitUsd: config.monthlyUsd?.toFixed() ?? null,
+        usedUsd: usage.monthlyUsd.toFixed(),
+        remainingUsd: remaining(config.monthlyUsd, usage.monthlyUsd)?.toFixed() ?? null,
+      },
+      count: {
+        limit: config.dailyCount,
+        used: usage.dailyCount,
+        remaining: config.dailyCount != null ? Math.max(config.dailyCount - usage.dailyCount, 0) : null,
+      },
+    });
+  }
+  return { tier, limits };
+};
@@ -0,0 +1,223 @@
+// Withdrawal lifecycle:
+//
+//   requested -> under_review -> approved -> broadcasting -> broadcast -> confirmed
+//
+// A request can be rejected until it starts broadcasting. A send that fails
+// before its transaction was signed ends in failed, from where it is retried
+// (back to approved) or refunded. The hash of a signed transaction is stored
+// while broadcasting, before it is sent, so a request that may be on chain is
+// always followed by its hash and never sent twice.
+//
+// The USD amount is held when the request is created. Confirming captures the
+// hold; rejecting and refunding release it. Every move goes through
+// transitionWithdrawal, which locks the row and refuses moves not listed in
+// WITHDRAW_TRANSITIONS, so concurrent workers and admins cannot both act on it.
+import { PoolClient } from 'pg';
+import { query, withTransaction } from './pool';
+import { captureHold, releaseHold } from './holds';
+import { creditUser } from './ledger';
+import { Amount, AmountLike, toAmount, toDbAmount } from '../utils/money';
+
+export type WithdrawStatus =
+  | 'requested'
+  | 'under_review'
+  | 'approved'
+  | 'broadcasting'
+  | 'broadcast'
+  | 'confirmed'
+  | 'failed'
+  | 'rejected'
+  | 'refunded';
+
+export const WITHDRAW_TRANSITIONS: Record<WithdrawStatus, WithdrawStatus[]> = {
+  requested: ['under_review', 'approved', 'rejected'],
+  under_review: ['approved', 'rejected'],
+  approved: ['broadcasting', 'rejected'],
+  broadcasting: ['broadcast', 'failed'],
+  broadcast: ['confirmed', 'failed'],
+  confirmed: [],
+  failed: ['approved', 'refunded'],
+  rejected: [],
+  refunded: [],
+};
+
+export const WITHDRAW_STATUSES = Object.keys(WITHDRAW_TRANSITIONS) as WithdrawStatus[];
+
+export interface WithdrawRequestRecord {
+  id: number;
+  userId: number;
+  to: string;
+  currency: string;
+  blockchain: string;
+  status: WithdrawStatus;
+  // Held from the user's balance, in USD
+  amount: Amount;
+  // Withdrawn in currency, before fees; null for requests created before it was stored
+  cryptoAmount: Amount | null;
+  // Fees quoted at request time, in currency, and what the recipient gets
+  networkFee: Amount | null;
+  platformFee: Amount | null;
+  netAmount: Amount | null;
+  // Sent along with the transfer on chains that carry one
+  memo: string | null;
+  txHash: string | null;
+  fee: Amount | null;
+  feeCurrency: string | null;
+  confirmations: number;
+  failureReason: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  broadcastAt: Date | null;
+  confirmedAt: Date | null;
+}
+
+export interface WithdrawChanges {
+  txHash?: string | null;
+  fee?: AmountLike;
+  feeCurrency?: string;
+  confirmations?: number;
+  failureReason?: string | null;
+}
+
+export const WITHDRAW_COLUMNS = `id, "userId" AS "userId", "to", currency, blockchain, status,
+  amount::text AS amount, "cryptoAmount"::text AS "cryptoAmount", "networkFee"::text AS "networkFee",
+  "platformFee"::text AS "platformFee", "netAmount"::text AS "netAmount", memo, "txHash" AS "txHash",
+  fee::text AS fee, "feeCurrency" AS "feeCurrency", confirmations, "failureReason" AS "failureReason",
+  "createdAt" AS "createdAt", "updatedAt" AS "updatedAt", "broadcastAt" AS "broadcastAt",
+  "confirmedAt" AS "confirmedAt"`;
+
+export const toWithdrawRequest = (row: any): WithdrawRequestRecord => ({
+  ...row,
+  amount: toAmount(row.amount),
+  cryptoAmount: row.cryptoAmount != null ? toAmount(row.cryptoAmount) : null,
+  networkFee: row.networkFee != null ? toAmount(row.networkFee) : null,
+  platformFee: row.platformFee != null ? toAmount(row.platformFee) : null,
+  netAmount: row.netAmount != null ? toAmount(row.netAmount) : null,
+  fee: row.fee != null ? toAmount(row.fee) : null,
+  confirmations: Number(row.confirmations) || 0,
+});
+
+const inTransaction = <T>(client: PoolClient | undefined, fn: (tx: PoolClient) => Promise<T>) =>
+  (client ? fn(client) : withTransaction(fn));
+
+export const lockWithdrawal = async (tx: PoolClient, id: number) => {
+  const { rows } = await tx.query(
+    `SELECT ${WITHDRAW_COLUMNS} FROM "WithdrawRequests" WHERE id = $1 FOR UPDATE`,
+    [id],
+  );
+  if (!rows[0]) throw new Error('Withdrawal not found');
+  return toWithdrawRequest(rows[0]);
+};
+
+export const canTransition = (from: WithdrawStatus, to: WithdrawStatus) =>
+  (WITHDRAW_TRANSITIONS[from] || []).includes(to);
+
+// Move a withdrawal to a new status, storing on-chain details alongside.
+// onTransition runs in the same transaction with the row still locked.
+export const transitionWithdrawal = async (
+  id: number,
+  to: WithdrawStatus,
+  changes: WithdrawChanges = {},
+  client?: PoolClient,
+  onTransition?: (withdrawal: WithdrawRequestRecord, tx: PoolClient) => Promise<void>,
+) => inTransaction(client, async (tx) => {
+  const current = await lockWithdrawal(tx, id);
+  if (!canTransition(current.status, to)) {
+    throw new Error(`Cannot move withdrawal #${id} from ${current.status} to ${to}`);
+  }
+
+  const sets = ['status = $2', '"updatedAt" = now()'];
+  const values: any[] = [id, to];
+  const set = (column: string, value: any) => {
+    values.push(value);
+    sets.push(`${column} = $${values.length}`);
+  };
+  if (changes.txHash !== undefined) set('"txHash"', changes.txHash);
+  if (changes.fee !== undefined) set('fee', toDbAmount(changes.fee));
+  if (changes.feeCurrency !== undefined) set('"feeCurrency"', changes.feeCurrency);
+  if (changes.confirmations !== undefined) set('confirmations', changes.confirmations);
+  if (changes.failureReason !== undefined) set('"failureReason"', changes.failureReason);
+  if (to === 'broadcast') sets.push('"broadcastAt" = now()');
+  if (to === 'confirmed') sets.push('"confirmedAt" = now()');
+
+  const { rows } = await tx.query(
+    `UPDATE "WithdrawRequests" SET ${sets.join(', ')} WHERE id = $1 RETURNING ${WITHDRAW_COLUMNS}`,
+    values,
+  );
+  const updated = toWithdrawRequest(rows[0]);
+  if (onTransition) await onTransition(updated, tx);
+  return updated;
+});
+
+// Store the hash of the signed transaction before it is sent. Refuses when the
+// request is no longer broadcasting or already has a transaction, so a request
+// moved on by the stale broadcast sweep or an admin is not sent after all.
+export const recordWithdrawalTxHash = async (id: number, txHash: string) => {
+  const { rows } = await query(
+    `UPDATE "WithdrawRequests" SET "txHash" = $2, "updatedAt" = now()
+     WHERE id = $1 AND status = 'broadcasting' AND "txHash" IS NULL
+     RETURNING id`,
+    [id, txHash],
+  );
+  if (!rows[0]) throw new Error(`Withdrawal #${id} is no longer waiting to be sent`);
+};
+
+// Store the latest confirmation count without changing status
+export const updateWithdrawalConfirmations = async (id: number, confirmations: number) => {
+  await query(
+    'UPDATE "WithdrawRequests" SET confirmations = $2, "updatedAt" = now() WHERE id = $1',
+    [id, confirmations],
+  );
+};
+
+const activeHoldId = async (tx: PoolClient, withdrawalId: number) => {
+  const { rows } = await tx.query(
+    'SELECT id FROM "FundHolds" WHERE "refType" = $1 AND "refId" = $2 AND status = $3',
+    ['withdrawal', String(withdrawalId), 'held'],
+  );
+  return rows[0] ? rows[0].id as number : null;
+};
+
+// Give the held amount back. Requests placed before holds existed were debited
+// up front, so they are credited back instead.
+const returnFunds = async (withdrawal: WithdrawRequestRecord, tx: PoolClient, description: string) => {
+  const holdId = await activeHoldId(tx, withdrawal.id);
+  if (holdId) {
+    await releaseHold(holdId, tx);
+  } else {
+    await creditUser(withdrawal.userId, withdrawal.amount, 'USD', {
+      type: 'withdrawal', id: withdrawal.id, description,
+    }, tx);
+  }
+};
+
+export const reviewWithdrawal = (id: number) => transitionWithdrawal(id, 'under_review');
+
+export const approveWithdrawal = (id: number) => transitionWithdrawal(id, 'approved', { failureReason: null });
+
+export const rejectWithdrawal = (id: number, reason: string, client?: PoolClient) =>
+  transitionWithdrawal(id, 'rejected', { failureReason: reason }, client, (w, tx) =>
+    returnFunds(w, tx, `Rejected withdraw request #${w.id}`));
+
+// Send a failed withdrawal again; its hold is still in place
+export const retryWithdrawal = (id: number) =>
+  transitionWithdrawal(id, 'approved', { txHash: null, confirmations: 0, failureReason: null });
+
+// Resolve a request stuck in broadcasting: with the hash of what was sent, so
+// confirmations are followed, or as failed once nothing is on chain
+export const markWithdrawalBroadcast = (id: number, txHash: string) =>
+  transitionWithdrawal(id, 'broadcast', { txHash });
+
+export const markWithdrawalFailed = (id: number, reason: string) =>
+  transitionWithdrawal(id, 'failed', { failureReason: reason });
+
+export const refundWithdrawal = (id: number, client?: PoolClient) =>
+  transitionWithdrawal(id, 'refunded', {}, client, (w, tx) =>
+    returnFunds(w, tx, `Refund failed withdraw request #${w.id}`));
+
+// The withdrawal reached enough confirmations: spend the held amount
+export const confirmWithdrawal = (id: number, changes: WithdrawChanges) =>
+  transitionWithdrawal(id, 'confirmed', changes, undefined, async (w, tx) => {
+    const holdId = await activeHoldId(tx, w.id);
+    if (holdId) await captureHold(holdId, undefined, tx);
+  });
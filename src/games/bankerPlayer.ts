@@ -1,6 +1,9 @@
 import * as tr from 'tronweb';
-import { minusBalance } from '../db/wallets';
+import { randomUUID } from 'crypto';
+import { placeHold, releaseHold } from '../db/holds';
+import { settleBetStake } from './betStakes';
 import prisma from "../db/prisma";
+import { fromUnits, toAmount, toDbAmount, toUnits } from '../utils/money';
 
 // ============ CONFIG ============
 const NODE = process.env.TRON_FULLNODE || "https://nile.trongrid.io";
@@ -33,18 +36,19 @@ function playBankerPlayerTie(betAmount: bigint, blockHash: string) {
     else if (playerVal > bankerVal) result = "player";
     else result = "tie";
 
-    let payout = 0;
+    const bet = toAmount(betAmount.toString());
+    let payout = toAmount(0);
 
     if (result === "tie") {
         if (betType === 3) {
-            payout = Number(betAmount) * 8;
-            payout -= payout * (FEE_PERCENT / 100);
+            payout = bet.times(8);
+            payout = payout.minus(payout.times(FEE_PERCENT).div(100));
         } else {
-            payout = Number(betAmount) * 0.5; // 50% refund
+            payout = bet.times(0.5); // 50% refund
         }
     } else if ((result === "banker" && betType === 1) || (result === "player" && betType === 2)) {
-        payout = Number(betAmount) * 1.95;
-        payout -= payout * (FEE_PERCENT / 100);
+        payout = bet.times(1.95);
+        payout = payout.minus(payout.times(FEE_PERCENT).div(100));
     }
 
     return {
@@ -52,7 +56,8 @@ function playBankerPlayerTie(betAmount: bigint, blockHash: string) {
         bankerVal,
         playerVal,
         result,
-        payout: Number(payout.toFixed(2))
+        // betAmount is in base units; the payout is reported in the bet currency
+        payout: fromUnits(payout.decimalPlaces(0), '', 6).decimalPlaces(2),
     };
 }
 
@@ -87,11 +92,11 @@ const processBet = async (id: string, asset: string, from: string, amountBase: b
 
     await prisma.bet.update({
         where: { id: id },
-        data: { status: win ? "win" : "lose", payout: res.payout, result: `` },
+        data: { status: win ? 'win' : 'lose', payout: toDbAmount(res.payout), result: '' },
     });
 
     if (win) {
-        await prisma.payout.create({ data: { to: from, status: 'pending', currency: asset, amount: res.payout } });
+        await prisma.payout.create({ data: { to: from, status: 'pending', currency: asset, amount: toDbAmount(res.payout) } });
         console.log(`[PAID] ${res.payout} base units of ${asset} to ${from}`);
     } else {
         console.log(`[LOST] ${res.payout} base units of ${asset} to ${from}`);
@@ -109,7 +114,7 @@ export const starBankerPlayer = async () => {
         const block = await tronWeb.trx.getCurrentBlock();
         const blockHash = block.blockID.slice(-8);
         for (const bet of pendingBets) {
-            await processBet(bet.id, bet.token, bet.player, BigInt(Math.floor(bet.amount * 1_000_000)), blockHash, bet.txHash);
+            await processBet(bet.id, bet.token, bet.player, BigInt(toUnits(bet.amount, bet.token, 6)), blockHash, bet.txHash);
         }
     }, 60000);
 
@@ -118,7 +123,7 @@ export const starBankerPlayer = async () => {
         const block = await tronWeb.trx.getCurrentBlock();
         const blockHash = block.blockID.slice(-8);
         for (const bet of pendingBets) {
-            await processBet(bet.id, bet.token, bet.player, BigInt(Math.floor(bet.amount * 1_000_000)), blockHash, bet.txHash);
+            await processBet(bet.id, bet.token, bet.player, BigInt(toUnits(bet.amount, bet.token, 6)), blockHash, bet.txHash);
         }
     }, 180000);
 
@@ -129,7 +134,7 @@ export const betBankerPlayerInstant = async (from: string, amount: number, curre
     const block = await tronWeb.trx.getCurrentBlock();
     const blockHash = block.blockID.slice(-8);
 
-    const amountBase = BigInt(Math.floor(amount * 1_000_000));
+    const amountBase = BigInt(toUnits(amount, currency, 6));
 
     const res = playBankerPlayerTie(amountBase, blockHash);
 
@@ -142,8 +147,8 @@ export const betBankerPlayerInstant = async (from: string, amount: number, curre
         data: {
             player: '',
             token: currency,
-            amount: Number(fmt(amountBase, 6)),
-            payout: win ? res.payout : 0,
+            amount: toDbAmount(fromUnits(amountBase, currency, 6)),
+            payout: toDbAmount(win ? res.payout : 0),
             blockNum: block.block_header.raw_data.number,
             status: win ? "win" : "lose",
             game: 4,
@@ -154,7 +159,7 @@ export const betBankerPlayerInstant = async (from: string, amount: number, curre
     });
 
     if (win) {
-       await prisma.payout.create({ data: { status: 'pending', currency: currency, amount: res.payout, to: from } });
+       await prisma.payout.create({ data: { status: 'pending', currency: currency, amount: toDbAmount(res.payout), to: from } });
         console.log(`[PAID] ${currency} base units of ${res.payout}`);
     } else {
         console.log(`[MINUS] ${currency} base units of ${amount}`);
@@ -164,18 +169,10 @@ export const betBankerPlayerInstant = async (from: string, amount: number, curre
 
 export const BetBankerPlayer = async (userId: number, amount: number, currency: string) => {
 
-    const fromBalance = await prisma.balance.findUnique({
-        where: { userId_currency: { userId, currency: currency } },
-    });
-
-    if (!fromBalance || Number(fromBalance.amount) < amount) {
-        throw new Error('Insufficient balance');
-    }
-
     const block = await tronWeb.trx.getCurrentBlock();
     const blockHash = block.blockID.slice(-8);
 
-    const amountBase = BigInt(Math.floor(amount * 1_000_000));
+    const amountBase = BigInt(toUnits(amount, currency, 6));
 
     const res = playBankerPlayerTie(amountBase, blockHash);
 
@@ -184,27 +181,41 @@ export const BetBankerPlayer = async (userId: number, amount: number, currency:
 
     const win = res.result == "player";
 
-    await prisma.bet.create({
-        data: {
-            player: '',
-            token: currency,
-            amount: Number(fmt(amountBase, 6)),
-            payout: win ? res.payout : 0,
-            blockNum: block.block_header.raw_data.number,
-            status: win ? "win" : "lose",
-            game: 4,
-            direction: "",
-            result: result,
-            type: 3
-        },
-    });
+    // Reserve the stake until the result is known: a losing bet captures it,
+    // a winning bet releases it and is paid through a pending payout. The hold
+    // is released if the bet cannot be stored.
+    const betId = randomUUID();
+    const hold = await placeHold(userId, amount, currency, { type: 'bet', id: betId, description: 'BankerPlayer bet' });
+
+    try {
+        await prisma.bet.create({
+            data: {
+                id: betId,
+                player: '',
+                token: currency,
+                amount: toDbAmount(fromUnits(amountBase, currency, 6)),
+                payout: toDbAmount(win ? res.payout : 0),
+                blockNum: block.block_header.raw_data.number,
+                status: win ? 'win' : 'lose',
+                game: 4,
+                direction: '',
+                result: result,
+                type: 3,
+            },
+        });
+    } catch (err) {
+        await releaseHold(hold.id);
+        throw err;
+    }
 
+    // The payout is stored before the stake is settled; a stake left held is
+    // settled by the bet stake retry job
     if (win) {
-        await prisma.payout.create({ data: { status: 'pending', currency: currency, amount: res.payout, userId: userId } });
+        await prisma.payout.create({ data: { status: 'pending', currency: currency, amount: toDbAmount(res.payout), userId: userId } });
         console.log(`[PAID] ${res.payout} base units of ${currency} to ${userId}`);
     } else {
-        await minusBalance(userId, amount, currency);
         console.log(`[MINUS] ${amount} base units of ${currency}`);
     }
+    await settleBetStake({ id: betId, game: 4, status: win ? 'win' : 'lose' });
 
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+import prisma from '../db/prisma';
+import { captureHold, getActiveHold, getStaleHolds, releaseHold } from '../db/holds';
+
+// Stakes of balance bets are held when the bet is placed and settled once its
+// result is stored. BigSmall pays the full payout on a win, so its stake is
+// always spent; the other games pay the net win and hand the stake back.
+//
+// Settling throws like any other step of a bet, and a hold it leaves open is
+// picked up by the retry job, so a stake is never left locked for good.
+
+const BIG_SMALL_GAME = 1;
+
+const RETRY_AFTER_SECONDS = Number(process.env.BET_STAKE_RETRY_AFTER_SECONDS) || 300;
+const RETRY_INTERVAL_SECONDS = Number(process.env.BET_STAKE_RETRY_INTERVAL_SECONDS) || 60;
+
+export interface SettledBet {
+  id: string;
+  game: number;
+  status: string;
+}
+
+export const stakeSettlement = (bet: SettledBet): 'capture' | 'release' =>
+  (bet.status === 'win' && bet.game !== BIG_SMALL_GAME ? 'release' : 'capture');
+
+// Capture or release the held stake of a bet whose result is stored
+export const settleBetStake = async (bet: SettledBet) => {
+  const hold = await getActiveHold('bet', bet.id);
+  if (!hold) return;
+  if (stakeSettlement(bet) === 'capture') await captureHold(hold.id);
+  else await releaseHold(hold.id);
+};
+
+// Settle stakes left held: of bets with a stored result, and of bets that were
+// never stored, whose stake goes back. Bets still pending are left to their game.
+export const retryBetStakes = async () => {
+  for (const hold of await getStaleHolds('bet', RETRY_AFTER_SECONDS)) {
+    try {
+      const bet = await prisma.bet.findUnique({ where: { id: hold.refId } });
+      if (!bet) {
+        await releaseHold(hold.id);
+        console.warn(`↩️ Released stake hold #${hold.id} of bet ${hold.refId}, which was never stored`);
+      } else if (bet.status !== 'pending') {
+        await settleBetStake(bet);
+        console.warn(`🔁 Settled stake hold #${hold.id} of ${bet.status} bet ${bet.id}`);
+      }
+    } catch (err) {
+      console.error(`Error settling stake hold #${hold.id}:`, err);
+    }
+  }
+};
+
+export const startBetStakeRetry = () => {
+  let running = false;
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await retryBetStakes();
+    } catch (err) {
+      console.error('Error retrying bet stakes:', err);
+    } finally {
+      running = false;
+    }
+  }, RETRY_INTERVAL_SECONDS * 1000);
+};
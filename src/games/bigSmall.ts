@@ -1,7 +1,10 @@
 import 'dotenv/config';
 import * as tr from 'tronweb';
-import { minusBalance } from '../db/wallets';
+import { randomUUID } from 'crypto';
+import { placeHold, releaseHold } from '../db/holds';
+import { settleBetStake } from './betStakes';
 import prisma from "../db/prisma";
+import { AmountLike, roundAmount, toAmount, toDbAmount } from "../utils/money";
 
 const ODDS_NUMERATOR = Number(process.env.ODDS_NUMERATOR!);
 const ODDS_DENOMINATOR = Number(process.env.ODDS_DENOMINATOR!);
@@ -13,17 +16,26 @@ const tronWeb = new tr.TronWeb({
   fullHost: process.env.TRON_FULLNODE || "https://nile.trongrid.io"
 });
 
+// Winning payout: stake * odds, minus the house fee, rounded to the token precision
+const calculatePayout = (amount: AmountLike, token: string) =>
+  roundAmount(
+    toAmount(amount)
+      .times(ODDS_NUMERATOR).div(ODDS_DENOMINATOR)
+      .times(toAmount(FEE_DENOMINATOR).minus(FEE_NUMERATOR)).div(FEE_DENOMINATOR),
+    token,
+  );
+
 // ---------------- BET INTERFACE ----------------
 export interface Bet {
   id: string;
   txHash?: string;
   player?: string;
   token: string;
-  amount: number;
+  amount: AmountLike;
   direction: "Small" | "Big";
   result?: "Small" | "Big";
   status: "pending" | "win" | "lose";
-  payout?: number;
+  payout?: AmountLike;
   blockNum: number;
   createdAt: Date;
   game: number,
@@ -60,52 +72,62 @@ async function getBlockLastDigit(blockNum: number): Promise<number> {
 }
 
 // ---------------- PAYOUT FUNCTION ----------------
+// Throws when a step fails; a stake left held is settled by the bet stake retry job
 async function settleBet(bet: Bet) {
-  try {
-    const lastDigit = await getBlockLastDigit(bet.blockNum);
-    const result = lastDigit <= 4 ? "Small" : "Big";
+  const lastDigit = await getBlockLastDigit(bet.blockNum);
+  const result = lastDigit <= 4 ? 'Small' : 'Big';
 
-    let payout = 0;
-    let status: "win" | "lose" = "lose";
+  let payout = toAmount(0);
+  let status: 'win' | 'lose' = 'lose';
 
-    if (result === bet.direction) {
-      payout = ((bet.amount * ODDS_NUMERATOR) / ODDS_DENOMINATOR);
-      payout = payout * (1 - FEE_NUMERATOR / FEE_DENOMINATOR);
-      status = "win";
-
-      await prisma.payout.create({ data: { to: bet.player, status: 'pending', currency: bet.token, amount: payout, userId: bet.userId } });
-    }
+  if (result === bet.direction) {
+    payout = calculatePayout(bet.amount, bet.token);
+    status = 'win';
 
-    await prisma.bet.update({
-      where: { id: bet.id },
-      data: { result, status, payout },
-    });
-
-    console.log(`🎯 Bet settled: ${bet.player} ${status}, payout: ${payout} ${bet.token}`);
-  } catch (err) {
-    console.error("Error settling bet:", err);
+    await prisma.payout.create({ data: { to: bet.player, status: 'pending', currency: bet.token, amount: toDbAmount(payout), userId: bet.userId } });
   }
-}
-
-export const BetBigSmall = async (amount: number, token: string, userId: number) => {
 
-  const fromBalance = await prisma.balance.findUnique({
-    where: { userId_currency: { userId, currency: token } },
+  await prisma.bet.update({
+    where: { id: bet.id },
+    data: { result, status, payout: toDbAmount(payout) },
   });
 
-  if (!fromBalance || Number(fromBalance.amount) < amount) {
-    throw new Error('Insufficient balance');
+  await settleBetStake({ id: bet.id, game: bet.game, status });
+
+  console.log(`🎯 Bet settled: ${bet.player} ${status}, payout: ${payout} ${bet.token}`);
+}
+
+// Settle pending bets one by one, so one failing bet does not hold up the rest
+const settlePending = async (bets: Bet[]) => {
+  for (const bet of bets) {
+    try {
+      await settleBet(bet);
+    } catch (err) {
+      console.error('Error settling bet:', err);
+    }
   }
+};
+
+export const BetBigSmall = async (amount: number, token: string, userId: number) => {
 
   const currentBlock = await tronWeb.trx.getCurrentBlock();
   const blockNum = currentBlock.block_header.raw_data.number;
   const direction = getBetDirection(amount);
-  
-  const bet = await prisma.bet.create({
-    data: { amount, token, direction, status: "pending", blockNum, game: 1, userId, type: 3 },
-  });
 
-  await minusBalance(userId, amount, token);
+  // Reserve the stake while the bet is pending; it is captured when the bet settles
+  // and released if the bet cannot be stored
+  const betId = randomUUID();
+  const hold = await placeHold(userId, amount, token, { type: 'bet', id: betId, description: 'BigSmall bet' });
+
+  let bet;
+  try {
+    bet = await prisma.bet.create({
+      data: { id: betId, amount, token, direction, status: "pending", blockNum, game: 1, userId, type: 3 },
+    });
+  } catch (err) {
+    await releaseHold(hold.id);
+    throw err;
+  }
   
   // Trigger referral bonuses for bets
   try {
@@ -144,7 +166,7 @@ export async function placeBetInstant(player: string, amount: number, token: str
 
   console.log(`📥 Bet stored: ${player} ${amount} ${token} -> ${direction}`);
 
-  await settleBet(bet as Bet);
+  await settlePending([bet as Bet]);
 
 }
 
@@ -154,16 +176,12 @@ export const startBigSmall = () => {
 
   setInterval(async () => {
     const pendingBets = await prisma.bet.findMany({ where: { status: "pending", game: 1, type: 1 } });
-    for (const bet of pendingBets) {
-      await settleBet(bet as Bet);
-    }
+    await settlePending(pendingBets as Bet[]);
   }, 60000);
 
   setInterval(async () => {
     const pendingBets = await prisma.bet.findMany({ where: { status: "pending", game: 1, type: 2 } });
-    for (const bet of pendingBets) {
-      await settleBet(bet as Bet);
-    }
+    await settlePending(pendingBets as Bet[]);
   }, 180000);
 
 }
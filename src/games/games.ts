@@ -6,6 +6,7 @@ import * as bankerPlayer from "./bankerPlayer";
 import * as oddEvenGame from "./oddEven";
 import { io } from "../app";
 import prisma from "../db/prisma";
+import { fromUnits, toNumber } from '../utils/money';
 import 'dotenv/config';
 
 
@@ -120,7 +121,7 @@ const listenTransactions = async () => {
 
                         const to = tronWeb.address.fromHex(val.to_address);
                         const from = tronWeb.address.fromHex(val.owner_address);
-                        const amount = val.amount / 1e6;
+                        const amount = toNumber(fromUnits(val.amount, 'TRX'));
 
                         if (GAME_WALLETS.includes(to)) {
                             processTRX(to, from, amount, blockNum, "TRX", tx.txID);
@@ -161,7 +162,7 @@ const listenTransactions = async () => {
 
                                 const to = tronWeb.address.fromHex(decoded._to as string);
                                 const rawAmount = BigInt(decoded._value.toString());
-                                const amount = Number(rawAmount) / 1e6;
+                                const amount = toNumber(fromUnits(rawAmount, 'USDT'));
                                 const from = tronWeb.address.fromHex(val.owner_address);
 
                                 if (GAME_WALLETS.includes(to)) {
@@ -1,7 +1,10 @@
 import * as tr from "tronweb";
-import { minusBalance } from '../db/wallets';
+import { randomUUID } from 'crypto';
+import { placeHold, releaseHold } from '../db/holds';
+import { settleBetStake } from './betStakes';
 import { Bet } from './bigSmall';
 import prisma from "../db/prisma";
+import { AmountLike, roundAmount, toAmount, toDbAmount } from '../utils/money';
 
 // ==== CONFIG ====
 const NODE = process.env.TRON_FULLNODE || "https://nile.trongrid.io";
@@ -31,11 +34,9 @@ function checkWin(blockHash: string): boolean {
     );
 }
 
-function calculatePayout(amount: number): number {
-    const raw = BigInt(Math.floor(amount * 1e6));
-    let payout = (raw * BigInt(ODDS_NUMERATOR)) / BigInt(ODDS_DENOMINATOR);
-    payout = (payout * BigInt(100 - PLATFORM_FEE)) / BigInt(100);
-    return Number(payout) / 1e6;
+function calculatePayout(amount: AmountLike, token: string) {
+    const payout = toAmount(amount).times(ODDS_NUMERATOR).div(ODDS_DENOMINATOR);
+    return roundAmount(payout.times(100 - PLATFORM_FEE).div(100), token);
 }
 
 
@@ -62,16 +63,16 @@ const settleBet = async (bet: Bet, block: string) => {
 
     const win = checkWin(block);
 
-    const payout = win ? calculatePayout(bet.amount) : 0;
+    const payout = win ? calculatePayout(bet.amount, bet.token) : toAmount(0);
     const status = win ? "win" : "loose";
 
     await prisma.bet.update({
         where: { id: bet.id },
-        data: { status, payout },
+        data: { status, payout: toDbAmount(payout) },
     });
 
-    if (payout > 0) {
-        await prisma.payout.create({ data: { to: bet.player, status: 'pending', currency: bet.token, amount: payout, userId: bet.userId } });
+    if (payout.gt(0)) {
+        await prisma.payout.create({ data: { to: bet.player, status: 'pending', currency: bet.token, amount: toDbAmount(payout), userId: bet.userId } });
     }
 
     console.log(
@@ -104,14 +105,14 @@ export const betLuckyInstant = async (from: string, amount: number, token: strin
     const block = await tronWeb.trx.getCurrentBlock();
 
     const win = checkWin(block.blockID);
-    const payout = win ? calculatePayout(amount) : 0;
+    const payout = win ? calculatePayout(amount, token) : toAmount(0);
 
     await prisma.bet.create({
         data: {
             player: from,
             token: token,
             amount: amount,
-            payout,
+            payout: toDbAmount(payout),
             blockNum: block.block_header.raw_data.number,
             status: win ? "win" : "lose",
             game: 2,
@@ -120,8 +121,8 @@ export const betLuckyInstant = async (from: string, amount: number, token: strin
         },
     });
 
-    if (payout > 0) {
-        await prisma.payout.create({ data: { to: from, status: 'pending', currency: token, amount: payout } });
+    if (payout.gt(0)) {
+        await prisma.payout.create({ data: { to: from, status: 'pending', currency: token, amount: toDbAmount(payout) } });
     }
 
     console.log(
@@ -132,33 +133,37 @@ export const betLuckyInstant = async (from: string, amount: number, token: strin
 
 export const BetLucky = async (userId: number, amount: number, currency: string) => {
 
-    const fromBalance = await prisma.balance.findUnique({
-        where: { userId_currency: { userId, currency: currency } },
-    });
-
-    if (!fromBalance || Number(fromBalance.amount) < amount) {
-        throw new Error('Insufficient balance');
-    }
-
     const block = await tronWeb.trx.getCurrentBlock();
 
     const win = checkWin(block.blockID);
-    const payout = win ? calculatePayout(amount) : 0;
+    const payout = win ? calculatePayout(amount, currency) : toAmount(0);
 
-    await prisma.bet.create({
-        data: {
-            player: '',
-            token: currency,
-            amount: amount,
-            payout,
-            blockNum: block.block_header.raw_data.number,
-            status: win ? "win" : "lose",
-            game: 2,
-            direction: "",
-            userId: userId,
-            type: 3
-        },
-    });
+    // Reserve the stake until the result is known: a losing bet captures it,
+    // a winning bet releases it and is paid through a pending payout. The hold
+    // is released if the bet cannot be stored.
+    const betId = randomUUID();
+    const hold = await placeHold(userId, amount, currency, { type: 'bet', id: betId, description: 'Lucky bet' });
+
+    try {
+        await prisma.bet.create({
+            data: {
+                id: betId,
+                player: '',
+                token: currency,
+                amount: amount,
+                payout: toDbAmount(payout),
+                blockNum: block.block_header.raw_data.number,
+                status: win ? 'win' : 'lose',
+                game: 2,
+                direction: '',
+                userId: userId,
+                type: 3,
+            },
+        });
+    } catch (err) {
+        await releaseHold(hold.id);
+        throw err;
+    }
 
     // Trigger referral bonuses for bets
     try {
@@ -184,12 +189,13 @@ export const BetLucky = async (userId: number, amount: number, currency: string)
         // Don't throw error to avoid breaking the bet flow
     }
 
-    if (payout > 0) {
+    // The payout is stored before the stake is settled; a stake left held is
+    // settled by the bet stake retry job
+    if (payout.gt(0)) {
         console.log("win")
-        await prisma.payout.create({ data: { status: 'pending', currency: currency, amount: payout, userId: userId } });
-    }else{
-        await minusBalance(userId, amount, currency);
+        await prisma.payout.create({ data: { status: 'pending', currency: currency, amount: toDbAmount(payout), userId: userId } });
     }
+    await settleBetStake({ id: betId, game: 2, status: win ? 'win' : 'lose' });
 
     console.log(
         `🎲 LetterNumber ${currency} Bet: ${userId} bet ${amount}, result=${win ? "WIN" : "LOSE"}, payout=${payout}`
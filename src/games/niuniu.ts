@@ -1,7 +1,10 @@
 import * as tr from 'tronweb';
 import BigNumber from 'bignumber.js';
-import { minusBalance } from '../db/wallets';
+import { randomUUID } from 'crypto';
+import { placeHold, releaseHold } from '../db/holds';
+import { settleBetStake } from './betStakes';
 import prisma from "../db/prisma";
+import { toDbAmount, toUnits } from '../utils/money';
 
 // ============ CONFIG ============
 const NODE = process.env.TRON_FULLNODE || "https://nile.trongrid.io";
@@ -91,13 +94,13 @@ const processBet = async (id: string, asset: string, from: string, amountBase: B
     const status = res.type == "player" ? "win" : "loose";
 
     if (res.type == "player") {
-        await prisma.payout.create({ data: { to: from, status: 'pending', currency: asset, amount: Number(fmt(res.net, 6)) } });
+        await prisma.payout.create({ data: { to: from, status: 'pending', currency: asset, amount: toDbAmount(fmt(res.net, 6)) } });
         console.log(`[PAID] ${fmt(res.net, 6)} base units of ${asset} to ${from}`);
     }
 
     await prisma.bet.update({
         where: { id: id },
-        data: { status, payout: Number(fmt(res.net, 6)), result: `\nLast5=${last5str} | Banker(${bankerTrip})=Niu${banker}, Player(${playerTrip})=Niu${player}` },
+        data: { status, payout: toDbAmount(fmt(res.net, 6)), result: `\nLast5=${last5str} | Banker(${bankerTrip})=Niu${banker}, Player(${playerTrip})=Niu${player}` },
     });
 
 }
@@ -132,7 +135,7 @@ export const startNiuNiu = async () => {
         const block = await tronWeb.trx.getCurrentBlock();
         const blockHash = block.blockID.slice(-8);
         for (const bet of pendingBets) {
-            await processBet(bet.id, bet.token, bet.player, new BigNumber(Math.floor(bet.amount * 1_000_000)), blockHash, bet.txHash);
+            await processBet(bet.id, bet.token, bet.player, new BigNumber(toUnits(bet.amount, bet.token, 6)), blockHash, bet.txHash);
         }
     }, 60000);
 
@@ -141,7 +144,7 @@ export const startNiuNiu = async () => {
         const block = await tronWeb.trx.getCurrentBlock();
         const blockHash = block.blockID.slice(-8);
         for (const bet of pendingBets) {
-            await processBet(bet.id, bet.token, bet.player, new BigNumber(Math.floor(bet.amount * 1_000_000)), blockHash, bet.txHash);
+            await processBet(bet.id, bet.token, bet.player, new BigNumber(toUnits(bet.amount, bet.token, 6)), blockHash, bet.txHash);
         }
     }, 180000);
 
@@ -150,7 +153,7 @@ export const startNiuNiu = async () => {
 export const betNuiNuiInstant = async (from: string, amount: number, currency: string) => {
 
     const block = await tronWeb.trx.getCurrentBlock();
-    const amountBase = new BigNumber(Math.floor(amount * 1_000_000));
+    const amountBase = new BigNumber(toUnits(amount, currency, 6));
 
     const last5str = last5(block.blockID);
     const { banker, player, bankerTrip, playerTrip } = compute(last5str);
@@ -163,7 +166,7 @@ export const betNuiNuiInstant = async (from: string, amount: number, currency: s
     );
 
     if (res.type == "player") {
-        await prisma.payout.create({ data: { to: from, status: 'pending', currency: currency, amount: Number(fmt(res.net, 6)) } });
+        await prisma.payout.create({ data: { to: from, status: 'pending', currency: currency, amount: toDbAmount(fmt(res.net, 6)) } });
         console.log(`[PAID] ${fmt(res.net, 6)} base units of ${currency} to ${from}`);
     }
 
@@ -171,8 +174,8 @@ export const betNuiNuiInstant = async (from: string, amount: number, currency: s
         data: {
             player: from,
             token: currency,
-            amount: Number(fmt(amountBase, 6)),
-            payout: res.type == "player" ? Number(fmt(res.net, 6)) : 0,
+            amount: toDbAmount(fmt(amountBase, 6)),
+            payout: res.type == 'player' ? toDbAmount(fmt(res.net, 6)) : 0,
             blockNum: block.block_header.raw_data.number,
             status: res.type == "player" ? "win" : "lose",
             game: 3,
@@ -187,17 +190,9 @@ export const betNuiNuiInstant = async (from: string, amount: number, currency: s
 
 export const BetNuiNui = async (userId: number, amount: number, currency: string) => {
 
-    const fromBalance = await prisma.balance.findUnique({
-        where: { userId_currency: { userId, currency: currency } },
-    });
-
-    if (!fromBalance || Number(fromBalance.amount) < amount) {
-        throw new Error('Insufficient balance');
-    }
-
     const block = await tronWeb.trx.getCurrentBlock();
 
-    const amountBase = new BigNumber(Math.floor(amount * 1_000_000));
+    const amountBase = new BigNumber(toUnits(amount, currency, 6));
 
     const last5str = last5(block.blockID);
     const { banker, player, bankerTrip, playerTrip } = compute(last5str);
@@ -209,28 +204,41 @@ export const BetNuiNui = async (userId: number, amount: number, currency: string
         `\nResult=${res.type} -> payout=${fmt(res.net, 6)} ${currency} (fee=${fmt(res.fee, 6)})`
     );
 
+    // Reserve the stake until the result is known: a losing bet captures it,
+    // a winning bet releases it and is paid through a pending payout. The hold
+    // is released if the bet cannot be stored.
+    const betId = randomUUID();
+    const hold = await placeHold(userId, amount, currency, { type: 'bet', id: betId, description: 'NiuNiu bet' });
+
+    try {
+        await prisma.bet.create({
+            data: {
+                id: betId,
+                player: '',
+                token: currency,
+                amount: toDbAmount(fmt(amountBase, 6)),
+                payout: res.type == 'player' ? toDbAmount(fmt(res.net, 6)) : 0,
+                blockNum: block.block_header.raw_data.number,
+                status: res.type == 'player' ? 'win' : 'lose',
+                game: 3,
+                direction: '',
+                result: `\nLast5=${last5str} | Banker(${bankerTrip})=Niu${banker}, Player(${playerTrip})=Niu${player}`,
+                userId: userId,
+                type: 3,
+            },
+        });
+    } catch (err) {
+        await releaseHold(hold.id);
+        throw err;
+    }
+
+    // The payout is stored before the stake is settled; a stake left held is
+    // settled by the bet stake retry job
     if (res.type == "player") {
-        await prisma.payout.create({ data: { status: 'pending', currency: currency, amount: Number(fmt(res.net, 6)), userId: userId } });
+        await prisma.payout.create({ data: { status: 'pending', currency: currency, amount: toDbAmount(fmt(res.net, 6)), userId: userId } });
         console.log(`[PAID] ${fmt(res.net, 6)} base units of ${currency} to ${userId}`);
-    }else{
-        await minusBalance(userId, amount, currency);
     }
-
-    await prisma.bet.create({
-        data: {
-            player: '',
-            token: currency,
-            amount: Number(fmt(amountBase, 6)),
-            payout: res.type == "player" ? Number(fmt(res.net, 6)) : 0,
-            blockNum: block.block_header.raw_data.number,
-            status: res.type == "player" ? "win" : "lose",
-            game: 3,
-            direction: "",
-            result: `\nLast5=${last5str} | Banker(${bankerTrip})=Niu${banker}, Player(${playerTrip})=Niu${player}`,
-            userId: userId,
-            type: 3
-        },
-    });
+    await settleBetStake({ id: betId, game: 3, status: res.type == 'player' ? 'win' : 'lose' });
 
 
 }
\ No newline at end of file
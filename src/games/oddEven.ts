@@ -1,7 +1,9 @@
 import 'dotenv/config';
 import * as tr from 'tronweb';
-import { minusBalance } from '../db/wallets';
+import { randomUUID } from 'crypto';
+import { minusBalance, topBalance } from '../db/wallets';
 import prisma from "../db/prisma";
+import { AmountLike, roundAmount, toAmount, toDbAmount } from "../utils/money";
 
 const ODDS_NUMERATOR = Number(process.env.ODDS_NUMERATOR!);
 const ODDS_DENOMINATOR = Number(process.env.ODDS_DENOMINATOR!);
@@ -12,17 +14,26 @@ const tronWeb = new tr.TronWeb({
     fullHost: process.env.TRON_FULLNODE || "https://nile.trongrid.io"
 });
 
+// Winning payout: stake * odds, minus the house fee, rounded to the token precision
+const calculatePayout = (amount: AmountLike, token: string) =>
+    roundAmount(
+        toAmount(amount)
+            .times(ODDS_NUMERATOR).div(ODDS_DENOMINATOR)
+            .times(toAmount(FEE_DENOMINATOR).minus(FEE_NUMERATOR)).div(FEE_DENOMINATOR),
+        token,
+    );
+
 // ---------------- BET INTERFACE ----------------
 interface Bet {
     id: string;
     txHash?: string;
     player?: string;
     token: string;
-    amount: number;
+    amount: AmountLike;
     direction: string;
     result?: "Small" | "Big";
     status: "pending" | "win" | "lose";
-    payout?: number;
+    payout?: AmountLike;
     blockNum: number;
     createdAt: Date;
     game: number,
@@ -61,19 +72,18 @@ export const settleBet = async (bet: Bet, blockHash: string) => {
 
         const result = getResultFromBlock(blockHash);
 
-        let payout = 0;
+        let payout = toAmount(0);
         let status: "win" | "lose" = "lose";
 
         if (result == bet.direction) {
-            payout = ((bet.amount * ODDS_NUMERATOR) / ODDS_DENOMINATOR);
-            payout = payout * (1 - FEE_NUMERATOR / FEE_DENOMINATOR);
+            payout = calculatePayout(bet.amount, bet.token);
             status = "win";
-            await prisma.payout.create({ data: { to: bet.player, status: 'pending', currency: bet.token, amount: payout, userId: bet.userId } });
+            await prisma.payout.create({ data: { to: bet.player, status: 'pending', currency: bet.token, amount: toDbAmount(payout), userId: bet.userId } });
         }
 
         await prisma.bet.update({
             where: { id: bet.id },
-            data: { result, status, payout },
+            data: { result, status, payout: toDbAmount(payout) },
         });
 
         console.log(`🎯 Bet settled: ${bet.player} ${status}, payout: ${payout} ${bet.token}`);
@@ -84,33 +94,38 @@ export const settleBet = async (bet: Bet, blockHash: string) => {
 
 export const BetOddEven = async (amount: number, token: string, userId: number) => {
 
-    const fromBalance = await prisma.balance.findUnique({
-        where: { userId_currency: { userId, currency: token } },
-    });
-
-    if (!fromBalance || Number(fromBalance.amount) < amount) {
-        throw new Error('Insufficient balance');
-    }
-
     const block = await tronWeb.trx.getCurrentBlock();
     const blockNum = block.block_header.raw_data.number;
     const blockHash = block.blockID.slice(-8);
     const direction = getBetDirection(amount);
     const result = getResultFromBlock(blockHash);
 
-    let payout = 0;
+    let payout = toAmount(0);
     let status: "win" | "lose" = "lose";
 
     if (result == direction) {
-        payout = ((amount * ODDS_NUMERATOR) / ODDS_DENOMINATOR);
-        payout = payout * (1 - FEE_NUMERATOR / FEE_DENOMINATOR);
+        payout = calculatePayout(amount, token);
         status = "win";
-        await prisma.payout.create({ data: { status: 'pending', currency: token, amount: payout, userId } });
     }
 
-    const bet = await prisma.bet.create({
-        data: { amount, token, direction, status: status, game: 5, type: 3, blockNum, userId },
-    });
+    // Take the stake once the result is known; the debit locks the balance row so
+    // concurrent bets cannot overdraw it. The stake is credited back if the bet
+    // cannot be stored.
+    const betId = randomUUID();
+    await minusBalance(userId, amount, token, { type: 'bet', id: betId, description: 'OddEven bet' });
+
+    try {
+        await prisma.bet.create({
+            data: { id: betId, amount, token, direction, status: status, game: 5, type: 3, blockNum, userId },
+        });
+    } catch (err) {
+        await topBalance(userId, amount, token, { type: 'bet', id: betId, description: 'OddEven bet refund' });
+        throw err;
+    }
+
+    if (payout.gt(0)) {
+        await prisma.payout.create({ data: { status: 'pending', currency: token, amount: toDbAmount(payout), userId } });
+    }
 
     console.log(`📥 Bet stored: ${userId} ${amount} ${token} -> ${direction}`);
 
@@ -124,12 +139,11 @@ export const betOddEvenInstant = async (from: string, amount: number, token: str
     const direction = getBetDirection(amount);
     const result = getResultFromBlock(blockHash);
 
-    let payout = 0;
+    let payout = toAmount(0);
     let status: "win" | "lose" = "lose";
 
     if (result == direction) {
-        payout = ((amount * ODDS_NUMERATOR) / ODDS_DENOMINATOR);
-        payout = payout * (1 - FEE_NUMERATOR / FEE_DENOMINATOR);
+        payout = calculatePayout(amount, token);
         status = "win";
         await prisma.payout.create({ data: { to: from, status: 'pending', currency: token, amount: payout } });
     }
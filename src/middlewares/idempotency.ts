@@ -0,0 +1,101 @@
+import { NextFunction, Request as ExpressRequest, Response as ExpressResponse } from 'express';
+import crypto from 'crypto';
+import {
+  PROCESSING_LEASE_SECONDS,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  renewIdempotencyLease,
+} from '../db/idempotency';
+
+const MAX_KEY_LENGTH = 255;
+
+// JSON with sorted object keys, so the same payload always hashes the same
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const fingerprintOf = (req: ExpressRequest) =>
+  crypto.createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${stableStringify(req.body)}`)
+    .digest('hex');
+
+// Dedupe retries of money-moving requests that carry an Idempotency-Key header.
+// Must run after isAuthenticated: keys are scoped to the authenticated user.
+// A successful response is stored and replayed for the same key; a failed one
+// releases the key so the client can retry with it. While the handler runs
+// its claim is renewed, so a retry gets 409 instead of running it a second
+// time. Requests without the header are processed as before.
+export const idempotent = async (req: ExpressRequest, res: ExpressResponse, next: NextFunction) => {
+  const key = req.header('Idempotency-Key');
+  if (!key) return next();
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ message: 'Idempotency-Key is too long', code: 400 });
+  }
+
+  const userId = req['token'].id;
+  const fingerprint = fingerprintOf(req);
+
+  let claim;
+  try {
+    claim = await claimIdempotencyKey(userId, key, req.method, `${req.baseUrl}${req.path}`, fingerprint);
+  } catch (err) {
+    return res.status(500).json({ message: err.toString(), code: 500 });
+  }
+
+  const { claimed, record } = claim;
+  if (!claimed) {
+    if (!record) {
+      return res.status(409).json({
+        message: 'A request with this Idempotency-Key is still being processed',
+        code: 409,
+      });
+    }
+    if (record.fingerprint !== fingerprint) {
+      return res.status(422).json({
+        message: 'Idempotency-Key was already used with a different request',
+        code: 422,
+      });
+    }
+    if (record.status !== 'completed') {
+      return res.status(409).json({
+        message: 'A request with this Idempotency-Key is still being processed',
+        code: 409,
+      });
+    }
+    res.set('Idempotent-Replayed', 'true');
+    return res.status(record.responseCode).json(record.responseBody);
+  }
+
+  const heartbeat = setInterval(() => {
+    renewIdempotencyLease(record.id, record.owner)
+      .then((held) => {
+        if (!held) console.error(`Lost idempotency claim ${record.id} while processing`);
+      })
+      .catch((err) => console.error('Failed to renew idempotency claim:', err));
+  }, (PROCESSING_LEASE_SECONDS * 1000) / 3);
+  heartbeat.unref();
+  res.on('close', () => clearInterval(heartbeat));
+
+  const json = res.json.bind(res);
+  res.json = (body?: any) => {
+    clearInterval(heartbeat);
+    const settle = res.statusCode >= 200 && res.statusCode < 300
+      ? completeIdempotencyKey(record.id, record.owner, res.statusCode, body).then((stored) => {
+        if (!stored) console.error(`Idempotency claim ${record.id} was lost; response not stored`);
+      })
+      : releaseIdempotencyKey(record.id, record.owner);
+    // Respond once the key is settled, so an immediate retry sees the final state
+    settle
+      .catch((err) => console.error('Failed to store idempotent response:', err))
+      .finally(() => json(body));
+    return res;
+  };
+
+  next();
+};
@@ -0,0 +1,266 @@
+import { getAllWallets, saveTransaction } from '../db/wallets';
+import { getTokens } from '../db/tokens';
+import {
+  DepositRecord, confirmDeposit, failDeposit, getChainCursor, getDepositStats, getPendingDeposits, getUnsweptDeposits,
+  markDepositsSwept, recordDeposit, setChainCursor, updateDepositConfirmations,
+} from '../db/deposits';
+import { ADAPTER_CHAINS, getChainAdapter } from '../blockchain/adapters';
+import { ChainAdapter, DepositTransfer, DepositWallet, OnchainTxStatus, ScanContext } from '../blockchain/types';
+import { isEvmChain } from '../utils/addressValidation';
+import { depositValueInUsd } from '../utils/exchange';
+import { sumAmounts, toNumber } from '../utils/money';
+
+// Deposits of every chain go through one loop, the same for each chain adapter:
+//
+//   1. scan the blocks after the chain's cursor and record transfers into
+//      deposit addresses as pending deposits
+//   2. confirm pending deposits that are deep enough and credit their USD
+//      value, or fail those that reverted
+//   3. sweep confirmed deposits into the main pool
+//
+// The cursor is stored, so blocks mined while the service was down are
+// scanned when it comes back; the very first scan starts at the chain head.
+// Recording is idempotent per transfer, so a block scanned twice is harmless.
+
+const INTERVAL_SECONDS = Number(process.env.DEPOSIT_POLL_INTERVAL_SECONDS) || 15;
+
+interface ChainState {
+  running: boolean;
+  lastRunAt: Date | null;
+  lastError: string | null;
+  head: number | null;
+  cursor: number | null;
+}
+
+let chains = ADAPTER_CHAINS;
+let timer: NodeJS.Timeout | null = null;
+const states = new Map<string, ChainState>();
+
+const stateOf = (blockchain: string) => {
+  if (!states.has(blockchain)) {
+    states.set(blockchain, { running: false, lastRunAt: null, lastError: null, head: null, cursor: null });
+  }
+  return states.get(blockchain);
+};
+
+const addressKey = (blockchain: string, address: string) => (isEvmChain(blockchain) ? address.toLowerCase() : address);
+
+const loadContext = async (adapter: ChainAdapter, only?: string): Promise<ScanContext> => {
+  const [wallets, tokens, poolAddress] = await Promise.all([
+    getAllWallets(adapter.blockchain) as Promise<DepositWallet[]>,
+    getTokens(adapter.blockchain),
+    adapter.getPoolAddress(),
+  ]);
+  const byAddress = new Map<string, DepositWallet>();
+  for (const wallet of wallets) {
+    const key = addressKey(adapter.blockchain, wallet.publicKey);
+    if (!only || key === addressKey(adapter.blockchain, only)) byAddress.set(key, wallet);
+  }
+  return { wallets: byAddress, tokens, poolAddress };
+};
+
+// Record a transfer unless it is below the currency's minimum deposit
+const recordTransfer = async (adapter: ChainAdapter, context: ScanContext, transfer: DepositTransfer) => {
+  const token = context.tokens.find((t) => t.symbol === transfer.currency);
+  const minimum = token ? token.minDeposit : adapter.minNativeDeposit;
+  if (transfer.amount.lt(minimum)) {
+    console.warn(`⚠️ ${transfer.amount} ${transfer.currency} to ${transfer.wallet.publicKey} is below the ${minimum} minimum deposit: ${transfer.txHash}`);
+    return null;
+  }
+
+  return recordDeposit({
+    userId: transfer.wallet.userId,
+    txHash: transfer.txHash,
+    transferIndex: transfer.index,
+    fromAddress: transfer.from,
+    toAddress: transfer.wallet.publicKey,
+    currency: transfer.currency,
+    network: adapter.blockchain,
+    amount: transfer.amount,
+    blockNumber: transfer.blockNumber,
+  });
+};
+
+const scanBlocks = async (adapter: ChainAdapter, context: ScanContext, state: ChainState) => {
+  const head = await adapter.getHead();
+  const cursor = await getChainCursor(adapter.blockchain);
+  state.head = head;
+  if (cursor == null) {
+    await setChainCursor(adapter.blockchain, head);
+    state.cursor = head;
+    return;
+  }
+  state.cursor = cursor;
+  if (cursor >= head) return;
+
+  const to = Math.min(head, cursor + adapter.maxScanRange);
+  const raw = await adapter.scanRange(cursor + 1, to, context);
+  for (const transfer of adapter.parseTransfers(raw, context)) {
+    await recordTransfer(adapter, context, transfer);
+  }
+  await setChainCursor(adapter.blockchain, to);
+  state.cursor = to;
+};
+
+const creditDeposit = async (deposit: DepositRecord, confirmations: number) => {
+  const valuation = await depositValueInUsd(deposit.amount, deposit.currency);
+  if (!await confirmDeposit(deposit, valuation, confirmations)) return;
+
+  await saveTransaction(deposit.userId, deposit.toAddress, deposit.amount, deposit.currency, deposit.txHash, 'deposit', {
+    usdRate: valuation.usdRate, rateSource: valuation.rateSource,
+  });
+  console.log(`💰 ${deposit.currency} deposit: ${deposit.amount} ${deposit.currency} credited as ${valuation.usdValue} USD to user ${deposit.userId} | TX: ${deposit.txHash}`);
+};
+
+const confirmDeposits = async (adapter: ChainAdapter) => {
+  // Transfers of one transaction share its status
+  const statuses = new Map<string, Promise<OnchainTxStatus>>();
+
+  for (const deposit of await getPendingDeposits(adapter.blockchain)) {
+    try {
+      if (!statuses.has(deposit.txHash)) statuses.set(deposit.txHash, adapter.getConfirmations(deposit.txHash));
+      const status = await statuses.get(deposit.txHash);
+
+      if (status.state === 'failed') {
+        await failDeposit(deposit.id, status.confirmations);
+        console.log(`❌ ${deposit.currency} deposit ${deposit.txHash} failed on chain: ${status.error || 'reverted'}`);
+      } else if (status.state === 'success' && status.confirmations >= adapter.depositConfirmations) {
+        await creditDeposit(deposit, status.confirmations);
+      } else if (status.confirmations !== deposit.confirmations) {
+        await updateDepositConfirmations(deposit.id, status.confirmations);
+      }
+    } catch (err) {
+      console.error(`Error confirming deposit #${deposit.id}:`, err);
+    }
+  }
+};
+
+// One sweep per address and currency moves the balance of all its deposits
+const sweepDeposits = async (adapter: ChainAdapter, context: ScanContext) => {
+  const groups = new Map<string, DepositRecord[]>();
+  for (const deposit of await getUnsweptDeposits(adapter.blockchain)) {
+    const key = `${addressKey(adapter.blockchain, deposit.toAddress)}|${deposit.currency}`;
+    groups.set(key, [...(groups.get(key) || []), deposit]);
+  }
+
+  for (const [key, deposits] of groups) {
+    const [address, currency] = key.split('|');
+    const wallet = context.wallets.get(address);
+    if (!wallet) continue;
+    try {
+      const txHash = await adapter.sweep(wallet, currency);
+      if (!txHash) {
+        // Dust stays unswept and is retried on the next pass
+        console.log(`${sumAmounts(deposits.map((d) => d.amount))} ${currency} left on ${wallet.publicKey} for a later sweep`);
+        continue;
+      }
+      await markDepositsSwept(deposits.map((d) => d.id), txHash);
+    } catch (err) {
+      console.error(`❌ ${currency} sweep failed for ${wallet.publicKey}:`, err);
+    }
+  }
+};
+
+// One pass over a chain; skipped while the previous pass is still going
+const runChain = async (blockchain: string) => {
+  const state = stateOf(blockchain);
+  if (state.running) return;
+  state.running = true;
+  try {
+    const adapter = getChainAdapter(blockchain);
+    if (!adapter) throw new Error(`No chain adapter for ${blockchain}`);
+    const context = await loadContext(adapter);
+    await scanBlocks(adapter, context, state);
+    await confirmDeposits(adapter);
+    await sweepDeposits(adapter, context);
+    state.lastError = null;
+  } catch (err) {
+    state.lastError = err.message || String(err);
+    console.error(`Error in ${blockchain} deposit pass:`, err);
+  } finally {
+    state.running = false;
+    state.lastRunAt = new Date();
+  }
+};
+
+export const runOnce = async () => {
+  for (const blockchain of chains) {
+    await runChain(blockchain);
+  }
+};
+
+// Start the loop for the given chains, all adapters by default
+export const startDepositOrchestrator = (enabled: string[] = chains) => {
+  if (timer) {
+    console.log('⚠️ Deposit orchestrator is already running');
+    return;
+  }
+  chains = enabled;
+  console.log(`🕐 Starting deposit orchestrator for ${chains.join(', ')} (every ${INTERVAL_SECONDS}s)...`);
+
+  // Chains run side by side; each one's guard keeps its passes from overlapping
+  const run = () => chains.forEach((blockchain) => runChain(blockchain));
+  run();
+  timer = setInterval(run, INTERVAL_SECONDS * 1000);
+};
+
+export const stopDepositOrchestrator = () => {
+  if (!timer) {
+    console.log('⚠️ Deposit orchestrator is not running');
+    return;
+  }
+  clearInterval(timer);
+  timer = null;
+  console.log('🛑 Deposit orchestrator stopped');
+};
+
+export const getDepositOrchestratorStatus = () => ({
+  isRunning: Boolean(timer),
+  networks: chains,
+  chains: Object.fromEntries(chains.map((blockchain) => [blockchain, stateOf(blockchain)])),
+});
+
+// Deposit counts per network and overall; amounts are the USD credited
+export const getDepositOrchestratorStats = async () => {
+  const rows = await getDepositStats();
+  const stats: Record<string, { totalDeposits: number; totalAmount: number; pendingDeposits: number; confirmedDeposits: number }> = {};
+  for (const row of rows) {
+    stats[row.network.toLowerCase()] = {
+      totalDeposits: row.total,
+      totalAmount: toNumber(row.usdValue),
+      pendingDeposits: row.pending,
+      confirmedDeposits: row.confirmed,
+    };
+  }
+  return {
+    ...stats,
+    total: {
+      deposits: rows.reduce((sum, row) => sum + row.total, 0),
+      amount: toNumber(sumAmounts(rows.map((row) => row.usdValue))),
+      pending: rows.reduce((sum, row) => sum + row.pending, 0),
+      confirmed: rows.reduce((sum, row) => sum + row.confirmed, 0),
+    },
+  };
+};
+
+// Rescan the latest blocks for one deposit address, for deposits reported
+// missing. What is found goes through the normal confirmation and sweep.
+export const checkDepositAddress = async (blockchain: string, address: string) => {
+  const adapter = getChainAdapter(blockchain);
+  if (!adapter) throw new Error(`No chain adapter for ${blockchain}`);
+
+  const context = await loadContext(adapter, address);
+  if (!context.wallets.size) {
+    throw new Error(`${address} is not a ${blockchain} deposit address`);
+  }
+
+  const head = await adapter.getHead();
+  const from = Math.max(head - adapter.maxScanRange + 1, 0);
+  const transfers = adapter.parseTransfers(await adapter.scanRange(from, head, context), context);
+  let depositsRecorded = 0;
+  for (const transfer of transfers) {
+    if (await recordTransfer(adapter, context, transfer)) depositsRecorded++;
+  }
+
+  return { address, fromBlock: from, toBlock: head, depositsFound: transfers.length, depositsRecorded };
+};
@@ -0,0 +1,69 @@
+import { query } from '../db/pool';
+import {
+  currentEncryptionKeyId, decryptPrivateKey, encryptPrivateKey, needsReencryption,
+} from '../utils/bcrypt';
+
+// Re-encryption of stored wallet keys under the current master key, after a
+// key is added to ENCRYPTION_KEYS and made current. Both the old and the new
+// value decrypt while it runs, so nothing has to stop; a row is rewritten only
+// if it still holds the value that was read, so a concurrent change wins.
+
+const BATCH_SIZE = Number(process.env.KEY_REENCRYPTION_BATCH) || 100;
+
+export interface ReencryptionResult {
+  keyId: string;
+  scanned: number;
+  reencrypted: number;
+  failed: number;
+}
+
+// Stored wallet keys per master key id; 'legacy' is the pre-GCM format
+export const getWalletKeyStatus = async () => {
+  const { rows } = await query(
+    `SELECT CASE WHEN "privateKey" LIKE $1 THEN split_part("privateKey", ':', 2) ELSE $2 END AS "keyId",
+       COUNT(*)::int AS count
+     FROM "Wallets" WHERE "privateKey" IS NOT NULL
+     GROUP BY 1 ORDER BY 1`,
+    ['gcm1:%', 'legacy'],
+  );
+  return {
+    currentKeyId: currentEncryptionKeyId(),
+    keys: rows.map((r: any) => ({ keyId: r.keyId as string, count: Number(r.count) })),
+  };
+};
+
+export const reencryptWalletKeys = async (): Promise<ReencryptionResult> => {
+  const keyId = currentEncryptionKeyId();
+  const result: ReencryptionResult = { keyId, scanned: 0, reencrypted: 0, failed: 0 };
+
+  let lastId = '';
+  for (;;) {
+    const { rows } = await query(
+      `SELECT id::text AS id, "privateKey" AS "privateKey" FROM "Wallets"
+       WHERE "privateKey" IS NOT NULL AND "privateKey" NOT LIKE $1 AND id::text > $2
+       ORDER BY id::text LIMIT $3`,
+      [`gcm1:${keyId}:%`, lastId, BATCH_SIZE],
+    );
+    if (!rows.length) break;
+
+    for (const row of rows) {
+      result.scanned += 1;
+      try {
+        if (!needsReencryption(row.privateKey)) continue;
+        const reencrypted = encryptPrivateKey(decryptPrivateKey(row.privateKey));
+        const { rows: updated } = await query(
+          'UPDATE "Wallets" SET "privateKey" = $2 WHERE id::text = $1 AND "privateKey" = $3 RETURNING id',
+          [row.id, reencrypted, row.privateKey],
+        );
+        if (updated.length) result.reencrypted += 1;
+      } catch (error) {
+        // Usually a key missing from the ring; left as is and reported
+        result.failed += 1;
+        console.error(`Could not re-encrypt key of wallet ${row.id}:`, error);
+      }
+    }
+    lastId = rows[rows.length - 1].id;
+  }
+
+  return result;
+};
@@ -0,0 +1,243 @@
+import axios from 'axios';
+import { query } from '../db/pool';
+import { getPricedSymbols } from '../db/tokens';
+
+// USD prices for the currencies the platform holds: the native coins and the
+// tokens of the token registry.
+//
+// Every configured provider is asked in parallel and the median of the answers
+// is used per currency, so one bad or rate-limited source cannot move prices.
+// Results are cached for PRICE_CACHE_TTL_SECONDS; when a refresh fails the last
+// price keeps being served until it is older than PRICE_MAX_STALENESS_SECONDS,
+// after which conversions are refused instead of using a stale price. Every
+// fetched price is stored in PriceSnapshots for auditing past conversions.
+
+export interface PriceQuote {
+  symbol: string;
+  priceUsd: number;
+  source: string;
+  fetchedAt: Date;
+}
+
+export interface PriceProvider {
+  name: string;
+  fetchPrices(symbols: string[]): Promise<Record<string, number>>;
+}
+
+export interface PriceOracle {
+  getPrice(symbol: string): Promise<PriceQuote>;
+  getPrices(symbols?: string[]): Promise<Record<string, PriceQuote>>;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// CoinGecko names coins by id; ids of further tokens come from PRICE_COINGECKO_IDS
+const COINGECKO_IDS: Record<string, string> = {
+  TRX: 'tron',
+  ETH: 'ethereum',
+  SOL: 'solana',
+  BNB: 'binancecoin',
+  USDT: 'tether',
+  USDC: 'usd-coin',
+  ...(process.env.PRICE_COINGECKO_IDS ? JSON.parse(process.env.PRICE_COINGECKO_IDS) : {}),
+};
+
+export const coinGeckoProvider: PriceProvider = {
+  name: 'coingecko',
+  async fetchPrices(symbols) {
+    const ids = symbols.map((s) => COINGECKO_IDS[s]).filter(Boolean);
+    const { data } = await axios.get('https://api.coingecko.com/api/v3/simple/price', {
+      params: { ids: ids.join(','), vs_currencies: 'usd' },
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+
+    const prices: Record<string, number> = {};
+    for (const symbol of symbols) {
+      const price = data[COINGECKO_IDS[symbol]]?.usd;
+      if (price != null) prices[symbol] = Number(price);
+    }
+    return prices;
+  },
+};
+
+// Binance quotes against USDT, which is taken as 1 USD. All tickers are fetched
+// because Binance refuses the whole request when one pair is not listed, which
+// a registry token may not be.
+export const binanceProvider: PriceProvider = {
+  name: 'binance',
+  async fetchPrices(symbols) {
+    const { data } = await axios.get('https://api.binance.com/api/v3/ticker/price', {
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+
+    const prices: Record<string, number> = symbols.includes('USDT') ? { USDT: 1 } : {};
+    for (const ticker of data) {
+      const symbol = String(ticker.symbol).replace(/USDT$/, '');
+      if (symbol !== 'USDT' && `${symbol}USDT` === ticker.symbol && symbols.includes(symbol)) {
+        prices[symbol] = Number(ticker.price);
+      }
+    }
+    return prices;
+  },
+};
+
+const DEFAULT_STATIC_PRICES: Record<string, number> = {
+  TRX: 0.1,
+  ETH: 3000,
+  SOL: 150,
+  BNB: 600,
+  USDT: 1,
+  USDC: 1,
+};
+
+// Fixed prices for tests and local development, overridable with STATIC_PRICES
+// as JSON, e.g. {"ETH": 2500}
+export const createStaticProvider = (prices: Record<string, number> = {}): PriceProvider => ({
+  name: 'static',
+  async fetchPrices(symbols) {
+    const all = { ...DEFAULT_STATIC_PRICES, ...prices };
+    const result: Record<string, number> = {};
+    for (const symbol of symbols) {
+      if (all[symbol] != null) result[symbol] = all[symbol];
+    }
+    return result;
+  },
+});
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const recordSnapshots = async (quotes: PriceQuote[]) => {
+  if (!quotes.length) return;
+  const values: any[] = [];
+  const rows = quotes.map((q, i) => {
+    values.push(q.symbol, String(q.priceUsd), q.source, q.fetchedAt);
+    return `($${i * 4 + 1}, $${i * 4 + 2}, $${i * 4 + 3}, $${i * 4 + 4})`;
+  });
+  await query(
+    `INSERT INTO "PriceSnapshots" (symbol, "priceUsd", source, "fetchedAt") VALUES ${rows.join(', ')}`,
+    values,
+  );
+};
+
+export interface CachedPriceOracleOptions {
+  // Symbols fetched on every refresh and returned by getPrices() by default
+  symbols: () => Promise<string[]>;
+  ttlMs: number;
+  maxStalenessMs: number;
+  recordSnapshots?: boolean;
+}
+
+export class CachedPriceOracle implements PriceOracle {
+  private cache = new Map<string, PriceQuote>();
+
+  private refreshing: Promise<void> | null = null;
+
+  private lastRefreshAt = 0;
+
+  constructor(private providers: PriceProvider[], private options: CachedPriceOracleOptions) {
+    if (!providers.length) {
+      throw new Error('PriceOracle needs at least one provider');
+    }
+  }
+
+  public async getPrice(symbol: string): Promise<PriceQuote> {
+    const prices = await this.getPrices([symbol]);
+    return prices[symbol.toUpperCase()];
+  }
+
+  public async getPrices(symbols?: string[]): Promise<Record<string, PriceQuote>> {
+    const wanted = (symbols || await this.options.symbols()).map((s) => s.toUpperCase());
+
+    if (Date.now() - this.lastRefreshAt >= this.options.ttlMs) {
+      // Concurrent callers share one refresh
+      if (!this.refreshing) {
+        this.refreshing = this.refresh().finally(() => { this.refreshing = null; });
+      }
+      await this.refreshing;
+    }
+
+    const result: Record<string, PriceQuote> = {};
+    for (const symbol of wanted) {
+      const quote = this.cache.get(symbol);
+      if (!quote) {
+        throw new Error(`No price available for ${symbol}`);
+      }
+      if (Date.now() - quote.fetchedAt.getTime() > this.options.maxStalenessMs) {
+        throw new Error(`Price for ${symbol} is stale (last updated ${quote.fetchedAt.toISOString()})`);
+      }
+      result[symbol] = quote;
+    }
+    return result;
+  }
+
+  // Ask every provider, keep the median per symbol. Provider failures are only
+  // logged; symbols nobody answered for keep their previous cached price.
+  private async refresh() {
+    const symbols = await this.options.symbols().catch((err) => {
+      console.error('Failed to list priced symbols, refreshing the cached ones:', err?.message || err);
+      return [...this.cache.keys()];
+    });
+    const results = await Promise.allSettled(this.providers.map((p) => p.fetchPrices(symbols)));
+    const fetchedAt = new Date();
+    const snapshots: PriceQuote[] = [];
+    const answers = new Map<string, { price: number; source: string }[]>();
+
+    results.forEach((result, i) => {
+      const source = this.providers[i].name;
+      if (result.status === 'rejected') {
+        console.error(`Price provider ${source} failed:`, result.reason?.message || result.reason);
+        return;
+      }
+      for (const [symbol, price] of Object.entries(result.value)) {
+        if (!isFinite(price) || price <= 0) continue;
+        snapshots.push({ symbol, priceUsd: price, source, fetchedAt });
+        answers.set(symbol, [...(answers.get(symbol) || []), { price, source }]);
+      }
+    });
+
+    for (const [symbol, quotes] of answers) {
+      this.cache.set(symbol, {
+        symbol,
+        priceUsd: median(quotes.map((q) => q.price)),
+        source: quotes.length > 1 ? `median:${quotes.map((q) => q.source).join(',')}` : quotes[0].source,
+        fetchedAt,
+      });
+    }
+    this.lastRefreshAt = fetchedAt.getTime();
+
+    if (this.options.recordSnapshots && snapshots.length) {
+      recordSnapshots(snapshots).catch((err) => console.error('Failed to record price snapshots:', err));
+    }
+  }
+}
+
+const PROVIDERS: Record<string, () => PriceProvider> = {
+  coingecko: () => coinGeckoProvider,
+  binance: () => binanceProvider,
+  static: () => createStaticProvider(process.env.STATIC_PRICES ? JSON.parse(process.env.STATIC_PRICES) : {}),
+};
+
+const createPriceOracle = () => {
+  const names = (process.env.PRICE_PROVIDERS || 'coingecko,binance')
+    .split(',')
+    .map((n) => n.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers = names.map((name) => {
+    if (!PROVIDERS[name]) throw new Error(`Unknown price provider ${name}`);
+    return PROVIDERS[name]();
+  });
+
+  return new CachedPriceOracle(providers, {
+    symbols: getPricedSymbols,
+    ttlMs: (Number(process.env.PRICE_CACHE_TTL_SECONDS) || 60) * 1000,
+    maxStalenessMs: (Number(process.env.PRICE_MAX_STALENESS_SECONDS) || 600) * 1000,
+    recordSnapshots: process.env.PRICE_SNAPSHOTS !== 'false',
+  });
+};
+
+export const priceOracle: PriceOracle = createPriceOracle();
@@ -0,0 +1,232 @@
+import prisma from '../db/prisma';
+import { query } from '../db/pool';
+import { getAllWallets } from '../db/wallets';
+import { sendNotificationEmail } from '../utils/email';
+import { convertAmount } from '../utils/exchange';
+import { Amount, sumAmounts, toAmount, toDbAmount } from '../utils/money';
+
+// Custody reconciliation: what the platform holds on-chain (main pools plus
+// deposit addresses that have not been swept yet) against what it owes users
+// (every Balance row, available and locked), both valued in USD.
+
+type HoldingSource = 'main_pool' | 'deposit';
+
+interface Holding {
+  chain: string;
+  source: HoldingSource;
+  address: string;
+  currency: string;
+  amount: Amount;
+}
+
+interface SourceError {
+  chain: string;
+  source?: HoldingSource;
+  address?: string;
+  message: string;
+}
+
+const DRIFT_THRESHOLD_USD = toAmount(process.env.RECONCILIATION_DRIFT_THRESHOLD_USD || 100);
+const ALERT_EMAIL = process.env.RECONCILIATION_ALERT_EMAIL;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const toAmounts = (balances: Record<string, number>): Record<string, Amount> =>
+  Object.fromEntries(Object.entries(balances).map(([currency, amount]) => [currency, toAmount(amount)]));
+
+// Read each address with readBalances, keeping non-zero balances and recording failures
+const collect = async (
+  chain: string,
+  source: HoldingSource,
+  addresses: string[],
+  readBalances: (address: string) => Promise<Record<string, Amount>>,
+  holdings: Holding[],
+  errors: SourceError[],
+) => {
+  for (const address of addresses) {
+    if (!address) continue;
+    try {
+      const balances = await readBalances(address);
+      for (const [currency, amount] of Object.entries(balances)) {
+        if (amount.gt(0)) holdings.push({ chain, source, address, currency, amount });
+      }
+    } catch (error) {
+      errors.push({ chain, source, address, message: errorMessage(error) });
+    }
+  }
+};
+
+const depositAddresses = async (blockchain: string) => {
+  const wallets = await getAllWallets(blockchain);
+  return wallets.map((w: any) => w.publicKey as string);
+};
+
+const collectHoldings = async () => {
+  const holdings: Holding[] = [];
+  const errors: SourceError[] = [];
+
+  const chains: Array<{ chain: string; read: () => Promise<void> }> = [
+    {
+      chain: 'Tron',
+      read: async () => {
+        const { getTronBalances, getTronMainPoolBalances } = require('../blockchain/tron');
+        await collect('Tron', 'main_pool', [process.env.TRON_MAIN_POOL_ADDRESS], () => getTronMainPoolBalances(), holdings, errors);
+        await collect('Tron', 'deposit', await depositAddresses('Tron'), getTronBalances, holdings, errors);
+      },
+    },
+    {
+      chain: 'Ethereum',
+      read: async () => {
+        const { getEthBalances, getEthMainPoolBalances } = require('../blockchain/ether');
+        await collect('Ethereum', 'main_pool', [process.env.ETH_MAIN_POOL_ADDRESS], () => getEthMainPoolBalances(), holdings, errors);
+        await collect('Ethereum', 'deposit', await depositAddresses('Ethereum'), getEthBalances, holdings, errors);
+      },
+    },
+    {
+      chain: 'BNB',
+      read: async () => {
+        const { getBscBalances, getBscMainPoolBalances } = require('../blockchain/ether');
+        await collect('BNB', 'main_pool', [process.env.BSC_MAIN_POOL_ADDRESS], () => getBscMainPoolBalances(), holdings, errors);
+        await collect('BNB', 'deposit', await depositAddresses('BNB'), getBscBalances, holdings, errors);
+      },
+    },
+    {
+      chain: 'Solana',
+      read: async () => {
+        const { getMainPoolPublicKey, getSolanaBalances } = require('../blockchain/solana');
+        const mainPool = (await getMainPoolPublicKey()).toString();
+        await collect('Solana', 'main_pool', [mainPool], async () => toAmounts(await getSolanaBalances(mainPool)), holdings, errors);
+        await collect('Solana', 'deposit', await depositAddresses('Solana'), async (address) =>
+          toAmounts(await getSolanaBalances(address)), holdings, errors);
+      },
+    },
+  ];
+
+  for (const { chain, read } of chains) {
+    try {
+      await read();
+    } catch (error) {
+      // Chain not configured or unreachable; the report says so instead of failing
+      errors.push({ chain, message: errorMessage(error) });
+    }
+  }
+
+  return { holdings, errors };
+};
+
+// Everything users are owed, per currency
+const collectLiabilities = async () => {
+  const { rows } = await query(
+    `SELECT currency, SUM(amount)::text AS amount, SUM(lock)::text AS lock
+     FROM "Balances"
+     GROUP BY currency
+     ORDER BY currency`,
+    [],
+  );
+  return rows.map((r: any) => ({
+    currency: r.currency as string,
+    available: toAmount(r.amount),
+    locked: toAmount(r.lock),
+    total: toAmount(r.amount).plus(toAmount(r.lock)),
+  }));
+};
+
+// USD value per currency, converting each currency once
+const usdValues = async (amounts: Array<{ currency: string; amount: Amount }>, errors: SourceError[]) => {
+  const totals = new Map<string, Amount>();
+  for (const { currency, amount } of amounts) {
+    totals.set(currency, (totals.get(currency) || toAmount(0)).plus(amount));
+  }
+
+  const values = new Map<string, Amount>();
+  for (const [currency, total] of totals) {
+    try {
+      values.set(currency, await convertAmount(total, currency, 'USD'));
+    } catch (error) {
+      errors.push({ chain: 'pricing', message: `Cannot value ${currency}: ${errorMessage(error)}` });
+    }
+  }
+  return values;
+};
+
+const raiseAlert = async (report: any) => {
+  const text = `Custody reconciliation #${report.id}: assets ${report.assetsUsd} USD, `
+    + `liabilities ${report.liabilitiesUsd} USD, drift ${report.driftUsd} USD `
+    + `(threshold ${report.thresholdUsd} USD).`;
+
+  console.error(`🚨 ${text}`);
+
+  if (ALERT_EMAIL) {
+    try {
+      await sendNotificationEmail(ALERT_EMAIL, 'OK777 custody reconciliation alert', text);
+    } catch (error) {
+      console.error('Failed to send reconciliation alert email:', error);
+    }
+  }
+};
+
+// Run one reconciliation, store the report and alert when the drift is too large
+export const runReconciliation = async () => {
+  const { holdings, errors } = await collectHoldings();
+  const liabilities = await collectLiabilities();
+
+  const assetValues = await usdValues(holdings, errors);
+  const liabilityValues = await usdValues(
+    liabilities.map((l) => ({ currency: l.currency, amount: l.total })),
+    errors,
+  );
+
+  const assetsUsd = sumAmounts([...assetValues.values()]);
+  const liabilitiesUsd = sumAmounts([...liabilityValues.values()]);
+  const driftUsd = assetsUsd.minus(liabilitiesUsd);
+  const status = driftUsd.abs().gt(DRIFT_THRESHOLD_USD) ? 'alert' : 'ok';
+
+  const report = await prisma.reconciliationReport.create({
+    data: {
+      status,
+      assetsUsd: toDbAmount(assetsUsd),
+      liabilitiesUsd: toDbAmount(liabilitiesUsd),
+      driftUsd: toDbAmount(driftUsd),
+      thresholdUsd: toDbAmount(DRIFT_THRESHOLD_USD),
+      assets: holdings.map((h) => ({ ...h, amount: h.amount.toFixed() })),
+      liabilities: liabilities.map((l) => ({
+        currency: l.currency,
+        available: l.available.toFixed(),
+        locked: l.locked.toFixed(),
+        total: l.total.toFixed(),
+        usd: liabilityValues.get(l.currency)?.toFixed() ?? null,
+      })),
+      errors,
+    },
+  });
+
+  if (status === 'alert') {
+    await raiseAlert(report);
+  }
+  if (errors.length) {
+    console.warn(`⚠️ Reconciliation #${report.id} could not read ${errors.length} source(s)`);
+  }
+
+  return report;
+};
+
+export const getReconciliationReports = async (page = 1, pageSize = 20, status?: string) => {
+  const where: any = {};
+  if (status) where.status = status;
+
+  const [reports, total] = await Promise.all([
+    prisma.reconciliationReport.findMany({
+      where,
+      orderBy: { id: 'desc' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.reconciliationReport.count({ where }),
+  ]);
+
+  return { reports, total, page, pageSize };
+};
+
+export const getReconciliationReport = async (id: number) => {
+  return prisma.reconciliationReport.findUnique({ where: { id } });
+};
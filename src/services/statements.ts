@@ -0,0 +1,269 @@
+import prisma from '../db/prisma';
+import { query } from '../db/pool';
+import { sendNotificationEmail } from '../utils/email';
+import { toCsvRow } from '../utils/export';
+import { Amount, toAmount } from '../utils/money';
+
+// Account statements: every balance movement of a user for a period, grouped
+// per currency with opening and closing balances. Movements come from wallet
+// transactions, confirmed deposits, in-house bets, provider wagers and paid
+// referral bonuses; the opening balance is the sum of everything before.
+
+export type StatementFormat = 'json' | 'csv' | 'html';
+
+export interface StatementMovement {
+  date: Date;
+  type: string;
+  description: string;
+  reference: string;
+  currency: string;
+  amount: Amount;
+  balance: Amount;
+}
+
+export interface StatementCurrency {
+  currency: string;
+  opening: Amount;
+  credits: Amount;
+  debits: Amount;
+  closing: Amount;
+  movements: StatementMovement[];
+}
+
+export interface Statement {
+  user: { id: number; email: string | null; name: string | null };
+  period: { label: string; from: Date; to: Date };
+  generatedAt: Date;
+  currencies: StatementCurrency[];
+}
+
+// Deposit sweeps are also saved as Transactions; the Deposit row is kept instead
+const MOVEMENTS_SQL = `
+  SELECT "createdAt" AS date, type, type AS description, COALESCE("txId", '') AS reference,
+         currency, amount::text AS amount
+  FROM "Transactions"
+  WHERE "userId" = $1
+    AND NOT (type = 'deposit' AND "txId" IN (SELECT "txHash" FROM "Deposits" WHERE "userId" = $1))
+  UNION ALL
+  SELECT COALESCE("confirmedAt", "createdAt"), 'deposit', network || ' deposit', "txHash",
+         currency, amount::text
+  FROM "Deposits" WHERE "userId" = $1 AND status = 'confirmed'
+  UNION ALL
+  SELECT "createdAt", 'bet', 'Bet stake', id::text, token, (-amount)::text
+  FROM "Bets" WHERE "userId" = $1
+  UNION ALL
+  SELECT "createdAt", 'bet_payout', 'Bet payout', id::text, token, payout::text
+  FROM "Bets" WHERE "userId" = $1 AND payout > 0
+  UNION ALL
+  SELECT "createdAt", 'wager', 'Game ' || "gameCode", "wagerCode", currency,
+         ("prizeAmount" - "betAmount")::text
+  FROM "Wagers" WHERE "userId" = $1
+  UNION ALL
+  SELECT "createdAt", 'bonus', 'Referral bonus (' || "triggerType" || ')', id::text, currency, amount::text
+  FROM "ReferralBonuses" WHERE "userId" = $1 AND status = 'paid'`;
+
+// Calendar month in UTC, e.g. "2025-01"; defaults to the previous month
+export const parseStatementPeriod = (month?: string) => {
+  let year: number;
+  let monthIndex: number;
+
+  if (month) {
+    const match = /^(\d{4})-(\d{2})$/.exec(month);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+      throw new Error('month must be in YYYY-MM format');
+    }
+    year = Number(match[1]);
+    monthIndex = Number(match[2]) - 1;
+  } else {
+    const now = new Date();
+    year = now.getUTCFullYear();
+    monthIndex = now.getUTCMonth() - 1;
+  }
+
+  const from = new Date(Date.UTC(year, monthIndex, 1));
+  const to = new Date(Date.UTC(year, monthIndex + 1, 1));
+  if (from.getTime() > Date.now()) {
+    throw new Error('Statement period has not started yet');
+  }
+
+  return { label: from.toISOString().slice(0, 7), from, to };
+};
+
+export const buildStatement = async (userId: number, month?: string): Promise<Statement> => {
+  const period = parseStatementPeriod(month);
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) throw new Error('User not found');
+
+  const [openingRows, movementRows] = await Promise.all([
+    query(
+      `SELECT currency, SUM(amount::numeric)::text AS amount
+       FROM (${MOVEMENTS_SQL}) m
+       WHERE date < $2
+       GROUP BY currency`,
+      [userId, period.from],
+    ),
+    query(
+      `SELECT * FROM (${MOVEMENTS_SQL}) m
+       WHERE date >= $2 AND date < $3
+       ORDER BY date, reference`,
+      [userId, period.from, period.to],
+    ),
+  ]);
+
+  const currencies = new Map<string, StatementCurrency>();
+  const sectionFor = (currency: string) => {
+    if (!currencies.has(currency)) {
+      currencies.set(currency, {
+        currency,
+        opening: toAmount(0),
+        credits: toAmount(0),
+        debits: toAmount(0),
+        closing: toAmount(0),
+        movements: [],
+      });
+    }
+    return currencies.get(currency);
+  };
+
+  for (const row of openingRows.rows) {
+    const section = sectionFor(row.currency);
+    section.opening = toAmount(row.amount);
+    section.closing = section.opening;
+  }
+
+  for (const row of movementRows.rows) {
+    const section = sectionFor(row.currency);
+    const amount = toAmount(row.amount);
+    if (amount.isZero()) continue;
+
+    if (amount.isNegative()) section.debits = section.debits.plus(amount.negated());
+    else section.credits = section.credits.plus(amount);
+    section.closing = section.closing.plus(amount);
+
+    section.movements.push({
+      date: new Date(row.date),
+      type: row.type,
+      description: row.description,
+      reference: row.reference,
+      currency: row.currency,
+      amount,
+      balance: section.closing,
+    });
+  }
+
+  return {
+    user: { id: user.id, email: user.email || null, name: user.name || null },
+    period,
+    generatedAt: new Date(),
+    currencies: [...currencies.values()]
+      .filter((c) => !c.opening.isZero() || c.movements.length)
+      .sort((a, b) => a.currency.localeCompare(b.currency)),
+  };
+};
+
+export const statementToCsv = (statement: Statement) => {
+  let csv = toCsvRow(['date', 'type', 'description', 'reference', 'currency', 'amount', 'balance']);
+  const { from, to } = statement.period;
+
+  for (const c of statement.currencies) {
+    csv += toCsvRow([from, 'opening', 'Opening balance', '', c.currency, '', c.opening.toFixed()]);
+    for (const m of c.movements) {
+      csv += toCsvRow([m.date, m.type, m.description, m.reference, m.currency, m.amount.toFixed(), m.balance.toFixed()]);
+    }
+    csv += toCsvRow([to, 'closing', 'Closing balance', '', c.currency, '', c.closing.toFixed()]);
+  }
+  return csv;
+};
+
+const escapeHtml = (value: any) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const formatDate = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19);
+
+// Self-contained, print-ready document (A4); browsers save it as PDF via print
+export const statementToHtml = (statement: Statement) => {
+  const { user, period } = statement;
+  const lastDay = new Date(period.to.getTime() - 1).toISOString().slice(0, 10);
+
+  const sections = statement.currencies.map((c) => `
+    <h2>${escapeHtml(c.currency)}</h2>
+    <table class="summary">
+      <tr><th>Opening balance</th><td>${c.opening.toFixed()}</td></tr>
+      <tr><th>Credits</th><td>${c.credits.toFixed()}</td></tr>
+      <tr><th>Debits</th><td>${c.debits.toFixed()}</td></tr>
+      <tr><th>Closing balance</th><td>${c.closing.toFixed()}</td></tr>
+    </table>
+    <table>
+      <thead><tr><th>Date (UTC)</th><th>Type</th><th>Description</th><th>Reference</th><th class="num">Amount</th><th class="num">Balance</th></tr></thead>
+      <tbody>
+        ${c.movements.map((m) => `<tr>
+          <td>${formatDate(m.date)}</td>
+          <td>${escapeHtml(m.type)}</td>
+          <td>${escapeHtml(m.description)}</td>
+          <td class="ref">${escapeHtml(m.reference)}</td>
+          <td class="num">${m.amount.toFixed()}</td>
+          <td class="num">${m.balance.toFixed()}</td>
+        </tr>`).join('') || '<tr><td colspan="6">No movements in this period</td></tr>'}
+      </tbody>
+    </table>`).join('');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>OK777 statement ${escapeHtml(period.label)}</title>
+  <style>
+    @page { size: A4; margin: 16mm; }
+    body { font-family: Arial, Helvetica, sans-serif; color: #111; font-size: 12px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    h2 { font-size: 15px; margin: 24px 0 8px; border-bottom: 1px solid #ccc; padding-bottom: 4px; }
+    .meta { color: #555; margin-bottom: 16px; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 8px; }
+    th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #eee; vertical-align: top; }
+    thead th { background: #f3f4f6; }
+    table.summary { width: auto; }
+    table.summary th { padding-right: 24px; }
+    .num { text-align: right; white-space: nowrap; }
+    .ref { word-break: break-all; max-width: 180px; }
+    tr { page-break-inside: avoid; }
+  </style>
+</head>
+<body>
+  <h1>OK777 account statement</h1>
+  <div class="meta">
+    ${escapeHtml(user.name || user.email || `User #${user.id}`)} &middot; account #${user.id}<br/>
+    Period: ${period.from.toISOString().slice(0, 10)} to ${lastDay} (UTC)<br/>
+    Generated: ${formatDate(statement.generatedAt)} UTC
+  </div>
+  ${sections || '<p>No balances or movements in this period.</p>'}
+</body>
+</html>`;
+};
+
+export const renderStatement = (statement: Statement, format: StatementFormat) => {
+  if (format === 'csv') {
+    return { contentType: 'text/csv; charset=utf-8', body: statementToCsv(statement) };
+  }
+  if (format === 'html') {
+    return { contentType: 'text/html; charset=utf-8', body: statementToHtml(statement) };
+  }
+  return { contentType: 'application/json; charset=utf-8', body: JSON.stringify(statement) };
+};
+
+export const statementFilename = (statement: Statement, format: StatementFormat) =>
+  `statement-${statement.user.id}-${statement.period.label}.${format}`;
+
+// Email the statement as an HTML body with the CSV attached
+export const emailStatement = async (statement: Statement, email = statement.user.email) => {
+  if (!email) throw new Error('User has no email address');
+
+  const { label } = statement.period;
+  const text = `Your OK777 account statement for ${label} is attached.`;
+  await sendNotificationEmail(email, `OK777 account statement ${label}`, text, statementToHtml(statement), [
+    { filename: statementFilename(statement, 'csv'), content: statementToCsv(statement) },
+  ]);
+};
@@ -0,0 +1,103 @@
+import BigNumber from 'bignumber.js';
+import { NATIVE_CURRENCIES, getToken } from '../db/tokens';
+import { getExchangeRate } from '../utils/exchange';
+import { Amount, AmountLike, getDecimals, parseAmount, roundAmount, toAmount } from '../utils/money';
+
+// What a withdrawal costs the user: the estimated network fee of sending it
+// from the pool, converted to the withdrawn currency, plus the platform fee
+// (WITHDRAW_PLATFORM_FEE_BPS of the amount and a flat fee: the token's
+// withdrawFee from the registry, or for native coins the amount set in
+// WITHDRAW_PLATFORM_FLAT_FEES). Both are deducted from the amount, so the
+// recipient gets netAmount while the user's balance pays the full amount.
+// Fees are rounded up to the currency's precision.
+
+export interface WithdrawFeeQuote {
+  blockchain: string;
+  currency: string;
+  amount: Amount;
+  // Network fee in the chain's native coin and converted to currency
+  nativeCurrency: string;
+  networkFeeNative: Amount;
+  networkFee: Amount;
+  platformFee: Amount;
+  totalFee: Amount;
+  netAmount: Amount;
+}
+
+const PLATFORM_FEE_BPS = Number(process.env.WITHDRAW_PLATFORM_FEE_BPS) || 0;
+const PLATFORM_FLAT_FEES: Record<string, number> = process.env.WITHDRAW_PLATFORM_FLAT_FEES
+  ? JSON.parse(process.env.WITHDRAW_PLATFORM_FLAT_FEES)
+  : {};
+
+const CACHE_TTL_MS = (Number(process.env.WITHDRAW_FEE_CACHE_SECONDS) || 30) * 1000;
+const cache = new Map<string, { fee: Amount; at: number }>();
+
+// Chain modules are required on demand; they start watchers when loaded
+const estimatorFor = (blockchain: string): ((currency: string) => Promise<Amount>) | null => {
+  if (blockchain === 'Tron') return require('../blockchain/tron').estimateTronWithdrawFee;
+  if (blockchain === 'Ethereum') return require('../blockchain/ether').estimateEthWithdrawFee;
+  if (blockchain === 'BNB') return require('../blockchain/ether').estimateBscWithdrawFee;
+  if (blockchain === 'Solana') return require('../blockchain/solana').estimateSolanaWithdrawFee;
+  return null;
+};
+
+const roundUp = (amount: Amount, currency: string) =>
+  amount.decimalPlaces(getDecimals(currency), BigNumber.ROUND_UP);
+
+// Network fee in the chain's native coin, cached for a short while
+export const estimateNetworkFee = async (blockchain: string, currency: string) => {
+  const nativeCurrency = NATIVE_CURRENCIES[blockchain];
+  const estimate = estimatorFor(blockchain);
+  if (!nativeCurrency || !estimate) {
+    throw new Error(`Unsupported blockchain ${blockchain}`);
+  }
+
+  const key = `${blockchain}:${currency}`;
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) {
+    return { nativeCurrency, fee: cached.fee };
+  }
+
+  const fee = toAmount(await estimate(currency));
+  cache.set(key, { fee, at: Date.now() });
+  return { nativeCurrency, fee };
+};
+
+export const quoteWithdrawFee = async (
+  blockchain: string,
+  currency: string,
+  amount: AmountLike,
+): Promise<WithdrawFeeQuote> => {
+  const parsed = parseAmount(amount);
+  const amountNum = parsed ? roundAmount(parsed, currency) : null;
+  if (!amountNum || !amountNum.gt(0)) {
+    throw new Error('Invalid withdraw amount');
+  }
+
+  const { nativeCurrency, fee: networkFeeNative } = await estimateNetworkFee(blockchain, currency);
+  const networkFee = roundUp(
+    currency === nativeCurrency
+      ? networkFeeNative
+      : networkFeeNative.times(await getExchangeRate(nativeCurrency, currency)),
+    currency,
+  );
+  const token = currency === nativeCurrency ? null : await getToken(blockchain, currency);
+  const flatFee = token ? token.withdrawFee : PLATFORM_FLAT_FEES[currency] || 0;
+  const platformFee = roundUp(
+    amountNum.times(PLATFORM_FEE_BPS).div(10000).plus(flatFee),
+    currency,
+  );
+  const totalFee = networkFee.plus(platformFee);
+
+  return {
+    blockchain,
+    currency,
+    amount: amountNum,
+    nativeCurrency,
+    networkFeeNative,
+    networkFee,
+    platformFee,
+    totalFee,
+    netAmount: BigNumber.max(amountNum.minus(totalFee), 0),
+  };
+};
@@ -0,0 +1,176 @@
+import { query } from '../db/pool';
+import { saveTransaction } from '../db/wallets';
+import {
+  WITHDRAW_COLUMNS, WithdrawRequestRecord, confirmWithdrawal, recordWithdrawalTxHash, refundWithdrawal,
+  toWithdrawRequest, transitionWithdrawal, updateWithdrawalConfirmations,
+} from '../db/withdrawals';
+import { getChainAdapter } from '../blockchain/adapters';
+import { convertAmount } from '../utils/exchange';
+import { roundAmount } from '../utils/money';
+
+// Drives approved withdrawals on chain: broadcasts them, then follows each
+// transaction until it has enough confirmations (or reverted, which refunds
+// the user). The signed transaction's hash is stored before it is sent: a
+// send that throws before then is marked failed and left for an admin to
+// retry or refund, one that throws after may have reached the network and is
+// followed by its hash like any other broadcast.
+
+const BATCH_SIZE = Number(process.env.WITHDRAWAL_WORKER_BATCH) || 20;
+// Requests left broadcasting this long were interrupted mid-send
+const BROADCASTING_STALE_SECONDS = Number(process.env.WITHDRAWAL_BROADCASTING_STALE_SECONDS) || 300;
+
+const WITHDRAW_CONFIRMATIONS: Record<string, number> = {
+  Tron: Number(process.env.WITHDRAW_CONFIRMATIONS_TRON) || 19,
+  Ethereum: Number(process.env.WITHDRAW_CONFIRMATIONS_ETHEREUM) || 12,
+  BNB: Number(process.env.WITHDRAW_CONFIRMATIONS_BSC) || 15,
+  // Only finalized transactions report success
+  Solana: 1,
+};
+
+const findWithdrawals = async (status: string) => {
+  const { rows } = await query(
+    `SELECT ${WITHDRAW_COLUMNS} FROM "WithdrawRequests" WHERE status = $1 ORDER BY id LIMIT $2`,
+    [status, BATCH_SIZE],
+  );
+  return rows.map(toWithdrawRequest);
+};
+
+// Requests created before the crypto amount was stored only know the USD value
+const grossAmount = async (withdrawal: WithdrawRequestRecord) =>
+  withdrawal.cryptoAmount || convertAmount(withdrawal.amount, 'USD', withdrawal.currency);
+
+// The recipient gets the amount less the fees quoted with the request
+const amountToSend = async (withdrawal: WithdrawRequestRecord) =>
+  withdrawal.netAmount || grossAmount(withdrawal);
+
+export const broadcastWithdrawal = async (withdrawal: WithdrawRequestRecord) => {
+  const chain = getChainAdapter(withdrawal.blockchain);
+  const amount = await amountToSend(withdrawal);
+
+  if (chain?.precheckSend) {
+    const reason = await chain.precheckSend(withdrawal.currency, amount);
+    if (reason) {
+      console.warn(`⏳ Withdrawal #${withdrawal.id} waiting: ${reason}`);
+      return;
+    }
+  }
+
+  // Claim the request; throws if another worker or an admin moved it first
+  await transitionWithdrawal(withdrawal.id, 'broadcasting');
+
+  let signedHash: string | null = null;
+  let txHash: string;
+  try {
+    if (!chain) {
+      throw new Error(`Unsupported withdrawal ${withdrawal.currency} on ${withdrawal.blockchain}`);
+    }
+    txHash = await chain.send(withdrawal.currency, withdrawal.to, amount, {
+      memo: withdrawal.memo || undefined,
+      onSigned: async (hash) => {
+        await recordWithdrawalTxHash(withdrawal.id, hash);
+        signedHash = hash;
+      },
+    });
+  } catch (err) {
+    if (!signedHash) {
+      // Nothing was signed, so nothing can be on chain
+      console.error(`❌ Withdrawal #${withdrawal.id} broadcast failed:`, err);
+      await transitionWithdrawal(withdrawal.id, 'failed', { failureReason: err.message || String(err) });
+      return;
+    }
+    // The node may have taken it before failing; confirmations tell
+    console.error(`⚠️ Withdrawal #${withdrawal.id} may have been broadcast as ${signedHash}:`, err);
+    txHash = signedHash;
+  }
+
+  try {
+    await transitionWithdrawal(withdrawal.id, 'broadcast', { txHash });
+  } catch (err) {
+    // The hash is stored; the stale broadcast sweep marks it later
+    console.error(`🚨 Withdrawal #${withdrawal.id} was broadcast as ${txHash} but could not be marked:`, err);
+  }
+};
+
+// Settle requests a worker left broadcasting, e.g. by crashing mid-send. One
+// with a stored hash may be on chain and is followed by it; one without was
+// never signed, since the hash is stored before sending, and is marked failed.
+export const recoverStaleBroadcast = async (withdrawal: WithdrawRequestRecord) => {
+  if (withdrawal.txHash) {
+    await transitionWithdrawal(withdrawal.id, 'broadcast', { txHash: withdrawal.txHash });
+    console.warn(`⚠️ Withdrawal #${withdrawal.id} was left broadcasting; following ${withdrawal.txHash}`);
+    return;
+  }
+  await transitionWithdrawal(withdrawal.id, 'failed', { failureReason: 'Interrupted before the transaction was signed' });
+  console.warn(`⚠️ Withdrawal #${withdrawal.id} was left broadcasting before signing; marked failed`);
+};
+
+const findStaleBroadcasts = async () => {
+  const { rows } = await query(
+    `SELECT ${WITHDRAW_COLUMNS} FROM "WithdrawRequests"
+     WHERE status = 'broadcasting' AND "updatedAt" < now() - make_interval(secs => $1)
+     ORDER BY id LIMIT $2`,
+    [BROADCASTING_STALE_SECONDS, BATCH_SIZE],
+  );
+  return rows.map(toWithdrawRequest);
+};
+
+export const checkWithdrawalConfirmation = async (withdrawal: WithdrawRequestRecord) => {
+  const chain = getChainAdapter(withdrawal.blockchain);
+  if (!chain || !withdrawal.txHash) return;
+
+  const status = await chain.getConfirmations(withdrawal.txHash);
+  const fee = status.fee ? { fee: status.fee, feeCurrency: status.feeCurrency } : {};
+
+  if (status.state === 'failed') {
+    await transitionWithdrawal(withdrawal.id, 'failed', {
+      ...fee, confirmations: status.confirmations, failureReason: status.error || 'Transaction failed on chain',
+    });
+    // Nothing left the pool, so the user gets the held amount back
+    await refundWithdrawal(withdrawal.id);
+    console.log(`↩️ Withdrawal #${withdrawal.id} reverted on chain and was refunded`);
+    return;
+  }
+
+  if (status.state === 'success' && status.confirmations >= WITHDRAW_CONFIRMATIONS[withdrawal.blockchain]) {
+    await confirmWithdrawal(withdrawal.id, { ...fee, confirmations: status.confirmations });
+
+    const amount = await grossAmount(withdrawal);
+    await saveTransaction(withdrawal.userId, withdrawal.to, amount.negated(), withdrawal.currency, withdrawal.txHash, 'withdraw', {
+      usdRate: roundAmount(withdrawal.amount.div(amount), 'USD'), rateSource: 'withdraw_request',
+    });
+    console.log(`✅ Withdrawal #${withdrawal.id} confirmed: ${withdrawal.txHash}`);
+    return;
+  }
+
+  if (status.confirmations !== withdrawal.confirmations) {
+    await updateWithdrawalConfirmations(withdrawal.id, status.confirmations);
+  }
+};
+
+// One pass of the worker: settle interrupted sends, send what was approved,
+// then follow what was sent
+export const runWithdrawalWorker = async () => {
+  for (const withdrawal of await findStaleBroadcasts()) {
+    try {
+      await recoverStaleBroadcast(withdrawal);
+    } catch (err) {
+      console.error(`Error recovering withdrawal #${withdrawal.id}:`, err);
+    }
+  }
+
+  for (const withdrawal of await findWithdrawals('approved')) {
+    try {
+      await broadcastWithdrawal(withdrawal);
+    } catch (err) {
+      console.error(`Error broadcasting withdrawal #${withdrawal.id}:`, err);
+    }
+  }
+
+  for (const withdrawal of await findWithdrawals('broadcast')) {
+    try {
+      await checkWithdrawalConfirmation(withdrawal);
+    } catch (err) {
+      console.error(`Error checking withdrawal #${withdrawal.id}:`, err);
+    }
+  }
+};
@@ -0,0 +1,31 @@
+import { createLocalSigner } from './localSigner';
+import { Signer, SignerChain } from './types';
+
+export * from './types';
+export { isolateSignerKeys } from './localSigner';
+
+// SIGNER picks the implementation; only the local signing process exists so
+// far, a KMS or HSM backed one would be added here
+let signer: Signer | null = null;
+const addresses = new Map<SignerChain, Promise<string>>();
+
+export const getSigner = (): Signer => {
+  if (!signer) {
+    const kind = process.env.SIGNER || 'local';
+    if (kind !== 'local') {
+      throw new Error(`Unknown SIGNER ${kind}`);
+    }
+    signer = createLocalSigner();
+  }
+  return signer;
+};
+
+// Main pool address of a chain, as the signer holding its key reports it
+export const getPoolAddress = (chain: SignerChain) => {
+  if (!addresses.has(chain)) {
+    const address = getSigner().getAddress(chain);
+    address.catch(() => addresses.delete(chain));
+    addresses.set(chain, address);
+  }
+  return addresses.get(chain);
+};
@@ -0,0 +1,105 @@
+import { ChildProcess, fork } from 'child_process';
+import path from 'path';
+import { Signer } from './types';
+
+// Signer backed by signerProcess, forked on first use and again after it exits.
+// Requests and answers travel over the IPC channel, matched by id. The child
+// gets the main pool keys and the SIGNER_* settings as its whole environment;
+// isolateSignerKeys takes the keys out of the application's own.
+
+const TIMEOUT_MS = Number(process.env.SIGNER_TIMEOUT_MS) || 30_000;
+
+export const SIGNER_KEY_NAMES = [
+  'TRON_MAIN_POOL_PK', 'ETH_MAIN_POOL_PK', 'BSC_MAIN_POOL_PK', 'SOLANA_MAIN_POOL_PRIVATE_KEY',
+];
+
+// Settings the child needs besides the keys; TS_NODE_* for running under ts-node
+const PASSED_ENV = /^(SIGNER_|TS_NODE_|NODE_ENV$|PATH$)/;
+
+const signerKeys: Record<string, string> = {};
+
+// Move the main pool keys out of process.env, to be handed only to the
+// signing process. Call once the environment is loaded; calling it again
+// picks up keys set since.
+export const isolateSignerKeys = () => {
+  for (const name of SIGNER_KEY_NAMES) {
+    if (process.env[name] !== undefined) {
+      signerKeys[name] = process.env[name];
+      delete process.env[name];
+    }
+  }
+};
+
+const signerEnv = () => {
+  isolateSignerKeys();
+  const env: NodeJS.ProcessEnv = { ...signerKeys };
+  for (const [name, value] of Object.entries(process.env)) {
+    if (PASSED_ENV.test(name)) env[name] = value;
+  }
+  return env;
+};
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export const createLocalSigner = (): Signer => {
+  let child: ChildProcess | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingRequest>();
+
+  const settle = (id: number) => {
+    const request = pending.get(id);
+    if (request) {
+      clearTimeout(request.timer);
+      pending.delete(id);
+    }
+    return request;
+  };
+
+  const start = () => {
+    // Under ts-node the entry is TypeScript and the child needs the same loader
+    const extension = path.extname(__filename);
+    const processChild = fork(path.join(__dirname, `signerProcess${extension}`), [], {
+      execArgv: extension === '.ts' ? ['-r', 'ts-node/register/transpile-only'] : [],
+      env: signerEnv(),
+    });
+
+    processChild.on('message', ({ id, result, error }: { id: number; result?: any; error?: string }) => {
+      const request = settle(id);
+      if (!request) return;
+      if (error) request.reject(new Error(`Signer: ${error}`));
+      else request.resolve(result);
+    });
+
+    processChild.on('exit', (code) => {
+      console.error(`Signer process exited with code ${code}`);
+      if (child === processChild) child = null;
+      for (const id of [...pending.keys()]) {
+        settle(id).reject(new Error('Signer process exited'));
+      }
+    });
+
+    child = processChild;
+    return processChild;
+  };
+
+  const call = <T>(method: string, ...params: unknown[]) => new Promise<T>((resolve, reject) => {
+    const id = nextId++;
+    const timer = setTimeout(() => {
+      settle(id);
+      reject(new Error(`Signer did not answer ${method} within ${TIMEOUT_MS} ms`));
+    }, TIMEOUT_MS);
+    pending.set(id, { resolve, reject, timer });
+    (child || start()).send({ id, method, params });
+  });
+
+  return {
+    getAddress: (chain) => call('getAddress', chain),
+    signTronTransaction: (transaction, intent) => call('signTronTransaction', transaction, intent),
+    signEvmTransaction: (chain, unsignedTx, intent) => call('signEvmTransaction', chain, unsignedTx, intent),
+    signSolanaMessage: (message, intent) => call('signSolanaMessage', message, intent),
+  };
+};
@@ -0,0 +1,124 @@
+import { Amount, sumAmounts, toAmount } from '../utils/money';
+import { EvmSignerChain, SigningIntent } from './types';
+
+// Rules the signing process applies to every intent, whatever the application
+// asks for:
+//
+//   SIGNER_MAX_PER_TX             largest single transfer per currency, JSON {"USDT":5000}
+//   SIGNER_MAX_PER_DAY            total per currency over the last 24 hours, JSON
+//   SIGNER_ALLOWED_DESTINATIONS   comma separated; when set, withdrawals and payouts
+//                                 may only go to these addresses
+//   SIGNER_DENIED_DESTINATIONS    comma separated; nothing is sent to these
+//   SIGNER_EVM_CHAIN_IDS          chain id each EVM chain signs for, JSON {"Ethereum":1,"BNB":56}
+//   SIGNER_EVM_MAX_GAS_LIMIT      largest gas limit of an EVM transaction
+//   SIGNER_EVM_MAX_FEE_GWEI       largest fee per gas per chain, JSON {"Ethereum":200,"BNB":10}
+//   SIGNER_TRON_MAX_FEE_LIMIT_TRX largest fee limit of a Tron contract call
+//
+// Currencies without a limit are not capped. Gas top-ups go to deposit
+// addresses, so they skip the allow list but count against the caps. Daily
+// totals are kept by the signing process and start over when it restarts.
+// Fees are always capped, so a transaction cannot drain the pool through gas.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GWEI = BigInt(1_000_000_000);
+const SUN_PER_TRX = 1_000_000;
+
+const DEFAULT_EVM_CHAIN_IDS = { Ethereum: 1, BNB: 56 };
+const DEFAULT_EVM_MAX_GAS_LIMIT = 200_000;
+const DEFAULT_EVM_MAX_FEE_GWEI = { Ethereum: 200, BNB: 10 };
+const DEFAULT_TRON_MAX_FEE_LIMIT_TRX = 100;
+
+// Fee fields of a decoded EVM transaction; gasPrice on legacy transactions,
+// maxFeePerGas on EIP-1559 ones
+export interface EvmFeeFields {
+  chainId: bigint;
+  gasLimit: bigint;
+  gasPrice: bigint | null;
+  maxFeePerGas: bigint | null;
+}
+
+const parseLimits = (value?: string): Record<string, number> => (value ? JSON.parse(value) : {});
+
+// EVM addresses are compared case-insensitively, everything else as written
+const normalizeAddress = (address: string) => (/^0x[0-9a-fA-F]{40}$/.test(address) ? address.toLowerCase() : address);
+
+const parseAddresses = (value?: string) => new Set(
+  (value || '').split(',').map((a) => a.trim()).filter(Boolean).map(normalizeAddress),
+);
+
+export const createSigningPolicy = (env: NodeJS.ProcessEnv = process.env) => {
+  const perTx = parseLimits(env.SIGNER_MAX_PER_TX);
+  const perDay = parseLimits(env.SIGNER_MAX_PER_DAY);
+  const allowed = parseAddresses(env.SIGNER_ALLOWED_DESTINATIONS);
+  const denied = parseAddresses(env.SIGNER_DENIED_DESTINATIONS);
+  const chainIds: Record<string, number> = env.SIGNER_EVM_CHAIN_IDS
+    ? parseLimits(env.SIGNER_EVM_CHAIN_IDS) : DEFAULT_EVM_CHAIN_IDS;
+  const maxGasLimit = BigInt(Number(env.SIGNER_EVM_MAX_GAS_LIMIT) || DEFAULT_EVM_MAX_GAS_LIMIT);
+  const maxFeeGwei: Record<string, number> = env.SIGNER_EVM_MAX_FEE_GWEI
+    ? parseLimits(env.SIGNER_EVM_MAX_FEE_GWEI) : DEFAULT_EVM_MAX_FEE_GWEI;
+  const maxTronFeeLimit = (Number(env.SIGNER_TRON_MAX_FEE_LIMIT_TRX) || DEFAULT_TRON_MAX_FEE_LIMIT_TRX) * SUN_PER_TRX;
+  let signed: { at: number; currency: string; amount: Amount }[] = [];
+
+  const signedToday = (currency: string) => {
+    const since = Date.now() - DAY_MS;
+    signed = signed.filter((s) => s.at > since);
+    return sumAmounts(signed.filter((s) => s.currency === currency).map((s) => s.amount));
+  };
+
+  // Throws when the intent breaks a rule, otherwise counts it towards the daily cap
+  const authorize = (intent: SigningIntent) => {
+    const amount = toAmount(intent.amount);
+    if (!amount.isFinite() || amount.isNegative()) {
+      throw new Error(`Invalid amount ${intent.amount}`);
+    }
+    if (intent.purpose === 'fee_payer') {
+      if (!amount.isZero()) throw new Error('A fee payer transaction cannot transfer funds');
+      return;
+    }
+
+    const destination = normalizeAddress(intent.to);
+    if (denied.has(destination)) {
+      throw new Error(`Destination ${intent.to} is denied by signer policy`);
+    }
+    if (allowed.size && intent.purpose !== 'gas_top_up' && !allowed.has(destination)) {
+      throw new Error(`Destination ${intent.to} is not allowed by signer policy`);
+    }
+
+    const { currency } = intent;
+    if (perTx[currency] != null && amount.gt(perTx[currency])) {
+      throw new Error(`${intent.amount} ${currency} is over the per transaction limit of ${perTx[currency]} ${currency}`);
+    }
+    if (perDay[currency] != null && signedToday(currency).plus(amount).gt(perDay[currency])) {
+      throw new Error(`${intent.amount} ${currency} would exceed the daily limit of ${perDay[currency]} ${currency}`);
+    }
+
+    signed.push({ at: Date.now(), currency, amount });
+  };
+
+  // Throws unless the transaction is for the chain's pinned id and its fees are within the caps
+  const authorizeEvmFees = (chain: EvmSignerChain, tx: EvmFeeFields) => {
+    if (chainIds[chain] == null) {
+      throw new Error(`${chain} has no chain id pinned for the signer`);
+    }
+    if (tx.chainId !== BigInt(chainIds[chain])) {
+      throw new Error(`${chain} transaction is for chain id ${tx.chainId}, not ${chainIds[chain]}`);
+    }
+    if (tx.gasLimit > maxGasLimit) {
+      throw new Error(`Gas limit ${tx.gasLimit} is over the signer limit of ${maxGasLimit}`);
+    }
+    const feePerGas = tx.maxFeePerGas ?? tx.gasPrice;
+    const maxFee = BigInt(Math.round((maxFeeGwei[chain] ?? 0) * 1e9));
+    if (feePerGas == null || feePerGas > maxFee) {
+      throw new Error(`Fee per gas of ${feePerGas} wei is over the signer limit of ${maxFee / GWEI} gwei on ${chain}`);
+    }
+  };
+
+  // Throws when a Tron transaction may burn more than the fee limit cap
+  const authorizeTronFees = (feeLimit: number | undefined) => {
+    if ((feeLimit || 0) > maxTronFeeLimit) {
+      throw new Error(`Fee limit of ${feeLimit} sun is over the signer limit of ${maxTronFeeLimit} sun`);
+    }
+  };
+
+  return { authorize, authorizeEvmFees, authorizeTronFees };
+};
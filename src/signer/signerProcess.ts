@@ -0,0 +1,125 @@
+import dotenv from 'dotenv';
+import * as tr from 'tronweb';
+import { ethers } from 'ethers';
+import { Keypair } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { createSigningPolicy } from './policy';
+import { checkEvmTransaction, checkSolanaMessage, checkTronTransaction } from './verify';
+import { EvmSignerChain, SignerChain, SigningIntent } from './types';
+
+// The local signing process, forked by the local signer. It is the only
+// process that reads the main pool keys; the application sends it
+// transactions over IPC and gets back signatures, or the reason it refused.
+//
+// Keys are read from SIGNER_ENV_FILE when set, and otherwise from the
+// environment the local signer forked this process with, which holds only the
+// keys and the SIGNER_* settings:
+//
+//   TRON_MAIN_POOL_PK             hex
+//   ETH_MAIN_POOL_PK, BSC_MAIN_POOL_PK
+//   SOLANA_MAIN_POOL_PRIVATE_KEY  base64 of the 64 byte secret key
+
+if (process.env.SIGNER_ENV_FILE) {
+  dotenv.config({ path: process.env.SIGNER_ENV_FILE, override: true });
+}
+
+const policy = createSigningPolicy();
+
+const requireKey = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not configured for the signer`);
+  }
+  return value;
+};
+
+let tronKey: { privateKey: string; address: string } | null = null;
+const evmWallets = new Map<EvmSignerChain, ethers.Wallet>();
+let solanaKeypair: Keypair | null = null;
+
+const getTronKey = () => {
+  if (!tronKey) {
+    const privateKey = requireKey('TRON_MAIN_POOL_PK').replace(/^0x/, '');
+    const address = tr.TronWeb.address.fromPrivateKey(privateKey);
+    if (!address) throw new Error('TRON_MAIN_POOL_PK is not a valid private key');
+    tronKey = { privateKey, address };
+  }
+  return tronKey;
+};
+
+const getEvmWallet = (chain: EvmSignerChain) => {
+  if (!evmWallets.has(chain)) {
+    evmWallets.set(chain, new ethers.Wallet(requireKey(chain === 'BNB' ? 'BSC_MAIN_POOL_PK' : 'ETH_MAIN_POOL_PK')));
+  }
+  return evmWallets.get(chain);
+};
+
+const getSolanaKeypair = () => {
+  if (!solanaKeypair) {
+    const secretKey = Buffer.from(requireKey('SOLANA_MAIN_POOL_PRIVATE_KEY'), 'base64');
+    if (secretKey.length !== 64) {
+      throw new Error(`Invalid private key size: ${secretKey.length} bytes. Expected 64 bytes. Please check your SOLANA_MAIN_POOL_PRIVATE_KEY.`);
+    }
+    solanaKeypair = Keypair.fromSecretKey(secretKey);
+  }
+  return solanaKeypair;
+};
+
+const logSigned = (chain: string, intent: SigningIntent) => {
+  console.log(`✍️ Signed ${chain} ${intent.purpose}: ${intent.amount} ${intent.currency} to ${intent.to}`);
+};
+
+const handlers: Record<string, (...params: any[]) => unknown> = {
+  getAddress: (chain: SignerChain) => {
+    if (chain === 'Tron') return getTronKey().address;
+    if (chain === 'Ethereum' || chain === 'BNB') return getEvmWallet(chain).address;
+    if (chain === 'Solana') return getSolanaKeypair().publicKey.toBase58();
+    throw new Error(`Unknown chain ${chain}`);
+  },
+
+  signTronTransaction: (transaction: any, intent: SigningIntent) => {
+    const { privateKey, address } = getTronKey();
+    checkTronTransaction(transaction, address, intent);
+    policy.authorizeTronFees(transaction.raw_data.fee_limit);
+    policy.authorize(intent);
+    const signed = tr.utils.crypto.signTransaction(privateKey, transaction);
+    logSigned('Tron', intent);
+    return signed;
+  },
+
+  signEvmTransaction: (chain: EvmSignerChain, unsignedTx: string, intent: SigningIntent) => {
+    const wallet = getEvmWallet(chain);
+    const tx = ethers.Transaction.from(unsignedTx);
+    if (tx.signature) throw new Error('Transaction is already signed');
+    checkEvmTransaction(chain, tx, intent);
+    policy.authorizeEvmFees(chain, tx);
+    policy.authorize(intent);
+    tx.signature = wallet.signingKey.sign(tx.unsignedHash);
+    logSigned(chain, intent);
+    return tx.serialized;
+  },
+
+  signSolanaMessage: (message: string, intent: SigningIntent) => {
+    const keypair = getSolanaKeypair();
+    const bytes = Buffer.from(message, 'base64');
+    checkSolanaMessage(bytes, keypair.publicKey, intent);
+    policy.authorize(intent);
+    const signature = nacl.sign.detached(bytes, keypair.secretKey);
+    logSigned('Solana', intent);
+    return Buffer.from(signature).toString('base64');
+  },
+};
+
+process.on('message', async ({ id, method, params }: { id: number; method: string; params: any[] }) => {
+  try {
+    const handler = handlers[method];
+    if (!handler) throw new Error(`Unknown signer method ${method}`);
+    process.send({ id, result: await handler(...params) });
+  } catch (error) {
+    console.warn(`🚫 Signer refused ${method}: ${error.message}`);
+    process.send({ id, error: error.message });
+  }
+});
+
+// Exit along with the application
+process.on('disconnect', () => process.exit(0));
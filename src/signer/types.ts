@@ -0,0 +1,33 @@
+// Chains whose main pool transactions go through the signer
+export type SignerChain = 'Tron' | 'Ethereum' | 'BNB' | 'Solana';
+
+export type EvmSignerChain = 'Ethereum' | 'BNB';
+
+// What a main pool transaction is meant to do. The signer refuses a transaction
+// that moves anything else out of the pool, then applies its policy to the intent.
+export interface SigningIntent {
+  // withdrawal and payout send user funds out; gas_top_up funds a deposit
+  // address for a sweep; fee_payer only pays fees (and token account rent)
+  purpose: 'withdrawal' | 'payout' | 'gas_top_up' | 'fee_payer';
+  currency: string;
+  // Recipient; for tokens the owner, not a token account
+  to: string;
+  // Human amount the recipient gets; 0 for fee_payer
+  amount: string;
+  // Token contract (SPL mint) and decimals, for token transfers
+  contract?: string;
+  decimals?: number;
+}
+
+// Signs main pool transactions that chain modules have built. Implementations
+// hold the keys somewhere the application process cannot read them: the local
+// signer in a separate process, a KMS or HSM behind the same interface.
+export interface Signer {
+  getAddress: (chain: SignerChain) => Promise<string>;
+  // TronWeb transaction object in, the same with its signature out
+  signTronTransaction: (transaction: any, intent: SigningIntent) => Promise<any>;
+  // Unsigned serialized transaction in, signed serialized transaction out
+  signEvmTransaction: (chain: EvmSignerChain, unsignedTx: string, intent: SigningIntent) => Promise<string>;
+  // Base64 message in, base64 signature of the pool (fee payer) out
+  signSolanaMessage: (message: string, intent: SigningIntent) => Promise<string>;
+}
@@ -0,0 +1,139 @@
+import * as tr from 'tronweb';
+import { ethers } from 'ethers';
+import {
+  Message, PublicKey, SystemInstruction, SystemProgram, Transaction,
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID, decodeTransferInstruction, getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { toUnits } from '../utils/money';
+import { SigningIntent } from './types';
+
+// Decoding of the transactions handed to the signer, so it signs only what the
+// intent describes: exactly one transfer out of the main pool, of the intent's
+// amount and currency, to the intent's recipient. Each check throws on a mismatch.
+
+const TRC20_TRANSFER_SELECTOR = 'a9059cbb';
+
+const ERC20 = new ethers.Interface(['function transfer(address to, uint256 amount)']);
+
+const intentUnits = (intent: SigningIntent) => BigInt(toUnits(intent.amount, intent.currency, intent.decimals));
+
+const mismatch = (chain: string, intent: SigningIntent) =>
+  new Error(`${chain} transaction does not match the ${intent.purpose} of ${intent.amount} ${intent.currency} to ${intent.to}`);
+
+export const checkTronTransaction = (transaction: any, pool: string, intent: SigningIntent) => {
+  // txID is what gets signed; it must be the hash of the raw data checked below
+  if (!tr.utils.transaction.txCheck(transaction)) {
+    throw new Error('Tron transaction id does not match its raw data');
+  }
+  const contracts = transaction.raw_data?.contract || [];
+  if (contracts.length !== 1) {
+    throw new Error('Tron transaction must hold exactly one contract');
+  }
+
+  const { type, parameter: { value } } = contracts[0];
+  const { fromHex } = tr.TronWeb.address;
+  if (fromHex(value.owner_address) !== pool) {
+    throw new Error('Tron transaction is not sent by the main pool');
+  }
+
+  let to: string;
+  let units: bigint;
+  if (intent.contract) {
+    // transfer(address,uint256): selector, then the address and amount as 32 byte words
+    const data = String(value.data || '');
+    if (type !== 'TriggerSmartContract' || value.call_value || fromHex(value.contract_address) !== intent.contract
+      || data.length !== 136 || !data.startsWith(TRC20_TRANSFER_SELECTOR)) {
+      throw mismatch('Tron', intent);
+    }
+    to = fromHex(`41${data.slice(32, 72)}`);
+    units = BigInt(`0x${data.slice(72)}`);
+  } else {
+    if (type !== 'TransferContract') throw mismatch('Tron', intent);
+    to = fromHex(value.to_address);
+    units = BigInt(value.amount);
+  }
+
+  if (to !== intent.to || units !== intentUnits(intent)) {
+    throw mismatch('Tron', intent);
+  }
+};
+
+export const checkEvmTransaction = (chain: string, tx: ethers.Transaction, intent: SigningIntent) => {
+  const sameAddress = (a: string | null, b: string) => Boolean(a) && a.toLowerCase() === b.toLowerCase();
+
+  if (intent.contract) {
+    if (!sameAddress(tx.to, intent.contract) || tx.value !== BigInt(0)) throw mismatch(chain, intent);
+    let to: string;
+    let units: bigint;
+    try {
+      [to, units] = ERC20.decodeFunctionData('transfer', tx.data);
+    } catch {
+      throw mismatch(chain, intent);
+    }
+    if (!sameAddress(to, intent.to) || units !== intentUnits(intent)) throw mismatch(chain, intent);
+    return;
+  }
+
+  if (!sameAddress(tx.to, intent.to) || tx.value !== intentUnits(intent) || tx.data !== '0x') {
+    throw mismatch(chain, intent);
+  }
+};
+
+// The pool signs Solana transactions as fee payer. Besides fees it may pay
+// token account rent and make the one transfer of the intent; fee_payer
+// transactions (token sweeps) must not move anything out of it.
+export const checkSolanaMessage = (message: Buffer, pool: PublicKey, intent: SigningIntent) => {
+  const transaction = Transaction.populate(Message.from(message));
+  if (!transaction.feePayer?.equals(pool)) {
+    throw new Error('Solana transaction is not paid by the main pool');
+  }
+
+  const transfers: { source?: PublicKey; destination: PublicKey; units: bigint }[] = [];
+  for (const instruction of transaction.instructions) {
+    const { programId } = instruction;
+    if (programId.equals(SystemProgram.programId)) {
+      if (SystemInstruction.decodeInstructionType(instruction) !== 'Transfer') {
+        throw new Error('Solana transaction holds a system instruction other than a transfer');
+      }
+      const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(instruction);
+      if (fromPubkey.equals(pool)) transfers.push({ destination: toPubkey, units: BigInt(lamports) });
+    } else if (programId.equals(TOKEN_PROGRAM_ID)) {
+      const { keys, data } = decodeTransferInstruction(instruction);
+      if (keys.owner.pubkey.equals(pool)) {
+        transfers.push({ source: keys.source.pubkey, destination: keys.destination.pubkey, units: data.amount });
+      }
+    } else if (programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+      // Create (0, or empty data) and create idempotent (1) only
+      if (instruction.data.length > 1 || instruction.data[0] > 1) {
+        throw new Error('Solana transaction holds an unexpected token account instruction');
+      }
+    } else {
+      throw new Error(`Solana transaction calls unexpected program ${programId.toBase58()}`);
+    }
+  }
+
+  if (intent.purpose === 'fee_payer') {
+    if (transfers.length) throw new Error('Fee payer transaction moves funds out of the main pool');
+    return;
+  }
+  if (transfers.length !== 1) {
+    throw mismatch('Solana', intent);
+  }
+
+  const [transfer] = transfers;
+  const recipient = new PublicKey(intent.to);
+  if (intent.contract) {
+    const mint = new PublicKey(intent.contract);
+    if (!transfer.source?.equals(getAssociatedTokenAddressSync(mint, pool))
+      || !transfer.destination.equals(getAssociatedTokenAddressSync(mint, recipient, true))) {
+      throw mismatch('Solana', intent);
+    }
+  } else if (transfer.source || !transfer.destination.equals(recipient)) {
+    throw mismatch('Solana', intent);
+  }
+  if (transfer.units !== intentUnits(intent)) {
+    throw mismatch('Solana', intent);
+  }
+};
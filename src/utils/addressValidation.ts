@@ -0,0 +1,168 @@
+import { createHash } from 'crypto';
+import bs58 from 'bs58';
+import { getAddress } from 'ethers';
+import { ValidationResult } from './validation';
+
+// Destination address checks per chain, run before anything is held or sent so
+// a typo is refused up front instead of failing inside a chain SDK.
+//
+//   Tron      base58check, version byte 0x41 ("T...")
+//   EVM       (Ethereum, BNB Smart Chain) 0x + 40 hex; mixed case must match the EIP-55 checksum
+//   Solana    base58 of a 32 byte public key
+//   TON       raw "<workchain>:<64 hex>" or 48 char friendly form with CRC16
+//
+// Only TON transfers carry a memo. Addresses listed in MEMO_REQUIRED_ADDRESSES
+// (exchange deposit wallets and the like) are refused without one.
+
+export interface AddressValidationResult extends ValidationResult {
+  // Normalized form to store and send to, e.g. the checksummed EVM address
+  address?: string;
+  format?: string;
+}
+
+type AddressFormat = 'tron' | 'evm' | 'solana' | 'ton';
+
+const CHAIN_FORMATS: Record<string, AddressFormat> = {
+  Tron: 'tron',
+  Ethereum: 'evm',
+  BNB: 'evm',
+  Solana: 'solana',
+  TON: 'ton',
+};
+
+const MEMO_CHAINS: Record<AddressFormat, number> = {
+  tron: 0,
+  evm: 0,
+  solana: 0,
+  // Bytes of a text comment that fit in one cell
+  ton: 120,
+};
+
+const MEMO_REQUIRED_ADDRESSES = new Set(
+  (process.env.MEMO_REQUIRED_ADDRESSES || '').split(',').map((a) => a.trim()).filter(Boolean),
+);
+
+const sha256 = (data: Uint8Array) => createHash('sha256').update(data).digest();
+
+const validateTron = (address: string): AddressValidationResult => {
+  if (!/^T[1-9A-HJ-NP-Za-km-z]{33}$/.test(address)) {
+    return { isValid: false, message: 'Tron addresses start with T and are 34 characters long' };
+  }
+  const bytes = bs58.decode(address);
+  if (bytes.length !== 25 || bytes[0] !== 0x41) {
+    return { isValid: false, message: 'Invalid Tron address' };
+  }
+  const checksum = sha256(sha256(bytes.subarray(0, 21))).subarray(0, 4);
+  if (!checksum.equals(Buffer.from(bytes.subarray(21)))) {
+    return { isValid: false, message: 'Tron address checksum does not match' };
+  }
+  return { isValid: true, address, format: 'base58check' };
+};
+
+const validateEvm = (address: string): AddressValidationResult => {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return { isValid: false, message: 'EVM addresses are 0x followed by 40 hex characters' };
+  }
+  try {
+    // Throws when a mixed-case address fails its checksum
+    return { isValid: true, address: getAddress(address), format: 'hex' };
+  } catch {
+    return { isValid: false, message: 'EVM address checksum does not match' };
+  }
+};
+
+const validateSolana = (address: string): AddressValidationResult => {
+  if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) {
+    return { isValid: false, message: 'Invalid Solana address' };
+  }
+  if (bs58.decode(address).length !== 32) {
+    return { isValid: false, message: 'Solana addresses are 32 byte public keys' };
+  }
+  return { isValid: true, address, format: 'base58' };
+};
+
+// CRC16-XMODEM, as used by TON friendly addresses
+const crc16 = (data: Uint8Array) => {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+};
+
+const validateTon = (address: string): AddressValidationResult => {
+  if (/^-?\d+:[0-9a-fA-F]{64}$/.test(address)) {
+    const workchain = Number(address.split(':')[0]);
+    if (workchain !== 0 && workchain !== -1) {
+      return { isValid: false, message: 'TON workchain must be 0 or -1' };
+    }
+    return { isValid: true, address: address.toLowerCase(), format: 'raw' };
+  }
+
+  if (!/^[A-Za-z0-9+/_-]{48}$/.test(address)) {
+    return { isValid: false, message: 'TON addresses are 48 character friendly or <workchain>:<hex> raw form' };
+  }
+  const bytes = Buffer.from(address.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+  // Flags: 0x11 bounceable, 0x51 non-bounceable, +0x80 testnet
+  const flags = bytes[0] & 0x7f;
+  if (bytes.length !== 36 || (flags !== 0x11 && flags !== 0x51)) {
+    return { isValid: false, message: 'Invalid TON address' };
+  }
+  if (bytes[1] !== 0x00 && bytes[1] !== 0xff) {
+    return { isValid: false, message: 'TON workchain must be 0 or -1' };
+  }
+  if (crc16(bytes.subarray(0, 34)) !== bytes.readUInt16BE(34)) {
+    return { isValid: false, message: 'TON address checksum does not match' };
+  }
+  if (bytes[0] & 0x80) {
+    return { isValid: false, message: 'TON testnet addresses are not accepted' };
+  }
+  return { isValid: true, address, format: flags === 0x11 ? 'bounceable' : 'non-bounceable' };
+};
+
+const VALIDATORS: Record<AddressFormat, (address: string) => AddressValidationResult> = {
+  tron: validateTron,
+  evm: validateEvm,
+  solana: validateSolana,
+  ton: validateTon,
+};
+
+export const validateAddress = (blockchain: string, address: string, memo?: string): AddressValidationResult => {
+  const format = CHAIN_FORMATS[blockchain];
+  if (!format) {
+    return { isValid: false, message: `Unsupported blockchain ${blockchain}` };
+  }
+  const value = String(address || '').trim();
+  if (!value) {
+    return { isValid: false, message: 'Address is required' };
+  }
+
+  const result = VALIDATORS[format](value);
+  if (!result.isValid) return result;
+
+  const memoLimit = MEMO_CHAINS[format];
+  if (memo && !memoLimit) {
+    return { isValid: false, message: `${blockchain} transfers do not support a memo` };
+  }
+  if (memo && Buffer.byteLength(memo) > memoLimit) {
+    return { isValid: false, message: `Memo must be at most ${memoLimit} bytes` };
+  }
+  if (!memo && (MEMO_REQUIRED_ADDRESSES.has(value) || MEMO_REQUIRED_ADDRESSES.has(result.address))) {
+    return { isValid: false, message: 'This address requires a memo' };
+  }
+  return result;
+};
+
+export const isEvmChain = (blockchain: string) => CHAIN_FORMATS[blockchain] === 'evm';
+
+// Throw with the reason when the address is invalid; returns the normalized address
+export const assertValidAddress = (blockchain: string, address: string, memo?: string) => {
+  const result = validateAddress(blockchain, address, memo);
+  if (!result.isValid) {
+    throw new Error(result.message);
+  }
+  return result.address;
+};
@@ -7,21 +7,131 @@ export const hashPassword = async (password: string) => {
     return bcrypt.hash(password, 10);
 };
 
-const ENCRYPTION_KEY = Buffer.from(process.env.ENCRYPTION_KEY!, 'hex');
-const IV_LENGTH = 16;
+// Private keys are stored with envelope encryption: each value gets its own
+// random data key, the value is sealed with it using AES-256-GCM and the data
+// key is sealed with a master key from the key ring, also with AES-256-GCM.
+// The ciphertext names the master key it needs:
+//
+//   gcm1:<keyId>:<base64url wrapped data key>:<base64url sealed value>
+//
+// ENCRYPTION_KEYS holds the key ring as JSON, {"<keyId>": "<64 hex chars>"};
+// every key in it can decrypt and ENCRYPTION_KEY_ID (default: the last entry)
+// encrypts. To rotate, add a key, make it current and run the re-encryption
+// job; remove the old key once nothing uses it. Without ENCRYPTION_KEYS the
+// single ENCRYPTION_KEY is the ring, under the id "default".
+//
+// Values written before this format ("<iv hex>:<data hex>", AES-256-CBC with
+// ENCRYPTION_KEY) still decrypt until they are re-encrypted.
 
-export const encryptPrivateKey = (privateKey: string) => {
+const FORMAT = 'gcm1';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const LEGACY_IV_LENGTH = 16;
+const LEGACY_FORMAT = /^[0-9a-f]{32}:[0-9a-f]+$/i;
+
+interface KeyRing {
+  keys: Map<string, Buffer>;
+  currentKeyId: string;
+}
+
+let keyRing: KeyRing | null = null;
+
+const parseKey = (keyId: string, hex: string) => {
+  const key = Buffer.from(String(hex || ''), 'hex');
+  if (key.length !== 32) {
+    throw new Error(`Encryption key ${keyId} must be 32 bytes of hex`);
+  }
+  return key;
+};
+
+const getKeyRing = (): KeyRing => {
+  if (!keyRing) {
+    const entries: [string, string][] = process.env.ENCRYPTION_KEYS
+      ? Object.entries(JSON.parse(process.env.ENCRYPTION_KEYS))
+      : [['default', process.env.ENCRYPTION_KEY]];
+    if (!entries.length) {
+      throw new Error('ENCRYPTION_KEYS has no keys');
+    }
+    const keys = new Map(entries.map(([keyId, hex]) => {
+      if (!/^[A-Za-z0-9_-]+$/.test(keyId)) {
+        throw new Error(`Invalid encryption key id ${keyId}`);
+      }
+      return [keyId, parseKey(keyId, hex)] as [string, Buffer];
+    }));
+    const currentKeyId = process.env.ENCRYPTION_KEY_ID || entries[entries.length - 1][0];
+    if (!keys.has(currentKeyId)) {
+      throw new Error(`ENCRYPTION_KEY_ID ${currentKeyId} is not in the key ring`);
+    }
+    keyRing = { keys, currentKeyId };
+  }
+  return keyRing;
+};
+
+const masterKey = (keyId: string) => {
+  const key = getKeyRing().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Encryption key ${keyId} is not configured`);
+  }
+  return key;
+};
+
+// iv | tag | ciphertext; aad binds the sealed bytes to their context
+const seal = (key: Buffer, plaintext: Buffer, aad: string) => {
   const iv = crypto.randomBytes(IV_LENGTH);
-  const cipher = crypto.createCipheriv('aes-256-cbc', ENCRYPTION_KEY, iv);
-  const encrypted = Buffer.concat([cipher.update(privateKey, 'utf8'), cipher.final()]);
-  return `${iv.toString('hex')}:${encrypted.toString('hex')}`;
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
 };
 
-export function decryptPrivateKey(encrypted: string): string {
+const open = (key: Buffer, sealed: Buffer, aad: string) => {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, sealed.subarray(0, IV_LENGTH));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+};
+
+const decryptLegacy = (encrypted: string) => {
   const [ivHex, encryptedHex] = encrypted.split(':');
   const iv = Buffer.from(ivHex, 'hex');
-  const encryptedText = Buffer.from(encryptedHex, 'hex');
-  const decipher = crypto.createDecipheriv('aes-256-cbc', ENCRYPTION_KEY, iv);
-  const decrypted = Buffer.concat([decipher.update(encryptedText), decipher.final()]);
+  if (iv.length !== LEGACY_IV_LENGTH) {
+    throw new Error('Invalid encrypted value');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-cbc', parseKey('ENCRYPTION_KEY', process.env.ENCRYPTION_KEY), iv);
+  const decrypted = Buffer.concat([decipher.update(Buffer.from(encryptedHex, 'hex')), decipher.final()]);
   return decrypted.toString('utf8');
-}
\ No newline at end of file
+};
+
+// Id of the master key a value is encrypted with; null for the legacy format
+export const encryptionKeyIdOf = (encrypted: string) => {
+  if (LEGACY_FORMAT.test(encrypted)) return null;
+  const [format, keyId] = encrypted.split(':');
+  if (format !== FORMAT || !keyId) {
+    throw new Error('Unknown encrypted value format');
+  }
+  return keyId;
+};
+
+export const currentEncryptionKeyId = () => getKeyRing().currentKeyId;
+
+// True when a value is not yet under the current master key
+export const needsReencryption = (encrypted: string) =>
+  encryptionKeyIdOf(encrypted) !== currentEncryptionKeyId();
+
+export const encryptPrivateKey = (privateKey: string) => {
+  const keyId = currentEncryptionKeyId();
+  const dataKey = crypto.randomBytes(32);
+  const wrappedKey = seal(masterKey(keyId), dataKey, `${FORMAT}:${keyId}`);
+  const sealed = seal(dataKey, Buffer.from(privateKey, 'utf8'), FORMAT);
+  return [FORMAT, keyId, wrappedKey.toString('base64url'), sealed.toString('base64url')].join(':');
+};
+
+export function decryptPrivateKey(encrypted: string): string {
+  const keyId = encryptionKeyIdOf(encrypted);
+  if (keyId === null) {
+    return decryptLegacy(encrypted);
+  }
+  const [, , wrappedKey, sealed] = encrypted.split(':');
+  const dataKey = open(masterKey(keyId), Buffer.from(wrappedKey, 'base64url'), `${FORMAT}:${keyId}`);
+  return open(dataKey, Buffer.from(sealed, 'base64url'), FORMAT).toString('utf8');
+}
@@ -68,4 +68,30 @@ export const sendEmail = async (email: string, subject: string, text: string) =>
     throw error;
   }
   return { ok: true } as any;
-};
\ No newline at end of file
+};
+
+// Plain notification (alerts, statements, account notices) without the verification-code layout
+export const sendNotificationEmail = async (
+  email: string,
+  subject: string,
+  text: string,
+  html?: string,
+  attachments?: { filename: string; content: string }[],
+) => {
+  if (!resend) {
+    throw new Error('RESEND_API_KEY not configured');
+  }
+  const safe = String(text).replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br/>');
+  const { error } = await resend.emails.send({
+    from: FROM_EMAIL,
+    to: email,
+    subject,
+    html: html || `<p style="font-family: Arial, Helvetica, sans-serif;">${safe}</p>`,
+    text,
+    attachments,
+  });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return { ok: true } as any;
+};
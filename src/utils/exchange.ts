@@ -1,57 +1,102 @@
-import axios from "axios";
+import { Amount, AmountLike, roundAmount, toAmount, toNumber } from './money';
+import { priceOracle } from '../services/priceOracle';
+import { getPricedSymbols } from '../db/tokens';
 
-const getRate = async () => {
+// USD prices from the cached price oracle; USD itself is always 1
+const getUsdRates = async (symbols?: string[]): Promise<Record<string, number>> => {
 
-    const { data } = await axios.get(
-        "https://api.coingecko.com/api/v3/simple/price",
-        {
-            params: {
-                ids: "tron,ethereum,tether,solana",
-                vs_currencies: "usd",
-            },
-        }
-    );
+    const quotes = await priceOracle.getPrices(symbols?.filter((s) => s !== 'USD'));
 
-    return {
-        TRX_USDT: data.tron.usd,      
-        ETH_USDT: data.ethereum.usd,  
-        SOL_USDT: data.solana.usd,  
-        USDT_USDT: 1
-    };
+    const rates: Record<string, number> = { USD: 1 };
+    for (const [symbol, quote] of Object.entries(quotes)) {
+        rates[symbol] = quote.priceUsd;
+    }
+    return rates;
 }
 
-export const convert = async (amount, fromSymbol, toSymbol) => {
+const getPairRates = async (fromSymbol: string, toSymbol: string) => {
 
-    const rates = await getRate();
+    // Normalize currency symbols to uppercase
+    const from = fromSymbol.toUpperCase();
+    const to = toSymbol.toUpperCase();
+    const priced = await getPricedSymbols();
+    if (![from, to].every((s) => s === 'USD' || priced.includes(s))) {
+        throw new Error(`Unsupported currency pair ${fromSymbol}/${toSymbol}`);
+    }
 
-    const toUSDT = {
-        TRX: rates.TRX_USDT,
-        ETH: rates.ETH_USDT,
-        SOL: rates.SOL_USDT,
-        USD: 1,
-        USDT: 1,
-        USDC: 1, // USDC is pegged to USD
-    };
+    const toUSDT = await getUsdRates([from, to]);
+    const fromRate = toUSDT[from];
+    const toRate = toUSDT[to];
+    if (fromRate == null || toRate == null) {
+        throw new Error(`Unsupported currency pair ${fromSymbol}/${toSymbol}`);
+    }
 
-    // Normalize currency symbols to uppercase
-    const normalizedFromSymbol = fromSymbol.toUpperCase();
-    const normalizedToSymbol = toSymbol.toUpperCase();
+    return { fromRate, toRate };
+};
+
+// Convert with full precision, rounded down to the precision of toSymbol
+export const convertAmount = async (amount: AmountLike, fromSymbol: string, toSymbol: string): Promise<Amount> => {
+
+    const { fromRate, toRate } = await getPairRates(fromSymbol, toSymbol);
+
+    const amountInUSDT = toAmount(amount).times(fromRate);
+    return roundAmount(amountInUSDT.div(toRate), toSymbol.toUpperCase());
+};
+
+// Units of toSymbol received for one unit of fromSymbol
+export const getExchangeRate = async (fromSymbol: string, toSymbol: string): Promise<Amount> => {
+
+    const { fromRate, toRate } = await getPairRates(fromSymbol, toSymbol);
+
+    return toAmount(fromRate).div(toRate);
+};
+
+export interface UsdValuation {
+    usdRate: Amount;
+    usdValue: Amount;
+    rateSource: string;
+}
+
+// USD value of an amount with the rate and price source used, for records that
+// need to show the historical value later
+export const valueInUsd = async (amount: AmountLike, symbol: string): Promise<UsdValuation> => {
+
+    const normalized = symbol.toUpperCase();
+    if (normalized === 'USD') {
+        return { usdRate: toAmount(1), usdValue: roundAmount(amount, 'USD'), rateSource: 'fixed' };
+    }
+
+    const quote = await priceOracle.getPrice(normalized);
+    const usdRate = toAmount(quote.priceUsd);
+
+    return { usdRate, usdValue: roundAmount(toAmount(amount).times(usdRate), 'USD'), rateSource: quote.source };
+};
+
+const USD_STABLECOINS = ['USDT', 'USDC'];
 
-    const amountInUSDT = amount * toUSDT[normalizedFromSymbol];
-    const result = amountInUSDT / toUSDT[normalizedToSymbol];
+// Value credited for a deposit: USD stablecoins 1:1, anything else at the oracle price
+export const depositValueInUsd = async (amount: AmountLike, symbol: string): Promise<UsdValuation> => {
 
-    console.log("amountInUSDT==>", amountInUSDT, "toUSDT[fromSymbol]==>", toUSDT[normalizedFromSymbol], "toUSDT[toSymbol]==>", toUSDT[normalizedToSymbol]);
+    if (USD_STABLECOINS.includes(symbol.toUpperCase())) {
+        return { usdRate: toAmount(1), usdValue: roundAmount(amount, 'USD'), rateSource: 'peg' };
+    }
+    return valueInUsd(amount, symbol);
+};
 
-    return result;
+// Number result for callers that have not moved to Amount yet
+export const convert = async (amount: AmountLike, fromSymbol: string, toSymbol: string) => {
+    return toNumber(await convertAmount(amount, fromSymbol, toSymbol));
 }
 
 // New function to get withdraw rates (crypto to USD)
 export const getWithdrawRates = async () => {
-    const rates = await getRate();
+    const rates = await getUsdRates();
     return {
-        TRX: rates.TRX_USDT,
-        ETH: rates.ETH_USDT,
-        USDT: rates.USDT_USDT,
-        SOL: rates.SOL_USDT,
+        TRX: rates.TRX,
+        ETH: rates.ETH,
+        USDT: rates.USDT,
+        SOL: rates.SOL,
+        BNB: rates.BNB,
+        USDC: rates.USDC,
     };
-}
\ No newline at end of file
+};
@@ -0,0 +1,35 @@
+// Helpers for streaming CSV / NDJSON downloads
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+const csvCell = (value: any) => {
+  if (value == null) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  // Quote when needed; a leading =, +, - or @ would be run as a formula by spreadsheets
+  const safe = /^[=+\-@]/.test(text) && isNaN(Number(text)) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsvRow = (values: any[]) => `${values.map(csvCell).join(',')}\r\n`;
+
+export const exportContentType = (format: ExportFormat) =>
+  (format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+
+// Write chunk, waiting for the stream to drain when its buffer is full
+const write = (out: NodeJS.WritableStream, chunk: string) => new Promise<void>((resolve) => {
+  if (out.write(chunk)) resolve();
+  else out.once('drain', () => resolve());
+});
+
+// Write rows to a writable stream as CSV (with a header row) or NDJSON
+export const writeExport = async (
+  out: NodeJS.WritableStream,
+  format: ExportFormat,
+  columns: string[],
+  rows: AsyncIterable<Record<string, any>>,
+) => {
+  if (format === 'csv') await write(out, toCsvRow(columns));
+  for await (const row of rows) {
+    await write(out, format === 'csv' ? toCsvRow(columns.map((c) => row[c])) : `${JSON.stringify(row)}\n`);
+  }
+};
@@ -0,0 +1,114 @@
+import { createHash, createHmac } from 'crypto';
+import bs58 from 'bs58';
+import { HDNodeWallet, Mnemonic, computeAddress } from 'ethers';
+import { Keypair } from '@solana/web3.js';
+import { decryptPrivateKey } from './bcrypt';
+
+// Deposit addresses derived from HD_WALLET_MNEMONIC by user id, so only the
+// derivation path is stored with a wallet and its key is re-derived when a
+// sweep needs to sign:
+//
+//   Tron      m/44'/195'/0'/0/<userId>     secp256k1 (BIP32/BIP44)
+//   Ethereum  m/44'/60'/0'/0/<userId>      secp256k1
+//   BNB       m/44'/60'/1'/0/<userId>      secp256k1, own account so the address
+//                                          differs from Ethereum's (publicKey is unique)
+//   Solana    m/44'/501'/<userId>'/0'      ed25519 (SLIP-10, hardened only)
+//
+// Wallets created before derivation, or while no mnemonic is configured, keep
+// their encrypted privateKey and no derivationPath.
+
+export interface WalletKeySource {
+  blockchain: string;
+  privateKey?: string | null;
+  derivationPath?: string | null;
+}
+
+const DERIVATION_PATHS: Record<string, (index: number) => string> = {
+  Tron: (index) => `m/44'/195'/0'/0/${index}`,
+  Ethereum: (index) => `m/44'/60'/0'/0/${index}`,
+  BNB: (index) => `m/44'/60'/1'/0/${index}`,
+  Solana: (index) => `m/44'/501'/${index}'/0'`,
+};
+
+export const HD_BLOCKCHAINS = Object.keys(DERIVATION_PATHS);
+
+let seed: Buffer | null = null;
+
+const getSeed = () => {
+  if (!seed) {
+    const phrase = process.env.HD_WALLET_MNEMONIC;
+    if (!phrase) {
+      throw new Error('HD_WALLET_MNEMONIC is not configured');
+    }
+    seed = Buffer.from(Mnemonic.fromPhrase(phrase.trim()).computeSeed().slice(2), 'hex');
+  }
+  return seed;
+};
+
+export const isHdWalletEnabled = () => Boolean(process.env.HD_WALLET_MNEMONIC);
+
+// SLIP-10 ed25519 derivation; every level is hardened
+const deriveEd25519 = (path: string) => {
+  let digest = createHmac('sha512', 'ed25519 seed').update(getSeed()).digest();
+  for (const segment of path.split('/').slice(1)) {
+    if (!segment.endsWith('\'')) {
+      throw new Error(`ed25519 derivation needs hardened indexes: ${path}`);
+    }
+    const data = Buffer.alloc(37);
+    digest.copy(data, 1, 0, 32);
+    data.writeUInt32BE((Number(segment.slice(0, -1)) + 0x80000000) >>> 0, 33);
+    digest = createHmac('sha512', digest.subarray(32)).update(data).digest();
+  }
+  return Keypair.fromSeed(digest.subarray(0, 32));
+};
+
+const deriveSecp256k1 = (path: string) => HDNodeWallet.fromSeed(getSeed()).derivePath(path);
+
+const sha256 = (data: Uint8Array) => createHash('sha256').update(data).digest();
+
+// Tron address: 0x41 followed by the EVM address bytes, base58check encoded
+const tronAddress = (privateKey: string) => {
+  const payload = Buffer.concat([Buffer.from([0x41]), Buffer.from(computeAddress(privateKey).slice(2), 'hex')]);
+  return bs58.encode(Buffer.concat([payload, sha256(sha256(payload)).subarray(0, 4)]));
+};
+
+export const derivationPathFor = (blockchain: string, index: number) => {
+  const pathFor = DERIVATION_PATHS[blockchain];
+  if (!pathFor) {
+    throw new Error(`HD derivation is not supported for ${blockchain}`);
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= 0x80000000) {
+    throw new Error(`Invalid derivation index ${index}`);
+  }
+  return pathFor(index);
+};
+
+// Private key at path in the form the chain's module signs with: hex for
+// Tron, 0x hex for EVM chains, base58 of the 64 byte secret key for Solana
+export const derivePrivateKey = (blockchain: string, path: string) => {
+  if (blockchain === 'Solana') {
+    return bs58.encode(deriveEd25519(path).secretKey);
+  }
+  const { privateKey } = deriveSecp256k1(path);
+  return blockchain === 'Tron' ? privateKey.slice(2) : privateKey;
+};
+
+export const deriveDepositAddress = (blockchain: string, index: number) => {
+  const derivationPath = derivationPathFor(blockchain, index);
+  if (blockchain === 'Solana') {
+    return { publicKey: deriveEd25519(derivationPath).publicKey.toBase58(), derivationPath };
+  }
+  const { address, privateKey } = deriveSecp256k1(derivationPath);
+  return { publicKey: blockchain === 'Tron' ? tronAddress(privateKey) : address, derivationPath };
+};
+
+// Signing key of a deposit wallet, derived or decrypted from storage
+export const getWalletPrivateKey = (wallet: WalletKeySource) => {
+  if (wallet.derivationPath) {
+    return derivePrivateKey(wallet.blockchain, wallet.derivationPath);
+  }
+  if (!wallet.privateKey) {
+    throw new Error('Wallet has neither a derivation path nor a stored key');
+  }
+  return decryptPrivateKey(wallet.privateKey);
+};
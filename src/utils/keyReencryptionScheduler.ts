@@ -0,0 +1,28 @@
+import { reencryptWalletKeys } from '../services/keyRotation';
+
+const INTERVAL_MINUTES = Number(process.env.KEY_REENCRYPTION_INTERVAL_MINUTES) || 60;
+
+// Move stored wallet keys to the current encryption key; a no-op once all are
+export const startKeyReencryptionScheduler = () => {
+  console.log(`🕐 Starting key re-encryption job (every ${INTERVAL_MINUTES} min)...`);
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await reencryptWalletKeys();
+      if (result.reencrypted || result.failed) {
+        console.log(`🔑 Re-encrypted ${result.reencrypted} wallet keys to ${result.keyId}, ${result.failed} failed`);
+      }
+    } catch (error) {
+      console.error('Error in key re-encryption job:', error);
+      // Don't throw to prevent scheduler from stopping
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, INTERVAL_MINUTES * 60 * 1000);
+};
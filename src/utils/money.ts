@@ -0,0 +1,77 @@
+import BigNumber from 'bignumber.js';
+
+// Money never goes through JS floats: amounts are BigNumber in code and
+// strings at the database/API boundary. Precision is per currency.
+export type Amount = BigNumber;
+export type AmountLike = BigNumber.Value;
+
+// Decimal places kept for USD and the native coins. Tokens get theirs from the
+// token registry (db/tokens), which sets them with setTokenDecimals.
+export const CURRENCY_DECIMALS: Record<string, number> = {
+  USD: 4,
+  TRX: 6,
+  ETH: 18,
+  BNB: 18,
+  SOL: 9,
+};
+
+// Scale of the Decimal(38, 18) money columns
+export const DB_DECIMALS = 18;
+
+const tokenDecimals: Record<string, number> = {};
+
+export const setTokenDecimals = (symbol: string, decimals: number) => {
+  tokenDecimals[symbol.toUpperCase()] = Math.min(decimals, DB_DECIMALS);
+};
+
+const Money = BigNumber.clone({ DECIMAL_PLACES: 36, ROUNDING_MODE: BigNumber.ROUND_DOWN, EXPONENTIAL_AT: 1e9 });
+
+export const getDecimals = (currency: string) => {
+  const symbol = (currency || '').toUpperCase();
+  const decimals = CURRENCY_DECIMALS[symbol] ?? tokenDecimals[symbol];
+  return decimals != null ? decimals : DB_DECIMALS;
+};
+
+// Parse anything amount-like; throws on NaN/Infinity so bad input never reaches a balance
+export const toAmount = (value: AmountLike | null | undefined): Amount => {
+  const amount = new Money(value == null || value === '' ? 0 : value);
+  if (!amount.isFinite()) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  return amount;
+};
+
+// Like toAmount but returns null instead of throwing, for validating user input
+export const parseAmount = (value: AmountLike | null | undefined): Amount | null => {
+  if (value == null || value === '') return null;
+  const amount = new Money(value);
+  return amount.isFinite() ? amount : null;
+};
+
+// Round to the precision of a currency; rounds down unless told otherwise
+export const roundAmount = (
+  value: AmountLike,
+  currency: string,
+  mode: BigNumber.RoundingMode = BigNumber.ROUND_DOWN,
+) => toAmount(value).decimalPlaces(getDecimals(currency), mode);
+
+// Integer base units (sun, wei, lamports, ...) for a human amount
+export const toUnits = (value: AmountLike, currency: string, decimals = getDecimals(currency)) =>
+  toAmount(value).shiftedBy(decimals).integerValue(BigNumber.ROUND_DOWN).toFixed();
+
+// Human amount for integer base units
+export const fromUnits = (units: AmountLike | bigint, currency: string, decimals = getDecimals(currency)) =>
+  toAmount(typeof units === 'bigint' ? units.toString() : units).shiftedBy(-decimals);
+
+// Fixed-point string for Decimal columns and pg parameters
+export const toDbAmount = (value: AmountLike) => toAmount(value).decimalPlaces(DB_DECIMALS).toFixed();
+
+// percent of amount, e.g. percentOf(150, 5) = 7.5, rounded to the currency precision
+export const percentOf = (value: AmountLike, percent: AmountLike, currency: string) =>
+  roundAmount(toAmount(value).times(percent).div(100), currency);
+
+export const sumAmounts = (values: AmountLike[]) =>
+  values.reduce<Amount>((sum, v) => sum.plus(toAmount(v)), toAmount(0));
+
+// For JSON responses and legacy call sites that still take numbers
+export const toNumber = (value: AmountLike) => toAmount(value).toNumber();
@@ -0,0 +1,21 @@
+import { runReconciliation } from '../services/reconciliation';
+
+const INTERVAL_MINUTES = Number(process.env.RECONCILIATION_INTERVAL_MINUTES) || 60;
+
+// Schedule custody reconciliation; reports are stored and alert on drift
+export const startReconciliationScheduler = () => {
+  console.log(`🕐 Starting custody reconciliation scheduler (every ${INTERVAL_MINUTES} min)...`);
+
+  const run = async () => {
+    try {
+      const report = await runReconciliation();
+      console.log(`🧾 Reconciliation #${report.id}: ${report.status}, drift ${report.driftUsd} USD`);
+    } catch (error) {
+      console.error('Error in reconciliation scheduler:', error);
+      // Don't throw to prevent scheduler from stopping
+    }
+  };
+
+  run();
+  setInterval(run, INTERVAL_MINUTES * 60 * 1000);
+};
@@ -0,0 +1,26 @@
+import { runWithdrawalWorker } from '../services/withdrawals';
+
+const INTERVAL_SECONDS = Number(process.env.WITHDRAWAL_WORKER_INTERVAL_SECONDS) || 30;
+
+// Broadcast approved withdrawals and track their confirmations
+export const startWithdrawalWorker = () => {
+  console.log(`🕐 Starting withdrawal worker (every ${INTERVAL_SECONDS}s)...`);
+
+  // A slow pass must finish before the next starts, or a request could be picked twice
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runWithdrawalWorker();
+    } catch (error) {
+      console.error('Error in withdrawal worker:', error);
+      // Don't throw to prevent scheduler from stopping
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, INTERVAL_SECONDS * 1000);
+};
@@ -0,0 +1,69 @@
+import { assertValidAddress, isEvmChain, validateAddress } from '../src/utils/addressValidation';
+
+const EVM = '0x52908400098527886E0F7030069857D2E4169EE7';
+const TRON = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+const SOLANA = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const TON_BOUNCEABLE = 'EQAJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCdgb';
+const TON_NON_BOUNCEABLE = 'UQAJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCYXe';
+const TON_TESTNET = 'kQAJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCWOR';
+
+describe('validateAddress', () => {
+  it('accepts well-formed addresses of every chain', () => {
+    expect(validateAddress('Tron', TRON)).toEqual({ isValid: true, address: TRON, format: 'base58check' });
+    expect(validateAddress('Solana', SOLANA)).toEqual({ isValid: true, address: SOLANA, format: 'base58' });
+    expect(validateAddress('TON', TON_BOUNCEABLE)).toMatchObject({ isValid: true, format: 'bounceable' });
+    expect(validateAddress('TON', TON_NON_BOUNCEABLE)).toMatchObject({ isValid: true, format: 'non-bounceable' });
+    expect(validateAddress('TON', `0:${'AB'.repeat(32)}`)).toEqual({ isValid: true, address: `0:${'ab'.repeat(32)}`, format: 'raw' });
+  });
+
+  it('checksums lowercase EVM addresses and refuses a bad mixed-case checksum', () => {
+    expect(validateAddress('BNB', ` ${EVM.toLowerCase()} `)).toEqual({ isValid: true, address: EVM, format: 'hex' });
+    expect(validateAddress('Ethereum', EVM.replace('E7', 'e7'))).toEqual({ isValid: false, message: 'EVM address checksum does not match' });
+  });
+
+  it('refuses checksum failures and malformed addresses with the reason', () => {
+    expect(validateAddress('Tron', `${TRON.slice(0, -1)}u`)).toMatchObject({ message: 'Tron address checksum does not match' });
+    expect(validateAddress('Tron', EVM)).toMatchObject({ message: 'Tron addresses start with T and are 34 characters long' });
+    expect(validateAddress('Solana', 'abc')).toMatchObject({ message: 'Invalid Solana address' });
+    expect(validateAddress('TON', `${TON_BOUNCEABLE.slice(0, -1)}c`)).toMatchObject({ message: 'TON address checksum does not match' });
+    expect(validateAddress('TON', TON_TESTNET)).toMatchObject({ message: 'TON testnet addresses are not accepted' });
+    expect(validateAddress('TON', `1:${'ab'.repeat(32)}`)).toMatchObject({ message: 'TON workchain must be 0 or -1' });
+  });
+
+  it('refuses empty addresses and unknown chains', () => {
+    expect(validateAddress('Tron', '  ')).toEqual({ isValid: false, message: 'Address is required' });
+    expect(validateAddress('Bitcoin', TRON)).toEqual({ isValid: false, message: 'Unsupported blockchain Bitcoin' });
+  });
+
+  it('takes a memo only on TON and within one cell', () => {
+    expect(validateAddress('TON', TON_BOUNCEABLE, 'order 42')).toMatchObject({ isValid: true });
+    expect(validateAddress('TON', TON_BOUNCEABLE, 'x'.repeat(121))).toMatchObject({ message: 'Memo must be at most 120 bytes' });
+    expect(validateAddress('Tron', TRON, 'order 42')).toMatchObject({ message: 'Tron transfers do not support a memo' });
+  });
+
+  it('requires a memo for the configured addresses', () => {
+    const env = process.env;
+    process.env = { ...env, MEMO_REQUIRED_ADDRESSES: ` ${TON_BOUNCEABLE} ` };
+    jest.isolateModules(() => {
+      const { validateAddress: validate } = require('../src/utils/addressValidation');
+
+      expect(validate('TON', TON_BOUNCEABLE)).toEqual({ isValid: false, message: 'This address requires a memo' });
+      expect(validate('TON', TON_BOUNCEABLE, '1234')).toMatchObject({ isValid: true });
+      expect(validate('TON', TON_NON_BOUNCEABLE)).toMatchObject({ isValid: true });
+    });
+    process.env = env;
+  });
+});
+
+describe('assertValidAddress', () => {
+  it('returns the normalized address or throws the reason', () => {
+    expect(assertValidAddress('Ethereum', EVM.toLowerCase())).toBe(EVM);
+    expect(() => assertValidAddress('Solana', 'abc')).toThrow('Invalid Solana address');
+  });
+});
+
+describe('isEvmChain', () => {
+  it('is true for Ethereum and BNB only', () => {
+    expect(['Ethereum', 'BNB', 'Tron', 'Solana', 'TON'].map(isEvmChain)).toEqual([true, true, false, false, false]);
+  });
+});
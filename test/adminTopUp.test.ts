@@ -0,0 +1,44 @@
+import { fakeDb } from './helpers/fakeDb';
+import { topUpUserBalance } from '../src/db/admin';
+
+// Statements run through the transaction's client, apart from those on the pool
+const mockStatements: string[] = [];
+
+jest.mock('../src/db/pool', () => {
+  const { fakePool, fakeClient } = require('./helpers/fakeDb');
+  const client = {
+    ...fakeClient,
+    query: (text: string, params?: any[]) => {
+      mockStatements.push(text.trim().split(/\s+/).slice(0, 3).join(' '));
+      return fakeClient.query(text, params);
+    },
+  };
+  return { ...fakePool, withTransaction: (fn: (c: any) => Promise<any>) => fn(client) };
+});
+jest.mock('../src/db/prisma', () => ({ __esModule: true, default: {} }));
+jest.mock('bcrypt', () => ({}));
+jest.mock('../src/utils/bcrypt', () => ({}));
+jest.mock('../src/utils/email', () => ({}));
+jest.mock('../src/db/wallets', () => ({}));
+
+beforeEach(() => {
+  fakeDb.reset();
+  mockStatements.length = 0;
+});
+
+describe('topUpUserBalance', () => {
+  it('credits the balance and logs the top-up in one transaction', async () => {
+    fakeDb.addBalance(2, 'USDT', '1');
+
+    const balance = await topUpUserBalance(9, 2, 'USDT', '4.5', 'Promotion');
+
+    expect(balance.amount.toFixed()).toBe('5.5');
+    expect(fakeDb.tables.logs).toEqual([{ id: 1, adminId: 9, userId: 2, type: 'TOPUP', description: 'Promotion' }]);
+    expect(mockStatements).toEqual(expect.arrayContaining(['UPDATE "Balances" SET', 'INSERT INTO "Logs"']));
+  });
+
+  it('refuses amounts that are not positive', async () => {
+    await expect(topUpUserBalance(9, 2, 'USDT', '0', 'Promotion')).rejects.toThrow('Amount must be greater than zero');
+    expect(fakeDb.tables.logs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { fakeDb } from './helpers/fakeDb';
+import { placeHold } from '../src/db/holds';
+import { retryBetStakes, settleBetStake, stakeSettlement } from '../src/games/betStakes';
+
+// Bets by id, as prisma.bet.findUnique finds them
+const mockBets = new Map<string, { id: string; game: number; status: string }>();
+
+jest.mock('../src/db/pool', () => require('./helpers/fakeDb').fakePool);
+jest.mock('../src/db/prisma', () => {
+  const { fakeDb: db } = require('./helpers/fakeDb');
+  return {
+    __esModule: true,
+    default: {
+      fundHold: {
+        findFirst: async ({ where }) => db.tables.holds.find((h) =>
+          h.refType === where.refType && h.refId === where.refId && h.status === where.status) || null,
+      },
+      bet: { findUnique: async ({ where }) => mockBets.get(where.id) || null },
+    },
+  };
+});
+
+// A 10 USD stake of user 1, held an hour ago for bet id
+const heldStake = async (id: string) => {
+  const hold = await placeHold(1, '10', 'USD', { type: 'bet', id });
+  fakeDb.tables.holds.find((h) => h.id === hold.id).createdAt = new Date(Date.now() - 3600 * 1000);
+  return hold;
+};
+
+beforeEach(() => {
+  fakeDb.reset();
+  mockBets.clear();
+  fakeDb.addBalance(1, 'USD', '100');
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('bet stakes', () => {
+  it('are spent on a loss and on a BigSmall win, and handed back on other wins', () => {
+    expect(stakeSettlement({ id: 'a', game: 2, status: 'lose' })).toBe('capture');
+    expect(stakeSettlement({ id: 'a', game: 1, status: 'win' })).toBe('capture');
+    expect(stakeSettlement({ id: 'a', game: 3, status: 'win' })).toBe('release');
+  });
+
+  it('settle the open hold of a bet', async () => {
+    await heldStake('won');
+    await settleBetStake({ id: 'won', game: 4, status: 'win' });
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '100', lock: '0' });
+
+    await heldStake('lost');
+    await settleBetStake({ id: 'lost', game: 4, status: 'lose' });
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '90', lock: '0' });
+  });
+
+  it('are settled by the retry job when a bet was decided but its hold left open', async () => {
+    await heldStake('lost');
+    mockBets.set('lost', { id: 'lost', game: 1, status: 'lose' });
+    await heldStake('won');
+    mockBets.set('won', { id: 'won', game: 2, status: 'win' });
+
+    await retryBetStakes();
+
+    expect(fakeDb.tables.holds.map((h) => h.status)).toEqual(['captured', 'released']);
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '90', lock: '0' });
+  });
+
+  it('go back when the bet was never stored, and wait while it is pending', async () => {
+    await heldStake('missing');
+    await heldStake('pending');
+    mockBets.set('pending', { id: 'pending', game: 1, status: 'pending' });
+    await placeHold(1, '10', 'USD', { type: 'bet', id: 'just-placed' });
+
+    await retryBetStakes();
+
+    expect(fakeDb.tables.holds.map((h) => h.status)).toEqual(['released', 'held', 'held']);
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '80', lock: '20' });
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  checkDepositAddress, getDepositOrchestratorStats, getDepositOrchestratorStatus, runOnce,
+} from '../src/services/depositOrchestrator';
+import { saveTransaction } from '../src/db/wallets';
+import { ChainAdapter, DepositTransfer, ScanContext } from '../src/blockchain/types';
+import { toAmount } from '../src/utils/money';
+
+// Deposits, chain cursors and the Ethereum chain as the orchestrator sees them
+const mockDeposits: any[] = [];
+const mockCursors = new Map<string, number>();
+const mockChain = {
+  head: 0,
+  transfers: [] as { txHash: string; index: number; blockNumber: number; to: string; currency: string; amount: string }[],
+  statuses: new Map<string, { state: string; confirmations: number; error?: string }>(),
+};
+
+const mockAdapter: ChainAdapter<typeof mockChain.transfers> = {
+  blockchain: 'Ethereum',
+  nativeCurrency: 'ETH',
+  depositConfirmations: 12,
+  minNativeDeposit: toAmount('0.01'),
+  maxScanRange: 100,
+  getPoolAddress: async () => '0xpool',
+  getHead: async () => mockChain.head,
+  scanRange: jest.fn(async (from: number, to: number) =>
+    mockChain.transfers.filter((t) => t.blockNumber >= from && t.blockNumber <= to)),
+  parseTransfers: (raw, context: ScanContext) => raw
+    .filter((t) => context.wallets.has(t.to.toLowerCase()))
+    .map((t): DepositTransfer => ({ ...t, amount: toAmount(t.amount), wallet: context.wallets.get(t.to.toLowerCase()) })),
+  getConfirmations: jest.fn(async (txHash: string) => mockChain.statuses.get(txHash) as any),
+  sweep: jest.fn(),
+  send: jest.fn(),
+  validateAddress: jest.fn(),
+};
+
+jest.mock('../src/blockchain/adapters', () => ({
+  ADAPTER_CHAINS: ['Ethereum', 'TON'],
+  getChainAdapter: (blockchain: string) => (blockchain === 'Ethereum' ? mockAdapter : null),
+}));
+jest.mock('../src/db/wallets', () => ({
+  getAllWallets: async () => [
+    { id: 1, userId: 1, blockchain: 'Ethereum', publicKey: '0xAAAA000000000000000000000000000000000001' },
+    { id: 2, userId: 2, blockchain: 'Ethereum', publicKey: '0xBBBB000000000000000000000000000000000002' },
+  ],
+  saveTransaction: jest.fn(),
+}));
+jest.mock('../src/db/tokens', () => ({
+  getTokens: async () => [{ blockchain: 'Ethereum', symbol: 'USDT', minDeposit: require('../src/utils/money').toAmount(1) }],
+}));
+jest.mock('../src/utils/exchange', () => ({
+  depositValueInUsd: async (amount: any) => ({ usdRate: 1, usdValue: amount, rateSource: 'test' }),
+}));
+jest.mock('../src/db/deposits', () => {
+  const { toAmount: amount } = require('../src/utils/money');
+  const find = (id: number) => mockDeposits.find((d) => d.id === id);
+  return {
+    recordDeposit: jest.fn(async (data) => {
+      if (mockDeposits.some((d) => d.txHash === data.txHash && d.transferIndex === data.transferIndex)) return null;
+      const deposit = { ...data, id: mockDeposits.length + 1, status: 'pending', confirmations: 0, sweepTxHash: null };
+      mockDeposits.push(deposit);
+      return deposit;
+    }),
+    getPendingDeposits: async () => mockDeposits.filter((d) => d.status === 'pending').map((d) => ({ ...d })),
+    updateDepositConfirmations: async (id: number, confirmations: number) => { find(id).confirmations = confirmations; },
+    failDeposit: async (id: number) => { find(id).status = 'failed'; },
+    confirmDeposit: async (deposit: any) => {
+      if (find(deposit.id).status !== 'pending') return false;
+      find(deposit.id).status = 'confirmed';
+      return true;
+    },
+    getUnsweptDeposits: async () => mockDeposits.filter((d) => d.status === 'confirmed' && !d.sweepTxHash),
+    markDepositsSwept: async (ids: number[], txHash: string) => ids.forEach((id) => { find(id).sweepTxHash = txHash; }),
+    getChainCursor: async (blockchain: string) => (mockCursors.has(blockchain) ? mockCursors.get(blockchain) : null),
+    setChainCursor: async (blockchain: string, block: number) => { mockCursors.set(blockchain, block); },
+    getDepositStats: async () => [
+      { network: 'Ethereum', total: 3, usdValue: amount('150.5'), pending: 1, confirmed: 2 },
+      { network: 'Tron', total: 1, usdValue: amount('10'), pending: 0, confirmed: 1 },
+    ],
+  };
+});
+
+const USER_1 = '0xaaaa000000000000000000000000000000000001';
+const USER_2 = '0xBBBB000000000000000000000000000000000002';
+
+const transfer = (txHash: string, blockNumber: number, to: string, currency: string, amount: string, index = 0) =>
+  mockChain.transfers.push({ txHash, index, blockNumber, to, currency, amount });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockDeposits.length = 0;
+  mockCursors.clear();
+  mockChain.head = 1000;
+  mockChain.transfers = [];
+  mockChain.statuses.clear();
+  (mockAdapter.sweep as jest.Mock).mockResolvedValue('0xsweep');
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('deposit pass', () => {
+  it('starts at the chain head, then scans the blocks after the cursor a range at a time', async () => {
+    await runOnce();
+    expect(mockCursors.get('Ethereum')).toBe(1000);
+    expect(mockAdapter.scanRange).not.toHaveBeenCalled();
+
+    mockChain.head = 1250;
+    transfer('0x1', 1001, USER_1, 'USDT', '25');
+    transfer('0x1', 1001, USER_2, 'USDT', '0.5', 1);
+    transfer('0x2', 1050, USER_2, 'ETH', '0.001');
+    transfer('0x3', 1100, '0xcccc000000000000000000000000000000000003', 'ETH', '1');
+    transfer('0x4', 1200, USER_2, 'ETH', '0.2');
+    await runOnce();
+
+    expect(mockAdapter.scanRange).toHaveBeenCalledWith(1001, 1100, expect.anything());
+    expect(mockCursors.get('Ethereum')).toBe(1100);
+    // Below the registry's 1 USDT and the chain's 0.01 ETH minimums, and not a deposit address
+    expect(mockDeposits.map((d) => [d.txHash, d.userId, d.toAddress, d.amount.toFixed()])).toEqual([
+      ['0x1', 1, '0xAAAA000000000000000000000000000000000001', '25'],
+    ]);
+
+    await runOnce();
+    expect(mockCursors.get('Ethereum')).toBe(1200);
+    expect(mockDeposits.map((d) => d.txHash)).toEqual(['0x1', '0x4']);
+  });
+
+  it('credits deposits once deep enough, fails reverted ones and tracks the rest', async () => {
+    mockCursors.set('Ethereum', 999);
+    transfer('0x1', 1000, USER_1, 'USDT', '25');
+    transfer('0x1', 1000, USER_1, 'USDT', '5', 1);
+    transfer('0x2', 1000, USER_2, 'USDT', '7');
+    transfer('0x3', 1000, USER_2, 'ETH', '1');
+    mockChain.statuses.set('0x1', { state: 'success', confirmations: 12 });
+    mockChain.statuses.set('0x2', { state: 'failed', confirmations: 1, error: 'reverted' });
+    mockChain.statuses.set('0x3', { state: 'success', confirmations: 4 });
+
+    await runOnce();
+
+    expect(mockDeposits.map((d) => [d.txHash, d.status, d.confirmations])).toEqual([
+      ['0x1', 'confirmed', 0], ['0x1', 'confirmed', 0], ['0x2', 'failed', 0], ['0x3', 'pending', 4],
+    ]);
+    // Transfers of one transaction share one status lookup
+    expect(mockAdapter.getConfirmations).toHaveBeenCalledTimes(3);
+    expect(saveTransaction).toHaveBeenCalledTimes(2);
+    expect(saveTransaction).toHaveBeenCalledWith(
+      1, '0xAAAA000000000000000000000000000000000001', expect.anything(), 'USDT', '0x1', 'deposit', { usdRate: 1, rateSource: 'test' },
+    );
+
+    // One sweep moves both confirmed deposits of the address
+    expect(mockAdapter.sweep).toHaveBeenCalledTimes(1);
+    expect(mockAdapter.sweep).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }), 'USDT');
+    expect(mockDeposits.filter((d) => d.sweepTxHash === '0xsweep')).toHaveLength(2);
+  });
+
+  it('leaves deposits unswept when the sweep is deferred and retries them on the next pass', async () => {
+    mockCursors.set('Ethereum', 999);
+    transfer('0x1', 1000, USER_1, 'USDT', '25');
+    mockChain.statuses.set('0x1', { state: 'success', confirmations: 12 });
+    (mockAdapter.sweep as jest.Mock).mockResolvedValueOnce(null).mockRejectedValueOnce(new Error('no gas'));
+
+    await runOnce();
+    await runOnce();
+    expect(mockDeposits[0].sweepTxHash).toBeNull();
+
+    await runOnce();
+    expect(mockAdapter.sweep).toHaveBeenCalledTimes(3);
+    expect(mockDeposits[0].sweepTxHash).toBe('0xsweep');
+  });
+
+  it('keeps going past chains that fail and reports their last error', async () => {
+    await runOnce();
+
+    const status = getDepositOrchestratorStatus();
+    expect(status).toMatchObject({ isRunning: false, networks: ['Ethereum', 'TON'] });
+    expect(status.chains.Ethereum).toMatchObject({ running: false, lastError: null, head: 1000, cursor: 1000 });
+    expect(status.chains.TON).toMatchObject({ running: false, lastError: 'No chain adapter for TON' });
+  });
+});
+
+describe('checkDepositAddress', () => {
+  it('rescans the latest blocks for one deposit address', async () => {
+    transfer('0x1', 950, USER_1, 'USDT', '25');
+    transfer('0x2', 960, USER_2, 'USDT', '30');
+    transfer('0x3', 800, USER_1, 'USDT', '40');
+
+    await expect(checkDepositAddress('Ethereum', USER_1)).resolves.toEqual({
+      address: USER_1, fromBlock: 901, toBlock: 1000, depositsFound: 1, depositsRecorded: 1,
+    });
+    // Already recorded
+    await expect(checkDepositAddress('Ethereum', USER_1)).resolves.toMatchObject({ depositsFound: 1, depositsRecorded: 0 });
+    expect(mockDeposits.map((d) => d.txHash)).toEqual(['0x1']);
+  });
+
+  it('refuses addresses that are not deposit addresses of the chain', async () => {
+    await expect(checkDepositAddress('Ethereum', '0xcccc000000000000000000000000000000000003'))
+      .rejects.toThrow('0xcccc000000000000000000000000000000000003 is not a Ethereum deposit address');
+    await expect(checkDepositAddress('TON', USER_1)).rejects.toThrow('No chain adapter for TON');
+  });
+});
+
+describe('getDepositOrchestratorStats', () => {
+  it('reports deposits per network and overall', async () => {
+    await expect(getDepositOrchestratorStats()).resolves.toEqual({
+      ethereum: { totalDeposits: 3, totalAmount: 150.5, pendingDeposits: 1, confirmedDeposits: 2 },
+      tron: { totalDeposits: 1, totalAmount: 10, pendingDeposits: 0, confirmedDeposits: 1 },
+      total: { deposits: 4, amount: 160.5, pending: 1, confirmed: 3 },
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { ethers } from 'ethers';
+import { createEvmChain } from '../src/blockchain/ether';
+
+jest.mock('../src/db/pool', () => require('./helpers/fakeDb').fakePool);
+jest.mock('../src/db/prisma', () => ({ __esModule: true, default: {} }));
+jest.mock('../src/utils/hdWallet', () => ({ getWalletPrivateKey: jest.fn() }));
+jest.mock('../src/signer', () => {
+  // eslint-disable-next-line @typescript-eslint/no-shadow
+  const { ethers } = require('ethers');
+  const wallet = new ethers.Wallet(`0x${'11'.repeat(32)}`);
+  return {
+    getSigner: () => ({
+      signEvmTransaction: async (chain: string, unsignedTx: string) => {
+        const tx = ethers.Transaction.from(unsignedTx);
+        tx.signature = wallet.signingKey.sign(tx.unsignedHash);
+        return tx.serialized;
+      },
+    }),
+  };
+});
+
+const POOL = '0x00000000000000000000000000000000000000a1';
+const RECIPIENT = '0x00000000000000000000000000000000000000b2';
+
+const chain = () => createEvmChain({
+  blockchain: 'Ethereum',
+  nativeCurrency: 'ETH',
+  rpcUrl: 'http://localhost:8545',
+  mainPoolAddress: POOL,
+  minNativeDeposit: 0.01,
+  depositConfirmations: 12,
+  maxScanRange: 20,
+  gasTopUp: '0.0002',
+  tokenTransferGas: BigInt(65_000),
+});
+
+const provider = ethers.JsonRpcProvider.prototype;
+let broadcastNonces: number[];
+
+beforeEach(() => {
+  broadcastNonces = [];
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(provider, 'getNetwork').mockResolvedValue(ethers.Network.from(1));
+  jest.spyOn(provider, 'getBalance').mockResolvedValue(ethers.parseEther('10'));
+  jest.spyOn(provider, 'estimateGas').mockResolvedValue(BigInt(21_000));
+  jest.spyOn(provider, 'getFeeData').mockResolvedValue(new ethers.FeeData(null, BigInt(2e9), BigInt(1e9)));
+  // The node has not seen any of this process's transactions yet
+  jest.spyOn(provider, 'getTransactionCount').mockResolvedValue(5);
+  jest.spyOn(provider, 'broadcastTransaction').mockImplementation(async (signed: string) => {
+    const tx = ethers.Transaction.from(signed);
+    broadcastNonces.push(tx.nonce);
+    return { hash: tx.hash } as any;
+  });
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('EVM pool sends', () => {
+  it('give concurrent sends consecutive nonces', async () => {
+    const { broadcastNative } = chain();
+
+    await Promise.all([
+      broadcastNative(RECIPIENT, '0.1'),
+      broadcastNative(RECIPIENT, '0.2'),
+      broadcastNative(RECIPIENT, '0.3'),
+    ]);
+
+    expect(broadcastNonces).toEqual([5, 6, 7]);
+  });
+
+  it('reuse the nonce of a send that failed before broadcast, and follow the node when it is ahead', async () => {
+    const { broadcastNative } = chain();
+    const refused = jest.fn().mockRejectedValueOnce(new Error('refused'));
+
+    await expect(broadcastNative(RECIPIENT, '0.1', refused)).rejects.toThrow('refused');
+    await broadcastNative(RECIPIENT, '0.1');
+
+    (provider.getTransactionCount as jest.Mock).mockResolvedValue(9);
+    await broadcastNative(RECIPIENT, '0.1');
+
+    expect(broadcastNonces).toEqual([5, 9]);
+  });
+});
@@ -0,0 +1,106 @@
+import { fakeDb } from './helpers/fakeDb';
+import { createExchangeQuote, swapPostings } from '../src/db/exchangeQuotes';
+import { getExchangePairConfig } from '../src/db/exchangePairs';
+import { postJournal } from '../src/db/ledger';
+import { getExchangeRate } from '../src/utils/exchange';
+import { toAmount } from '../src/utils/money';
+
+jest.mock('../src/db/pool', () => require('./helpers/fakeDb').fakePool);
+jest.mock('../src/db/prisma', () => ({ __esModule: true, default: {} }));
+jest.mock('../src/utils/exchange', () => ({ getExchangeRate: jest.fn() }));
+jest.mock('../src/db/exchangePairs', () => ({
+  ...jest.requireActual('../src/db/exchangePairs'),
+  getExchangePairConfig: jest.fn(),
+}));
+
+const pairConfig = (spreadBps: number, flatFee = '0') => ({
+  fromCurrency: 'USDT',
+  toCurrency: 'ETH',
+  spreadBps,
+  flatFee: toAmount(flatFee),
+  minAmount: null,
+  maxAmount: null,
+  enabled: true,
+});
+
+const postingsOf = (postings: ReturnType<typeof swapPostings>) =>
+  Object.fromEntries(postings.map((p) => [p.account, toAmount(p.debit || p.credit).toFixed()]));
+
+beforeEach(() => {
+  fakeDb.reset();
+  // 1 / 3000 has more decimals than the 18 the quote stores
+  (getExchangeRate as jest.Mock).mockResolvedValue(toAmount(1).div(3000));
+});
+
+describe('createExchangeQuote', () => {
+  it('prices the output from the rate as stored', async () => {
+    (getExchangePairConfig as jest.Mock).mockResolvedValue(pairConfig(0));
+
+    const quote = await createExchangeQuote(1, 'usdt', 'eth', '100');
+
+    expect(quote.marketRate.toFixed()).toBe('0.000333333333333333');
+    expect(quote.rate.toFixed()).toBe('0.000333333333333333');
+    expect(quote.outputAmount.toFixed()).toBe('0.0333333333333333');
+  });
+
+  it('takes the spread off the rate and the flat fee off the output', async () => {
+    (getExchangeRate as jest.Mock).mockResolvedValue(toAmount('0.0005'));
+    (getExchangePairConfig as jest.Mock).mockResolvedValue(pairConfig(100, '0.001'));
+
+    const quote = await createExchangeQuote(1, 'USDT', 'ETH', '300');
+
+    expect(quote.rate.toFixed()).toBe('0.000495');
+    expect(quote.fee.toFixed()).toBe('0.001');
+    expect(quote.outputAmount.toFixed()).toBe('0.1475');
+  });
+
+  it('refuses amounts the fee eats up', async () => {
+    (getExchangePairConfig as jest.Mock).mockResolvedValue(pairConfig(0, '1'));
+
+    await expect(createExchangeQuote(1, 'USDT', 'ETH', '100')).rejects.toThrow('Amount is too small to exchange');
+  });
+});
+
+describe('swapPostings', () => {
+  beforeEach(() => fakeDb.addBalance(1, 'USDT', '1000'));
+
+  it('balances without revenue when the pair has no spread or fee', async () => {
+    (getExchangePairConfig as jest.Mock).mockResolvedValue(pairConfig(0));
+    const quote = await createExchangeQuote(1, 'USDT', 'ETH', '100');
+
+    const postings = swapPostings(1, quote);
+    await postJournal({ type: 'swap', id: quote.id }, postings);
+
+    expect(postingsOf(postings)['house:revenue:ETH']).toBeUndefined();
+    expect(fakeDb.balance(1, 'USDT').amount).toBe('900');
+    expect(fakeDb.balance(1, 'ETH').amount).toBe('0.0333333333333333');
+  });
+
+  it('books the spread and fee as revenue', async () => {
+    (getExchangeRate as jest.Mock).mockResolvedValue(toAmount('0.0005'));
+    (getExchangePairConfig as jest.Mock).mockResolvedValue(pairConfig(100, '0.001'));
+    const quote = await createExchangeQuote(1, 'USDT', 'ETH', '300');
+
+    const postings = swapPostings(1, quote);
+    await postJournal({ type: 'swap', id: quote.id }, postings);
+
+    expect(postingsOf(postings)).toEqual({
+      'user:1:USDT': '300',
+      'house:swap:USDT': '300',
+      'house:swap:ETH': '0.15',
+      'user:1:ETH': '0.1475',
+      'house:revenue:ETH': '0.0025',
+    });
+  });
+
+  it('never books negative revenue', async () => {
+    (getExchangePairConfig as jest.Mock).mockResolvedValue(pairConfig(-50));
+    const quote = await createExchangeQuote(1, 'USDT', 'ETH', '100');
+
+    const postings = swapPostings(1, quote);
+    await postJournal({ type: 'swap', id: quote.id }, postings);
+
+    expect(postingsOf(postings)['house:revenue:ETH']).toBeUndefined();
+    expect(postingsOf(postings)['house:swap:ETH']).toBe(quote.outputAmount.toFixed());
+  });
+});
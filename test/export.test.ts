@@ -0,0 +1,38 @@
+import { PassThrough } from 'stream';
+import { toCsvRow, writeExport } from '../src/utils/export';
+
+async function* rowsOf(rows: Record<string, any>[]) {
+  for (const row of rows) yield row;
+}
+
+const exported = async (format: 'csv' | 'ndjson', rows: Record<string, any>[]) => {
+  const out = new PassThrough();
+  let text = '';
+  out.on('data', (chunk) => { text += chunk; });
+  await writeExport(out, format, ['id', 'note'], rowsOf(rows));
+  return text;
+};
+
+describe('toCsvRow', () => {
+  it('quotes cells with separators, quotes or line breaks', () => {
+    expect(toCsvRow(['a,b', 'say "hi"', 'two\nlines', 'plain'])).toBe('"a,b","say ""hi""","two\nlines",plain\r\n');
+  });
+
+  it('leaves empty cells for missing values and writes dates as ISO', () => {
+    expect(toCsvRow([null, undefined, new Date('2026-01-02T03:04:05Z')])).toBe(',,2026-01-02T03:04:05.000Z\r\n');
+  });
+
+  it('defuses cells a spreadsheet would run as formulas but keeps negative numbers', () => {
+    expect(toCsvRow(['=SUM(A1)', '+1+1', '@cmd', '-12.5'])).toBe("'=SUM(A1),'+1+1,'@cmd,-12.5\r\n");
+  });
+});
+
+describe('writeExport', () => {
+  it('writes a header row and one row per item as CSV', async () => {
+    expect(await exported('csv', [{ id: 1, note: 'x' }, { id: 2 }])).toBe('id,note\r\n1,x\r\n2,\r\n');
+  });
+
+  it('writes one JSON object per line as NDJSON', async () => {
+    expect(await exported('ndjson', [{ id: 1, note: 'x' }])).toBe('{"id":1,"note":"x"}\n');
+  });
+});
@@ -0,0 +1,110 @@
+import bs58 from 'bs58';
+import { Keypair } from '@solana/web3.js';
+import { Wallet } from 'ethers';
+
+const mockDecryptPrivateKey = jest.fn((stored: string) => `decrypted:${stored}`);
+
+jest.mock('../src/utils/bcrypt', () => ({ decryptPrivateKey: mockDecryptPrivateKey }));
+
+// The BIP39 test mnemonic, whose derived keys are published in wallet test vectors
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+const env = process.env;
+
+// hdWallet caches the seed of the first mnemonic it reads, so every test loads a fresh copy
+const load = (): typeof import('../src/utils/hdWallet') => {
+  let module;
+  jest.isolateModules(() => {
+    module = require('../src/utils/hdWallet');
+  });
+  return module;
+};
+
+beforeEach(() => {
+  process.env = { ...env, HD_WALLET_MNEMONIC: MNEMONIC };
+});
+
+afterEach(() => {
+  process.env = env;
+});
+
+describe('derivationPathFor', () => {
+  const { derivationPathFor } = load();
+
+  it('gives each chain its own path by user id', () => {
+    expect(['Tron', 'Ethereum', 'BNB', 'Solana'].map((chain) => derivationPathFor(chain, 7))).toEqual([
+      "m/44'/195'/0'/0/7",
+      "m/44'/60'/0'/0/7",
+      "m/44'/60'/1'/0/7",
+      "m/44'/501'/7'/0'",
+    ]);
+  });
+
+  it('refuses unknown chains and indexes outside the non-hardened range', () => {
+    expect(() => derivationPathFor('TON', 1)).toThrow('HD derivation is not supported for TON');
+    expect(() => derivationPathFor('Tron', -1)).toThrow('Invalid derivation index -1');
+    expect(() => derivationPathFor('Tron', 1.5)).toThrow('Invalid derivation index 1.5');
+    expect(() => derivationPathFor('Tron', 0x80000000)).toThrow('Invalid derivation index 2147483648');
+  });
+});
+
+describe('deriveDepositAddress', () => {
+  it('matches the published Ethereum vector', () => {
+    const { deriveDepositAddress } = load();
+
+    expect(deriveDepositAddress('Ethereum', 0)).toEqual({
+      publicKey: '0x9858EfFD232B4033E47d90003D41EC34EcaEda94',
+      derivationPath: "m/44'/60'/0'/0/0",
+    });
+  });
+
+  it('derives distinct addresses per chain and user that sign with the derived key', () => {
+    process.env.HD_WALLET_MNEMONIC = ` ${MNEMONIC} `;
+    const { deriveDepositAddress, derivePrivateKey } = load();
+    const eth = deriveDepositAddress('Ethereum', 1);
+    const bnb = deriveDepositAddress('BNB', 1);
+    const sol = deriveDepositAddress('Solana', 1);
+
+    expect(new Set([eth.publicKey, bnb.publicKey, deriveDepositAddress('Ethereum', 2).publicKey]).size).toBe(3);
+    expect(new Wallet(derivePrivateKey('BNB', bnb.derivationPath)).address).toBe(bnb.publicKey);
+    expect(Keypair.fromSecretKey(bs58.decode(derivePrivateKey('Solana', sol.derivationPath))).publicKey.toBase58())
+      .toBe(sol.publicKey);
+  });
+
+  it('encodes Tron addresses from the same key as the 0x41-prefixed EVM address', () => {
+    const { deriveDepositAddress, derivePrivateKey } = load();
+    const { publicKey, derivationPath } = deriveDepositAddress('Tron', 3);
+    const privateKey = derivePrivateKey('Tron', derivationPath);
+
+    expect(privateKey).toMatch(/^[0-9a-f]{64}$/);
+    expect(publicKey).toMatch(/^T[1-9A-HJ-NP-Za-km-z]{33}$/);
+    const evmAddress = new Wallet(`0x${privateKey}`).address.slice(2).toLowerCase();
+    expect(Buffer.from(bs58.decode(publicKey)).subarray(0, 21).toString('hex')).toBe(`41${evmAddress}`);
+  });
+
+  it('refuses to derive without a mnemonic', () => {
+    delete process.env.HD_WALLET_MNEMONIC;
+    const { deriveDepositAddress, isHdWalletEnabled } = load();
+
+    expect(isHdWalletEnabled()).toBe(false);
+    expect(() => deriveDepositAddress('Ethereum', 1)).toThrow('HD_WALLET_MNEMONIC is not configured');
+  });
+
+  it('only takes hardened paths for Solana', () => {
+    const { derivePrivateKey } = load();
+
+    expect(() => derivePrivateKey('Solana', "m/44'/501'/0'/0")).toThrow('ed25519 derivation needs hardened indexes');
+  });
+});
+
+describe('getWalletPrivateKey', () => {
+  it('derives wallets with a path and decrypts the stored key of the others', () => {
+    const { derivePrivateKey, getWalletPrivateKey } = load();
+    const derivationPath = "m/44'/60'/0'/0/5";
+
+    expect(getWalletPrivateKey({ blockchain: 'Ethereum', privateKey: 'stored', derivationPath }))
+      .toBe(derivePrivateKey('Ethereum', derivationPath));
+    expect(getWalletPrivateKey({ blockchain: 'Ethereum', privateKey: 'stored' })).toBe('decrypted:stored');
+    expect(() => getWalletPrivateKey({ blockchain: 'Ethereum' })).toThrow('Wallet has neither a derivation path nor a stored key');
+  });
+});
@@ -0,0 +1,250 @@
+// In-memory stand-in for the statements the ledger, holds, swap quotes,
+// withdrawals and the withdrawal address book run, so their flows can be tested without Postgres. Tests
+// replace the pool with
+//
+//   jest.mock('../src/db/pool', () => require('./helpers/fakeDb').fakePool);
+//
+// and seed or inspect the tables through fakeDb. Statements it does not know
+// throw, so a test fails loudly when the code under test changes its SQL.
+import { toAmount, toDbAmount } from '../../src/utils/money';
+
+type Row = Record<string, any>;
+
+const tables = () => ({
+  balances: [] as Row[],
+  accounts: [] as Row[],
+  entries: [] as Row[],
+  holds: [] as Row[],
+  withdrawals: [] as Row[],
+  quotes: [] as Row[],
+  transactions: [] as Row[],
+  logs: [] as Row[],
+  users: [] as Row[],
+  addresses: [] as Row[],
+});
+
+let state = tables();
+
+const nextId = (rows: Row[]) => rows.length + 1;
+
+const balanceRow = (b: Row) => ({ ...b, amount: toDbAmount(b.amount), lock: toDbAmount(b.lock) });
+
+const addressRow = ({
+  id, userId, blockchain, address, label, memo, confirmedAt, usableAt, createdAt,
+}: Row) => ({
+  id, userId, blockchain, address, label, memo, confirmedAt, usableAt, createdAt,
+});
+
+// Book entries of a user on a chain for an address; EVM chains compare lowercased
+const addressesFor = (text: string, [userId, blockchain, address]: any[]) => state.addresses.filter((a) =>
+  a.userId === userId && a.blockchain === blockchain
+  && (text.includes('lower(address)') ? a.address.toLowerCase() === address.toLowerCase() : a.address === address));
+
+const secondsFromNow = (seconds: number) => new Date(Date.now() + seconds * 1000);
+
+const handlers: [RegExp, (params: any[], text: string) => Row[]][] = [
+  [/^(BEGIN|COMMIT|ROLLBACK)$/, () => []],
+
+  [/^INSERT INTO "LedgerAccounts"/, ([code, type, userId, currency]) => {
+    if (!state.accounts.some((a) => a.code === code)) {
+      state.accounts.push({ id: nextId(state.accounts), code, type, userId, currency });
+    }
+    return [];
+  }],
+  [/^SELECT .* FROM "LedgerAccounts" WHERE code = \$1/, ([code]) => state.accounts.filter((a) => a.code === code)],
+
+  [/^SELECT .* FROM "Balances"\s+WHERE "userId" = \$1 AND currency = \$2\s+FOR UPDATE/, ([userId, currency]) =>
+    state.balances.filter((b) => b.userId === userId && b.currency === currency).map(balanceRow)],
+  [/^INSERT INTO "Balances"/, ([userId, currency]) => {
+    if (!state.balances.some((b) => b.userId === userId && b.currency === currency)) {
+      state.balances.push({ id: nextId(state.balances), userId, currency, amount: toAmount(0), lock: toAmount(0) });
+    }
+    return [];
+  }],
+  [/^UPDATE "Balances" SET amount = amount \+ \$2, lock = lock \+ \$3/, ([id, delta, lockDelta]) => {
+    const balance = state.balances.find((b) => b.id === id);
+    balance.amount = balance.amount.plus(delta);
+    balance.lock = balance.lock.plus(lockDelta);
+    return [balanceRow(balance)];
+  }],
+
+  [/^INSERT INTO "LedgerEntries"/, (params) => {
+    for (let i = 0; i < params.length; i += 9) {
+      const [journalId, accountId, userId, currency, debit, credit, refType, refId, description] = params.slice(i, i + 9);
+      state.entries.push({ journalId, accountId, userId, currency, debit, credit, refType, refId, description });
+    }
+    return [];
+  }],
+
+  [/^INSERT INTO "FundHolds"/, ([userId, currency, amount, refType, refId, description]) => {
+    const hold = {
+      id: nextId(state.holds), userId, currency, amount, status: 'held', refType, refId, description, createdAt: new Date(),
+    };
+    state.holds.push(hold);
+    return [{ ...hold }];
+  }],
+  [/^SELECT .* FROM "FundHolds" WHERE id = \$1 FOR UPDATE/, ([id]) =>
+    state.holds.filter((h) => h.id === id).map((h) => ({ ...h }))],
+  [/^UPDATE "FundHolds" SET status = \$2/, ([id, status]) => {
+    const hold = state.holds.find((h) => h.id === id);
+    hold.status = status;
+    return [{ ...hold }];
+  }],
+  [/^SELECT id FROM "FundHolds" WHERE "refType" = \$1 AND "refId" = \$2 AND status = \$3/, ([refType, refId, status]) =>
+    state.holds.filter((h) => h.refType === refType && h.refId === refId && h.status === status).map((h) => ({ id: h.id }))],
+  [/^SELECT .* FROM "FundHolds" WHERE "refType" = \$1 AND status = 'held' AND "createdAt" < now\(\) - make_interval\(secs => \$2\) ORDER BY id LIMIT \$3/,
+    ([refType, seconds, limit]) => state.holds
+      .filter((h) => h.refType === refType && h.status === 'held' && h.createdAt.getTime() < Date.now() - seconds * 1000)
+      .slice(0, limit).map((h) => ({ ...h }))],
+
+  [/^INSERT INTO "ExchangeQuotes"/, ([userId, fromCurrency, toCurrency, amount, rate, marketRate, fee, outputAmount]) => {
+    const quote = {
+      id: `quote-${nextId(state.quotes)}`, userId, fromCurrency, toCurrency, amount, rate, marketRate, fee, outputAmount,
+      status: 'open', expiresAt: new Date(Date.now() + 30000), createdAt: new Date(),
+    };
+    state.quotes.push(quote);
+    return [{ ...quote }];
+  }],
+  [/^SELECT .* FROM "ExchangeQuotes" WHERE id::text = \$1 AND "userId" = \$2$/, ([id, userId]) =>
+    state.quotes.filter((q) => q.id === id && q.userId === userId).map((q) => ({ ...q }))],
+  [/^UPDATE "ExchangeQuotes" SET status = 'executed'/, ([id, userId]) => {
+    const quote = state.quotes.find((q) => q.id === id && q.userId === userId && q.status === 'open' && q.expiresAt > new Date());
+    if (!quote) return [];
+    quote.status = 'executed';
+    quote.executedAt = new Date();
+    return [{ ...quote }];
+  }],
+
+  [/^INSERT INTO "Transactions"/, (params) => {
+    const columns = ['userId', 'address', 'currency', 'amount', 'txId', 'type', 'rate', 'fee',
+      'originalAmount', 'originalCurrency', 'usdRate', 'usdValue', 'rateSource'];
+    for (let i = 0; i < params.length; i += columns.length) {
+      const values = params.slice(i, i + columns.length);
+      state.transactions.push({
+        ...Object.fromEntries(columns.map((column, j) => [column, values[j]])), createdAt: new Date(),
+      });
+    }
+    return [];
+  }],
+  [/^SELECT COALESCE\(SUM\(-"usdValue"\), 0\)::text AS "usdValue", COUNT\(\*\)::int AS count FROM "Transactions" WHERE "userId" = \$1 AND type = 'transfer_out' AND "createdAt" >= \$2$/,
+    ([userId, since]) => {
+      const sent = state.transactions.filter((t) => t.userId === userId && t.type === 'transfer_out' && t.createdAt >= since);
+      const usdValue = sent.reduce((sum, t) => sum.minus(t.usdValue || 0), toAmount(0));
+      return [{ usdValue: usdValue.toFixed(), count: sent.length }];
+    }],
+
+  [/^SELECT id FROM "Users" WHERE id = \$1 FOR UPDATE$/, ([id]) => [{ id }]],
+  [/^SELECT email FROM "Users" WHERE id = \$1$/, ([id]) =>
+    state.users.filter((u) => u.id === id).map((u) => ({ email: u.email }))],
+  [/^SELECT "withdrawWhitelistOnly" AS "withdrawWhitelistOnly" FROM "Users" WHERE id = \$1$/, ([id]) =>
+    state.users.filter((u) => u.id === id).map((u) => ({ withdrawWhitelistOnly: Boolean(u.withdrawWhitelistOnly) }))],
+  [/^UPDATE "Users" SET "withdrawWhitelistOnly" = \$2 WHERE id = \$1$/, ([id, enabled]) => {
+    state.users.filter((u) => u.id === id).forEach((u) => { u.withdrawWhitelistOnly = enabled; });
+    return [];
+  }],
+
+  [/^SELECT .*"codeSentAt" > now\(\) - make_interval\(secs => \$4\) AS "recentlySent" FROM "WithdrawAddresses"/, (params, text) =>
+    addressesFor(text, params).map((a) => ({ ...addressRow(a), recentlySent: a.codeSentAt > secondsFromNow(-params[3]) }))],
+  [/^SELECT .* FROM "WithdrawAddresses" WHERE "userId" = \$1 AND blockchain = \$2 AND /, (params, text) =>
+    addressesFor(text, params).map(addressRow)],
+  [/^INSERT INTO "WithdrawAddresses"/, ([userId, blockchain, address, label, memo, codeHash, ttlMinutes]) => {
+    const entry = {
+      id: nextId(state.addresses), userId, blockchain, address, label, memo, confirmedAt: null, usableAt: null,
+      createdAt: new Date(), codeHash, codeExpiresAt: secondsFromNow(ttlMinutes * 60), codeSentAt: new Date(), codeAttempts: 0,
+    };
+    state.addresses.push(entry);
+    return [addressRow(entry)];
+  }],
+  [/^UPDATE "WithdrawAddresses" SET label = \$4/, ([, , , label, memo, codeHash, ttlMinutes, id]) => {
+    const entry = state.addresses.find((a) => a.id === id);
+    Object.assign(entry, {
+      label, memo, codeHash, codeExpiresAt: secondsFromNow(ttlMinutes * 60), codeSentAt: new Date(), codeAttempts: 0,
+    });
+    return [addressRow(entry)];
+  }],
+  [/^SELECT "codeHash" AS "codeHash", .* FROM "WithdrawAddresses" WHERE id = \$1 AND "userId" = \$2 AND "confirmedAt" IS NULL FOR UPDATE$/,
+    ([id, userId]) => state.addresses
+      .filter((a) => a.id === id && a.userId === userId && !a.confirmedAt)
+      .map((a) => ({ codeHash: a.codeHash, codeAttempts: a.codeAttempts, live: a.codeExpiresAt > new Date() }))],
+  [/^UPDATE "WithdrawAddresses" SET "codeAttempts" = "codeAttempts" \+ 1/, ([id, maxAttempts]) => {
+    const entry = state.addresses.find((a) => a.id === id);
+    entry.codeAttempts += 1;
+    if (entry.codeAttempts >= maxAttempts) entry.codeHash = null;
+    return [];
+  }],
+  [/^UPDATE "WithdrawAddresses" SET "confirmedAt" = now\(\)/, ([id, cooldownHours]) => {
+    const entry = state.addresses.find((a) => a.id === id);
+    Object.assign(entry, {
+      confirmedAt: new Date(), usableAt: secondsFromNow(cooldownHours * 3600), codeHash: null, codeExpiresAt: null, codeAttempts: 0,
+    });
+    return [addressRow(entry)];
+  }],
+
+  [/^INSERT INTO "Logs"/, ([adminId, userId, type, description]) => {
+    state.logs.push({ id: nextId(state.logs), adminId, userId, type, description });
+    return [];
+  }],
+
+  [/^SELECT .* FROM "WithdrawRequests" WHERE id = \$1 FOR UPDATE/, ([id]) =>
+    state.withdrawals.filter((w) => w.id === id).map((w) => ({ ...w }))],
+  [/^UPDATE "WithdrawRequests" SET "txHash" = \$2, "updatedAt" = now\(\) WHERE id = \$1 AND status = 'broadcasting' AND "txHash" IS NULL/, ([id, txHash]) => {
+    const withdrawal = state.withdrawals.find((w) => w.id === id && w.status === 'broadcasting' && !w.txHash);
+    if (!withdrawal) return [];
+    withdrawal.txHash = txHash;
+    return [{ id }];
+  }],
+  [/^UPDATE "WithdrawRequests" SET (.*) WHERE id = \$1 RETURNING/, (params, text) => {
+    const withdrawal = state.withdrawals.find((w) => w.id === params[0]);
+    const sets = text.match(/SET (.*) WHERE id = \$1/)[1].split(', ');
+    for (const set of sets) {
+      const [column, value] = set.split(' = ');
+      const name = column.replace(/"/g, '');
+      const param = value.match(/^\$(\d+)$/);
+      if (param) withdrawal[name] = params[Number(param[1]) - 1];
+      else if (value === 'now()') withdrawal[name] = new Date();
+    }
+    return [{ ...withdrawal }];
+  }],
+];
+
+const run = async (text: string, params: any[] = []) => {
+  const sql = text.trim().replace(/\s+/g, ' ');
+  const handler = handlers.find(([pattern]) => pattern.test(sql));
+  if (!handler) {
+    throw new Error(`fakeDb cannot run: ${sql}`);
+  }
+  return { rows: handler[1](params, sql) };
+};
+
+export const fakeClient: any = { query: run, release: () => undefined };
+
+export const fakePool = {
+  query: run,
+  withTransaction: (fn: (client: any) => Promise<any>) => fn(fakeClient),
+};
+
+export const fakeDb = {
+  reset: () => { state = tables(); },
+  get tables() { return state; },
+
+  addBalance: (userId: number, currency: string, amount: string, lock = '0') => {
+    state.balances.push({
+      id: nextId(state.balances), userId, currency, amount: toAmount(amount), lock: toAmount(lock),
+    });
+  },
+  balance: (userId: number, currency: string) => {
+    const b = state.balances.find((row) => row.userId === userId && row.currency === currency);
+    return b ? { amount: b.amount.toFixed(), lock: b.lock.toFixed() } : null;
+  },
+
+  addUser: (row: Row) => {
+    state.users.push(row);
+  },
+
+  addWithdrawal: (row: Row) => {
+    const withdrawal = { id: nextId(state.withdrawals), confirmations: 0, ...row };
+    state.withdrawals.push(withdrawal);
+    return withdrawal;
+  },
+  withdrawal: (id: number) => state.withdrawals.find((w) => w.id === id),
+};
@@ -0,0 +1,64 @@
+import { fakeDb } from './helpers/fakeDb';
+import { captureHold, placeHold, releaseHold } from '../src/db/holds';
+
+jest.mock('../src/db/pool', () => require('./helpers/fakeDb').fakePool);
+jest.mock('../src/db/prisma', () => ({ __esModule: true, default: {} }));
+
+const ref = { type: 'bet' as const, id: 'bet-1', description: 'Test bet' };
+
+beforeEach(() => {
+  fakeDb.reset();
+  fakeDb.addBalance(1, 'USDT', '10');
+});
+
+describe('fund holds', () => {
+  it('moves the held amount from the available balance to the lock', async () => {
+    const hold = await placeHold(1, '4', 'USDT', ref);
+
+    expect(hold.status).toBe('held');
+    expect(fakeDb.balance(1, 'USDT')).toEqual({ amount: '6', lock: '4' });
+  });
+
+  it('cannot hold more than is available', async () => {
+    await expect(placeHold(1, '10.000001', 'USDT', ref)).rejects.toThrow('Insufficient balance for deduction');
+    await expect(placeHold(1, '0', 'USDT', ref)).rejects.toThrow('Invalid amount for hold');
+    expect(fakeDb.balance(1, 'USDT')).toEqual({ amount: '10', lock: '0' });
+  });
+
+  it('returns the whole amount on release', async () => {
+    const hold = await placeHold(1, '4', 'USDT', ref);
+
+    const released = await releaseHold(hold.id);
+
+    expect(released.status).toBe('released');
+    expect(fakeDb.balance(1, 'USDT')).toEqual({ amount: '10', lock: '0' });
+  });
+
+  it('spends the captured part and releases the remainder', async () => {
+    const hold = await placeHold(1, '4', 'USDT', ref);
+
+    const captured = await captureHold(hold.id, '3');
+
+    expect(captured.status).toBe('captured');
+    expect(fakeDb.balance(1, 'USDT')).toEqual({ amount: '7', lock: '0' });
+    const games = fakeDb.tables.accounts.find((a) => a.code === 'house:games:USDT');
+    const credited = fakeDb.tables.entries.filter((e) => e.accountId === games.id).map((e) => e.credit);
+    expect(credited).toEqual(['3']);
+  });
+
+  it('settles a hold only once', async () => {
+    const hold = await placeHold(1, '4', 'USDT', ref);
+    await captureHold(hold.id);
+
+    await expect(releaseHold(hold.id)).rejects.toThrow('Hold already captured');
+    await expect(captureHold(hold.id)).rejects.toThrow('Hold already captured');
+    expect(fakeDb.balance(1, 'USDT')).toEqual({ amount: '6', lock: '0' });
+  });
+
+  it('refuses to capture more than was held', async () => {
+    const hold = await placeHold(1, '4', 'USDT', ref);
+
+    await expect(captureHold(hold.id, '4.5')).rejects.toThrow('Invalid amount for capture');
+    expect(fakeDb.balance(1, 'USDT')).toEqual({ amount: '6', lock: '4' });
+  });
+});
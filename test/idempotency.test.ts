@@ -0,0 +1,151 @@
+import { idempotent } from '../src/middlewares/idempotency';
+import * as store from '../src/db/idempotency';
+
+jest.mock('../src/db/idempotency', () => ({
+  PROCESSING_LEASE_SECONDS: 60,
+  claimIdempotencyKey: jest.fn(),
+  completeIdempotencyKey: jest.fn(async () => true),
+  releaseIdempotencyKey: jest.fn(async () => undefined),
+  renewIdempotencyLease: jest.fn(async () => true),
+}));
+
+const mocked = store as jest.Mocked<typeof store>;
+
+const request = (body: any, key = 'key-1') => ({
+  method: 'POST',
+  baseUrl: '/api/wallets',
+  path: '/withdraw',
+  body,
+  token: { id: 1 },
+  header: (name: string) => (name === 'Idempotency-Key' ? key : undefined),
+}) as any;
+
+const response = () => {
+  const res: any = { statusCode: 200, headers: {}, sent: [] };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.set = (name: string, value: string) => { res.headers[name] = value; return res; };
+  res.json = (body: any) => { res.sent.push(body); return res; };
+  res.on = (event: string, fn: () => void) => { res.onClose = fn; return res; };
+  return res;
+};
+
+const record = (changes: Partial<store.IdempotencyRecord> = {}): store.IdempotencyRecord => ({
+  id: 5,
+  userId: 1,
+  key: 'key-1',
+  method: 'POST',
+  path: '/api/wallets/withdraw',
+  fingerprint: '',
+  owner: 'owner-1',
+  status: 'processing',
+  responseCode: null,
+  responseBody: null,
+  ...changes,
+});
+
+// The fingerprint the middleware computes for a body, taken from its claim
+const fingerprintFor = async (body: any) => {
+  mocked.claimIdempotencyKey.mockResolvedValueOnce({ claimed: false, record: null });
+  await idempotent(request(body), response(), jest.fn());
+  return mocked.claimIdempotencyKey.mock.calls.pop()[4];
+};
+
+const flush = () => new Promise((resolve) => { setImmediate(resolve); });
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('idempotent', () => {
+  it('passes requests without a key straight through', async () => {
+    const next = jest.fn();
+    await idempotent(request({}, ''), response(), next);
+
+    expect(next).toHaveBeenCalled();
+    expect(mocked.claimIdempotencyKey).not.toHaveBeenCalled();
+  });
+
+  it('stores a successful response under the claim owner', async () => {
+    mocked.claimIdempotencyKey.mockResolvedValueOnce({ claimed: true, record: record() });
+    const res = response();
+    const next = jest.fn();
+    await idempotent(request({ amount: '1' }), res, next);
+    expect(next).toHaveBeenCalled();
+
+    res.json({ id: 9 });
+    await flush();
+
+    expect(mocked.completeIdempotencyKey).toHaveBeenCalledWith(5, 'owner-1', 200, { id: 9 });
+    expect(res.sent).toEqual([{ id: 9 }]);
+  });
+
+  it('releases the key when the request fails', async () => {
+    mocked.claimIdempotencyKey.mockResolvedValueOnce({ claimed: true, record: record() });
+    const res = response();
+    await idempotent(request({ amount: '1' }), res, jest.fn());
+
+    res.status(400).json({ message: 'Insufficient balance' });
+    await flush();
+
+    expect(mocked.releaseIdempotencyKey).toHaveBeenCalledWith(5, 'owner-1');
+    expect(mocked.completeIdempotencyKey).not.toHaveBeenCalled();
+  });
+
+  it('replays the stored response of a completed request with the same body', async () => {
+    const body = { amount: '1' };
+    const fingerprint = await fingerprintFor(body);
+    mocked.claimIdempotencyKey.mockResolvedValueOnce({
+      claimed: false,
+      record: record({ fingerprint, status: 'completed', responseCode: 201, responseBody: { id: 9 } }),
+    });
+    const res = response();
+    const next = jest.fn();
+    await idempotent(request(body), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(201);
+    expect(res.sent).toEqual([{ id: 9 }]);
+    expect(res.headers['Idempotent-Replayed']).toBe('true');
+  });
+
+  it('refuses a key reused with a different body', async () => {
+    const fingerprint = await fingerprintFor({ amount: '1' });
+    mocked.claimIdempotencyKey.mockResolvedValueOnce({
+      claimed: false,
+      record: record({ fingerprint, status: 'completed', responseCode: 201, responseBody: { id: 9 } }),
+    });
+    const res = response();
+    await idempotent(request({ amount: '2' }), res, jest.fn());
+
+    expect(res.statusCode).toBe(422);
+  });
+
+  it('answers 409 while the first request still holds the key', async () => {
+    const body = { amount: '1' };
+    const fingerprint = await fingerprintFor(body);
+    mocked.claimIdempotencyKey.mockResolvedValueOnce({ claimed: false, record: record({ fingerprint }) });
+    const res = response();
+    const next = jest.fn();
+    await idempotent(request(body), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(409);
+  });
+
+  it('renews the lease while the handler runs and stops once it responds', async () => {
+    jest.useFakeTimers();
+    try {
+      mocked.claimIdempotencyKey.mockResolvedValueOnce({ claimed: true, record: record() });
+      const res = response();
+      await idempotent(request({ amount: '1' }), res, jest.fn());
+
+      jest.advanceTimersByTime(45000);
+      expect(mocked.renewIdempotencyLease).toHaveBeenCalledTimes(2);
+      expect(mocked.renewIdempotencyLease).toHaveBeenCalledWith(5, 'owner-1');
+
+      res.json({ id: 9 });
+      jest.advanceTimersByTime(60000);
+      expect(mocked.renewIdempotencyLease).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+
+const mockQuery = jest.fn();
+
+jest.mock('bcrypt', () => ({}));
+jest.mock('../src/db/pool', () => ({ query: mockQuery }));
+
+const OLD_KEY = '11'.repeat(32);
+const NEW_KEY = '22'.repeat(32);
+
+const env = process.env;
+
+type Modules = typeof import('../src/utils/bcrypt') & typeof import('../src/services/keyRotation');
+
+// The key ring is read once per module, so every configuration loads fresh copies
+const load = (settings: Record<string, string>): Modules => {
+  process.env = { ...env, ...settings };
+  let modules;
+  jest.isolateModules(() => {
+    modules = { ...require('../src/utils/bcrypt'), ...require('../src/services/keyRotation') };
+  });
+  return modules;
+};
+
+// A value in the pre-GCM "<iv hex>:<data hex>" AES-256-CBC format
+const legacyEncrypt = (plaintext: string, keyHex: string) => {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', Buffer.from(keyHex, 'hex'), iv);
+  return `${iv.toString('hex')}:${Buffer.concat([cipher.update(plaintext), cipher.final()]).toString('hex')}`;
+};
+
+// Wallets table of the re-encryption queries
+const wallets = (rows: { id: string; privateKey: string }[]) => {
+  mockQuery.mockImplementation(async (text: string, [first, second, third]: any[]) => {
+    if (text.startsWith('UPDATE')) {
+      const row = rows.find((r) => r.id === first && r.privateKey === third);
+      if (row) row.privateKey = second;
+      return { rows: row ? [{ id: row.id }] : [] };
+    }
+    const prefix = first.slice(0, -1);
+    return {
+      rows: rows
+        .filter((r) => !r.privateKey.startsWith(prefix) && r.id > second)
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .slice(0, third)
+        .map((r) => ({ ...r })),
+    };
+  });
+  return rows;
+};
+
+beforeEach(() => {
+  mockQuery.mockReset();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  process.env = env;
+  jest.restoreAllMocks();
+});
+
+describe('envelope encryption', () => {
+  it('seals every value with its own data key under the current master key', () => {
+    const { decryptPrivateKey, encryptPrivateKey, encryptionKeyIdOf } = load({
+      ENCRYPTION_KEYS: JSON.stringify({ old: OLD_KEY, new: NEW_KEY }),
+    });
+    const first = encryptPrivateKey('secret');
+    const second = encryptPrivateKey('secret');
+
+    expect(first).toMatch(/^gcm1:new:[\w-]+:[\w-]+$/);
+    expect(first).not.toBe(second);
+    expect(encryptionKeyIdOf(first)).toBe('new');
+    expect([decryptPrivateKey(first), decryptPrivateKey(second)]).toEqual(['secret', 'secret']);
+  });
+
+  it('refuses a tampered value or one naming another key', () => {
+    const { decryptPrivateKey, encryptPrivateKey } = load({ ENCRYPTION_KEYS: JSON.stringify({ old: OLD_KEY }) });
+    const [format, keyId, wrappedKey, sealed] = encryptPrivateKey('secret').split(':');
+    const flipped = Buffer.from(sealed, 'base64url');
+    flipped[flipped.length - 1] ^= 1;
+
+    expect(() => decryptPrivateKey([format, keyId, wrappedKey, flipped.toString('base64url')].join(':'))).toThrow();
+    expect(() => decryptPrivateKey([format, 'gone', wrappedKey, sealed].join(':'))).toThrow('Encryption key gone is not configured');
+    expect(() => decryptPrivateKey('plaintext')).toThrow('Unknown encrypted value format');
+  });
+
+  it('falls back to ENCRYPTION_KEY and still reads the legacy format', () => {
+    const { currentEncryptionKeyId, decryptPrivateKey, needsReencryption } = load({ ENCRYPTION_KEY: OLD_KEY, ENCRYPTION_KEYS: '' });
+    const legacy = legacyEncrypt('old secret', OLD_KEY);
+
+    expect(currentEncryptionKeyId()).toBe('default');
+    expect(decryptPrivateKey(legacy)).toBe('old secret');
+    expect(needsReencryption(legacy)).toBe(true);
+  });
+
+  it('checks the key ring', () => {
+    expect(() => load({ ENCRYPTION_KEYS: JSON.stringify({ old: 'abcd' }) }).encryptPrivateKey('x'))
+      .toThrow('Encryption key old must be 32 bytes of hex');
+    expect(() => load({ ENCRYPTION_KEYS: JSON.stringify({ 'a:b': OLD_KEY }) }).encryptPrivateKey('x'))
+      .toThrow('Invalid encryption key id a:b');
+    expect(() => load({ ENCRYPTION_KEYS: JSON.stringify({ old: OLD_KEY }), ENCRYPTION_KEY_ID: 'new' }).encryptPrivateKey('x'))
+      .toThrow('ENCRYPTION_KEY_ID new is not in the key ring');
+    expect(() => load({ ENCRYPTION_KEYS: '{}' }).encryptPrivateKey('x')).toThrow('ENCRYPTION_KEYS has no keys');
+  });
+});
+
+describe('reencryptWalletKeys', () => {
+  it('moves legacy and old-key values to the current key in batches', async () => {
+    const before = load({ ENCRYPTION_KEYS: JSON.stringify({ old: OLD_KEY }) });
+    const rows = wallets([
+      { id: '1', privateKey: before.encryptPrivateKey('one') },
+      { id: '2', privateKey: legacyEncrypt('two', OLD_KEY) },
+      { id: '3', privateKey: before.encryptPrivateKey('three') },
+    ]);
+
+    const after = load({
+      ENCRYPTION_KEY: OLD_KEY, ENCRYPTION_KEYS: JSON.stringify({ old: OLD_KEY, new: NEW_KEY }), KEY_REENCRYPTION_BATCH: '2',
+    });
+    await expect(after.reencryptWalletKeys()).resolves.toEqual({ keyId: 'new', scanned: 3, reencrypted: 3, failed: 0 });
+
+    expect(rows.map((r) => after.encryptionKeyIdOf(r.privateKey))).toEqual(['new', 'new', 'new']);
+    expect(rows.map((r) => after.decryptPrivateKey(r.privateKey))).toEqual(['one', 'two', 'three']);
+    // Nothing is left for a second run
+    await expect(after.reencryptWalletKeys()).resolves.toMatchObject({ scanned: 0, reencrypted: 0 });
+  });
+
+  it('reports keys it cannot decrypt and leaves them as they are', async () => {
+    const lost = load({ ENCRYPTION_KEYS: JSON.stringify({ lost: OLD_KEY }) }).encryptPrivateKey('one');
+    const rows = wallets([{ id: '1', privateKey: lost }]);
+
+    const { reencryptWalletKeys } = load({ ENCRYPTION_KEYS: JSON.stringify({ new: NEW_KEY }) });
+
+    await expect(reencryptWalletKeys()).resolves.toEqual({ keyId: 'new', scanned: 1, reencrypted: 0, failed: 1 });
+    expect(rows[0].privateKey).toBe(lost);
+  });
+
+  it('does not overwrite a row that changed since it was read', async () => {
+    const before = load({ ENCRYPTION_KEYS: JSON.stringify({ old: OLD_KEY }) });
+    const rows = wallets([{ id: '1', privateKey: before.encryptPrivateKey('one') }]);
+    const table = mockQuery.getMockImplementation();
+    mockQuery.mockImplementation(async (text: string, values: any[]) => {
+      // A concurrent write lands between the select and the update
+      if (text.startsWith('UPDATE')) rows[0].privateKey = 'changed';
+      return table(text, values);
+    });
+
+    const after = load({ ENCRYPTION_KEYS: JSON.stringify({ old: OLD_KEY, new: NEW_KEY }) });
+
+    await expect(after.reencryptWalletKeys()).resolves.toMatchObject({ scanned: 1, reencrypted: 0, failed: 0 });
+    expect(rows[0].privateKey).toBe('changed');
+  });
+});
+
+describe('getWalletKeyStatus', () => {
+  it('counts stored keys per master key', async () => {
+    const { getWalletKeyStatus } = load({ ENCRYPTION_KEYS: JSON.stringify({ old: OLD_KEY, new: NEW_KEY }) });
+    mockQuery.mockResolvedValue({ rows: [{ keyId: 'legacy', count: 2 }, { keyId: 'old', count: '5' }] });
+
+    await expect(getWalletKeyStatus()).resolves.toEqual({
+      currentKeyId: 'new',
+      keys: [{ keyId: 'legacy', count: 2 }, { keyId: 'old', count: 5 }],
+    });
+  });
+});
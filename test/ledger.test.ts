@@ -0,0 +1,98 @@
+import { fakeClient, fakeDb } from './helpers/fakeDb';
+import { creditUser, debitUser, postJournal, systemAccountCode, userAccountCode } from '../src/db/ledger';
+
+jest.mock('../src/db/pool', () => require('./helpers/fakeDb').fakePool);
+jest.mock('../src/db/prisma', () => ({ __esModule: true, default: {} }));
+
+const ref = { type: 'adjustment' as const, id: 'test' };
+
+beforeEach(() => fakeDb.reset());
+
+describe('postJournal', () => {
+  it('refuses postings that do not balance per currency', async () => {
+    fakeDb.addBalance(1, 'USD', '10');
+
+    await expect(postJournal(ref, [
+      { account: userAccountCode(1, 'USD'), currency: 'USD', debit: '5' },
+      { account: systemAccountCode('house:adjustments', 'USD'), currency: 'USD', credit: '4.9999' },
+    ])).rejects.toThrow('Unbalanced journal for USD: 0.0001');
+
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '10', lock: '0' });
+    expect(fakeDb.tables.entries).toHaveLength(0);
+  });
+
+  it('balances each currency on its own', async () => {
+    await expect(postJournal(ref, [
+      { account: systemAccountCode('house:swap', 'USD'), currency: 'USD', debit: '5' },
+      { account: systemAccountCode('house:swap', 'ETH'), currency: 'ETH', credit: '5' },
+    ])).rejects.toThrow('Unbalanced journal for USD');
+  });
+
+  it('needs two postings, each with exactly one positive side', async () => {
+    await expect(postJournal(ref, [
+      { account: systemAccountCode('house:adjustments', 'USD'), currency: 'USD', debit: '1' },
+    ])).rejects.toThrow('A journal needs at least two postings');
+
+    await expect(postJournal(ref, [
+      { account: systemAccountCode('house:adjustments', 'USD'), currency: 'USD', debit: '1', credit: '1' },
+      { account: systemAccountCode('house:revenue', 'USD'), currency: 'USD' },
+    ])).rejects.toThrow('must have exactly one of debit or credit');
+
+    await expect(postJournal(ref, [
+      { account: systemAccountCode('house:adjustments', 'USD'), currency: 'USD', debit: '-1' },
+      { account: systemAccountCode('house:revenue', 'USD'), currency: 'USD', credit: '-1' },
+    ])).rejects.toThrow('Invalid ledger amount');
+  });
+
+  it('writes the entries and moves the user balances of a balanced journal', async () => {
+    fakeDb.addBalance(1, 'USD', '10');
+
+    await postJournal(ref, [
+      { account: userAccountCode(1, 'USD'), currency: 'USD', debit: '2.5' },
+      { account: userAccountCode(2, 'USD'), currency: 'USD', credit: '2' },
+      { account: systemAccountCode('house:revenue', 'USD'), currency: 'USD', credit: '0.5' },
+    ]);
+
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '7.5', lock: '0' });
+    expect(fakeDb.balance(2, 'USD')).toEqual({ amount: '2', lock: '0' });
+    expect(fakeDb.tables.entries).toHaveLength(3);
+    expect(new Set(fakeDb.tables.entries.map((e) => e.journalId)).size).toBe(1);
+  });
+
+  it('locks the touched balance rows in one order whatever the order of the postings', async () => {
+    fakeDb.addBalance(2, 'USD', '10');
+    fakeDb.addBalance(1, 'USD', '10');
+    const query = jest.spyOn(fakeClient, 'query');
+
+    await postJournal(ref, [
+      { account: userAccountCode(2, 'USD'), currency: 'USD', debit: '1' },
+      { account: userAccountCode(1, 'USD'), currency: 'USD', credit: '1' },
+    ]);
+
+    const locked = query.mock.calls.filter((call: any[]) => /FOR UPDATE/.test(call[0])).map((call: any[]) => call[1][0]);
+    expect(locked).toEqual([1, 2]);
+    query.mockRestore();
+  });
+});
+
+describe('creditUser and debitUser', () => {
+  it('post against the counter account of the reference type', async () => {
+    await creditUser(1, '3', 'USDT', { type: 'deposit', id: 7 });
+    await debitUser(1, '1.25', 'USDT', { type: 'bet', id: 'b1' });
+
+    expect(fakeDb.balance(1, 'USDT')).toEqual({ amount: '1.75', lock: '0' });
+    const accounts = fakeDb.tables.accounts.map((a) => a.code);
+    expect(accounts).toEqual(expect.arrayContaining(['external:deposits:USDT', 'house:games:USDT']));
+  });
+
+  it('never overdraws a balance', async () => {
+    fakeDb.addBalance(1, 'USD', '1');
+
+    await expect(debitUser(1, '1.0001', 'USD', ref)).rejects.toThrow('Insufficient balance for deduction');
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '1', lock: '0' });
+  });
+
+  it('refuses a debit from a user without a balance row', async () => {
+    await expect(debitUser(1, '1', 'USD', ref)).rejects.toThrow('Balance record not found');
+  });
+});
@@ -0,0 +1,35 @@
+import { fork } from 'child_process';
+import { createLocalSigner, isolateSignerKeys } from '../src/signer/localSigner';
+
+jest.mock('child_process', () => ({
+  fork: jest.fn(() => ({ on: jest.fn(), send: jest.fn() })),
+}));
+
+describe('local signer environment', () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => jest.useFakeTimers());
+
+  afterEach(() => {
+    jest.useRealTimers();
+    process.env = { ...saved };
+  });
+
+  it('takes the pool keys out of the application and forks with only keys and signer settings', () => {
+    process.env.ETH_MAIN_POOL_PK = '0xkey';
+    process.env.SIGNER_MAX_PER_TX = '{"USDT":10}';
+    process.env.DATABASE_URL = 'postgres://app';
+    process.env.HD_WALLET_MNEMONIC = 'twelve words';
+
+    isolateSignerKeys();
+    expect(process.env.ETH_MAIN_POOL_PK).toBeUndefined();
+
+    createLocalSigner().getAddress('Ethereum').catch(() => undefined);
+
+    const { env } = (fork as jest.Mock).mock.calls[0][2];
+    expect(env.ETH_MAIN_POOL_PK).toBe('0xkey');
+    expect(env.SIGNER_MAX_PER_TX).toBe('{"USDT":10}');
+    expect(env.DATABASE_URL).toBeUndefined();
+    expect(env.HD_WALLET_MNEMONIC).toBeUndefined();
+  });
+});
@@ -0,0 +1,61 @@
+import { fakeDb } from './helpers/fakeDb';
+import { BetOddEven } from '../src/games/oddEven';
+import prisma from '../src/db/prisma';
+
+const mockBlock = { blockID: '', block_header: { raw_data: { number: 100 } } };
+
+jest.mock('../src/db/pool', () => require('./helpers/fakeDb').fakePool);
+jest.mock('../src/db/prisma', () => ({
+  __esModule: true,
+  default: { bet: { create: jest.fn() }, payout: { create: jest.fn() } },
+}));
+jest.mock('../src/db/wallets', () => {
+  const { creditUser, debitUser } = require('../src/db/ledger');
+  return {
+    topBalance: (userId: number, amount: any, currency: string, ref: any) => creditUser(userId, amount, currency, ref),
+    minusBalance: (userId: number, amount: any, currency: string, ref: any) => debitUser(userId, amount, currency, ref),
+  };
+});
+jest.mock('tronweb', () => ({
+  TronWeb: jest.fn(() => ({ trx: { getCurrentBlock: async () => mockBlock } })),
+}));
+
+const betCreate = prisma.bet.create as jest.Mock;
+
+beforeEach(() => {
+  fakeDb.reset();
+  betCreate.mockReset();
+  // An odd stake against an even block hash loses, so no payout is priced
+  mockBlock.blockID = '00000000000000000000000000000002';
+});
+
+describe('BetOddEven', () => {
+  it('takes the stake under the id the bet is stored with', async () => {
+    fakeDb.addBalance(1, 'USDT', '10');
+
+    await BetOddEven(3, 'USDT', 1);
+
+    expect(fakeDb.balance(1, 'USDT')).toEqual({ amount: '7', lock: '0' });
+    const betId = betCreate.mock.calls[0][0].data.id;
+    expect(fakeDb.tables.entries.map((e) => e.refId)).toEqual([betId, betId]);
+    expect(betCreate.mock.calls[0][0].data).toMatchObject({ status: 'lose', blockNum: 100, userId: 1 });
+  });
+
+  it('stores no bet when the balance cannot cover the stake', async () => {
+    fakeDb.addBalance(1, 'USDT', '2');
+
+    await expect(BetOddEven(3, 'USDT', 1)).rejects.toThrow('Insufficient balance for deduction');
+
+    expect(betCreate).not.toHaveBeenCalled();
+    expect(fakeDb.balance(1, 'USDT')).toEqual({ amount: '2', lock: '0' });
+  });
+
+  it('gives the stake back when the bet cannot be stored', async () => {
+    fakeDb.addBalance(1, 'USDT', '10');
+    betCreate.mockRejectedValueOnce(new Error('insert failed'));
+
+    await expect(BetOddEven(3, 'USDT', 1)).rejects.toThrow('insert failed');
+
+    expect(fakeDb.balance(1, 'USDT')).toEqual({ amount: '10', lock: '0' });
+  });
+});
@@ -0,0 +1,128 @@
+import axios from 'axios';
+import {
+  CachedPriceOracle, PriceProvider, binanceProvider, createStaticProvider,
+} from '../src/services/priceOracle';
+import { query } from '../src/db/pool';
+
+jest.mock('../src/db/pool', () => ({ query: jest.fn(async () => ({ rows: [] })) }));
+jest.mock('../src/db/tokens', () => ({ getPricedSymbols: jest.fn(async () => ['ETH', 'USDT']) }));
+
+const provider = (name: string, prices: Record<string, number> | Error): PriceProvider & { fetchPrices: jest.Mock } => ({
+  name,
+  fetchPrices: jest.fn(async () => {
+    if (prices instanceof Error) throw prices;
+    return prices;
+  }),
+});
+
+const oracle = (providers: PriceProvider[], options: Partial<{ ttlMs: number; maxStalenessMs: number; recordSnapshots: boolean }> = {}) =>
+  new CachedPriceOracle(providers, {
+    symbols: async () => ['ETH', 'USDT', 'SOL'],
+    ttlMs: 60000,
+    maxStalenessMs: 600000,
+    ...options,
+  });
+
+beforeEach(() => {
+  (query as jest.Mock).mockClear();
+  jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('CachedPriceOracle', () => {
+  it('uses the median of the providers that answered', async () => {
+    const prices = await oracle([
+      provider('a', { ETH: 3000, USDT: 1 }),
+      provider('b', { ETH: 3100, USDT: 1 }),
+      provider('c', { ETH: 9000 }),
+    ]).getPrices(['eth', 'USDT']);
+
+    expect(prices.ETH).toMatchObject({ priceUsd: 3100, source: 'median:a,b,c' });
+    expect(prices.USDT).toMatchObject({ priceUsd: 1, source: 'median:a,b' });
+  });
+
+  it('fetches the symbols it is configured with and ignores bad prices', async () => {
+    const a = provider('a', { ETH: 3000, SOL: -1, USDT: NaN });
+    const priceOracle = oracle([a, provider('b', new Error('rate limited'))]);
+
+    await expect(priceOracle.getPrice('ETH')).resolves.toMatchObject({ priceUsd: 3000, source: 'a' });
+    expect(a.fetchPrices).toHaveBeenCalledWith(['ETH', 'USDT', 'SOL']);
+    await expect(priceOracle.getPrice('SOL')).rejects.toThrow('No price available for SOL');
+  });
+
+  it('serves cached prices until the TTL runs out', async () => {
+    const a = provider('a', { ETH: 3000 });
+    const priceOracle = oracle([a]);
+
+    await priceOracle.getPrice('ETH');
+    jest.advanceTimersByTime(59000);
+    await priceOracle.getPrice('ETH');
+    expect(a.fetchPrices).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1000);
+    await priceOracle.getPrice('ETH');
+    expect(a.fetchPrices).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one refresh between concurrent callers', async () => {
+    const a = provider('a', { ETH: 3000, USDT: 1 });
+    const priceOracle = oracle([a]);
+
+    await Promise.all([priceOracle.getPrice('ETH'), priceOracle.getPrice('USDT')]);
+    expect(a.fetchPrices).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the last price through failed refreshes but refuses it once stale', async () => {
+    const a = provider('a', { ETH: 3000 });
+    const priceOracle = oracle([a], { maxStalenessMs: 120000 });
+    await priceOracle.getPrice('ETH');
+
+    a.fetchPrices.mockRejectedValue(new Error('down'));
+    jest.advanceTimersByTime(90000);
+    await expect(priceOracle.getPrice('ETH')).resolves.toMatchObject({ priceUsd: 3000 });
+
+    jest.advanceTimersByTime(60000);
+    await expect(priceOracle.getPrice('ETH')).rejects.toThrow('Price for ETH is stale');
+  });
+
+  it('records a snapshot of every fetched price when asked to', async () => {
+    await oracle([provider('a', { ETH: 3000, USDT: 1 })], { recordSnapshots: true }).getPrice('ETH');
+    await Promise.resolve();
+
+    const [text, values] = (query as jest.Mock).mock.calls[0];
+    expect(text).toContain('INSERT INTO "PriceSnapshots"');
+    expect(values).toEqual(['ETH', '3000', 'a', expect.any(Date), 'USDT', '1', 'a', expect.any(Date)]);
+  });
+
+  it('needs at least one provider', () => {
+    expect(() => oracle([])).toThrow('PriceOracle needs at least one provider');
+  });
+});
+
+describe('createStaticProvider', () => {
+  it('answers from the defaults with overrides', async () => {
+    await expect(createStaticProvider({ ETH: 2500 }).fetchPrices(['ETH', 'USDT', 'XYZ'])).resolves.toEqual({ ETH: 2500, USDT: 1 });
+  });
+});
+
+describe('binanceProvider', () => {
+  it('keeps the USDT pairs of the wanted symbols and takes USDT as 1 USD', async () => {
+    jest.spyOn(axios, 'get').mockResolvedValue({
+      data: [
+        { symbol: 'ETHUSDT', price: '3000.5' },
+        { symbol: 'ETHBTC', price: '0.05' },
+        { symbol: 'SOLUSDT', price: '150' },
+        { symbol: 'USDCUSDT', price: '0.9999' },
+      ],
+    });
+
+    await expect(binanceProvider.fetchPrices(['ETH', 'USDT', 'USDC', 'NEWTOKEN'])).resolves.toEqual({
+      ETH: 3000.5, USDT: 1, USDC: 0.9999,
+    });
+  });
+});
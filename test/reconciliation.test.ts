@@ -0,0 +1,104 @@
+import { runReconciliation } from '../src/services/reconciliation';
+import { query } from '../src/db/pool';
+import { toAmount } from '../src/utils/money';
+
+const mockUsdRates: Record<string, string> = { TRX: '0.1', USDT: '1' };
+
+jest.mock('../src/db/pool', () => ({ query: jest.fn() }));
+jest.mock('../src/db/prisma', () => ({
+  __esModule: true,
+  default: { reconciliationReport: { create: jest.fn(async ({ data }) => ({ id: 1, ...data })) } },
+}));
+jest.mock('../src/db/wallets', () => ({
+  getAllWallets: jest.fn(async (blockchain: string) => (blockchain === 'Tron' ? [{ publicKey: 'TDeposit' }] : [])),
+}));
+jest.mock('../src/utils/email', () => ({ sendNotificationEmail: jest.fn() }));
+jest.mock('../src/utils/exchange', () => ({
+  convertAmount: jest.fn(async (amount: any, currency: string) => {
+    if (!mockUsdRates[currency]) throw new Error(`No price available for ${currency}`);
+    return require('../src/utils/money').toAmount(amount).times(mockUsdRates[currency]);
+  }),
+}));
+jest.mock('../src/blockchain/tron', () => {
+  const { toAmount: amount } = require('../src/utils/money');
+  return {
+    getTronMainPoolBalances: async () => ({ TRX: amount(100), USDT: amount(0) }),
+    getTronBalances: async () => ({ USDT: amount(50) }),
+  };
+});
+jest.mock('../src/blockchain/ether', () => ({
+  getEthMainPoolBalances: async () => { throw new Error('RPC unreachable'); },
+  getEthBalances: async () => ({}),
+  getBscMainPoolBalances: async () => ({}),
+  getBscBalances: async () => ({}),
+}));
+jest.mock('../src/blockchain/solana', () => ({
+  getMainPoolPublicKey: async () => { throw new Error('Solana is not configured'); },
+}));
+
+const liabilities = (rows: Array<[string, string, string]>) => {
+  (query as jest.Mock).mockResolvedValue({
+    rows: rows.map(([currency, amount, lock]) => ({ currency, amount, lock })),
+  });
+};
+
+const env = { ...process.env };
+
+beforeEach(() => {
+  process.env.TRON_MAIN_POOL_ADDRESS = 'TPool';
+  process.env.ETH_MAIN_POOL_ADDRESS = '0xPool';
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  process.env = { ...env };
+  jest.restoreAllMocks();
+});
+
+describe('runReconciliation', () => {
+  it('values pool and deposit holdings against every balance, available and locked', async () => {
+    liabilities([['TRX', '80', '10'], ['USDT', '40', '5']]);
+
+    const report = await runReconciliation();
+
+    // Assets 100 TRX + 50 USDT = 60 USD; liabilities 90 TRX + 45 USDT = 54 USD
+    expect(report).toMatchObject({ status: 'ok', assetsUsd: '60', liabilitiesUsd: '54' });
+    expect(toAmount(report.driftUsd).toFixed()).toBe('6');
+    expect(report.assets).toEqual([
+      { chain: 'Tron', source: 'main_pool', address: 'TPool', currency: 'TRX', amount: '100' },
+      { chain: 'Tron', source: 'deposit', address: 'TDeposit', currency: 'USDT', amount: '50' },
+    ]);
+  });
+
+  it('reports the sources it could not read instead of failing', async () => {
+    liabilities([]);
+
+    const report = await runReconciliation();
+
+    expect(report.errors).toEqual(expect.arrayContaining([
+      { chain: 'Ethereum', source: 'main_pool', address: '0xPool', message: 'RPC unreachable' },
+      { chain: 'Solana', message: 'Solana is not configured' },
+    ]));
+  });
+
+  it('raises an alert when liabilities exceed assets by more than the threshold', async () => {
+    liabilities([['USDT', '500', '0']]);
+
+    const report = await runReconciliation();
+
+    expect(report.status).toBe('alert');
+    expect(toAmount(report.driftUsd).toFixed()).toBe('-440');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Custody reconciliation #1'));
+  });
+
+  it('leaves currencies without a price out of the totals and says so', async () => {
+    liabilities([['USDT', '110', '0'], ['XYZ', '1000', '0']]);
+
+    const report = await runReconciliation();
+
+    expect(report.status).toBe('ok');
+    expect(report.errors).toContainEqual({ chain: 'pricing', message: 'Cannot value XYZ: No price available for XYZ' });
+    expect(report.liabilities).toContainEqual({ currency: 'XYZ', available: '1000', locked: '0', total: '1000', usd: null });
+  });
+});
@@ -0,0 +1,99 @@
+import { createSigningPolicy } from '../src/signer/policy';
+import { SigningIntent } from '../src/signer/types';
+
+const DESTINATION = '0x00000000000000000000000000000000000000aa';
+
+const intent = (overrides: Partial<SigningIntent> = {}): SigningIntent => ({
+  purpose: 'withdrawal',
+  currency: 'USDT',
+  to: DESTINATION,
+  amount: '100',
+  ...overrides,
+});
+
+describe('signing policy', () => {
+  it('signs anything when no rule is configured', () => {
+    const { authorize } = createSigningPolicy({});
+
+    expect(() => authorize(intent({ amount: '1000000' }))).not.toThrow();
+  });
+
+  it('refuses transfers over the per transaction limit', () => {
+    const { authorize } = createSigningPolicy({ SIGNER_MAX_PER_TX: '{"USDT":500}' });
+
+    expect(() => authorize(intent({ amount: '500' }))).not.toThrow();
+    expect(() => authorize(intent({ amount: '500.01' }))).toThrow('over the per transaction limit of 500 USDT');
+    expect(() => authorize(intent({ currency: 'ETH', amount: '10000' }))).not.toThrow();
+  });
+
+  it('keeps a running daily total per currency', () => {
+    const { authorize } = createSigningPolicy({ SIGNER_MAX_PER_DAY: '{"USDT":250}' });
+
+    authorize(intent());
+    authorize(intent());
+    expect(() => authorize(intent({ amount: '50.000001' }))).toThrow('would exceed the daily limit of 250 USDT');
+    expect(() => authorize(intent({ amount: '50' }))).not.toThrow();
+  });
+
+  it('limits withdrawals to the allow list, but not gas top-ups', () => {
+    const { authorize } = createSigningPolicy({
+      SIGNER_ALLOWED_DESTINATIONS: '0x00000000000000000000000000000000000000AA',
+    });
+    const elsewhere = '0x00000000000000000000000000000000000000bb';
+
+    expect(() => authorize(intent())).not.toThrow();
+    expect(() => authorize(intent({ to: elsewhere }))).toThrow('is not allowed by signer policy');
+    expect(() => authorize(intent({ to: elsewhere, purpose: 'gas_top_up', currency: 'ETH', amount: '0.01' }))).not.toThrow();
+  });
+
+  it('never sends to a denied destination', () => {
+    const { authorize } = createSigningPolicy({ SIGNER_DENIED_DESTINATIONS: 'TDenied' });
+
+    expect(() => authorize(intent({ to: 'TDenied', purpose: 'gas_top_up' }))).toThrow('is denied by signer policy');
+  });
+
+  it('lets fee payer transactions pay fees only', () => {
+    const { authorize } = createSigningPolicy({});
+
+    expect(() => authorize(intent({ purpose: 'fee_payer', amount: '0' }))).not.toThrow();
+    expect(() => authorize(intent({ purpose: 'fee_payer', amount: '1' }))).toThrow('cannot transfer funds');
+    expect(() => authorize(intent({ amount: '-1' }))).toThrow('Invalid amount -1');
+  });
+});
+
+describe('signing policy fees', () => {
+  const GWEI = BigInt(1_000_000_000);
+  const evmTx = (overrides = {}) => ({
+    chainId: BigInt(1), gasLimit: BigInt(65_000), gasPrice: null, maxFeePerGas: BigInt(30) * GWEI, ...overrides,
+  });
+
+  it('signs EVM transactions only for the pinned chain id', () => {
+    const { authorizeEvmFees } = createSigningPolicy({});
+
+    expect(() => authorizeEvmFees('Ethereum', evmTx())).not.toThrow();
+    expect(() => authorizeEvmFees('Ethereum', evmTx({ chainId: BigInt(56) }))).toThrow('is for chain id 56, not 1');
+
+    const sepolia = createSigningPolicy({ SIGNER_EVM_CHAIN_IDS: '{"Ethereum":11155111}' });
+    expect(() => sepolia.authorizeEvmFees('Ethereum', evmTx({ chainId: BigInt(11155111) }))).not.toThrow();
+    expect(() => sepolia.authorizeEvmFees('BNB', evmTx({ chainId: BigInt(56) }))).toThrow('BNB has no chain id pinned');
+  });
+
+  it('caps the gas limit and the fee per gas', () => {
+    const { authorizeEvmFees } = createSigningPolicy({
+      SIGNER_EVM_MAX_GAS_LIMIT: '100000', SIGNER_EVM_MAX_FEE_GWEI: '{"Ethereum":50}',
+    });
+
+    expect(() => authorizeEvmFees('Ethereum', evmTx({ gasLimit: BigInt(100_001) }))).toThrow('over the signer limit of 100000');
+    expect(() => authorizeEvmFees('Ethereum', evmTx({ maxFeePerGas: BigInt(51) * GWEI }))).toThrow('over the signer limit of 50 gwei');
+    expect(() => authorizeEvmFees('Ethereum', evmTx({ maxFeePerGas: null, gasPrice: BigInt(51) * GWEI }))).toThrow('50 gwei');
+    expect(() => authorizeEvmFees('Ethereum', evmTx({ maxFeePerGas: null, gasPrice: BigInt(50) * GWEI }))).not.toThrow();
+  });
+
+  it('caps the fee limit of Tron contract calls', () => {
+    const { authorizeTronFees } = createSigningPolicy({ SIGNER_TRON_MAX_FEE_LIMIT_TRX: '30' });
+
+    expect(() => authorizeTronFees(undefined)).not.toThrow();
+    expect(() => authorizeTronFees(30_000_000)).not.toThrow();
+    expect(() => authorizeTronFees(30_000_001)).toThrow('over the signer limit of 30000000 sun');
+  });
+});
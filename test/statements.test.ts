@@ -0,0 +1,98 @@
+import { query } from '../src/db/pool';
+import prisma from '../src/db/prisma';
+import { sendNotificationEmail } from '../src/utils/email';
+import {
+  buildStatement, emailStatement, parseStatementPeriod, statementToCsv, statementToHtml,
+} from '../src/services/statements';
+
+jest.mock('../src/db/pool', () => ({ query: jest.fn() }));
+jest.mock('../src/db/prisma', () => ({ __esModule: true, default: { user: { findUnique: jest.fn() } } }));
+jest.mock('../src/utils/email', () => ({ sendNotificationEmail: jest.fn() }));
+
+const mockedQuery = query as jest.Mock;
+
+// Opening balances and the period's movements, in the order buildStatement asks for them
+const movements = (opening: any[], rows: any[]) => {
+  mockedQuery.mockImplementation(async (text: string) => ({ rows: text.includes('GROUP BY currency') ? opening : rows }));
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 7, email: 'a@example.com', name: '<Ann>' });
+});
+
+describe('parseStatementPeriod', () => {
+  it('covers a calendar month in UTC', () => {
+    expect(parseStatementPeriod('2025-12')).toEqual({
+      label: '2025-12', from: new Date('2025-12-01T00:00:00Z'), to: new Date('2026-01-01T00:00:00Z'),
+    });
+  });
+
+  it('refuses malformed and future months', () => {
+    expect(() => parseStatementPeriod('2025-13')).toThrow('month must be in YYYY-MM format');
+    expect(() => parseStatementPeriod('Dec 2025')).toThrow('month must be in YYYY-MM format');
+    expect(() => parseStatementPeriod('2999-01')).toThrow('Statement period has not started yet');
+  });
+});
+
+describe('buildStatement', () => {
+  it('runs the balance from the opening through every movement per currency', async () => {
+    movements([{ currency: 'USDT', amount: '100' }, { currency: 'TRX', amount: '0' }], [
+      { date: '2025-12-02T00:00:00Z', type: 'withdraw', description: 'withdraw', reference: 'w1', currency: 'USDT', amount: '-30' },
+      { date: '2025-12-03T00:00:00Z', type: 'deposit', description: 'Tron deposit', reference: 'd1', currency: 'USDT', amount: '12.5' },
+      { date: '2025-12-04T00:00:00Z', type: 'bet', description: 'Bet stake', reference: 'b1', currency: 'ETH', amount: '0' },
+    ]);
+
+    const statement = await buildStatement(7, '2025-12');
+
+    // TRX has neither a balance nor movements and ETH only a zero movement
+    expect(statement.currencies.map((c) => c.currency)).toEqual(['USDT']);
+    const [usdt] = statement.currencies;
+    expect([usdt.opening, usdt.credits, usdt.debits, usdt.closing].map((a) => a.toFixed())).toEqual(['100', '12.5', '30', '82.5']);
+    expect(usdt.movements.map((m) => m.balance.toFixed())).toEqual(['70', '82.5']);
+  });
+
+  it('refuses an unknown user', async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValueOnce(null);
+    await expect(buildStatement(7, '2025-12')).rejects.toThrow('User not found');
+  });
+});
+
+describe('statement documents', () => {
+  const statementWith = async () => {
+    movements([{ currency: 'USDT', amount: '10' }], [
+      { date: '2025-12-02T00:00:00Z', type: 'bonus', description: 'Referral bonus (<b>)', reference: '=1+1', currency: 'USDT', amount: '5' },
+    ]);
+    return buildStatement(7, '2025-12');
+  };
+
+  it('writes opening, movements and closing rows as CSV', async () => {
+    expect(statementToCsv(await statementWith()).split('\r\n')).toEqual([
+      'date,type,description,reference,currency,amount,balance',
+      '2025-12-01T00:00:00.000Z,opening,Opening balance,,USDT,,10',
+      "2025-12-02T00:00:00.000Z,bonus,Referral bonus (<b>),'=1+1,USDT,5,15",
+      '2026-01-01T00:00:00.000Z,closing,Closing balance,,USDT,,15',
+      '',
+    ]);
+  });
+
+  it('escapes user data in the HTML document', async () => {
+    const html = statementToHtml(await statementWith());
+
+    expect(html).toContain('&lt;Ann&gt; &middot; account #7');
+    expect(html).toContain('Referral bonus (&lt;b&gt;)');
+    expect(html).toContain('Period: 2025-12-01 to 2025-12-31 (UTC)');
+  });
+
+  it('emails the HTML statement with the CSV attached', async () => {
+    await emailStatement(await statementWith());
+
+    expect(sendNotificationEmail).toHaveBeenCalledWith(
+      'a@example.com',
+      'OK777 account statement 2025-12',
+      expect.any(String),
+      expect.stringContaining('<!doctype html>'),
+      [{ filename: 'statement-7-2025-12.csv', content: expect.stringContaining('Closing balance') }],
+    );
+  });
+});
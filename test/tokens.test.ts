@@ -0,0 +1,62 @@
+import { query } from '../src/db/pool';
+import { getPricedSymbols, listTokens } from '../src/db/tokens';
+import { getDecimals, roundAmount } from '../src/utils/money';
+
+jest.mock('../src/db/pool', () => ({ query: jest.fn() }));
+
+const mockedQuery = query as jest.Mock;
+
+const tokenRow = (blockchain: string, symbol: string, decimals: number, enabled = true) => ({
+  id: 1, blockchain, symbol, contract: `${symbol}-${blockchain}`, decimals, minDeposit: '0', withdrawFee: '0', enabled,
+});
+
+beforeEach(() => {
+  mockedQuery.mockReset();
+  mockedQuery.mockImplementation(async (text: string) => {
+    if (text.startsWith('SELECT')) {
+      return {
+        rows: [
+          tokenRow('BNB', 'USDT', 18),
+          tokenRow('Tron', 'USDT', 6),
+          tokenRow('Solana', 'USDC', 6),
+          tokenRow('Ethereum', 'DAI', 18, false),
+        ],
+      };
+    }
+    return { rows: [] };
+  });
+});
+
+describe('token registry', () => {
+  it('seeds the devnet USDC mint when SOLANA_USDC_MINT is not set', async () => {
+    await listTokens();
+
+    const seeds = mockedQuery.mock.calls.filter(([text]) => text.includes('INSERT INTO "Tokens"'));
+    expect(seeds.map(([, params]) => params.slice(0, 3))).toContainEqual(
+      ['Solana', 'USDC', '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU'],
+    );
+  });
+
+  it('keeps token balances at the smallest decimals among their chains', async () => {
+    await listTokens();
+
+    expect(getDecimals('USDT')).toBe(6);
+    expect(getDecimals('usdc')).toBe(6);
+    expect(getDecimals('DAI')).toBe(18);
+    expect(roundAmount('1.23456789', 'USDT').toFixed()).toBe('1.234567');
+  });
+
+  it('leaves the precision of USD and the native coins alone', async () => {
+    mockedQuery.mockImplementation(async (text: string) => ({
+      rows: text.startsWith('SELECT') ? [tokenRow('BNB', 'ETH', 8)] : [],
+    }));
+    await listTokens();
+
+    expect(getDecimals('ETH')).toBe(18);
+    expect(getDecimals('USD')).toBe(4);
+  });
+
+  it('prices the native coins and every registered token', async () => {
+    expect((await getPricedSymbols()).sort()).toEqual(['BNB', 'DAI', 'ETH', 'SOL', 'TRX', 'USDC', 'USDT']);
+  });
+});
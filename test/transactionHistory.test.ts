@@ -0,0 +1,81 @@
+import { query } from '../src/db/pool';
+import { getTransactions, iterateTransactions, parseTransactionHistoryQuery } from '../src/db/wallets';
+
+jest.mock('../src/db/pool', () => ({ query: jest.fn(), withTransaction: jest.fn() }));
+jest.mock('../src/db/prisma', () => ({ __esModule: true, default: {} }));
+jest.mock('../src/utils/bcrypt', () => ({}));
+jest.mock('../src/utils/hdWallet', () => ({ HD_BLOCKCHAINS: [] }));
+
+const mockedQuery = query as jest.Mock;
+
+// History rows as the query returns them, newest first
+const rows = (count: number, start = 0) => Array.from({ length: count }, (_, i) => ({
+  key: `tx:${start + i}`,
+  id: String(start + i),
+  type: 'deposit',
+  cursorAt: new Date(Date.UTC(2026, 0, 1) - (start + i) * 1000).toISOString(),
+}));
+
+beforeEach(() => mockedQuery.mockReset());
+
+describe('parseTransactionHistoryQuery', () => {
+  it('reads filters from query string values', () => {
+    expect(parseTransactionHistoryQuery(1, {
+      type: 'swap', currency: 'usdt', from: '2026-01-01', sort: 'asc', limit: '20',
+    })).toEqual({ userId: 1, type: 'swap', currency: 'USDT', from: new Date('2026-01-01'), sort: 'asc', limit: 20 });
+  });
+
+  it('refuses unknown types, bad dates and sort orders', () => {
+    expect(() => parseTransactionHistoryQuery(1, { type: 'refund' })).toThrow('type must be one of');
+    expect(() => parseTransactionHistoryQuery(1, { to: 'yesterday' })).toThrow('Invalid to date');
+    expect(() => parseTransactionHistoryQuery(1, { sort: 'up' })).toThrow('sort must be asc or desc');
+  });
+});
+
+describe('getTransactions', () => {
+  it('returns a cursor to the next page only when there is one', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: rows(3) });
+    const page = await getTransactions({ userId: 1, limit: 2 });
+
+    expect(page.items).toEqual([{ id: '0', type: 'deposit' }, { id: '1', type: 'deposit' }]);
+    expect(page.nextCursor).toEqual(expect.any(String));
+    expect(mockedQuery.mock.calls[0][0]).toContain('LIMIT 3');
+
+    mockedQuery.mockResolvedValueOnce({ rows: rows(1, 2) });
+    const last = await getTransactions({ userId: 1, limit: 2, cursor: page.nextCursor });
+
+    expect(last.nextCursor).toBeNull();
+    const [text, values] = mockedQuery.mock.calls[1];
+    expect(text).toContain('("createdAt", key) < ($2::timestamptz, $3)');
+    expect(values).toEqual([1, rows(2)[1].cursorAt, 'tx:1']);
+  });
+
+  it('pages forward in ascending order past the cursor', async () => {
+    mockedQuery.mockResolvedValueOnce({ rows: rows(2) });
+    const page = await getTransactions({ userId: 1, limit: 1, sort: 'asc' });
+    mockedQuery.mockResolvedValueOnce({ rows: [] });
+    await getTransactions({ userId: 1, limit: 1, sort: 'asc', cursor: page.nextCursor });
+
+    expect(mockedQuery.mock.calls[1][0]).toContain('("createdAt", key) > ($2::timestamptz, $3)');
+    expect(mockedQuery.mock.calls[1][0]).toContain('ORDER BY "createdAt" ASC, key ASC');
+  });
+
+  it('refuses a cursor it did not issue', async () => {
+    await expect(getTransactions({ userId: 1, cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('iterateTransactions', () => {
+  it('yields every row across pages', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: rows(501) })
+      .mockResolvedValueOnce({ rows: rows(2, 501) });
+
+    const ids: string[] = [];
+    for await (const row of iterateTransactions({ userId: 1, type: 'deposit' })) ids.push(row.id);
+
+    expect(ids).toHaveLength(502);
+    expect(mockedQuery).toHaveBeenCalledTimes(2);
+  });
+});
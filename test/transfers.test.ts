@@ -0,0 +1,87 @@
+import { fakeDb } from './helpers/fakeDb';
+import { transferBalance } from '../src/db/wallets';
+import prisma from '../src/db/prisma';
+import { valueInUsd } from '../src/utils/exchange';
+import { setTokenDecimals, toAmount } from '../src/utils/money';
+
+jest.mock('../src/db/pool', () => require('./helpers/fakeDb').fakePool);
+jest.mock('../src/db/prisma', () => ({
+  __esModule: true,
+  default: { user: { findUnique: jest.fn(), findFirst: jest.fn() } },
+}));
+jest.mock('bcrypt', () => ({ compare: async (plain: string, hash: string) => `hashed:${plain}` === hash }));
+jest.mock('../src/utils/bcrypt', () => ({}));
+jest.mock('../src/utils/hdWallet', () => ({ HD_BLOCKCHAINS: [] }));
+jest.mock('../src/utils/exchange', () => ({ valueInUsd: jest.fn(), convertAmount: jest.fn() }));
+
+const users: Record<number, any> = {
+  1: { id: 1, status: 'active', withdrawal_password: 'hashed:secret', email: 'one@example.com' },
+  2: { id: 2, status: 'active', name: 'Two', email: 'two@example.com' },
+  3: { id: 3, status: 'suspended', email: 'three@example.com' },
+};
+
+// An earlier transfer_out of the sender today, worth usdValue
+const sentEarlier = (usdValue: string) => {
+  fakeDb.tables.transactions.push({
+    userId: 1, type: 'transfer_out', currency: 'USDT', amount: `-${usdValue}`, usdValue: `-${usdValue}`, createdAt: new Date(),
+  });
+};
+
+// As the token registry sets it
+beforeAll(() => setTokenDecimals('USDT', 6));
+
+beforeEach(() => {
+  fakeDb.reset();
+  (prisma.user.findUnique as jest.Mock).mockImplementation(async ({ where }) => users[where.id] || null);
+  (prisma.user.findFirst as jest.Mock).mockImplementation(async ({ where }) =>
+    Object.values(users).find((u) => u.email === where.email) || null);
+  (valueInUsd as jest.Mock).mockImplementation(async (amount: any) =>
+    ({ usdRate: toAmount(1), usdValue: toAmount(amount), rateSource: 'test' }));
+});
+
+describe('transferBalance', () => {
+  it('moves the balance and records both sides of the transfer', async () => {
+    fakeDb.addBalance(1, 'USDT', '50');
+
+    const transfer = await transferBalance(1, 'two@example.com', 'USDT', '20.1234567', 'secret', 'lunch');
+
+    expect(transfer).toMatchObject({ recipient: { id: 2, name: 'Two' }, amount: '20.123456' });
+    expect(fakeDb.balance(1, 'USDT')).toEqual({ amount: '29.876544', lock: '0' });
+    expect(fakeDb.balance(2, 'USDT')).toEqual({ amount: '20.123456', lock: '0' });
+    expect(fakeDb.tables.transactions.map((t) => [t.userId, t.type, t.amount, t.address])).toEqual([
+      [1, 'transfer_out', '-20.123456', 'user:2'],
+      [2, 'transfer_in', '20.123456', 'user:1'],
+    ]);
+    expect(fakeDb.tables.entries[0].description).toBe(`Transfer ${transfer.transferId}: lunch`);
+  });
+
+  it('checks the sender, the recipient and the amount before moving anything', async () => {
+    fakeDb.addBalance(1, 'USDT', '50');
+
+    await expect(transferBalance(1, '2', 'USDT', '1', 'wrong')).rejects.toThrow('Incorrect withdrawal password');
+    await expect(transferBalance(1, 'nobody@example.com', 'USDT', '1', 'secret')).rejects.toThrow('Recipient not found');
+    await expect(transferBalance(1, '1', 'USDT', '1', 'secret')).rejects.toThrow('Cannot transfer to yourself');
+    await expect(transferBalance(1, '3', 'USDT', '1', 'secret')).rejects.toThrow('Recipient account is not active');
+    await expect(transferBalance(1, '2', 'USDT', '0.0000001', 'secret')).rejects.toThrow('Invalid transfer amount');
+    await expect(transferBalance(1, '2', 'USDT', '51', 'secret')).rejects.toThrow('Insufficient balance for deduction');
+
+    expect(fakeDb.balance(1, 'USDT')).toEqual({ amount: '50', lock: '0' });
+  });
+
+  it('counts earlier transfers today against the daily USD limit', async () => {
+    fakeDb.addBalance(1, 'USDT', '5000');
+    sentEarlier('990');
+
+    await expect(transferBalance(1, '2', 'USDT', '10.01', 'secret')).rejects.toThrow('Daily transfer limit of 1000 USD exceeded');
+    await transferBalance(1, '2', 'USDT', '10', 'secret');
+
+    expect(fakeDb.balance(2, 'USDT')).toEqual({ amount: '10', lock: '0' });
+  });
+
+  it('caps the number of transfers per day', async () => {
+    fakeDb.addBalance(1, 'USDT', '50');
+    for (let i = 0; i < 20; i += 1) sentEarlier('1');
+
+    await expect(transferBalance(1, '2', 'USDT', '1', 'secret')).rejects.toThrow('Daily transfer limit of 20 transfers reached');
+  });
+});
@@ -0,0 +1,85 @@
+import { fakeDb } from './helpers/fakeDb';
+import { exchangeBalance } from '../src/db/wallets';
+import { createExchangeQuote } from '../src/db/exchangeQuotes';
+import { getExchangePairConfig } from '../src/db/exchangePairs';
+import { getExchangeRate, valueInUsd } from '../src/utils/exchange';
+import { toAmount } from '../src/utils/money';
+
+// Records whether the price oracle was asked while a transaction was open
+const mockOracle = { inTransaction: false, calledInTransaction: false };
+
+jest.mock('../src/db/pool', () => {
+  const { fakePool, fakeClient } = require('./helpers/fakeDb');
+  return {
+    ...fakePool,
+    withTransaction: async (fn: (client: any) => Promise<any>) => {
+      mockOracle.inTransaction = true;
+      try {
+        return await fn(fakeClient);
+      } finally {
+        mockOracle.inTransaction = false;
+      }
+    },
+  };
+});
+jest.mock('../src/db/prisma', () => ({ __esModule: true, default: {} }));
+jest.mock('../src/utils/bcrypt', () => ({}));
+jest.mock('../src/utils/hdWallet', () => ({ HD_BLOCKCHAINS: [] }));
+jest.mock('../src/utils/exchange', () => ({
+  getExchangeRate: jest.fn(),
+  convertAmount: jest.fn(),
+  valueInUsd: jest.fn(),
+}));
+jest.mock('../src/db/exchangePairs', () => ({
+  ...jest.requireActual('../src/db/exchangePairs'),
+  getExchangePairConfig: jest.fn(),
+}));
+
+const usdRates: Record<string, string> = { USDT: '1', ETH: '2000' };
+
+beforeEach(() => {
+  fakeDb.reset();
+  mockOracle.calledInTransaction = false;
+  (getExchangeRate as jest.Mock).mockResolvedValue(toAmount('0.0005'));
+  (getExchangePairConfig as jest.Mock).mockResolvedValue({
+    fromCurrency: 'USDT',
+    toCurrency: 'ETH',
+    spreadBps: 0,
+    flatFee: toAmount(0),
+    minAmount: null,
+    maxAmount: null,
+    enabled: true,
+  });
+  (valueInUsd as jest.Mock).mockImplementation(async (amount: string, currency: string) => {
+    if (mockOracle.inTransaction) mockOracle.calledInTransaction = true;
+    const usdRate = toAmount(usdRates[currency]);
+    return { usdRate, usdValue: toAmount(amount).times(usdRate), rateSource: 'test' };
+  });
+});
+
+describe('exchangeBalance', () => {
+  it('prices both legs before the transaction opens', async () => {
+    fakeDb.addBalance(1, 'USDT', '300');
+    const quote = await createExchangeQuote(1, 'USDT', 'ETH', '300');
+
+    await exchangeBalance(1, quote.id);
+
+    expect(mockOracle.calledInTransaction).toBe(false);
+    expect(fakeDb.tables.transactions.map((t) => [t.currency, t.usdRate, t.usdValue])).toEqual([
+      ['USDT', '1', '-300'],
+      ['ETH', '2000', '300'],
+    ]);
+  });
+
+  it('records the swap without a price when the oracle has none', async () => {
+    fakeDb.addBalance(1, 'USDT', '300');
+    const quote = await createExchangeQuote(1, 'USDT', 'ETH', '300');
+    (valueInUsd as jest.Mock).mockRejectedValue(new Error('No price'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await exchangeBalance(1, quote.id);
+
+    expect(fakeDb.balance(1, 'ETH')).toEqual({ amount: '0.15', lock: '0' });
+    expect(fakeDb.tables.transactions.map((t) => t.usdValue)).toEqual([null, null]);
+  });
+});
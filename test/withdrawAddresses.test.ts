@@ -0,0 +1,110 @@
+import { fakeClient, fakeDb } from './helpers/fakeDb';
+import {
+  addWithdrawAddress, checkWithdrawAddress, confirmWithdrawAddress, findWithdrawAddress, setWithdrawWhitelistOnly,
+} from '../src/db/withdrawAddresses';
+
+let mockCodes = 0;
+
+jest.mock('../src/db/pool', () => require('./helpers/fakeDb').fakePool);
+// Codes are issued as 100001, 100002, ... so a reissued code always differs
+jest.mock('crypto', () => ({ ...jest.requireActual('crypto'), randomInt: () => 100000 + (mockCodes += 1) }));
+
+const ADDRESS = '0x52908400098527886E0F7030069857D2E4169EE7';
+
+const add = (address = ADDRESS) => addWithdrawAddress(1, { blockchain: 'Ethereum', address, label: 'Cold wallet' });
+
+const WRONG_CODE = '999999';
+
+beforeEach(() => {
+  fakeDb.reset();
+  fakeDb.addUser({ id: 1, email: 'one@example.com' });
+  jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+});
+
+afterEach(() => jest.useRealTimers());
+
+describe('address book confirmation', () => {
+  it('emails a code for a new address and starts the cooldown once it is confirmed', async () => {
+    const { address, email, code } = await add(ADDRESS.toLowerCase());
+
+    expect(email).toBe('one@example.com');
+    expect(address).toMatchObject({ address: ADDRESS, label: 'Cold wallet', status: 'pending_confirmation' });
+
+    await expect(confirmWithdrawAddress(1, address.id, WRONG_CODE)).rejects.toThrow('Invalid or expired code');
+    const confirmed = await confirmWithdrawAddress(1, address.id, code);
+
+    expect(confirmed.status).toBe('cooling_down');
+    expect(confirmed.usableAt).toEqual(new Date('2026-01-02T00:00:00Z'));
+
+    jest.advanceTimersByTime(24 * 3600 * 1000);
+    expect((await findWithdrawAddress(1, 'Ethereum', ADDRESS)).status).toBe('active');
+  });
+
+  it('voids the code after five wrong guesses', async () => {
+    const { address, code } = await add();
+
+    for (let i = 0; i < 5; i += 1) {
+      await expect(confirmWithdrawAddress(1, address.id, WRONG_CODE)).rejects.toThrow('Invalid or expired code');
+    }
+    await expect(confirmWithdrawAddress(1, address.id, code)).rejects.toThrow('Invalid or expired code');
+  });
+
+  it('refuses a code that has expired', async () => {
+    const { address, code } = await add();
+
+    jest.advanceTimersByTime(15 * 60 * 1000 + 1);
+    await expect(confirmWithdrawAddress(1, address.id, code)).rejects.toThrow('Invalid or expired code');
+  });
+
+  it('only confirms entries of the user', async () => {
+    const { address, code } = await add();
+
+    await expect(confirmWithdrawAddress(2, address.id, code)).rejects.toThrow('Invalid or expired code');
+  });
+
+  it('reissues the code of an unconfirmed address at most once a minute', async () => {
+    const first = await add();
+    await expect(add()).rejects.toThrow('A code was sent less than 60 seconds ago');
+
+    jest.advanceTimersByTime(60 * 1000 + 1);
+    const second = await add();
+
+    expect(second.address.id).toBe(first.address.id);
+    await expect(confirmWithdrawAddress(1, first.address.id, first.code)).rejects.toThrow('Invalid or expired code');
+    await expect(confirmWithdrawAddress(1, second.address.id, second.code)).resolves.toMatchObject({ status: 'cooling_down' });
+  });
+
+  it('refuses an address that is already in the book, whatever its case on EVM chains', async () => {
+    const { address, code } = await add();
+    await confirmWithdrawAddress(1, address.id, code);
+
+    await expect(add(ADDRESS.toLowerCase())).rejects.toThrow('Address is already in your address book');
+  });
+
+  it('refuses invalid addresses and chains', async () => {
+    await expect(add('0x1234')).rejects.toThrow();
+    await expect(addWithdrawAddress(1, { blockchain: 'Bitcoin', address: ADDRESS })).rejects.toThrow('Unsupported blockchain Bitcoin');
+  });
+});
+
+describe('checkWithdrawAddress', () => {
+  const check = (address = ADDRESS) => checkWithdrawAddress(fakeClient, 1, 'Ethereum', address);
+
+  it('allows any address outside whitelist-only mode', async () => {
+    await expect(check()).resolves.toBeUndefined();
+  });
+
+  it('allows only usable book entries in whitelist-only mode', async () => {
+    await setWithdrawWhitelistOnly(1, true);
+    await expect(check()).rejects.toThrow('Withdrawals are limited to your address book');
+
+    const { address, code } = await add();
+    await expect(check()).rejects.toThrow('This address has not been confirmed yet');
+
+    await confirmWithdrawAddress(1, address.id, code);
+    await expect(check()).rejects.toThrow('This address can be used from 2026-01-02T00:00:00.000Z');
+
+    jest.advanceTimersByTime(24 * 3600 * 1000);
+    await expect(check(ADDRESS.toLowerCase())).resolves.toBeUndefined();
+  });
+});
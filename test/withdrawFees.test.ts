@@ -0,0 +1,102 @@
+import { toAmount } from '../src/utils/money';
+
+const mockEstimateTron = jest.fn();
+const mockEstimateEth = jest.fn();
+const mockGetToken = jest.fn();
+const mockGetExchangeRate = jest.fn();
+
+jest.mock('../src/blockchain/tron', () => ({ estimateTronWithdrawFee: mockEstimateTron }));
+jest.mock('../src/blockchain/ether', () => ({ estimateEthWithdrawFee: mockEstimateEth }));
+jest.mock('../src/db/tokens', () => ({
+  NATIVE_CURRENCIES: { Tron: 'TRX', Ethereum: 'ETH' },
+  getToken: mockGetToken,
+}));
+jest.mock('../src/utils/exchange', () => ({ getExchangeRate: mockGetExchangeRate }));
+
+// withdrawFees reads its settings and keeps its cache at module level, so
+// every test loads a fresh copy
+const load = (env: Record<string, string> = {}): typeof import('../src/services/withdrawFees') => {
+  const saved = process.env;
+  process.env = { ...saved, ...env };
+  let module;
+  jest.isolateModules(() => {
+    // As the token registry sets it
+    require('../src/utils/money').setTokenDecimals('USDT', 6);
+    module = require('../src/services/withdrawFees');
+  });
+  process.env = saved;
+  return module;
+};
+
+const fixed = (quote: Record<string, any>) =>
+  Object.fromEntries(Object.entries(quote).map(([key, value]) => [key, typeof value === 'string' ? value : value.toFixed()]));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockEstimateTron.mockResolvedValue(toAmount('13.5'));
+  mockEstimateEth.mockResolvedValue(toAmount('0.0001'));
+  mockGetToken.mockResolvedValue({ symbol: 'USDT', withdrawFee: toAmount('1') });
+  mockGetExchangeRate.mockResolvedValue(0.1234567);
+});
+
+describe('quoteWithdrawFee', () => {
+  it('converts the network fee to the token, rounds it up and adds the platform fee', async () => {
+    const { quoteWithdrawFee } = load({ WITHDRAW_PLATFORM_FEE_BPS: '50' });
+
+    expect(fixed(await quoteWithdrawFee('Tron', 'USDT', '100.0000001'))).toEqual({
+      blockchain: 'Tron',
+      currency: 'USDT',
+      amount: '100',
+      nativeCurrency: 'TRX',
+      networkFeeNative: '13.5',
+      // 13.5 TRX * 0.1234567
+      networkFee: '1.666666',
+      // 0.5% of 100 plus the registry's flat fee
+      platformFee: '1.5',
+      totalFee: '3.166666',
+      netAmount: '96.833334',
+    });
+    expect(mockGetExchangeRate).toHaveBeenCalledWith('TRX', 'USDT');
+    expect(mockGetToken).toHaveBeenCalledWith('Tron', 'USDT');
+  });
+
+  it('charges native coins the configured flat fee without converting', async () => {
+    const { quoteWithdrawFee } = load({ WITHDRAW_PLATFORM_FLAT_FEES: '{"ETH":0.001}' });
+    const quote = await quoteWithdrawFee('Ethereum', 'ETH', '0.0015');
+
+    expect([quote.networkFee, quote.platformFee, quote.netAmount].map((a) => a.toFixed())).toEqual(['0.0001', '0.001', '0.0004']);
+    expect(mockGetExchangeRate).not.toHaveBeenCalled();
+    expect(mockGetToken).not.toHaveBeenCalled();
+  });
+
+  it('never quotes a negative net amount', async () => {
+    const { quoteWithdrawFee } = load();
+
+    expect((await quoteWithdrawFee('Tron', 'USDT', '2')).netAmount.toFixed()).toBe('0');
+  });
+
+  it('refuses bad amounts and chains without an estimator', async () => {
+    const { quoteWithdrawFee } = load();
+
+    await expect(quoteWithdrawFee('Tron', 'USDT', '0')).rejects.toThrow('Invalid withdraw amount');
+    await expect(quoteWithdrawFee('Tron', 'USDT', 'abc')).rejects.toThrow('Invalid withdraw amount');
+    await expect(quoteWithdrawFee('TON', 'TON', '1')).rejects.toThrow('Unsupported blockchain TON');
+  });
+});
+
+describe('estimateNetworkFee', () => {
+  it('caches the estimate per chain and currency for the configured time', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const { estimateNetworkFee } = load({ WITHDRAW_FEE_CACHE_SECONDS: '10' });
+
+    await estimateNetworkFee('Tron', 'USDT');
+    await estimateNetworkFee('Tron', 'USDT');
+    await estimateNetworkFee('Tron', 'TRX');
+    expect(mockEstimateTron).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(10000);
+    await expect(estimateNetworkFee('Tron', 'USDT')).resolves.toMatchObject({ nativeCurrency: 'TRX' });
+    expect(mockEstimateTron).toHaveBeenCalledTimes(3);
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,70 @@
+import { checkWithdrawLimits } from '../src/db/withdrawLimits';
+import { toAmount } from '../src/utils/money';
+
+jest.mock('../src/db/pool', () => ({ query: jest.fn() }));
+
+type Usage = { dailyUsd?: string; weeklyUsd?: string; monthlyUsd?: string; dailyCount?: number };
+
+const limitRow = (currency: string, limits: Record<string, string | number>) => ({
+  tier: 'standard', currency, perTxUsd: null, dailyUsd: null, weeklyUsd: null, monthlyUsd: null,
+  dailyCount: null, autoApproveUsd: null, ...limits,
+});
+
+// Answers the three reads of checkWithdrawLimits: tier, limit rows and usage per row
+const clientWith = (rows: any[], usage: Record<string, Usage> = {}): any => ({
+  query: jest.fn(async (text: string, params: any[]) => {
+    if (text.includes('FROM "Users"')) return { rows: [{ tier: 'standard' }] };
+    if (text.includes('FROM "WithdrawLimits"')) return { rows };
+    const used = usage[params[1]] || {};
+    return {
+      rows: [{
+        dailyUsd: used.dailyUsd || '0',
+        weeklyUsd: used.weeklyUsd || '0',
+        monthlyUsd: used.monthlyUsd || '0',
+        dailyCount: used.dailyCount || 0,
+      }],
+    };
+  }),
+});
+
+describe('checkWithdrawLimits', () => {
+  it('auto-approves small withdrawals of tiers without limits', async () => {
+    const client = clientWith([]);
+
+    await expect(checkWithdrawLimits(client, 1, 'USDT', toAmount('200')))
+      .resolves.toEqual({ tier: 'standard', autoApprove: true });
+    await expect(checkWithdrawLimits(client, 1, 'USDT', toAmount('200.01')))
+      .resolves.toEqual({ tier: 'standard', autoApprove: false });
+  });
+
+  it('refuses a withdrawal over the per transaction limit', async () => {
+    const client = clientWith([limitRow('*', { perTxUsd: '1000' })]);
+
+    await expect(checkWithdrawLimits(client, 1, 'USDT', toAmount('1000.5')))
+      .rejects.toThrow('Maximum withdrawal is 1000 USD');
+  });
+
+  it('counts what was already withdrawn in the period', async () => {
+    const client = clientWith([limitRow('*', { dailyUsd: '500' })], { '*': { dailyUsd: '450' } });
+
+    await expect(checkWithdrawLimits(client, 1, 'USDT', toAmount('50'))).resolves.toBeTruthy();
+    await expect(checkWithdrawLimits(client, 1, 'USDT', toAmount('60')))
+      .rejects.toThrow('Daily withdrawal limit of 500 USD exceeded, 50 USD left');
+  });
+
+  it('applies the currency row on top of the overall one', async () => {
+    const rows = [limitRow('*', { weeklyUsd: '10000' }), limitRow('USDT', { dailyCount: 2 })];
+    const client = clientWith(rows, { USDT: { dailyCount: 2 } });
+
+    await expect(checkWithdrawLimits(client, 1, 'USDT', toAmount('10')))
+      .rejects.toThrow('Daily limit of 2 withdrawals for USDT reached');
+  });
+
+  it('takes the auto-approve threshold of the most specific row', async () => {
+    const rows = [limitRow('*', { autoApproveUsd: '1000' }), limitRow('ETH', { autoApproveUsd: '50' })];
+    const client = clientWith(rows);
+
+    await expect(checkWithdrawLimits(client, 1, 'ETH', toAmount('100')))
+      .resolves.toEqual({ tier: 'standard', autoApprove: false });
+  });
+});
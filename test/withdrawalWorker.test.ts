@@ -0,0 +1,105 @@
+import { fakeDb } from './helpers/fakeDb';
+import { getChainAdapter } from '../src/blockchain/adapters';
+import { broadcastWithdrawal, recoverStaleBroadcast } from '../src/services/withdrawals';
+import { toWithdrawRequest } from '../src/db/withdrawals';
+
+jest.mock('../src/db/pool', () => require('./helpers/fakeDb').fakePool);
+jest.mock('../src/db/prisma', () => ({ __esModule: true, default: {} }));
+jest.mock('../src/db/wallets', () => ({ saveTransaction: jest.fn() }));
+jest.mock('../src/utils/exchange', () => ({ convertAmount: jest.fn() }));
+jest.mock('../src/blockchain/adapters', () => ({ getChainAdapter: jest.fn() }));
+
+const chainSending = (send: (options: any) => Promise<string>) => {
+  (getChainAdapter as jest.Mock).mockReturnValue({
+    send: (currency: string, to: string, amount: any, options: any) => send(options),
+  });
+};
+
+const approved = (changes = {}) => toWithdrawRequest(fakeDb.addWithdrawal({
+  userId: 1, to: 'TAddress', currency: 'USDT', blockchain: 'Tron', status: 'approved',
+  amount: '50', cryptoAmount: '50', netAmount: '49', txHash: null, ...changes,
+}));
+
+beforeEach(() => {
+  fakeDb.reset();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('broadcastWithdrawal', () => {
+  it('stores the signed hash before sending and marks the request broadcast', async () => {
+    const withdrawal = approved();
+    let storedBeforeSend: string;
+    chainSending(async ({ onSigned }) => {
+      await onSigned('0xsigned');
+      storedBeforeSend = fakeDb.withdrawal(withdrawal.id).txHash;
+      return '0xsigned';
+    });
+
+    await broadcastWithdrawal(withdrawal);
+
+    expect(storedBeforeSend).toBe('0xsigned');
+    expect(fakeDb.withdrawal(withdrawal.id)).toMatchObject({ status: 'broadcast', txHash: '0xsigned' });
+  });
+
+  it('marks the request failed when the send throws before signing', async () => {
+    const withdrawal = approved();
+    chainSending(async () => { throw new Error('Main pool has insufficient USDT'); });
+
+    await broadcastWithdrawal(withdrawal);
+
+    expect(fakeDb.withdrawal(withdrawal.id)).toMatchObject({
+      status: 'failed', failureReason: 'Main pool has insufficient USDT', txHash: null,
+    });
+  });
+
+  it('follows the signed hash when the send throws after signing', async () => {
+    const withdrawal = approved();
+    chainSending(async ({ onSigned }) => {
+      await onSigned('0xmaybe');
+      throw new Error('socket hang up');
+    });
+
+    await broadcastWithdrawal(withdrawal);
+
+    expect(fakeDb.withdrawal(withdrawal.id)).toMatchObject({ status: 'broadcast', txHash: '0xmaybe' });
+  });
+
+  it('does not send a request that stopped broadcasting while it was signed', async () => {
+    const withdrawal = approved();
+    const broadcast = jest.fn();
+    chainSending(async ({ onSigned }) => {
+      fakeDb.withdrawal(withdrawal.id).status = 'failed';
+      await onSigned('0xlate');
+      broadcast();
+      return '0xlate';
+    });
+
+    await expect(broadcastWithdrawal(withdrawal)).rejects.toThrow('from failed to failed');
+
+    expect(broadcast).not.toHaveBeenCalled();
+    expect(fakeDb.withdrawal(withdrawal.id).txHash).toBeNull();
+  });
+});
+
+describe('recoverStaleBroadcast', () => {
+  it('follows a request that was signed before the worker stopped', async () => {
+    const withdrawal = approved({ status: 'broadcasting', txHash: '0xsigned' });
+
+    await recoverStaleBroadcast(withdrawal);
+
+    expect(fakeDb.withdrawal(withdrawal.id)).toMatchObject({ status: 'broadcast', txHash: '0xsigned' });
+  });
+
+  it('marks a request that was never signed failed, so it can be retried', async () => {
+    const withdrawal = approved({ status: 'broadcasting' });
+
+    await recoverStaleBroadcast(withdrawal);
+
+    expect(fakeDb.withdrawal(withdrawal.id)).toMatchObject({
+      status: 'failed', failureReason: 'Interrupted before the transaction was signed',
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { fakeDb } from './helpers/fakeDb';
+import { placeHold } from '../src/db/holds';
+import {
+  WITHDRAW_STATUSES, approveWithdrawal, canTransition, confirmWithdrawal, rejectWithdrawal, refundWithdrawal,
+  retryWithdrawal, transitionWithdrawal,
+} from '../src/db/withdrawals';
+
+jest.mock('../src/db/pool', () => require('./helpers/fakeDb').fakePool);
+jest.mock('../src/db/prisma', () => ({ __esModule: true, default: {} }));
+
+// A request for 50 USD with its hold in place, like withdrawRequest leaves it
+const requestWithdrawal = async (status = 'requested') => {
+  const withdrawal = fakeDb.addWithdrawal({
+    userId: 1, to: 'TAddress', currency: 'USDT', blockchain: 'Tron', status, amount: '50',
+  });
+  await placeHold(1, '50', 'USD', { type: 'withdrawal', id: withdrawal.id });
+  return withdrawal;
+};
+
+beforeEach(() => {
+  fakeDb.reset();
+  fakeDb.addBalance(1, 'USD', '100');
+});
+
+describe('withdrawal transitions', () => {
+  it('follow the lifecycle and end in a final state', () => {
+    expect(canTransition('requested', 'approved')).toBe(true);
+    expect(canTransition('approved', 'broadcasting')).toBe(true);
+    expect(canTransition('broadcast', 'confirmed')).toBe(true);
+    expect(canTransition('failed', 'approved')).toBe(true);
+
+    expect(canTransition('requested', 'broadcast')).toBe(false);
+    expect(canTransition('broadcasting', 'rejected')).toBe(false);
+    for (const status of WITHDRAW_STATUSES) {
+      expect(canTransition('confirmed', status)).toBe(false);
+      expect(canTransition('refunded', status)).toBe(false);
+    }
+  });
+
+  it('refuses a move the current status does not allow', async () => {
+    const withdrawal = await requestWithdrawal('confirmed');
+
+    await expect(rejectWithdrawal(withdrawal.id, 'too late'))
+      .rejects.toThrow(`Cannot move withdrawal #${withdrawal.id} from confirmed to rejected`);
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '50', lock: '50' });
+  });
+
+  it('stores on-chain details with the move', async () => {
+    const withdrawal = await requestWithdrawal('approved');
+
+    await transitionWithdrawal(withdrawal.id, 'broadcasting');
+    const broadcast = await transitionWithdrawal(withdrawal.id, 'broadcast', { txHash: '0xabc' });
+
+    expect(broadcast.status).toBe('broadcast');
+    expect(broadcast.txHash).toBe('0xabc');
+    expect(fakeDb.withdrawal(withdrawal.id).broadcastAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('withdrawal funds', () => {
+  it('are spent when the withdrawal confirms', async () => {
+    const withdrawal = await requestWithdrawal('broadcast');
+
+    await confirmWithdrawal(withdrawal.id, { confirmations: 19 });
+
+    expect(fakeDb.withdrawal(withdrawal.id).status).toBe('confirmed');
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '50', lock: '0' });
+  });
+
+  it('go back to the user when rejected', async () => {
+    const withdrawal = await requestWithdrawal();
+
+    await rejectWithdrawal(withdrawal.id, 'Suspicious destination');
+
+    expect(fakeDb.withdrawal(withdrawal.id).failureReason).toBe('Suspicious destination');
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '100', lock: '0' });
+  });
+
+  it('stay held through a retry and go back on refund', async () => {
+    const withdrawal = await requestWithdrawal('failed');
+
+    await retryWithdrawal(withdrawal.id);
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '50', lock: '50' });
+
+    await transitionWithdrawal(withdrawal.id, 'broadcasting');
+    await transitionWithdrawal(withdrawal.id, 'failed', { failureReason: 'node down' });
+    await refundWithdrawal(withdrawal.id);
+
+    expect(fakeDb.withdrawal(withdrawal.id).status).toBe('refunded');
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '100', lock: '0' });
+  });
+
+  it('are credited back for requests debited before holds existed', async () => {
+    const withdrawal = fakeDb.addWithdrawal({
+      userId: 1, to: 'TAddress', currency: 'USDT', blockchain: 'Tron', status: 'requested', amount: '20',
+    });
+
+    await approveWithdrawal(withdrawal.id);
+    await rejectWithdrawal(withdrawal.id, 'Changed my mind');
+
+    expect(fakeDb.balance(1, 'USD')).toEqual({ amount: '120', lock: '0' });
+  });
+});